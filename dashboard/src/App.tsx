@@ -12,6 +12,9 @@ import Apps from './components/Apps';
 import Drive from './components/Drive';
 import Traces from './components/Traces';
 import PiSessions from './components/PiSessions';
+import Usage from './components/Usage';
+import Backups from './components/Backups';
+import Search from './components/Search';
 import UnifiedSettings from './components/settings/UnifiedSettings';
 import Login from './components/Login';
 import { loadDefaults } from './utils/defaults';
@@ -68,6 +71,7 @@ function App() {
     const path = location.pathname;
     if (path === '/chat' || path === '/') return 'Chat';
     if (path.startsWith('/sessions')) return 'Sessions';
+    if (path.startsWith('/search')) return 'Search';
     if (path.startsWith('/memory')) return 'Memory';
     if (path.startsWith('/skills')) return 'Skills';
     if (path.startsWith('/jobs')) return 'Jobs';
@@ -75,10 +79,12 @@ function App() {
     if (path.startsWith('/secrets')) return 'Secrets';
     if (path.startsWith('/system')) return 'System';
     if (path.startsWith('/server')) return 'Server';
+    if (path.startsWith('/backups')) return 'Backups';
     if (path.startsWith('/apps')) return 'Apps';
     if (path.startsWith('/drive')) return 'Drive';
     if (path.startsWith('/traces')) return 'Traces';
     if (path.startsWith('/pi-sessions')) return 'Pi Sessions';
+    if (path.startsWith('/usage')) return 'Usage';
     return 'Chat';
   };
 
@@ -135,6 +141,10 @@ function App() {
         <span className="w-6 text-center text-base">📡</span>
         Sessions
       </NavLink>
+      <NavLink to="/search" className={navItemClass}>
+        <span className="w-6 text-center text-base">🔎</span>
+        Search
+      </NavLink>
       <NavLink to="/memory" className={navItemClass}>
         <span className="w-6 text-center text-base">🧠</span>
         Memory
@@ -163,6 +173,10 @@ function App() {
         <span className="w-6 text-center text-base">🧵</span>
         Pi Sessions
       </NavLink>
+      <NavLink to="/usage" className={navItemClass}>
+        <span className="w-6 text-center text-base">💰</span>
+        Usage
+      </NavLink>
 
       <div className="h-px bg-neutral-800 my-1.5 mx-2" />
       <span className="block px-3 py-1 text-[10px] font-semibold text-neutral-600 uppercase tracking-wider">Config</span>
@@ -186,6 +200,10 @@ function App() {
         <span className="w-6 text-center text-base">🖥️</span>
         Server
       </NavLink>
+      <NavLink to="/backups" className={navItemClass}>
+        <span className="w-6 text-center text-base">💾</span>
+        Backups
+      </NavLink>
 
       {authState === 'authenticated' && (
         <>
@@ -250,6 +268,7 @@ function App() {
         <Routes>
           <Route path="/chat" element={<Chat />} />
           <Route path="/sessions" element={<Sessions />} />
+          <Route path="/search" element={<Search />} />
           <Route path="/settings" element={<UnifiedSettings />} />
           <Route path="/memory" element={<Memory />} />
           <Route path="/skills" element={<Skills />} />
@@ -257,10 +276,12 @@ function App() {
           <Route path="/secrets" element={<Secrets />} />
           <Route path="/system" element={<System />} />
           <Route path="/server" element={<Server />} />
+          <Route path="/backups" element={<Backups />} />
           <Route path="/apps" element={<Apps />} />
           <Route path="/drive/*" element={<Drive />} />
           <Route path="/traces" element={<Traces />} />
           <Route path="/pi-sessions" element={<PiSessions />} />
+          <Route path="/usage" element={<Usage />} />
           {/* Redirects for old routes */}
           <Route path="/channels" element={<Navigate to="/settings?tab=channels" replace />} />
           <Route path="/harnesses" element={<Navigate to="/settings" replace />} />
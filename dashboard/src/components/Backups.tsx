@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+
+interface BackupSummary {
+  name: string;
+  createdAt: number;
+  label?: string;
+  files: number;
+  bytes: number;
+  secrets: 'encrypted' | 'skipped' | 'absent';
+}
+
+interface RestoreDiff {
+  added: string[];
+  changed: string[];
+  unchanged: number;
+  extra: string[];
+  secrets: 'added' | 'changed' | 'unchanged' | 'locked' | 'none';
+}
+
+interface BackupsInfo {
+  dir: string;
+  schedule: string | null;
+  passphraseSet: boolean;
+  backups: BackupSummary[];
+}
+
+function formatBytes(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1 ? `${mb.toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+}
+
+function DiffList({ title, paths, className }: { title: string; paths: string[]; className: string }) {
+  if (paths.length === 0) return null;
+  return (
+    <div>
+      <div className={`text-xs font-semibold mb-1 ${className}`}>{title} ({paths.length})</div>
+      <div className="max-h-[160px] overflow-y-auto bg-neutral-950 rounded-md p-2 font-mono text-xs text-neutral-400">
+        {paths.map((p) => <div key={p} className="truncate">{p}</div>)}
+      </div>
+    </div>
+  );
+}
+
+export default function Backups() {
+  const [info, setInfo] = useState<BackupsInfo | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [diff, setDiff] = useState<RestoreDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const fetchBackups = () => {
+    fetch('/api/backups')
+      .then(r => r.json())
+      .then(setInfo)
+      .catch(() => setInfo(null));
+  };
+
+  useEffect(() => {
+    fetchBackups();
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/backups', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMessage({ kind: 'ok', text: `Created ${data.backup.name}` });
+      fetchBackups();
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: `Backup failed: ${err.message}` });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDryRun = async (name: string) => {
+    setSelected(name);
+    setDiff(null);
+    setConfirmRestore(false);
+    setMessage(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/backups/${encodeURIComponent(name)}/diff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase: passphrase || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setDiff(data.diff);
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: err.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirmRestore) {
+      setConfirmRestore(true);
+      setTimeout(() => setConfirmRestore(false), 4000);
+      return;
+    }
+    setConfirmRestore(false);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/backups/${encodeURIComponent(selected)}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passphrase: passphrase || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setMessage({ kind: 'ok', text: `Restored ${selected}. Previous state saved as ${data.safetyBackup} — restart the server to reload config and secrets.` });
+      setSelected(null);
+      setDiff(null);
+      fetchBackups();
+    } catch (err: any) {
+      setMessage({ kind: 'error', text: `Restore failed: ${err.message}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col pb-8">
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-800 sticky top-0 bg-black/95 backdrop-blur z-10">
+        <h2 className="text-lg font-semibold text-white">Backups</h2>
+        <button
+          className="ml-auto px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold cursor-pointer transition-colors disabled:opacity-50"
+          onClick={handleCreate}
+          disabled={creating}
+        >
+          {creating ? 'Backing up...' : 'Back up now'}
+        </button>
+      </div>
+
+      <div className="p-4 sm:p-6 max-w-[600px] sm:max-w-[700px] mx-auto w-full space-y-4">
+        {info && (
+          <div className="text-sm text-neutral-500 space-y-1">
+            <div>Location: <span className="font-mono text-neutral-300">{info.dir}</span></div>
+            <div>Schedule: <span className="font-mono text-neutral-300">{info.schedule || 'manual only'}</span></div>
+            {!info.passphraseSet && (
+              <div className="text-amber-400">⚠️ BACKUP_PASSPHRASE isn't set — secrets.json is left out of backups. Add it in Secrets.</div>
+            )}
+          </div>
+        )}
+
+        {message && (
+          <div className={`p-3 rounded-xl text-sm border ${
+            message.kind === 'ok' ? 'bg-green-950/50 border-green-700 text-green-400' : 'bg-red-950/50 border-red-700 text-red-400'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Backup passphrase (default: BACKUP_PASSPHRASE)"
+            className="flex-1 bg-neutral-950 border border-neutral-700 rounded-md px-3 py-2 text-sm text-neutral-200 focus:outline-none focus:border-neutral-500"
+          />
+        </div>
+
+        {info?.backups.length === 0 && (
+          <div className="text-sm text-neutral-500 text-center py-8">No backups yet.</div>
+        )}
+
+        {info?.backups.map((backup) => (
+          <div key={backup.name} className="bg-neutral-900 border border-neutral-800 rounded-xl p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm text-neutral-100 font-medium">
+                  {new Date(backup.createdAt).toLocaleString()}
+                  {backup.label && <span className="ml-2 text-xs text-neutral-500">{backup.label}</span>}
+                </div>
+                <div className="text-xs text-neutral-500 font-mono truncate">
+                  {backup.files} files · {formatBytes(backup.bytes)} · secrets {backup.secrets}
+                </div>
+              </div>
+              <button
+                className="shrink-0 px-3 py-1.5 rounded-md bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 text-sm cursor-pointer transition-colors disabled:opacity-50"
+                onClick={() => handleDryRun(backup.name)}
+                disabled={busy}
+              >
+                Dry run
+              </button>
+            </div>
+
+            {selected === backup.name && diff && (
+              <div className="mt-4 space-y-3">
+                <DiffList title="Added" paths={diff.added} className="text-green-400" />
+                <DiffList title="Changed" paths={diff.changed} className="text-amber-400" />
+                <DiffList title="Not in backup — left as-is" paths={diff.extra} className="text-neutral-500" />
+                <div className="text-xs text-neutral-500">
+                  {diff.unchanged} unchanged · secrets {diff.secrets === 'locked' ? 'encrypted (enter the passphrase to compare)' : diff.secrets}
+                </div>
+                <button
+                  className={`w-full p-3 rounded-xl text-sm font-semibold cursor-pointer transition-all disabled:opacity-50 ${
+                    confirmRestore
+                      ? 'bg-red-900 border border-red-400 text-white animate-pulse'
+                      : 'bg-neutral-800 border border-neutral-700 text-red-400 hover:bg-red-950/50 hover:border-red-400'
+                  }`}
+                  onClick={handleRestore}
+                  disabled={busy}
+                >
+                  {confirmRestore ? 'Are you sure? Click again to confirm' : 'Restore this backup'}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
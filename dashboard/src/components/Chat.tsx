@@ -24,7 +24,23 @@ function playNotificationSound() {
   }
 }
 
-const POLL_INTERVAL = 5000; // 5 seconds
+// Live updates come over /ws; reconnects back off exponentially up to this cap
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+type LiveStatus = 'connecting' | 'live' | 'offline';
+
+function liveSocketUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.host}/ws`;
+}
+
+/** Mirror of the server-side hideThoughts/hideTools filters, for pushed rows */
+function passesFilter(type: string, filter: FilterState): boolean {
+  if (!filter.showThoughts && type === 'thought') return false;
+  if (!filter.showTools && (type === 'tool_start' || type === 'tool_end')) return false;
+  return true;
+}
 
 interface DashboardMessage {
   id: number;
@@ -34,6 +50,15 @@ interface DashboardMessage {
   author?: string | null;
 }
 
+/** A message waiting behind the running turn (server QueuedMessage) */
+interface QueuedMessage {
+  id: number;
+  author: string;
+  content: string;
+  attachments: number;
+  queuedAt: number;
+}
+
 interface DashboardSession {
   id: string;
   channel: string;
@@ -56,8 +81,18 @@ function Chat() {
     }
   });
   const [input, setInput] = useState('');
-  const [isTyping] = useState(false); // Unused but kept for ChatView prop
+  const [isTyping, setIsTyping] = useState(false);
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  // Text of the assistant message currently streaming in (deltas), until its row lands
+  const [streamingText, setStreamingText] = useState('');
+  const [queue, setQueue] = useState<QueuedMessage[]>([]);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('connecting');
+  // Bumped when the server can't replay everything missed — forces a full reload
+  const [reloadCount, setReloadCount] = useState(0);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // User message being edited — the next send replaces it and reruns from there
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
   const [filterState, setFilterState] = useState<FilterState>(() => {
     try {
       const saved = localStorage.getItem('chat-filter');
@@ -72,7 +107,13 @@ function Chat() {
   const lastAssistantTsRef = useRef<number | null>(null);
   const lastMessageIdRef = useRef<number | null>(null);
   const initialLoadRef = useRef(true);
-  const pollTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const wsRef = useRef<WebSocket | null>(null);
+  // Socket handlers outlive renders, so they read the current view through refs
+  const selectedSessionRef = useRef(selectedSessionId);
+  const filterRef = useRef(filterState);
+  // False while the REST load is in flight; live rows are ignored until the
+  // subscribe ack replays everything after the loaded id
+  const readyRef = useRef(false);
 
   const formatSessionLabel = useCallback((session: DashboardSession) => {
     const name = session.alias || session.id;
@@ -95,16 +136,23 @@ function Chat() {
 
   useEffect(() => {
     try { localStorage.setItem(CHAT_SESSION_STORAGE_KEY, selectedSessionId); } catch {}
+    selectedSessionRef.current = selectedSessionId;
     initialLoadRef.current = true;
     lastAssistantTsRef.current = null;
     lastMessageIdRef.current = null;
     setAllMessages([]);
+    setIsTyping(false);
+    setActiveTool(null);
+    setStreamingText('');
+    setEditingMessageId(null);
+    setEditError(null);
   }, [selectedSessionId]);
 
   const applyMessages = useCallback((rawMessages: DashboardMessage[], mode: 'replace' | 'append') => {
     if (!Array.isArray(rawMessages) || rawMessages.length === 0) return;
 
     const messages = rawMessages.map((msg) => parseDbMessage({
+      id: msg.id,
       type: msg.type,
       content: msg.content,
       timestamp: msg.timestamp,
@@ -125,32 +173,27 @@ function Chat() {
     if (latestAssistant) {
       lastAssistantTsRef.current = latestAssistant.timestamp;
     }
-    lastMessageIdRef.current = rawMessages[rawMessages.length - 1]?.id ?? lastMessageIdRef.current;
+    const lastId = rawMessages[rawMessages.length - 1]?.id;
+    if (lastId !== undefined) {
+      lastMessageIdRef.current = Math.max(lastId, lastMessageIdRef.current ?? 0);
+    }
 
     setAllMessages((prev) => (mode === 'append' ? [...prev, ...messages] : messages));
   }, []);
 
-  const fetchMessages = useCallback((filter?: FilterState, mode: 'replace' | 'append' = 'replace') => {
+  const fetchMessages = useCallback((filter?: FilterState) => {
     const params = new URLSearchParams();
     if (filter) {
       if (!filter.showThoughts) params.set('hideThoughts', 'true');
       if (!filter.showTools) params.set('hideTools', 'true');
     }
-    if (mode === 'append' && lastMessageIdRef.current) {
-      params.set('after', String(lastMessageIdRef.current));
-    }
     const url = `/api/sessions/${encodeURIComponent(selectedSessionId)}/messages${params.toString() ? '?' + params.toString() : ''}`;
-    fetch(url)
+    return fetch(url)
       .then((res) => res.json())
       .then((data) => {
         const rawMessages = Array.isArray(data) ? data : data.messages;
         if (!Array.isArray(rawMessages)) return;
 
-        if (mode === 'append') {
-          applyMessages(rawMessages as DashboardMessage[], 'append');
-          return;
-        }
-
         if (rawMessages.length === 0) {
           initialLoadRef.current = false;
           lastAssistantTsRef.current = null;
@@ -164,21 +207,147 @@ function Chat() {
       .catch((err) => console.error('Failed to load messages:', err));
   }, [applyMessages, selectedSessionId]);
 
-  // Polling — initial full load, then incremental append every 5s
+  // Rows pushed by the server (live or replayed on subscribe). Ids only grow,
+  // so anything at or below the last seen id is a duplicate.
+  const appendLiveRows = useCallback((rows: DashboardMessage[]) => {
+    const fresh = rows.filter((row) => row.id > (lastMessageIdRef.current ?? 0));
+    if (fresh.length === 0) return;
+    lastMessageIdRef.current = fresh[fresh.length - 1].id;
+    applyMessages(fresh.filter((row) => passesFilter(row.type, filterRef.current)), 'append');
+  }, [applyMessages]);
+
+  // A row changed type in place (e.g. the last thought promoted to the final reply)
+  const updateLiveRow = useCallback((row: DashboardMessage) => {
+    const parsed = parseDbMessage(row);
+    const visible = passesFilter(row.type, filterRef.current);
+    setAllMessages((prev) => {
+      const idx = prev.findIndex((m) => m.id === row.id);
+      if (idx >= 0) {
+        return visible ? prev.map((m, i) => (i === idx ? parsed : m)) : prev.filter((_, i) => i !== idx);
+      }
+      if (!visible) return prev;
+      const insertAt = prev.findIndex((m) => m.id !== undefined && m.id > row.id);
+      return insertAt < 0 ? [...prev, parsed] : [...prev.slice(0, insertAt), parsed, ...prev.slice(insertAt)];
+    });
+    if (row.type === 'assistant') playNotificationSound();
+  }, []);
+
+  const subscribeLive = useCallback(() => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !readyRef.current) return;
+    ws.send(JSON.stringify({
+      type: 'subscribe',
+      sessionId: selectedSessionRef.current,
+      afterId: lastMessageIdRef.current ?? 0,
+    }));
+  }, []);
+
+  const handleFrame = useCallback((frame: any) => {
+    if (frame?.sessionId !== selectedSessionRef.current) return;
+    switch (frame.type) {
+      case 'subscribed':
+        setIsTyping(Boolean(frame.typing));
+        setQueue(Array.isArray(frame.queue) ? frame.queue : []);
+        if (frame.truncated) setReloadCount((n) => n + 1);
+        else if (Array.isArray(frame.missed)) appendLiveRows(frame.missed);
+        break;
+      case 'queue':
+        setQueue(Array.isArray(frame.queue) ? frame.queue : []);
+        break;
+      case 'message':
+        if (frame.message?.type === 'thought' || frame.message?.type === 'assistant') setStreamingText('');
+        if (readyRef.current) appendLiveRows([frame.message]);
+        break;
+      case 'delta':
+        setStreamingText((prev) => prev + (frame.content ?? ''));
+        break;
+      case 'message_end':
+        setStreamingText('');
+        break;
+      case 'message_update':
+        if (readyRef.current) updateLiveRow(frame.message);
+        break;
+      case 'relay':
+        // Not persisted (command replies, notices) — shown until the next reload
+        setAllMessages((prev) => [...prev, { role: 'assistant', content: frame.content, timestamp: frame.timestamp ?? Date.now() }]);
+        playNotificationSound();
+        break;
+      case 'typing':
+        setIsTyping(Boolean(frame.active));
+        if (!frame.active) {
+          setActiveTool(null);
+          setStreamingText('');
+        }
+        break;
+      case 'activity':
+        if (frame.event?.kind === 'tool_start') setActiveTool(frame.event.toolName ?? null);
+        else if (frame.event?.kind === 'tool_end') setActiveTool(null);
+        break;
+    }
+  }, [appendLiveRows, updateLiveRow]);
+
+  // Live socket — one per page, reconnects with backoff and resubscribes from
+  // the last message id it saw
   useEffect(() => {
-    fetchMessages(filterState, 'replace');
+    let closed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      setLiveStatus('connecting');
+      const ws = new WebSocket(liveSocketUrl());
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        attempts = 0;
+        setLiveStatus('live');
+        subscribeLive();
+      };
+      ws.onmessage = (e) => {
+        let frame: any;
+        try {
+          frame = JSON.parse(e.data);
+        } catch {
+          return;
+        }
+        handleFrame(frame);
+      };
+      ws.onclose = () => {
+        if (wsRef.current === ws) wsRef.current = null;
+        setIsTyping(false);
+        setActiveTool(null);
+        setStreamingText('');
+        setQueue([]);
+        if (closed) return;
+        setLiveStatus('offline');
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts++);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
 
-    pollTimerRef.current = setInterval(() => {
-      fetchMessages(filterState, 'append');
-    }, POLL_INTERVAL);
+    connect();
+    return () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      wsRef.current?.close();
+      wsRef.current = null;
+    };
+  }, [handleFrame, subscribeLive]);
 
+  // Full load on session/filter change, then (re)subscribe for everything after it
+  useEffect(() => {
+    readyRef.current = false;
+    filterRef.current = filterState;
+    let cancelled = false;
+    fetchMessages(filterState).then(() => {
+      if (cancelled) return;
+      readyRef.current = true;
+      subscribeLive();
+    });
     return () => {
-      if (pollTimerRef.current) {
-        clearInterval(pollTimerRef.current);
-        pollTimerRef.current = null;
-      }
+      cancelled = true;
     };
-  }, [fetchMessages, filterState]);
+  }, [fetchMessages, filterState, subscribeLive, reloadCount]);
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -242,6 +411,29 @@ function Chat() {
       }
     }
 
+    if (editingMessageId !== null) {
+      const editedId = editingMessageId;
+      setEditingMessageId(null);
+      try {
+        const res = await fetch(`/api/sessions/${encodeURIComponent(selectedSessionId)}/messages/${editedId}/resend`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content: text, attachments: uploaded.length > 0 ? uploaded : undefined }),
+        });
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.error || 'Failed to resend');
+        setEditError(null);
+        // The edited message and everything after it were archived server-side
+        setAllMessages((prev) => prev.filter((m) => m.id === undefined || m.id < editedId));
+      } catch (err: any) {
+        console.error('Failed to resend edited message:', err);
+        setEditError(err.message);
+        setEditingMessageId(editedId);
+        setInput(text);
+      }
+      return;
+    }
+
     const payload = {
       type: 'chat' as const,
       content: text,
@@ -249,22 +441,36 @@ function Chat() {
       sessionId: selectedSessionId,
     };
 
-    // Send via HTTP POST
-    try {
-      await fetch('/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-    } catch (err) {
-      console.error('Failed to send message:', err);
+    // Send over the live socket; HTTP POST when it's down
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(payload));
+    } else {
+      try {
+        await fetch('/api/chat', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        });
+      } catch (err) {
+        console.error('Failed to send message:', err);
+      }
     }
 
-    // Fetch immediately to show our sent message, and refresh sessions in case this created/updated one
-    setTimeout(() => {
-      fetchMessages(filterState, 'append');
-      fetchSessions();
-    }, 200);
+    // Our message arrives as a pushed row; refresh sessions in case this created one
+    setTimeout(fetchSessions, 200);
+  };
+
+  const startEditing = useCallback((messageId: number, content: string) => {
+    setEditingMessageId(messageId);
+    setEditError(null);
+    setInput(content);
+  }, []);
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditError(null);
+    setInput('');
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -307,6 +513,33 @@ function Chat() {
     }
   };
 
+  // Queue controls — the server pushes the updated queue back over /ws
+  const dropQueued = async (id: number) => {
+    try {
+      await fetch(`/api/sessions/${encodeURIComponent(selectedSessionId)}/queue/${id}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to drop queued message:', err);
+    }
+  };
+
+  const moveQueued = async (id: number, position: number) => {
+    try {
+      await fetch(`/api/sessions/${encodeURIComponent(selectedSessionId)}/queue/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ position }),
+      });
+    } catch (err) {
+      console.error('Failed to move queued message:', err);
+    }
+  };
+
+  const displayMessages = useMemo(() => (
+    streamingText
+      ? [...allMessages, { role: 'assistant', content: streamingText, timestamp: Date.now() }]
+      : allMessages
+  ), [allMessages, streamingText]);
+
   // Auto-scroll to bottom on initial load
   useLayoutEffect(() => {
     if (allMessages.length > 0) {
@@ -320,9 +553,15 @@ function Chat() {
       <div className="fixed top-[52px] md:top-0 left-0 right-0 md:left-[200px] bg-neutral-900 z-[90] px-2 py-2 md:px-3 border-b border-neutral-700">
         <div className="flex items-center justify-between max-w-[1200px] mx-auto">
           <div className="flex items-center gap-2 min-w-0">
-            <div className="flex items-center gap-2 bg-neutral-800 rounded-lg px-3 py-2 text-sm shrink-0">
-              <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
-              Polling
+            <div
+              className="flex items-center gap-2 bg-neutral-800 rounded-lg px-3 py-2 text-sm shrink-0"
+              title={liveStatus === 'live' ? 'Connected' : liveStatus === 'connecting' ? 'Connecting…' : 'Disconnected — retrying'}
+            >
+              <span className={`w-2 h-2 rounded-full ${
+                liveStatus === 'live' ? 'bg-green-400' : liveStatus === 'connecting' ? 'bg-yellow-400 animate-pulse' : 'bg-red-400 animate-pulse'
+              }`} />
+              {liveStatus === 'live' ? 'Live' : liveStatus === 'connecting' ? 'Connecting' : 'Reconnecting'}
+              {activeTool && <span className="text-neutral-400 truncate max-w-[140px]">· 🔧 {activeTool}</span>}
             </div>
             <select
               value={selectedSessionId}
@@ -378,14 +617,15 @@ function Chat() {
       {/* Messages scroll naturally */}
       <div className="pt-[55px] md:pt-[60px] pb-[160px] md:pb-[180px] px-2 md:px-3">
         <MemoizedChatView
-          messages={allMessages}
-          isTyping={isTyping}
+          messages={displayMessages}
+          isTyping={isTyping && !streamingText}
           autoScroll={false}
           showFilters={true}
           static={true}
           filterState={filterState}
           onFilterStateChange={setFilterState}
           serverSideFiltering={true}
+          onEdit={startEditing}
         />
       </div>
 
@@ -399,6 +639,49 @@ function Chat() {
           style={{ display: 'none' }}
         />
 
+        {queue.length > 0 && (
+          <div className="mb-2 max-w-[1200px] mx-auto">
+            <div className="text-xs text-neutral-500 mb-1">📬 Queued ({queue.length}) — runs after the current reply</div>
+            <div className="flex flex-col gap-1 max-h-[120px] overflow-y-auto">
+              {queue.map((item, idx) => (
+                <div key={item.id} className="flex items-center gap-2 bg-neutral-800 border border-neutral-700 rounded-md px-2 py-1 text-sm">
+                  <span className="text-neutral-500 font-mono text-xs">{idx + 1}</span>
+                  <span className="text-neutral-400 shrink-0">{item.author}:</span>
+                  <span className="text-neutral-200 truncate flex-1">
+                    {item.content || '(attachment)'}
+                    {item.attachments > 0 && item.content && <span className="text-neutral-500"> · 📎 {item.attachments}</span>}
+                  </span>
+                  {idx > 0 && (
+                    <button
+                      onClick={() => moveQueued(item.id, idx - 1)}
+                      className="text-neutral-400 hover:text-white px-1"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                  )}
+                  <button
+                    onClick={() => dropQueued(item.id)}
+                    className="text-neutral-400 hover:text-red-400 px-1"
+                    title="Drop"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {editingMessageId !== null && (
+          <div className="mb-2 max-w-[1200px] mx-auto flex items-center gap-2 text-xs text-amber-400">
+            <span className="flex-1">✏️ Editing a message — sending replaces it and reruns the conversation from there{editError ? ` (${editError})` : ''}</span>
+            <button onClick={cancelEditing} className="text-neutral-400 hover:text-white px-1" title="Cancel edit">
+              ×
+            </button>
+          </div>
+        )}
+
         {attachments.length > 0 && (
           <div className="flex gap-2 mb-3 flex-wrap max-w-[1200px] mx-auto">
             {attachments.map((att, idx) => (
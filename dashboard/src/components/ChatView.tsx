@@ -20,6 +20,7 @@ interface DbMessage {
 }
 
 interface ParsedMessage {
+  id?: number; // DB row id; absent for ephemeral (never persisted) messages
   role: string;
   content: string;
   timestamp: number;
@@ -28,11 +29,18 @@ interface ParsedMessage {
   toolPhase?: 'start' | 'end';
   toolArgs?: any;
   toolResult?: any;
+  /** Set when the stored result is a preview; the full text is fetched on expand */
+  toolBlob?: { hash: string; size: number };
   isError?: boolean;
   isThought?: boolean;
   author?: string | null;
 }
 
+function formatBytes(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1 ? `${mb.toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+}
+
 function truncate(s: string, max: number): string {
   if (!s) return '';
   return s.length > max ? s.slice(0, max) + '...' : s;
@@ -58,6 +66,7 @@ export function parseDbMessage(msg: DbMessage): ParsedMessage {
 
     if (msg.type === 'tool_start' || msg.type === 'tool_end') {
       return {
+        id: msg.id,
         role: 'tool',
         content: '',
         timestamp: msg.timestamp,
@@ -65,12 +74,13 @@ export function parseDbMessage(msg: DbMessage): ParsedMessage {
         toolPhase: msg.type === 'tool_start' ? 'start' : 'end',
         toolArgs: parsed.args,
         toolResult: parsed.result,
+        toolBlob: parsed.blob,
         isError: parsed.isError,
       };
     }
 
     if (typeof parsed === 'string') {
-      return { role, content: parsed, timestamp: msg.timestamp, isThought, author: msg.author };
+      return { id: msg.id, role, content: parsed, timestamp: msg.timestamp, isThought, author: msg.author };
     }
 
     const attachments = parsed.attachments?.map((a: any) => ({
@@ -78,6 +88,7 @@ export function parseDbMessage(msg: DbMessage): ParsedMessage {
       url: a.url || (a.path ? `/attachments/${a.path.split('/').pop()}` : undefined),
     }));
     return {
+      id: msg.id,
       role,
       content: parsed.text || parsed.content || '',
       timestamp: msg.timestamp,
@@ -86,7 +97,7 @@ export function parseDbMessage(msg: DbMessage): ParsedMessage {
       author: msg.author,
     };
   } catch {
-    return { role: typeToRole(msg.type), content: msg.content, timestamp: msg.timestamp, isThought: msg.type === 'thought', author: msg.author };
+    return { id: msg.id, role: typeToRole(msg.type), content: msg.content, timestamp: msg.timestamp, isThought: msg.type === 'thought', author: msg.author };
   }
 }
 
@@ -112,6 +123,12 @@ interface ChatViewProps {
   onFilterStateChange?: (state: FilterState) => void;
   // When true, filtering is done server-side; skip client-side filtering
   serverSideFiltering?: boolean;
+  // When provided, persisted messages get a fork button (branch the session there)
+  onForkAt?: (messageId: number) => void;
+  // When provided, persisted user messages get an edit button (edit & resend)
+  onEdit?: (messageId: number, content: string) => void;
+  // Message to outline and scroll into view once it's rendered (search results)
+  highlightMessageId?: number;
 }
 
 function ChatView({ 
@@ -128,13 +145,32 @@ function ChatView({
   filterState: externalFilterState,
   onFilterStateChange,
   serverSideFiltering = false,
+  onForkAt,
+  onEdit,
+  highlightMessageId,
 }: ChatViewProps) {
   // Removed displayCount - we now show ALL messages in memory
   const [internalFilterState, setInternalFilterState] = useState<FilterState>({ showThoughts: true, showTools: true });
   const [expandedToolItems, setExpandedToolItems] = useState<Set<string>>(new Set());
+  // Full text of offloaded tool results by blob hash (null while loading)
+  const [blobTexts, setBlobTexts] = useState<Record<string, string | null>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrolledToHighlightRef = useRef<number | undefined>(undefined);
+
+  const loadBlob = (hash: string) => {
+    if (hash in blobTexts) return;
+    setBlobTexts(prev => ({ ...prev, [hash]: null }));
+    fetch(`/api/blobs/${hash}`)
+      .then(async r => {
+        if (!r.ok) throw new Error((await r.json().catch(() => null))?.error || `HTTP ${r.status}`);
+        return r.text();
+      })
+      .then(text => setBlobTexts(prev => ({ ...prev, [hash]: text })))
+      .catch(err => setBlobTexts(prev => ({ ...prev, [hash]: `⚠️ Couldn't load the full result: ${err.message}` })));
+  };
 
-  const toggleToolItem = (key: string) => {
+  const toggleToolItem = (key: string, blobHash?: string) => {
+    if (blobHash && !expandedToolItems.has(key)) loadBlob(blobHash);
     setExpandedToolItems(prev => {
       const next = new Set(prev);
       if (next.has(key)) {
@@ -241,6 +277,15 @@ function ChatView({
     }
   }, [messages, autoScroll]);
 
+  useEffect(() => {
+    if (highlightMessageId === undefined || scrolledToHighlightRef.current === highlightMessageId) return;
+    const el = document.getElementById(`message-${highlightMessageId}`);
+    if (el) {
+      el.scrollIntoView({ block: 'center' });
+      scrolledToHighlightRef.current = highlightMessageId;
+    }
+  }, [messages, highlightMessageId]);
+
   // Show ALL messages in memory - no client-side pagination
   // "Load More" only fetches from server
   const visibleMessages = messages;
@@ -273,9 +318,14 @@ function ChatView({
         const toolKey = `tool-${toolBlock[0].timestamp}`;
         const toolNames = [...new Set(toolBlock.map(t => t.toolName).filter(Boolean))];
         const hasErrors = toolBlock.some(t => t.isError);
+        const blockHighlighted = highlightMessageId !== undefined && toolBlock.some(t => t.id === highlightMessageId);
         
         elements.push(
-          <div key={toolKey} className="mb-2 p-3 rounded-lg bg-[#0d1117] border border-blue-900/50 mr-0 md:mr-[10%]">
+          <div
+            key={toolKey}
+            id={blockHighlighted ? `message-${highlightMessageId}` : undefined}
+            className={`mb-2 p-3 rounded-lg bg-[#0d1117] border border-blue-900/50 mr-0 md:mr-[10%] ${blockHighlighted ? 'ring-2 ring-amber-500/70' : ''}`}
+          >
             <div className="flex justify-between mb-2 text-sm opacity-70">
               <span className="font-semibold capitalize">
                 🔧 {toolNames.slice(0, 3).join(', ')}{toolNames.length > 3 ? ` +${toolNames.length - 3}` : ''}
@@ -290,9 +340,11 @@ function ChatView({
               {toolBlock.map((t, idx) => {
                 const itemKey = `${toolKey}-${idx}`;
                 const isItemExpanded = expandedToolItems.has(itemKey);
+                const blob = t.toolPhase === 'end' ? t.toolBlob : undefined;
+                const fullText = blob ? blobTexts[blob.hash] : undefined;
                 const content = t.toolPhase === 'start' 
                   ? t.toolArgs 
-                  : t.toolResult;
+                  : isItemExpanded && typeof fullText === 'string' ? fullText : t.toolResult;
                 
                 // Try to extract plain text from the content
                 const plainText = t.toolPhase === 'end' ? extractPlainText(content) : null;
@@ -300,7 +352,10 @@ function ChatView({
                 
                 // Use extracted plain text if available, otherwise format as JSON
                 const displayStr = isPlainTextContent ? plainText : formatJson(content);
-                const needsTruncation = displayStr.length > 200;
+                const needsTruncation = displayStr.length > 200 || !!blob;
+                const expandLabel = isItemExpanded
+                  ? (blob && fullText === null ? '⏳ loading full result…' : '▲ collapse')
+                  : `▼ expand${blob ? ` (${formatBytes(blob.size)})` : ''}`;
                 
                 return (
                   <div 
@@ -321,11 +376,11 @@ function ChatView({
                           {needsTruncation ? (
                             <div 
                               className="cursor-pointer"
-                              onClick={() => toggleToolItem(itemKey)}
+                              onClick={() => toggleToolItem(itemKey, blob?.hash)}
                             >
                               {isItemExpanded ? displayStr : truncate(displayStr, 200)}
                               <span className="block text-right text-[10px] text-blue-400 mt-1 opacity-70 hover:opacity-100">
-                                {isItemExpanded ? '▲ collapse' : '▼ expand'}
+                                {expandLabel}
                               </span>
                             </div>
                           ) : (
@@ -335,13 +390,13 @@ function ChatView({
                       ) : needsTruncation ? (
                         <div 
                           className="ml-4 bg-neutral-900 rounded p-2 overflow-x-auto cursor-pointer transition-colors hover:bg-neutral-800"
-                          onClick={() => toggleToolItem(itemKey)}
+                          onClick={() => toggleToolItem(itemKey, blob?.hash)}
                         >
                           <pre className="m-0 whitespace-pre-wrap break-words text-xs leading-snug text-neutral-300">
                             {isItemExpanded ? displayStr : truncate(displayStr, 200)}
                           </pre>
                           <span className="block text-right text-[10px] text-blue-400 mt-1 opacity-70 hover:opacity-100">
-                            {isItemExpanded ? '▲ collapse' : '▼ expand'}
+                            {expandLabel}
                           </span>
                         </div>
                       ) : (
@@ -364,15 +419,34 @@ function ChatView({
         elements.push(
           <div 
             key={`${msg.role}-${msg.timestamp}-${i}`} 
+            id={msg.id !== undefined ? `message-${msg.id}` : undefined}
             className={`mb-6 p-4 rounded-lg ${
               isUser 
                 ? 'bg-blue-950/50 ml-0 md:ml-[10%]' 
                 : 'bg-neutral-800 mr-0 md:mr-[10%]'
-            }`}
+            } ${msg.id !== undefined && msg.id === highlightMessageId ? 'ring-2 ring-amber-500/70' : ''}`}
           >
             <div className="flex justify-between mb-2 text-sm opacity-70">
               <span className="font-semibold capitalize">{roleLabel}</span>
-              <span className="text-xs">
+              <span className="flex items-center gap-2 text-xs">
+                {onEdit && isUser && msg.id !== undefined && (
+                  <button
+                    className="opacity-60 hover:opacity-100 cursor-pointer transition-opacity"
+                    onClick={() => onEdit(msg.id!, msg.content)}
+                    title="Edit and resend"
+                  >
+                    ✏️
+                  </button>
+                )}
+                {onForkAt && msg.id !== undefined && (
+                  <button
+                    className="opacity-60 hover:opacity-100 cursor-pointer transition-opacity"
+                    onClick={() => onForkAt(msg.id!)}
+                    title="Fork session here"
+                  >
+                    🍴
+                  </button>
+                )}
                 {new Date(msg.timestamp).toLocaleTimeString()}
               </span>
             </div>
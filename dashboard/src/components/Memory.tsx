@@ -21,6 +21,21 @@ interface EmbeddingsStats {
     first_day: string;
     last_day: string;
   }>;
+  activeModel?: { provider: string; model: string };
+  models?: Array<{ model: string | null; dimensions: number | null; count: number }>;
+  reembed?: ReembedStatus | null;
+}
+
+interface ReembedStatus {
+  running: boolean;
+  dryRun: boolean;
+  model: string;
+  total: number;
+  done: number;
+  failed: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
 }
 
 interface SearchResult {
@@ -37,21 +52,54 @@ interface SearchResult {
   recencyFactor: number;
   daysAgo: number;
   bm25Score: number;
+  /** Position after RRF fusion, before reranking */
+  rrfRank: number;
+  /** 0–1, null when the rerank stage didn't run */
+  rerankScore: number | null;
 }
 
 interface SearchResponse {
   query: string;
   mode: string;
   duration_ms: number;
+  /** Query rewriting (settings.memory.queryContextualizerModel) — query is null when it didn't run */
+  rewrite?: { query: string | null; sub_queries: string[]; duration_ms: number | null; skipped: string | null };
+  rerank?: { model: string | null; duration_ms: number | null; skipped: string | null };
+  /** Day range searched — from the date inputs, or a time hint in the query ("last week") */
+  time_filter?: { from?: string; to?: string; source: 'options' | 'query'; phrase?: string } | null;
   results: SearchResult[];
 }
 
+interface ChunkDetail {
+  id: number;
+  session_id: string;
+  day: string;
+  chunk_index: number;
+  text: string;
+  context: string | null;
+  /** Source message range in vito.db */
+  msg_id_start: number | null;
+  msg_id_end: number | null;
+  msg_count: number | null;
+  created_at: number;
+  edited_at: number | null;
+  pinned: boolean;
+  model: string | null;
+  dimensions: number | null;
+}
+
+interface ChunkListResponse {
+  total: number;
+  chunks: ChunkDetail[];
+  days: Array<{ day: string; count: number }>;
+}
+
 // ══════════════════════════════════════════════════════════════════════════════
 // MAIN COMPONENT
 // ══════════════════════════════════════════════════════════════════════════════
 
 function Memory() {
-  const [tab, setTab] = useState<'profile' | 'embeddings'>('profile');
+  const [tab, setTab] = useState<'profile' | 'embeddings' | 'chunks'>('profile');
 
   return (
     <div className="flex flex-col h-full">
@@ -79,11 +127,21 @@ function Memory() {
           >
             🧠 Embeddings
           </button>
+          <button
+            onClick={() => setTab('chunks')}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+              tab === 'chunks'
+                ? 'bg-blue-950 text-blue-400'
+                : 'text-neutral-400 hover:text-white hover:bg-neutral-800'
+            }`}
+          >
+            🗂️ Chunks
+          </button>
         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto">
-        {tab === 'profile' ? <ProfileTab /> : <EmbeddingsTab />}
+        {tab === 'profile' ? <ProfileTab /> : tab === 'embeddings' ? <EmbeddingsTab /> : <ChunksTab />}
       </div>
     </div>
   );
@@ -241,11 +299,14 @@ function EmbeddingsTab() {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchMode, setSearchMode] = useState<'hybrid' | 'embedding' | 'bm25'>('hybrid');
   const [searchLimit, setSearchLimit] = useState(10);
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
   const [searching, setSearching] = useState(false);
+  const [reembedError, setReembedError] = useState<string | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
+  const loadStats = useCallback(() => {
     fetch('/api/memory/embeddings/stats')
       .then(res => res.json())
       .then(data => {
@@ -255,11 +316,42 @@ function EmbeddingsTab() {
       .catch(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  // Follow a running re-embed
+  const reembedRunning = stats?.reembed?.running === true;
+  useEffect(() => {
+    if (!reembedRunning) return;
+    const timer = setInterval(loadStats, 2000);
+    return () => clearInterval(timer);
+  }, [reembedRunning, loadStats]);
+
+  const startReembed = async () => {
+    setReembedError(null);
+    try {
+      const res = await fetch('/api/memory/embeddings/reembed', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+    } catch (err: any) {
+      setReembedError(err.message);
+    }
+    loadStats();
+  };
+
+  const staleChunks = stats?.models
+    ?.filter(m => m.model !== stats.activeModel?.model)
+    .reduce((n, m) => n + m.count, 0) ?? 0;
+
   const handleSearch = useCallback(async () => {
     if (!searchQuery.trim()) return;
     setSearching(true);
     try {
-      const res = await fetch(`/api/memory/embeddings/search?q=${encodeURIComponent(searchQuery)}&mode=${searchMode}&limit=${searchLimit}`);
+      const params = new URLSearchParams({ q: searchQuery, mode: searchMode, limit: String(searchLimit) });
+      if (searchFrom) params.set('from', searchFrom);
+      if (searchTo) params.set('to', searchTo);
+      const res = await fetch(`/api/memory/embeddings/search?${params}`);
       const data = await res.json();
       setSearchResults(data);
     } catch (err) {
@@ -267,7 +359,7 @@ function EmbeddingsTab() {
     } finally {
       setSearching(false);
     }
-  }, [searchQuery, searchMode]);
+  }, [searchQuery, searchMode, searchLimit, searchFrom, searchTo]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') handleSearch();
@@ -290,6 +382,47 @@ function EmbeddingsTab() {
             <StatCard label="Days" value={stats.totalDays.toString()} />
           </div>
 
+          {/* Vectors per embedding model */}
+          {stats.activeModel && (
+            <div className="mt-4 pt-3 border-t border-neutral-800">
+              <h4 className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">Embedding Model</h4>
+              <div className="text-xs text-neutral-400 mb-2">
+                Active: <span className="font-mono text-neutral-200">{stats.activeModel.model}</span>
+                <span className="text-neutral-600"> via {stats.activeModel.provider}</span>
+              </div>
+              <div className="space-y-1">
+                {(stats.models ?? []).map((m, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs">
+                    <span className={`font-mono truncate flex-1 min-w-0 ${m.model === stats.activeModel?.model ? 'text-emerald-400' : 'text-amber-400'}`}>
+                      {m.model ?? 'no vector'}{m.dimensions ? ` · ${m.dimensions}d` : ''}
+                    </span>
+                    <span className="text-neutral-500 font-mono shrink-0">{m.count}</span>
+                  </div>
+                ))}
+              </div>
+              {stats.reembed?.running ? (
+                <div className="mt-2 text-xs text-blue-400">
+                  ⏳ Re-embedding with {stats.reembed.model}: {stats.reembed.done + stats.reembed.failed}/{stats.reembed.total}
+                  {stats.reembed.failed > 0 && <span className="text-red-400"> ({stats.reembed.failed} failed)</span>}
+                </div>
+              ) : staleChunks > 0 ? (
+                <div className="mt-2 flex items-center gap-3 text-xs">
+                  <span className="text-amber-400">{staleChunks} chunk(s) aren't searchable by meaning until re-embedded</span>
+                  <button
+                    onClick={startReembed}
+                    className="bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded-md cursor-pointer transition-colors"
+                  >
+                    Re-embed
+                  </button>
+                </div>
+              ) : null}
+              {stats.reembed && !stats.reembed.running && !stats.reembed.dryRun && stats.reembed.failed > 0 && (
+                <div className="mt-2 text-xs text-red-400">Last re-embed: {stats.reembed.failed} failed — {stats.reembed.error}</div>
+              )}
+              {reembedError && <div className="mt-2 text-xs text-red-400">{reembedError}</div>}
+            </div>
+          )}
+
           {/* Per-session breakdown */}
           {stats.sessions.length > 0 && (
             <div className="mt-4 pt-3 border-t border-neutral-800">
@@ -358,6 +491,35 @@ function EmbeddingsTab() {
             </button>
           </div>
         </div>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-neutral-500">
+          <label className="flex items-center gap-1.5">
+            From
+            <input
+              type="date"
+              value={searchFrom}
+              max={searchTo || undefined}
+              onChange={(e) => setSearchFrom(e.target.value)}
+              className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-neutral-300 focus:outline-none focus:border-blue-600 [color-scheme:dark]"
+            />
+          </label>
+          <label className="flex items-center gap-1.5">
+            To
+            <input
+              type="date"
+              value={searchTo}
+              min={searchFrom || undefined}
+              onChange={(e) => setSearchTo(e.target.value)}
+              className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-neutral-300 focus:outline-none focus:border-blue-600 [color-scheme:dark]"
+            />
+          </label>
+          {(searchFrom || searchTo) ? (
+            <button onClick={() => { setSearchFrom(''); setSearchTo(''); }} className="text-neutral-400 hover:text-neutral-200">
+              Clear dates
+            </button>
+          ) : (
+            <span className="text-neutral-600">or say it in the query — "last week", "in March"</span>
+          )}
+        </div>
 
         {/* Results */}
         {searchResults && (
@@ -368,8 +530,34 @@ function EmbeddingsTab() {
               </span>
               <span className="text-xs text-neutral-600 font-mono">
                 {searchResults.duration_ms}ms • {searchResults.mode}
+                {searchResults.rerank?.model && ` • reranked by ${searchResults.rerank.model} (${searchResults.rerank.duration_ms}ms)`}
               </span>
             </div>
+            {searchResults.time_filter && (
+              <div className="text-xs text-neutral-500 mb-3">
+                📅 {searchResults.time_filter.from ?? '…'} → {searchResults.time_filter.to ?? 'now'}
+                {searchResults.time_filter.source === 'query' && (
+                  <span className="text-neutral-600"> (from "{searchResults.time_filter.phrase}" in the query)</span>
+                )}
+              </div>
+            )}
+            {searchResults.rewrite?.query && (
+              <div className="text-xs text-neutral-500 mb-3 space-y-0.5">
+                <div>
+                  Searched as <span className="text-violet-300">"{searchResults.rewrite.query}"</span>
+                  <span className="text-neutral-600 font-mono"> ({searchResults.rewrite.duration_ms}ms)</span>
+                </div>
+                {searchResults.rewrite.sub_queries.map((q) => (
+                  <div key={q} className="pl-3 text-neutral-400">+ "{q}"</div>
+                ))}
+              </div>
+            )}
+            {searchResults.rewrite?.skipped && (
+              <div className="text-xs text-amber-400/80 mb-3">⚠️ Query rewrite skipped, searched as typed — {searchResults.rewrite.skipped}</div>
+            )}
+            {searchResults.rerank?.skipped && (
+              <div className="text-xs text-amber-400/80 mb-3">⚠️ Rerank skipped, showing RRF order — {searchResults.rerank.skipped}</div>
+            )}
 
             {searchResults.results.length === 0 ? (
               <div className="text-center text-neutral-500 py-8 text-sm">No results found</div>
@@ -400,6 +588,11 @@ function EmbeddingsTab() {
                       </div>
                       {/* Scores — wrap on mobile */}
                       <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[10px] font-mono">
+                        {result.rerankScore !== null && result.rerankScore !== undefined && (
+                          <span className="text-pink-400" title={`Rerank score (was #${result.rrfRank} by RRF)`}>
+                            RERANK {result.rerankScore.toFixed(3)} ← #{result.rrfRank}
+                          </span>
+                        )}
                         {result.rrfScore > 0 && (
                           <span className="text-emerald-400" title="RRF Score">
                             RRF {result.rrfScore.toFixed(4)}
@@ -440,6 +633,289 @@ function EmbeddingsTab() {
   );
 }
 
+// ══════════════════════════════════════════════════════════════════════════════
+// CHUNKS TAB — Browse and curate individual chunks
+// ══════════════════════════════════════════════════════════════════════════════
+
+const CHUNK_PAGE_SIZE = 50;
+
+function ChunksTab() {
+  const [sessions, setSessions] = useState<EmbeddingsStats['sessions']>([]);
+  const [sessionId, setSessionId] = useState('');
+  const [day, setDay] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [data, setData] = useState<ChunkListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/memory/embeddings/stats')
+      .then(res => res.json())
+      .then((stats: EmbeddingsStats) => setSessions(stats.sessions ?? []))
+      .catch(() => {});
+  }, []);
+
+  const load = useCallback(async (offset = 0) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(CHUNK_PAGE_SIZE), offset: String(offset) });
+      if (sessionId) params.set('session', sessionId);
+      if (day) {
+        params.set('from', day);
+        params.set('to', day);
+      }
+      if (pinnedOnly) params.set('pinned', '1');
+      const res = await fetch(`/api/memory/chunks?${params}`);
+      const page: ChunkListResponse = await res.json();
+      if (!res.ok) throw new Error((page as any).error);
+      // Keep the day list from the unfiltered-by-day view so other days stay clickable
+      setData(prev => offset > 0 && prev
+        ? { ...page, chunks: [...prev.chunks, ...page.chunks] }
+        : day && prev ? { ...page, days: prev.days } : page);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, day, pinnedOnly]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const replaceChunk = (chunk: ChunkDetail) =>
+    setData(prev => prev && { ...prev, chunks: prev.chunks.map(c => (c.id === chunk.id ? chunk : c)) });
+
+  const removeChunk = (id: number) =>
+    setData(prev => prev && { ...prev, total: prev.total - 1, chunks: prev.chunks.filter(c => c.id !== id) });
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Filters */}
+      <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={sessionId}
+            onChange={(e) => { setSessionId(e.target.value); setDay(''); }}
+            className="flex-1 min-w-0 sm:flex-none bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-xs text-neutral-300 focus:outline-none focus:border-blue-600"
+          >
+            <option value="">All sessions</option>
+            {sessions.map(s => (
+              <option key={s.session_id} value={s.session_id}>
+                {s.alias || s.session_id} ({s.count})
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-xs text-neutral-400 cursor-pointer">
+            <input type="checkbox" checked={pinnedOnly} onChange={(e) => { setPinnedOnly(e.target.checked); setDay(''); }} />
+            📌 Pinned only
+          </label>
+          <span className="text-xs text-neutral-600 ml-auto">
+            {data ? `${data.total} chunk${data.total !== 1 ? 's' : ''}` : ''}
+          </span>
+        </div>
+        {data && data.days.length > 0 && (
+          <div className="flex gap-1 overflow-x-auto pb-1">
+            <button
+              onClick={() => setDay('')}
+              className={`shrink-0 px-2 py-1 rounded-md text-[10px] font-mono transition-colors ${!day ? 'bg-blue-950 text-blue-400' : 'bg-neutral-800 text-neutral-400 hover:text-white'}`}
+            >
+              All days
+            </button>
+            {data.days.map(d => (
+              <button
+                key={d.day}
+                onClick={() => setDay(d.day === day ? '' : d.day)}
+                className={`shrink-0 px-2 py-1 rounded-md text-[10px] font-mono transition-colors ${d.day === day ? 'bg-blue-950 text-blue-400' : 'bg-neutral-800 text-neutral-400 hover:text-white'}`}
+              >
+                {d.day} <span className="text-neutral-600">{d.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {loading && !data && <div className="text-neutral-400">Loading chunks...</div>}
+      {data && data.chunks.length === 0 && !loading && (
+        <div className="text-center text-neutral-500 py-8 text-sm">No chunks</div>
+      )}
+
+      <div className="space-y-2">
+        {data?.chunks.map(chunk => (
+          <ChunkCard key={chunk.id} chunk={chunk} onChange={replaceChunk} onDelete={removeChunk} />
+        ))}
+      </div>
+
+      {data && data.chunks.length < data.total && (
+        <button
+          onClick={() => load(data.chunks.length)}
+          disabled={loading}
+          className="w-full bg-neutral-900 hover:bg-neutral-800 border border-neutral-800 text-neutral-400 text-xs py-2 rounded-lg transition-colors"
+        >
+          {loading ? '...' : `Load more (${data.total - data.chunks.length} left)`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ChunkCard({ chunk, onChange, onDelete }: {
+  chunk: ChunkDetail;
+  onChange: (chunk: ChunkDetail) => void;
+  onDelete: (id: number) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draftText, setDraftText] = useState(chunk.text);
+  const [draftContext, setDraftContext] = useState(chunk.context ?? '');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const call = async (label: string, url: string, method: string, body?: unknown) => {
+    setBusy(label);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error);
+      return result;
+    } catch (err: any) {
+      setError(err.message);
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const save = async () => {
+    const updated = await call('save', `/api/memory/chunks/${chunk.id}`, 'PUT', { text: draftText, context: draftContext });
+    if (updated) {
+      onChange(updated);
+      setEditing(false);
+    }
+  };
+
+  const togglePin = async () => {
+    const updated = await call('pin', `/api/memory/chunks/${chunk.id}/pin`, 'PUT', { pinned: !chunk.pinned });
+    if (updated) onChange(updated);
+  };
+
+  const reembed = async (regenerateContext: boolean) => {
+    const updated = await call(regenerateContext ? 'context' : 'reembed', `/api/memory/chunks/${chunk.id}/reembed`, 'POST', { regenerateContext });
+    if (updated) onChange(updated);
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete chunk #${chunk.chunk_index} from ${chunk.day}? Its messages won't be embedded again.`)) return;
+    if (await call('delete', `/api/memory/chunks/${chunk.id}`, 'DELETE')) onDelete(chunk.id);
+  };
+
+  const actionClass = 'px-2 py-1 rounded-md text-[10px] bg-neutral-800 text-neutral-400 hover:text-white disabled:opacity-50 transition-colors';
+
+  return (
+    <div className={`bg-neutral-900 border rounded-lg ${chunk.pinned ? 'border-amber-700/60' : 'border-neutral-800'}`}>
+      <div className="px-3 py-2.5">
+        <div className="flex items-baseline gap-2 flex-wrap">
+          {chunk.pinned && <span className="text-[10px]" title="Pinned — no recency decay, can't be deleted">📌</span>}
+          <span className="text-xs text-neutral-300 font-medium truncate">{chunk.session_id}</span>
+          <span className="text-[10px] text-neutral-500">{chunk.day} #{chunk.chunk_index}</span>
+          <span className="text-[10px] text-neutral-600 font-mono" title="Source message ids in vito.db">
+            msgs {chunk.msg_id_start ?? '?'}–{chunk.msg_id_end ?? '?'} ({chunk.msg_count ?? 0})
+          </span>
+          <span className={`text-[10px] font-mono ${chunk.model ? 'text-neutral-600' : 'text-amber-400'}`}>
+            {chunk.model ?? 'no vector'}
+          </span>
+          {chunk.edited_at && (
+            <span className="text-[10px] text-violet-400" title={new Date(chunk.edited_at * 1000).toLocaleString()}>edited</span>
+          )}
+        </div>
+
+        {editing ? (
+          <div className="mt-2 space-y-2">
+            <textarea
+              value={draftContext}
+              onChange={(e) => setDraftContext(e.target.value)}
+              rows={2}
+              placeholder="Context sentence"
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-xs text-neutral-200 focus:outline-none focus:border-blue-600"
+            />
+            <textarea
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              rows={12}
+              className="w-full bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-xs text-neutral-200 font-mono focus:outline-none focus:border-blue-600"
+            />
+          </div>
+        ) : (
+          chunk.context && <p className="text-xs text-neutral-400 mt-1">{chunk.context}</p>
+        )}
+
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {editing ? (
+            <>
+              <button onClick={save} disabled={!!busy || !draftText.trim()} className="px-2 py-1 rounded-md text-[10px] bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 transition-colors">
+                {busy === 'save' ? 'Saving…' : 'Save & re-embed'}
+              </button>
+              <button
+                onClick={() => setEditing(false)}
+                disabled={!!busy}
+                className={actionClass}
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={() => { setDraftText(chunk.text); setDraftContext(chunk.context ?? ''); setEditing(true); }}
+                disabled={!!busy}
+                className={actionClass}
+              >
+                ✏️ Edit
+              </button>
+              <button onClick={togglePin} disabled={!!busy} className={actionClass}>
+                {chunk.pinned ? 'Unpin' : '📌 Pin'}
+              </button>
+              <button onClick={() => reembed(false)} disabled={!!busy} className={actionClass}>
+                {busy === 'reembed' ? 'Embedding…' : '🔄 Re-embed'}
+              </button>
+              <button onClick={() => reembed(true)} disabled={!!busy} className={actionClass}>
+                {busy === 'context' ? 'Writing…' : '🧠 New context'}
+              </button>
+              <button
+                onClick={remove}
+                disabled={!!busy || chunk.pinned}
+                title={chunk.pinned ? 'Unpin to delete' : undefined}
+                className="px-2 py-1 rounded-md text-[10px] bg-neutral-800 text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+              >
+                🗑️ Delete
+              </button>
+            </>
+          )}
+        </div>
+        {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+      </div>
+
+      {!editing && (
+        <div className="px-3 pb-3 pt-0 border-t border-neutral-800">
+          <pre
+            onClick={() => setExpanded(!expanded)}
+            className={`text-xs text-neutral-300 whitespace-pre-wrap font-mono leading-relaxed mt-2 cursor-pointer ${expanded ? '' : 'max-h-32 overflow-hidden'}`}
+          >
+            {chunk.text}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function StatCard({ label, value, small }: { label: string; value: string; small?: boolean }) {
   return (
     <div className="bg-neutral-800/50 rounded-lg p-3">
@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+
+interface SearchHit {
+  id: number;
+  session_id: string;
+  alias: string | null;
+  channel: string | null;
+  timestamp: number;
+  type: string;
+  archived: number;
+  author: string | null;
+  model?: string | null;
+  snippet: string;
+}
+
+interface SessionOption {
+  id: string;
+  alias: string | null;
+}
+
+const PAGE_SIZE = 50;
+const TYPES = ['user', 'assistant', 'thought', 'tool_start', 'tool_end'];
+const TYPE_ICONS: Record<string, string> = {
+  user: '👤',
+  assistant: '🤖',
+  thought: '💭',
+  tool_start: '🔧',
+  tool_end: '✅',
+};
+// Filters kept in the URL so "back" from a session returns to the same results
+const FILTER_KEYS = ['session', 'channel', 'author', 'type', 'from', 'to', 'archived'];
+
+/** Render a snippet, turning the server's \u0002…\u0003 match markers into <mark>. */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/\u0002|\u0003/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-amber-500/30 text-amber-200 rounded px-0.5">{part}</mark>
+          : <span key={i}>{part}</span>
+      )}
+    </>
+  );
+}
+
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const query = searchParams.get('q') || '';
+  const selectedTypes = (searchParams.get('type') || '').split(',').filter(Boolean);
+
+  const [input, setInput] = useState(query);
+  const [sessions, setSessions] = useState<SessionOption[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetch('/api/sessions')
+      .then(r => r.json())
+      .then(setSessions)
+      .catch(() => setSessions([]));
+    inputRef.current?.focus();
+  }, []);
+
+  const runSearch = async (offset: number) => {
+    if (!query) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+    const params = new URLSearchParams({ q: query, limit: String(PAGE_SIZE), offset: String(offset) });
+    for (const key of FILTER_KEYS) {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    }
+    setSearching(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/search/messages?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setResults(prev => offset === 0 ? data.results : [...prev, ...data.results]);
+      setTotal(data.total);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    setInput(query);
+    runSearch(0);
+  }, [searchParams]);
+
+  const setParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    setSearchParams(next, { replace: key !== 'q' });
+  };
+
+  const toggleType = (type: string) => {
+    const next = selectedTypes.includes(type)
+      ? selectedTypes.filter(t => t !== type)
+      : [...selectedTypes, type];
+    setParam('type', next.join(','));
+  };
+
+  const hasFilters = FILTER_KEYS.some(key => searchParams.get(key));
+  const controlClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-300 focus:outline-none focus:border-blue-600';
+
+  return (
+    <div className="flex flex-col pb-8">
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-neutral-800 sticky top-0 bg-black/95 backdrop-blur z-10">
+        <h2 className="text-lg font-semibold text-white">Search</h2>
+        {query && !searching && (
+          <span className="ml-auto text-sm text-neutral-500">{total} match{total !== 1 ? 'es' : ''}</span>
+        )}
+      </div>
+
+      <div className="p-4 sm:p-6 max-w-[900px] mx-auto w-full space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setParam('q', input.trim());
+          }}
+        >
+          <input
+            ref={inputRef}
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Search messages — words, "exact phrases", prefix*'
+            className="flex-1 bg-neutral-800 border border-neutral-700 rounded-lg px-4 py-2.5 text-sm text-neutral-200 focus:outline-none focus:border-blue-600 transition-colors"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim()}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-neutral-700 disabled:text-neutral-500 text-white text-sm font-medium px-4 py-2.5 rounded-lg transition-colors whitespace-nowrap"
+          >
+            Search
+          </button>
+        </form>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={`${controlClass} max-w-[220px]`} value={searchParams.get('session') || ''} onChange={(e) => setParam('session', e.target.value)}>
+            <option value="">All sessions</option>
+            {sessions.map(s => <option key={s.id} value={s.id}>{s.alias || s.id}</option>)}
+          </select>
+          <select className={controlClass} value={searchParams.get('channel') || ''} onChange={(e) => setParam('channel', e.target.value)}>
+            <option value="">All channels</option>
+            <option value="dashboard">dashboard</option>
+            <option value="telegram">telegram</option>
+            <option value="discord">discord</option>
+          </select>
+          <input
+            key={searchParams.get('author') || ''}
+            className={`${controlClass} w-[120px]`}
+            placeholder="Author"
+            defaultValue={searchParams.get('author') || ''}
+            onBlur={(e) => setParam('author', e.target.value.trim())}
+            onKeyDown={(e) => { if (e.key === 'Enter') setParam('author', e.currentTarget.value.trim()); }}
+          />
+          <input type="date" className={controlClass} value={searchParams.get('from') || ''} onChange={(e) => setParam('from', e.target.value)} title="From" />
+          <span className="text-neutral-600 text-xs">→</span>
+          <input type="date" className={controlClass} value={searchParams.get('to') || ''} onChange={(e) => setParam('to', e.target.value)} title="To" />
+          <select className={controlClass} value={searchParams.get('archived') || ''} onChange={(e) => setParam('archived', e.target.value)}>
+            <option value="">Incl. archived</option>
+            <option value="exclude">Active only</option>
+            <option value="only">Archived only</option>
+          </select>
+          {hasFilters && (
+            <button
+              className="text-xs text-neutral-500 hover:text-neutral-300 cursor-pointer"
+              onClick={() => setSearchParams(query ? { q: query } : {})}
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-2.5 py-1 rounded-full text-xs border cursor-pointer transition-colors ${
+                selectedTypes.includes(type)
+                  ? 'bg-blue-950 border-blue-700 text-blue-300'
+                  : 'bg-neutral-900 border-neutral-800 text-neutral-500 hover:text-neutral-300'
+              }`}
+            >
+              {TYPE_ICONS[type]} {type}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-xl text-sm border bg-red-950/50 border-red-700 text-red-400">{error}</div>
+        )}
+
+        {query && !searching && results.length === 0 && !error && (
+          <div className="text-center text-neutral-500 py-8 text-sm">No messages match "{query}"</div>
+        )}
+
+        <div className="space-y-2">
+          {results.map(hit => (
+            <button
+              key={hit.id}
+              onClick={() => navigate(`/sessions?id=${encodeURIComponent(hit.session_id)}&message=${hit.id}`)}
+              className="block w-full text-left bg-neutral-900 border border-neutral-800 rounded-lg px-3 py-2.5 cursor-pointer transition-colors hover:border-neutral-600"
+            >
+              <div className="flex items-baseline gap-2 flex-wrap text-xs">
+                <span>{TYPE_ICONS[hit.type] || '•'}</span>
+                <span className="text-neutral-300 font-medium truncate max-w-[260px]" title={hit.session_id}>{hit.alias || hit.session_id}</span>
+                {hit.author && <span className="text-neutral-500">{hit.author}</span>}
+                {hit.archived ? <span className="text-neutral-600">archived</span> : null}
+                <span className="ml-auto text-neutral-600">{new Date(hit.timestamp).toLocaleString()}</span>
+              </div>
+              <div className="mt-1.5 text-sm text-neutral-400 whitespace-pre-wrap break-words line-clamp-4">
+                <Snippet text={hit.snippet} />
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {results.length < total && (
+          <div className="text-center">
+            <button
+              className="bg-neutral-800 text-neutral-400 border border-neutral-700 rounded-md px-4 py-2 cursor-pointer text-sm transition-all hover:bg-neutral-700 hover:text-neutral-200 disabled:opacity-50"
+              onClick={() => runSearch(results.length)}
+              disabled={searching}
+            >
+              {searching ? 'Loading...' : `Load more (${results.length} of ${total})`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,20 @@ interface ServerStatus {
   };
 }
 
+interface RetentionReport {
+  dryRun: boolean;
+  startedAt: number;
+  messages: { rule: string; deleted: number; stripped: number; unembedded: number; heldBack: number }[];
+  traces: number;
+  files: { target: string; dir: string; deleted: number; bytes: number }[];
+}
+
+interface RetentionInfo {
+  config: { schedule?: string } | null;
+  rules: string[];
+  lastReport: RetentionReport | null;
+}
+
 function formatUptime(seconds: number): string {
   const d = Math.floor(seconds / 86400);
   const h = Math.floor((seconds % 86400) / 3600);
@@ -33,6 +47,44 @@ export default function Server() {
   const [status, setStatus] = useState<ServerStatus | null>(null);
   const [restarting, setRestarting] = useState(false);
   const [confirmRestart, setConfirmRestart] = useState(false);
+  const [retention, setRetention] = useState<RetentionInfo | null>(null);
+  const [retentionReport, setRetentionReport] = useState<{ report: RetentionReport; summary: string } | null>(null);
+  const [pruning, setPruning] = useState(false);
+  const [confirmPrune, setConfirmPrune] = useState(false);
+  const [retentionError, setRetentionError] = useState<string | null>(null);
+
+  const fetchRetention = () => {
+    fetch('/api/retention')
+      .then(r => r.json())
+      .then(setRetention)
+      .catch(() => setRetention(null));
+  };
+
+  const runRetention = async (dryRun: boolean) => {
+    if (!dryRun && !confirmPrune) {
+      setConfirmPrune(true);
+      setTimeout(() => setConfirmPrune(false), 4000);
+      return;
+    }
+    setConfirmPrune(false);
+    setPruning(true);
+    setRetentionError(null);
+    try {
+      const res = await fetch('/api/retention/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setRetentionReport(data);
+      if (!dryRun) fetchRetention();
+    } catch (err: any) {
+      setRetentionError(err.message);
+    } finally {
+      setPruning(false);
+    }
+  };
 
   const fetchStatus = () => {
     fetch('/api/server/status')
@@ -41,6 +93,10 @@ export default function Server() {
       .catch(() => setStatus(null));
   };
 
+  useEffect(() => {
+    fetchRetention();
+  }, []);
+
   useEffect(() => {
     fetchStatus();
     const interval = setInterval(fetchStatus, 5000);
@@ -132,6 +188,71 @@ export default function Server() {
           )}
         </div>
 
+        {/* Retention Card */}
+        <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5 sm:p-6">
+          <h3 className="text-base font-semibold text-white mb-2">Retention</h3>
+          {!retention?.config ? (
+            <p className="text-sm text-neutral-500 leading-relaxed">
+              No retention rules — add a <span className="font-mono text-neutral-300">retention</span> section to vito.config.json to prune old messages, traces and logs.
+            </p>
+          ) : (
+            <>
+              <div className="text-sm text-neutral-500 mb-3 space-y-1">
+                <div>Schedule: <span className="font-mono text-neutral-300">{retention.config.schedule || 'manual only'}</span></div>
+                {retention.rules.map(rule => (
+                  <div key={rule} className="font-mono text-xs text-neutral-400">• {rule}</div>
+                ))}
+                {retention.lastReport && !retentionReport && (
+                  <div className="text-xs">Last run {new Date(retention.lastReport.startedAt).toLocaleString()}</div>
+                )}
+              </div>
+
+              {retentionError && (
+                <div className="mb-3 p-3 rounded-xl text-sm border bg-red-950/50 border-red-700 text-red-400">{retentionError}</div>
+              )}
+
+              {retentionReport && (
+                <div className="mb-3 p-3 rounded-xl bg-neutral-950 border border-neutral-800 text-xs text-neutral-400 space-y-1">
+                  <div className="text-neutral-200">{retentionReport.summary}</div>
+                  {retentionReport.report.messages.map(r => (
+                    <div key={r.rule} className="font-mono">
+                      {r.rule}: {r.deleted} deleted, {r.stripped} stripped
+                      {r.heldBack > 0 && `, ${r.heldBack} kept (not embedded)`}
+                      {retentionReport.report.dryRun && r.unembedded > 0 && `, ${r.unembedded} to embed first`}
+                    </div>
+                  ))}
+                  {retentionReport.report.files.map(f => (
+                    <div key={f.target} className="font-mono">
+                      {f.target}: {f.deleted} file(s), {formatBytes(f.bytes)}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  className="flex-1 p-3 rounded-xl text-sm font-semibold cursor-pointer transition-all bg-neutral-800 border border-neutral-700 text-neutral-300 hover:bg-neutral-700 disabled:opacity-50"
+                  onClick={() => runRetention(true)}
+                  disabled={pruning}
+                >
+                  Dry run
+                </button>
+                <button
+                  className={`flex-1 p-3 rounded-xl text-sm font-semibold cursor-pointer transition-all disabled:opacity-50 ${
+                    confirmPrune
+                      ? 'bg-red-900 border border-red-400 text-white animate-pulse'
+                      : 'bg-neutral-800 border border-neutral-700 text-red-400 hover:bg-red-950/50 hover:border-red-400'
+                  }`}
+                  onClick={() => runRetention(false)}
+                  disabled={pruning}
+                >
+                  {pruning ? 'Pruning...' : confirmPrune ? 'Click again to confirm' : 'Prune now'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Restart Card */}
         <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5 sm:p-6">
           <h3 className="text-base font-semibold text-white mb-2">Restart</h3>
@@ -11,6 +11,8 @@ interface Session {
   last_active_at: number;
   config: string;
   alias: string | null;
+  parent_id?: string | null;
+  forked_from_message_id?: number | null;
 }
 
 interface SessionConfig {
@@ -40,6 +42,8 @@ function Sessions() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const selectedSession = searchParams.get('id');
+  // Set when arriving from search — load the window around this message instead of the latest page
+  const focusMessageId = searchParams.get('message') ? parseInt(searchParams.get('message')!) : undefined;
 
   const [sessions, setSessions] = useState<Session[]>([]);
   const [allMessages, setAllMessages] = useState<Message[]>([]);
@@ -62,6 +66,7 @@ function Sessions() {
   const [editingAlias, setEditingAlias] = useState<string | null>(null);
   const [aliasInput, setAliasInput] = useState('');
   const aliasInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const fetchSessionsSilent = useCallback(async () => {
     try {
@@ -105,20 +110,21 @@ function Sessions() {
     if (!autoRefresh) return;
     const interval = setInterval(() => {
       if (selectedSession) {
-        // Poll for NEW messages only - don't blow away what's already loaded
-        fetchMessages(selectedSession, false, filterState, true);
+        // Poll for NEW messages only - don't blow away what's already loaded.
+        // Not while focused on an older message: "new" would be the rest of the session.
+        if (!focusMessageId) fetchMessages(selectedSession, false, filterState, true);
       } else {
         fetchSessionsSilent();
       }
     }, 5000);
     return () => clearInterval(interval);
-  }, [autoRefresh, selectedSession, fetchSessionsSilent, filterState]);
+  }, [autoRefresh, selectedSession, fetchSessionsSilent, filterState, focusMessageId]);
 
   useEffect(() => {
     if (selectedSession) {
       fetchMessages(selectedSession, false, filterState);
     }
-  }, [selectedSession, filterState]);
+  }, [selectedSession, filterState, focusMessageId]);
 
   const fetchSessions = async () => {
     try {
@@ -151,6 +157,10 @@ function Sessions() {
       } else if (afterId) {
         // Polling for new messages - just get what's new
         params.set('after', String(afterId));
+      } else if (focusMessageId) {
+        // Jump to a message - load the page around it
+        params.set('around', String(focusMessageId));
+        params.set('limit', String(MESSAGES_PER_PAGE));
       } else {
         // Initial load
         params.set('limit', String(MESSAGES_PER_PAGE));
@@ -261,6 +271,68 @@ function Sessions() {
   const getSelectedSessionObj = (): Session | undefined =>
     sessions.find(s => s.id === selectedSession);
 
+  // ── Forking ──
+
+  /** Branch the selected session at a message (default: the latest) and open the fork. */
+  const forkSession = async (messageId?: number) => {
+    if (!selectedSession) return;
+    try {
+      const res = await fetch(`/api/sessions/${encodeURIComponent(selectedSession)}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(messageId !== undefined ? { messageId } : {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`Fork failed: ${data.error}`);
+        return;
+      }
+      await fetchSessionsSilent();
+      setSearchParams({ id: data.session.id });
+    } catch (err) {
+      console.error('Failed to fork session:', err);
+    }
+  };
+
+  // ── Export / import ──
+
+  const exportSession = (format: 'md' | 'json' | 'html') => {
+    if (!selectedSession) return;
+    window.location.href = `/api/sessions/${encodeURIComponent(selectedSession)}/export?format=${format}`;
+  };
+
+  /** Recreate a session from a JSON export and open it. */
+  const importSession = async (file: File) => {
+    try {
+      const body = await file.text();
+      let res = await fetch('/api/sessions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      let data = await res.json();
+      if (!res.ok && /already exists/.test(data.error || '')) {
+        const id = prompt(`${data.error}\n\nImport as session id:`);
+        if (!id) return;
+        res = await fetch(`/api/sessions/import?id=${encodeURIComponent(id)}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+        });
+        data = await res.json();
+      }
+      if (!res.ok) {
+        alert(`Import failed: ${data.error}`);
+        return;
+      }
+      await fetchSessionsSilent();
+      setSearchParams({ id: data.session.id });
+    } catch (err) {
+      console.error('Failed to import session:', err);
+      alert('Import failed: not a valid session export');
+    }
+  };
+
   // Load session config to check for overrides (for indicator badge)
   const [sessionConfig, setSessionConfig] = useState<SessionConfig>({});
 
@@ -277,7 +349,7 @@ function Sessions() {
   const hasOverrides = sessionConfig.streamMode || sessionConfig.harness || sessionConfig.model || sessionConfig['pi-coding-agent'];
 
   const parsedMessages: ParsedMessage[] = allMessages.map((msg) =>
-    parseDbMessage({ type: msg.type, content: msg.content, timestamp: msg.timestamp, author: msg.author })
+    parseDbMessage({ id: msg.id, type: msg.type, content: msg.content, timestamp: msg.timestamp, author: msg.author })
   );
 
   const hasScrolledRef = useRef(false);
@@ -306,6 +378,8 @@ function Sessions() {
   if (selectedSession) {
     const currentSession = getSelectedSessionObj();
     const displayName = currentSession ? getSessionDisplayName(currentSession) : selectedSession;
+    const parentSession = currentSession?.parent_id ? sessions.find(s => s.id === currentSession.parent_id) : undefined;
+    const childSessions = sessions.filter(s => s.parent_id === selectedSession);
 
     return (
       <div className="flex flex-col pb-8">
@@ -352,6 +426,34 @@ function Sessions() {
                 </div>
               )}
               <span className="text-xs text-neutral-500">{totalMessages} messages</span>
+              {currentSession?.parent_id && (
+                <span className="text-xs text-neutral-500">
+                  {' · 🍴 forked from '}
+                  <button
+                    className="text-blue-500 hover:text-blue-400 cursor-pointer"
+                    onClick={() => setSearchParams({ id: currentSession.parent_id! })}
+                  >
+                    {parentSession ? getSessionDisplayName(parentSession) : currentSession.parent_id}
+                  </button>
+                  {currentSession.forked_from_message_id != null && ` at #${currentSession.forked_from_message_id}`}
+                </span>
+              )}
+              {childSessions.length > 0 && (
+                <span className="text-xs text-neutral-500">
+                  {' · forks: '}
+                  {childSessions.map((child, idx) => (
+                    <span key={child.id}>
+                      {idx > 0 && ', '}
+                      <button
+                        className="text-blue-500 hover:text-blue-400 cursor-pointer"
+                        onClick={() => setSearchParams({ id: child.id })}
+                      >
+                        {getSessionDisplayName(child)}
+                      </button>
+                    </span>
+                  ))}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <FilterButton
@@ -366,6 +468,24 @@ function Sessions() {
                 title={filterState.showTools ? 'Hide tools' : 'Show tools'}
                 emoji="🔧"
               />
+              <button
+                className="w-9 h-9 flex items-center justify-center rounded-md border bg-neutral-900 border-neutral-800 text-neutral-500 hover:bg-neutral-800 hover:border-neutral-700 hover:text-neutral-300 text-base cursor-pointer transition-all"
+                onClick={() => forkSession()}
+                title="Fork session (or use 🍴 on a message to fork there)"
+              >
+                🍴
+              </button>
+              <select
+                className="h-9 rounded-md border bg-neutral-900 border-neutral-800 text-neutral-500 hover:bg-neutral-800 hover:border-neutral-700 hover:text-neutral-300 text-sm px-1 cursor-pointer transition-all"
+                value=""
+                onChange={(e) => exportSession(e.target.value as 'md' | 'json' | 'html')}
+                title="Export session"
+              >
+                <option value="" disabled>⬇️</option>
+                <option value="md">Markdown</option>
+                <option value="html">HTML</option>
+                <option value="json">JSON</option>
+              </select>
               <button
                 className="w-9 h-9 flex items-center justify-center rounded-md border bg-neutral-900 border-neutral-800 text-neutral-500 hover:bg-neutral-800 hover:border-neutral-700 hover:text-neutral-300 text-base cursor-pointer transition-all active:rotate-180"
                 onClick={() => fetchMessages(selectedSession, false, filterState)}
@@ -411,6 +531,17 @@ function Sessions() {
               ↓ {pendingCount} new message{pendingCount > 1 ? 's' : ''}
             </button>
           )}
+          {focusMessageId && (
+            <div className="flex items-center justify-between gap-2 mb-3 px-3 py-2 rounded-lg bg-amber-950/40 border border-amber-800/60 text-xs text-amber-300">
+              <span>Showing message #{focusMessageId} in context</span>
+              <button
+                className="text-amber-200 hover:text-white cursor-pointer"
+                onClick={() => setSearchParams({ id: selectedSession })}
+              >
+                Jump to latest ↓
+              </button>
+            </div>
+          )}
           {allMessages.length > 0 ? (
             <ChatView
               messages={parsedMessages}
@@ -425,6 +556,8 @@ function Sessions() {
               filterState={filterState}
               onFilterStateChange={setFilterState}
               serverSideFiltering={true}
+              onForkAt={forkSession}
+              highlightMessageId={focusMessageId}
             />
           ) : (
             <div className="text-center text-neutral-500 py-12">No messages in this session</div>
@@ -449,6 +582,24 @@ function Sessions() {
             />
             Auto
           </label>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importSession(file);
+            }}
+          />
+          <button
+            className="w-8 h-8 flex items-center justify-center rounded-md border bg-neutral-900 border-neutral-800 text-neutral-500 hover:bg-neutral-800 hover:border-neutral-700 hover:text-neutral-300 text-base cursor-pointer transition-all"
+            onClick={() => importInputRef.current?.click()}
+            title="Import session (JSON export)"
+          >
+            ⬆️
+          </button>
           <button
             className="w-8 h-8 flex items-center justify-center rounded-md border bg-neutral-900 border-neutral-800 text-neutral-500 hover:bg-neutral-800 hover:border-neutral-700 hover:text-neutral-300 text-lg cursor-pointer transition-all active:rotate-180"
             onClick={fetchSessionsSilent}
@@ -541,6 +692,16 @@ function Sessions() {
                   {displayId}
                 </div>
               )}
+
+              {/* Lineage - shown for forks */}
+              {session.parent_id && (
+                <div className="text-xs text-neutral-500 mt-1">
+                  🍴 fork of {(() => {
+                    const parent = sessions.find(s => s.id === session.parent_id);
+                    return parent ? getSessionDisplayName(parent) : session.parent_id;
+                  })()}
+                </div>
+              )}
             </div>
           );
         })}
@@ -44,6 +44,8 @@ interface TraceNormalizedEvent {
   type: "normalized_event";
   ts: number;
   event: unknown;
+  /** Large tool_end results: the event holds a preview, the full text is in this blob */
+  blob?: { hash: string; size: number };
 }
 
 interface TraceMemorySearch {
@@ -53,17 +55,27 @@ interface TraceMemorySearch {
   contextual_query?: string;
   contextualizer_duration_ms?: number;
   contextualizer_skipped?: string;
+  sub_queries?: string[];
+  context_turns?: number;
+  queries?: { query: string; embedding_hits: number; bm25_hits: number }[];
+  time_filter?: { from?: string; to?: string; source: "options" | "query"; phrase?: string };
+  recency_curve?: string;
   duration_ms: number;
   results_found: number;
   results_injected: number;
+  rerank_model?: string;
+  rerank_duration_ms?: number;
+  rerank_skipped?: string;
   results: {
     id: number;
     session_id: string;
     day: string;
     context: string | null;
     rrf_score: number;
+    rrf_rank?: number;
     embedding_score: number;
     bm25_score: number;
+    rerank_score?: number | null;
     text_preview: string;
     full_text?: string;  // Full chunk text (for expanded view)
   }[];
@@ -204,6 +216,7 @@ function Traces() {
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const [showRaw, setShowRaw] = useState(false); // Hide raw events by default
+  const [blobTexts, setBlobTexts] = useState<Record<string, string | null>>({}); // Full tool results by hash (null = loading)
   
   // Filters
   const [traceTypeFilter, setTraceTypeFilter] = useState<string>(() => {
@@ -313,6 +326,18 @@ function Traces() {
     return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
   };
 
+  const loadBlob = async (hash: string) => {
+    setBlobTexts(prev => ({ ...prev, [hash]: null }));
+    try {
+      const res = await fetch(`/api/blobs/${hash}`);
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || `HTTP ${res.status}`);
+      const text = await res.text();
+      setBlobTexts(prev => ({ ...prev, [hash]: text }));
+    } catch (err: any) {
+      setBlobTexts(prev => ({ ...prev, [hash]: `⚠️ Couldn't load the full result: ${err.message}` }));
+    }
+  };
+
   const formatMs = (ms: number) => {
     if (ms < 1000) return `${ms}ms`;
     return `${(ms / 1000).toFixed(2)}s`;
@@ -500,6 +525,31 @@ function Traces() {
                     <div>Contextualizer: <span className="text-neutral-300 font-mono">{formatMs(memorySearch.contextualizer_duration_ms)}</span>{memorySearch.contextualizer_skipped ? <span className="text-neutral-600"> — {memorySearch.contextualizer_skipped}</span> : null}</div>
                   )}
                   <div>Search text: <span className="text-neutral-300 font-mono whitespace-pre-wrap">"{memorySearch.query}"</span></div>
+                  {memorySearch.time_filter && (
+                    <div>Days: <span className="text-neutral-300 font-mono">{memorySearch.time_filter.from ?? '…'} → {memorySearch.time_filter.to ?? 'now'}</span>{memorySearch.time_filter.phrase ? <span className="text-neutral-600"> — "{memorySearch.time_filter.phrase}"</span> : null}</div>
+                  )}
+                  {memorySearch.recency_curve && memorySearch.recency_curve !== 'hyperbolic' && (
+                    <div>Recency: <span className="text-neutral-300 font-mono">{memorySearch.recency_curve}</span></div>
+                  )}
+                  {memorySearch.context_turns !== undefined && (
+                    <div>Session turns seen: <span className="text-neutral-300 font-mono">{memorySearch.context_turns}</span></div>
+                  )}
+                  {memorySearch.queries && memorySearch.queries.length > 1 && (
+                    <div>
+                      Queries:
+                      <div className="mt-1 space-y-0.5">
+                        {memorySearch.queries.map((q, i) => (
+                          <div key={i} className="pl-3 font-mono">
+                            <span className={i === 0 ? 'text-neutral-300' : 'text-violet-300'}>"{q.query}"</span>
+                            <span className="text-neutral-600"> — {q.embedding_hits} emb, {q.bm25_hits} bm25</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {(memorySearch.rerank_model || memorySearch.rerank_skipped) && (
+                    <div>Rerank: <span className="text-neutral-300 font-mono">{memorySearch.rerank_model ?? '—'}</span>{memorySearch.rerank_duration_ms !== undefined && <span className="text-neutral-300 font-mono"> {formatMs(memorySearch.rerank_duration_ms)}</span>}{memorySearch.rerank_skipped ? <span className="text-neutral-600"> — {memorySearch.rerank_skipped}</span> : null}</div>
+                  )}
                 </div>
                 {memorySearch.results.length > 0 ? (
                   <div className="space-y-2">
@@ -515,6 +565,9 @@ function Traces() {
                           <span className="text-xs text-neutral-400 font-mono">{r.day}</span>
                           <span className="text-xs text-neutral-600 font-mono truncate">{r.session_id}</span>
                           <div className="ml-auto flex items-center gap-2">
+                            {r.rerank_score !== null && r.rerank_score !== undefined && (
+                              <span className="text-xs text-neutral-600" title={r.rrf_rank ? `Rerank Score (RRF rank #${r.rrf_rank})` : 'Rerank Score'}>RERANK: <span className="text-pink-400">{r.rerank_score.toFixed(3)}</span></span>
+                            )}
                             <span className="text-xs text-neutral-600" title="RRF Score">RRF: <span className="text-neutral-400">{r.rrf_score.toFixed(4)}</span></span>
                             <span className="text-xs text-neutral-600" title="Embedding Score">EMB: <span className="text-neutral-400">{r.embedding_score.toFixed(3)}</span></span>
                             <span className="text-xs text-neutral-600" title="BM25 Score">BM25: <span className="text-neutral-400">{r.bm25_score.toFixed(2)}</span></span>
@@ -845,6 +898,8 @@ function Traces() {
       }
       
       const preview = eventStr.length > 100 ? eventStr.slice(0, 100) + '…' : eventStr;
+      const blob = !isRaw ? (e as TraceNormalizedEvent).blob : undefined;
+      const blobText = blob ? blobTexts[blob.hash] : undefined;
 
       return (
         <div 
@@ -872,6 +927,26 @@ function Traces() {
               {eventStr}
             </pre>
           )}
+          {isExpanded && blob && (
+            <div className="mt-2 ml-16">
+              {typeof blobText === 'string' ? (
+                <>
+                  <div className="text-xs text-neutral-500 mb-1">Full result ({formatSize(blob.size)})</div>
+                  <pre className="text-xs text-neutral-400 font-mono overflow-x-auto whitespace-pre-wrap break-words bg-neutral-800/50 p-2 rounded max-h-[600px] overflow-y-auto">
+                    {blobText}
+                  </pre>
+                </>
+              ) : (
+                <button
+                  className="text-xs text-blue-400 hover:text-blue-300 font-mono bg-blue-500/10 hover:bg-blue-500/20 px-2 py-1 rounded transition-colors disabled:opacity-50"
+                  onClick={() => loadBlob(blob.hash)}
+                  disabled={blobText === null}
+                >
+                  {blobText === null ? 'Loading…' : `Load full result (${formatSize(blob.size)})`}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       );
     });
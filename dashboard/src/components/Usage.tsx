@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+
+// ══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ══════════════════════════════════════════════════════════════════════════════
+
+interface UsageSummary {
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+interface UsageGroup extends UsageSummary {
+  key: string | null;
+  alias?: string | null;
+}
+
+interface UsageResponse {
+  period: 'day' | 'month';
+  from: number;
+  to: number;
+  totals: UsageSummary;
+  buckets: Array<UsageSummary & { bucket: string }>;
+  bySession: UsageGroup[];
+  byCronJob: UsageGroup[];
+  byChannel: UsageGroup[];
+  byHarness: UsageGroup[];
+  byModel: UsageGroup[];
+}
+
+type Breakdown = 'session' | 'cron' | 'channel' | 'model' | 'harness';
+
+const BREAKDOWNS: Array<{ id: Breakdown; label: string }> = [
+  { id: 'session', label: '📡 Session' },
+  { id: 'cron', label: '⏰ Cron job' },
+  { id: 'channel', label: '💬 Channel' },
+  { id: 'model', label: '🤖 Model' },
+  { id: 'harness', label: '🧩 Harness' },
+];
+
+// ══════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ══════════════════════════════════════════════════════════════════════════════
+
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function groupLabel(group: UsageGroup, breakdown: Breakdown): string {
+  if (breakdown === 'session' && group.alias) return group.alias;
+  return group.key ?? '(unknown)';
+}
+
+// ══════════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ══════════════════════════════════════════════════════════════════════════════
+
+export default function Usage() {
+  const [period, setPeriod] = useState<'day' | 'month'>('day');
+  const [breakdown, setBreakdown] = useState<Breakdown>('session');
+  const [data, setData] = useState<UsageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/usage?period=${period}`)
+      .then(res => res.json())
+      .then((json) => {
+        if (json.error) throw new Error(json.error);
+        setData(json as UsageResponse);
+        setError(null);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [period]);
+
+  const groups: UsageGroup[] = !data ? [] : {
+    session: data.bySession,
+    cron: data.byCronJob,
+    channel: data.byChannel,
+    model: data.byModel,
+    harness: data.byHarness,
+  }[breakdown];
+
+  const maxBucketCost = data ? Math.max(0, ...data.buckets.map(b => b.cost)) : 0;
+  const maxGroupCost = Math.max(0, ...groups.map(g => g.cost));
+
+  return (
+    <div className="flex flex-col pb-8">
+      {/* Header */}
+      <div className="flex items-center gap-4 px-4 py-3 border-b border-neutral-800 sticky top-0 bg-black/95 backdrop-blur z-10">
+        <h2 className="text-lg font-semibold text-white">Usage</h2>
+        <div className="flex gap-1 bg-neutral-900 rounded-lg p-0.5">
+          {(['day', 'month'] as const).map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                period === p
+                  ? 'bg-blue-950 text-blue-400'
+                  : 'text-neutral-400 hover:text-white hover:bg-neutral-800'
+              }`}
+            >
+              {p === 'day' ? 'Daily' : 'Monthly'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && !data && <div className="p-4 text-neutral-400">Loading usage...</div>}
+      {error && <div className="p-4 text-red-400">Error: {error}</div>}
+
+      {data && (
+        <div className="p-4 sm:p-6 max-w-[900px] mx-auto w-full space-y-4">
+          {/* Totals */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard label="Cost" value={formatCost(data.totals.cost)} />
+            <StatCard label="Turns" value={String(data.totals.turns)} />
+            <StatCard label="Tokens" value={formatTokens(data.totals.total_tokens)} />
+            <StatCard
+              label="Cache read"
+              value={formatTokens(data.totals.cache_read_tokens)}
+              hint={`${formatTokens(data.totals.cache_write_tokens)} written`}
+            />
+          </div>
+
+          {/* Rollup */}
+          <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5">
+            <h3 className="text-base font-semibold text-white mb-4">
+              {period === 'day' ? 'Last 30 days' : 'Last 12 months'}
+            </h3>
+            {data.buckets.length === 0 ? (
+              <div className="text-sm text-neutral-500">No usage recorded yet.</div>
+            ) : (
+              <div className="flex flex-col gap-1.5">
+                {data.buckets.map(b => (
+                  <div key={b.bucket} className="flex items-center gap-3 text-sm">
+                    <span className="w-24 shrink-0 text-neutral-500 font-mono">{b.bucket}</span>
+                    <div className="flex-1 h-3 bg-neutral-800 rounded overflow-hidden">
+                      <div
+                        className="h-full bg-blue-600"
+                        style={{ width: `${maxBucketCost > 0 ? (b.cost / maxBucketCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-20 shrink-0 text-right text-neutral-300 font-mono">{formatCost(b.cost)}</span>
+                    <span className="w-16 shrink-0 text-right text-neutral-500 font-mono hidden sm:inline">{formatTokens(b.total_tokens)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Breakdown */}
+          <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5">
+            <div className="flex flex-wrap gap-1 mb-4">
+              {BREAKDOWNS.map(b => (
+                <button
+                  key={b.id}
+                  onClick={() => setBreakdown(b.id)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    breakdown === b.id
+                      ? 'bg-blue-950 text-blue-400'
+                      : 'text-neutral-400 hover:text-white hover:bg-neutral-800'
+                  }`}
+                >
+                  {b.label}
+                </button>
+              ))}
+            </div>
+            {groups.length === 0 ? (
+              <div className="text-sm text-neutral-500">Nothing in this period.</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-neutral-500 text-left">
+                    <th className="font-medium pb-2">Name</th>
+                    <th className="font-medium pb-2 text-right">Turns</th>
+                    <th className="font-medium pb-2 text-right hidden sm:table-cell">Tokens</th>
+                    <th className="font-medium pb-2 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(g => (
+                    <tr key={g.key ?? '(unknown)'} className="border-t border-neutral-800">
+                      <td className="py-2 pr-3">
+                        <div className="text-neutral-200 truncate max-w-[360px]" title={g.key ?? undefined}>
+                          {groupLabel(g, breakdown)}
+                        </div>
+                        {breakdown === 'session' && g.alias && (
+                          <div className="text-xs text-neutral-600 font-mono truncate max-w-[360px]">{g.key}</div>
+                        )}
+                        <div className="h-1 mt-1 bg-neutral-800 rounded overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600/70"
+                            style={{ width: `${maxGroupCost > 0 ? (g.cost / maxGroupCost) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </td>
+                      <td className="py-2 text-right text-neutral-400 font-mono">{g.turns}</td>
+                      <td className="py-2 text-right text-neutral-400 font-mono hidden sm:table-cell">{formatTokens(g.total_tokens)}</td>
+                      <td className="py-2 text-right text-neutral-200 font-mono">{formatCost(g.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-4">
+      <div className="text-xs text-neutral-500 uppercase tracking-wider">{label}</div>
+      <div className="text-xl text-white font-semibold font-mono mt-1">{value}</div>
+      {hint && <div className="text-xs text-neutral-600 mt-0.5">{hint}</div>}
+    </div>
+  );
+}
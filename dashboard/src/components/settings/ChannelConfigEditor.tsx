@@ -17,6 +17,12 @@ const STREAM_MODES = [
   { value: 'final', label: 'Final' },
 ];
 
+const QUEUE_MODES = [
+  { value: 'sequential', label: 'One by one' },
+  { value: 'coalesce', label: 'Coalesce' },
+  { value: 'steer', label: 'Steer' },
+];
+
 const HARNESSES = [
   { value: 'pi-coding-agent', label: 'Pi' },
   { value: 'claude-code', label: 'Claude Code' },
@@ -265,6 +271,17 @@ export default function ChannelConfigEditor({ name, channelConfig, config, onSav
               renderInput={(val, onChange) => renderSegmented(val, onChange, STREAM_MODES)}
             />
 
+            <SettingRow
+              label="Queue Mode"
+              hint="Messages sent mid-reply: one turn each, coalesced into one, or steered into the running reply"
+              inheritedValue={globalResolved.queueMode}
+              inheritedFrom="global"
+              overrideValue={channelSettings.queueMode}
+              onOverride={(val) => updateChannelSetting('queueMode', val)}
+              onReset={() => resetChannelSetting('queueMode')}
+              renderInput={(val, onChange) => renderSegmented(val, onChange, QUEUE_MODES)}
+            />
+
             <SettingRow
               label="Require @Mention"
               inheritedValue={globalResolved.requireMention !== false}
@@ -15,6 +15,12 @@ const STREAM_MODES = [
   { value: 'final', label: 'Final' },
 ];
 
+const QUEUE_MODES = [
+  { value: 'sequential', label: 'One by one' },
+  { value: 'coalesce', label: 'Coalesce' },
+  { value: 'steer', label: 'Steer' },
+];
+
 const HARNESSES = [
   { value: 'pi-coding-agent', label: 'Pi' },
   { value: 'claude-code', label: 'Claude Code' },
@@ -68,6 +74,10 @@ function ToggleRow({ title, description, value, onChange, auto, onAutoChange }:
 
 const CHUNK_CONTEXTUALIZER_DEFAULT = { provider: 'openrouter', name: 'openai/gpt-5.4-nano' };
 
+// Memory models edited with the picker below. The query rewriter has no
+// default — unset means search queries run as typed.
+type MemoryModelField = 'chunkContextualizerModel' | 'queryContextualizerModel';
+
 // Shared style with HarnessConfigEditor's selects so the Memory picker looks
 // identical to the Pi/CC pickers.
 const selectClass = "w-full sm:w-64 bg-neutral-950 border border-neutral-700 rounded-md px-3 py-2 text-neutral-200 text-sm focus:outline-none focus:border-blue-600 transition-colors cursor-pointer appearance-none bg-[url('data:image/svg+xml,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2210%22%20height%3D%2210%22%20viewBox%3D%220%200%2012%2012%22%3E%3Cpath%20fill%3D%22%23666%22%20d%3D%22M6%208L1%203h10z%22%2F%3E%3C%2Fsvg%3E')] bg-no-repeat bg-[right_0.75rem_center] pr-8";
@@ -79,10 +89,11 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
   const [localCustomInstructions, setLocalCustomInstructions] = useState(settings.customInstructions || '');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Memory chunk contextualizer picker state — mirrors HarnessConfigEditor's
-  // edit/save flow. Read-only view shows the active model; Edit reveals
-  // provider + model dropdowns sourced from /api/models.
-  const [editingChunkModel, setEditingChunkModel] = useState(false);
+  // Memory model picker state (chunk contextualizer / query rewriter) —
+  // mirrors HarnessConfigEditor's edit/save flow. Read-only view shows the
+  // active models; Edit reveals provider + model dropdowns sourced from
+  // /api/models for the one being edited.
+  const [editingMemoryModel, setEditingMemoryModel] = useState<MemoryModelField | null>(null);
   const [chunkProvider, setChunkProvider] = useState('');
   const [chunkModelName, setChunkModelName] = useState('');
   const [chunkProviders, setChunkProviders] = useState<string[]>([]);
@@ -99,10 +110,10 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
     setLocalCustomInstructions(config.settings?.customInstructions || '');
   }, [config.settings?.customInstructions]);
 
-  // Seed the chunk model picker from config (or defaults) whenever entering edit mode.
+  // Seed the memory model picker from config (or defaults) whenever entering edit mode.
   useEffect(() => {
-    if (!editingChunkModel) return;
-    const saved = config.settings?.memory?.chunkContextualizerModel;
+    if (!editingMemoryModel) return;
+    const saved = config.settings?.memory?.[editingMemoryModel];
     const initialProvider = saved?.provider || CHUNK_CONTEXTUALIZER_DEFAULT.provider;
     const initialName = saved?.name || CHUNK_CONTEXTUALIZER_DEFAULT.name;
     setChunkProvider(initialProvider);
@@ -112,7 +123,7 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
       .then((data) => setChunkProviders(data.providers || []))
       .catch(() => setChunkProviders([]));
     if (initialProvider) loadChunkModels(initialProvider);
-  }, [editingChunkModel]);
+  }, [editingMemoryModel]);
 
   const loadChunkModels = async (provider: string) => {
     setChunkLoadingModels(true);
@@ -131,16 +142,16 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
     loadChunkModels(provider);
   };
 
-  const saveChunkModel = async () => {
-    if (!chunkProvider || !chunkModelName) return;
+  const saveMemoryModel = async () => {
+    if (!editingMemoryModel || !chunkProvider || !chunkModelName) return;
     setSavingChunkModel(true);
-    await updateSetting('memory.chunkContextualizerModel', { provider: chunkProvider, name: chunkModelName });
-    setEditingChunkModel(false);
+    await updateSetting(`memory.${editingMemoryModel}`, { provider: chunkProvider, name: chunkModelName });
+    setEditingMemoryModel(null);
     setSavingChunkModel(false);
   };
 
-  const resetChunkModel = async () => {
-    await updateSetting('memory.chunkContextualizerModel', undefined);
+  const resetMemoryModel = async (field: MemoryModelField) => {
+    await updateSetting(`memory.${field}`, undefined);
   };
 
   // Auto-resize textarea
@@ -222,22 +233,11 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
       <section className="bg-neutral-900 border border-neutral-800 rounded-xl p-5">
         <div className="flex items-center justify-between mb-1">
           <h3 className="text-base font-semibold text-white">Memory</h3>
-          {!editingChunkModel ? (
-            <div className="flex gap-3">
-              {settings.memory?.chunkContextualizerModel && (
-                <button onClick={resetChunkModel} className="text-xs text-red-400 hover:text-red-300 transition-colors">
-                  Reset to default
-                </button>
-              )}
-              <button onClick={() => setEditingChunkModel(true)} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
-                Edit
-              </button>
-            </div>
-          ) : (
+          {editingMemoryModel && (
             <div className="flex gap-2">
-              <button onClick={() => setEditingChunkModel(false)} className="text-xs text-neutral-400 hover:text-neutral-300">Cancel</button>
+              <button onClick={() => setEditingMemoryModel(null)} className="text-xs text-neutral-400 hover:text-neutral-300">Cancel</button>
               <button
-                onClick={saveChunkModel}
+                onClick={saveMemoryModel}
                 disabled={savingChunkModel || !chunkProvider || !chunkModelName}
                 className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-md transition-colors"
               >
@@ -246,21 +246,54 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
             </div>
           )}
         </div>
-        <p className="text-xs text-neutral-600 mb-4">Model that writes the 1–2 sentence context prepended to each chunk before embedding. Routes via OpenRouter if OPENROUTER_API_KEY is set, else native OpenAI.</p>
+        <p className="text-xs text-neutral-600 mb-4">
+          The chunk contextualizer writes the 1–2 sentence context prepended to each chunk before embedding. The query rewriter resolves references in memory searches against the recent conversation and adds sub-queries (off unless set). Both route via OpenRouter if OPENROUTER_API_KEY is set, else native OpenAI.
+        </p>
 
-        {!editingChunkModel ? (
+        {!editingMemoryModel ? (
           <div className="bg-neutral-900/50 border border-neutral-800 rounded-md p-3 font-mono text-sm space-y-1">
-            <div className="flex gap-2">
+            <div className="flex gap-2 items-baseline flex-wrap">
               <span className="text-neutral-500">Chunk Contextualizer:</span>
               {settings.memory?.chunkContextualizerModel ? (
                 <span className="text-purple-400">{settings.memory.chunkContextualizerModel.provider}/{settings.memory.chunkContextualizerModel.name}</span>
               ) : (
                 <span className="text-neutral-500">{CHUNK_CONTEXTUALIZER_DEFAULT.provider}/{CHUNK_CONTEXTUALIZER_DEFAULT.name} <span className="text-neutral-700">(default)</span></span>
               )}
+              <span className="ml-auto flex gap-3 font-sans">
+                {settings.memory?.chunkContextualizerModel && (
+                  <button onClick={() => resetMemoryModel('chunkContextualizerModel')} className="text-xs text-red-400 hover:text-red-300 transition-colors">
+                    Reset to default
+                  </button>
+                )}
+                <button onClick={() => setEditingMemoryModel('chunkContextualizerModel')} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
+                  Edit
+                </button>
+              </span>
+            </div>
+            <div className="flex gap-2 items-baseline flex-wrap">
+              <span className="text-neutral-500">Query Rewriter:</span>
+              {settings.memory?.queryContextualizerModel ? (
+                <span className="text-purple-400">{settings.memory.queryContextualizerModel.provider}/{settings.memory.queryContextualizerModel.name}</span>
+              ) : (
+                <span className="text-neutral-500">off</span>
+              )}
+              <span className="ml-auto flex gap-3 font-sans">
+                {settings.memory?.queryContextualizerModel && (
+                  <button onClick={() => resetMemoryModel('queryContextualizerModel')} className="text-xs text-red-400 hover:text-red-300 transition-colors">
+                    Turn off
+                  </button>
+                )}
+                <button onClick={() => setEditingMemoryModel('queryContextualizerModel')} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
+                  Edit
+                </button>
+              </span>
             </div>
           </div>
         ) : (
           <div className="space-y-4">
+            <div className="text-xs text-neutral-500">
+              Editing: <span className="text-neutral-300">{editingMemoryModel === 'queryContextualizerModel' ? 'Query Rewriter' : 'Chunk Contextualizer'}</span>
+            </div>
             <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
               <label className="text-sm text-neutral-400 sm:w-24 shrink-0">Provider</label>
               <select className={selectClass} value={chunkProvider} onChange={(e) => handleChunkProviderChange(e.target.value)}>
@@ -300,6 +333,11 @@ export default function GlobalSettings({ config, onSave }: GlobalSettingsProps)
           {renderSegmented(settings.streamMode || 'stream', (val) => updateSetting('streamMode', val), STREAM_MODES)}
         </div>
 
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 py-3 border-b border-neutral-800/50">
+          <label className="text-sm text-neutral-400 sm:w-48 sm:shrink-0">Queue Mode</label>
+          {renderSegmented(settings.queueMode || 'sequential', (val) => updateSetting('queueMode', val), QUEUE_MODES)}
+        </div>
+
         <ToggleRow
           title="Require @Mention"
           description="Only respond when @mentioned (Discord/Telegram guild channels)"
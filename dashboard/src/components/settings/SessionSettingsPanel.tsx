@@ -33,6 +33,12 @@ const STREAM_MODES = [
   { value: 'final', label: 'Final' },
 ];
 
+const QUEUE_MODES = [
+  { value: 'sequential', label: 'One by one' },
+  { value: 'coalesce', label: 'Coalesce' },
+  { value: 'steer', label: 'Steer' },
+];
+
 const HARNESSES = [
   { value: 'pi-coding-agent', label: 'Pi' },
   { value: 'claude-code', label: 'Claude Code' },
@@ -369,6 +375,17 @@ export default function SessionSettingsPanel({ config, onSave, initialSessionId
             renderInput={(val, onChange) => renderSegmented(val, onChange, STREAM_MODES)}
           />
 
+          <SettingRow
+            label="Queue Mode"
+            hint="Messages sent mid-reply: one turn each, coalesced into one, or steered into the running reply"
+            inheritedValue={inherited.queueMode}
+            inheritedFrom={inheritFrom}
+            overrideValue={overrides.queueMode}
+            onOverride={(val) => updateSessionSetting(sessionId, 'queueMode', val)}
+            onReset={() => resetSessionSetting(sessionId, 'queueMode')}
+            renderInput={(val, onChange) => renderSegmented(val, onChange, QUEUE_MODES)}
+          />
+
           <SettingRow
             label="Require @Mention"
             inheritedValue={inherited.requireMention !== false}
@@ -10,6 +10,7 @@ import { getDefaults } from './defaults';
 export interface Settings {
   harness?: string;
   streamMode?: 'stream' | 'bundled' | 'final';
+  queueMode?: 'sequential' | 'coalesce' | 'steer';
   customInstructions?: string;
   requireMention?: boolean;
   traceMessageUpdates?: boolean;
@@ -21,12 +22,14 @@ export interface Settings {
   };
   memory?: {
     chunkContextualizerModel?: { provider: string; name: string };
+    queryContextualizerModel?: { provider: string; name: string };
   };
 }
 
 export interface ResolvedSettings {
   harness: string;
   streamMode: 'stream' | 'bundled' | 'final';
+  queueMode: 'sequential' | 'coalesce' | 'steer';
   customInstructions?: string;
   requireMention?: boolean;
   traceMessageUpdates?: boolean;
@@ -70,6 +73,7 @@ function mergeSettings(base: Settings, override: Settings): Settings {
 
   if (override.harness !== undefined) result.harness = override.harness;
   if (override.streamMode !== undefined) result.streamMode = override.streamMode;
+  if (override.queueMode !== undefined) result.queueMode = override.queueMode;
   if (override.customInstructions !== undefined) result.customInstructions = override.customInstructions;
   if (override['pi-coding-agent'] !== undefined) {
     result['pi-coding-agent'] = { ...base['pi-coding-agent'], ...override['pi-coding-agent'] };
@@ -119,6 +123,7 @@ export function getEffectiveSettings(
   return {
     harness: settings.harness || defaults.harness,
     streamMode: settings.streamMode || defaults.streamMode,
+    queueMode: settings.queueMode || defaults.queueMode,
     customInstructions: settings.customInstructions,
     requireMention: settings.requireMention,
     traceMessageUpdates: settings.traceMessageUpdates ?? false,
@@ -176,6 +181,7 @@ function getNestedValue(obj: any, path: string): any {
 export const CASCADING_FIELDS = [
   { key: 'harness', label: 'Harness', type: 'select' as const },
   { key: 'streamMode', label: 'Stream Mode', type: 'select' as const },
+  { key: 'queueMode', label: 'Queue Mode', type: 'select' as const },
   { key: 'requireMention', label: 'Require @Mention', type: 'boolean' as const },
   { key: 'traceMessageUpdates', label: 'Trace Message Updates', type: 'boolean' as const },
   { key: 'customInstructions', label: 'Custom Instructions', type: 'text' as const },
@@ -0,0 +1,179 @@
+/**
+ * ANN benchmark — recall and latency of the HNSW memory search index
+ * (src/memory/hnsw.ts) against the exact scan it replaces.
+ *
+ *   npm run bench:ann                              synthetic: 10000 × 384 dims
+ *   npm run bench:ann -- --vectors 20000 --dims 1536
+ *   npm run bench:ann -- --db                      your embeddings.db vectors
+ *   npm run bench:ann -- --db --model openai/text-embedding-3-small
+ *
+ * Synthetic vectors are clustered (like real topics) rather than uniform.
+ * With --db, queries are stored vectors with noise added. Read-only — it
+ * never touches the saved index.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { join } from "path";
+import { loadConfig, USER_DIR } from "./config.js";
+import { HnswIndex } from "./memory/hnsw.js";
+import { resolveEmbeddingSettings } from "./memory/providers.js";
+
+const K = 10;
+const EF_VALUES = [16, 32, 64, 128, 256];
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+/** Deterministic so runs are comparable */
+function gaussian(seed: number): () => number {
+  let s = seed;
+  const uniform = () => {
+    s = (s * 16807) % 2147483647;
+    return s / 2147483647;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform() + 1e-12)) * Math.cos(2 * Math.PI * uniform());
+}
+
+function syntheticVectors(count: number, dims: number): Map<number, Float32Array> {
+  const gauss = gaussian(42);
+  const centers = Array.from({ length: Math.max(10, Math.round(count / 100)) }, () =>
+    Float32Array.from({ length: dims }, gauss)
+  );
+  const vectors = new Map<number, Float32Array>();
+  for (let id = 1; id <= count; id++) {
+    const center = centers[Math.floor(Math.abs(gauss() * 1e6)) % centers.length];
+    vectors.set(id, Float32Array.from(center, (x) => x + gauss() * 1.5));
+  }
+  return vectors;
+}
+
+function databaseVectors(model: string): Map<number, Float32Array> {
+  const path = join(USER_DIR, "embeddings.db");
+  if (!existsSync(path)) throw new Error(`${path} not found`);
+  const db = new Database(path, { readonly: true });
+  try {
+    const rows = db
+      .prepare("SELECT chunk_id, vector FROM embeddings WHERE model = ?")
+      .all(model) as Array<{ chunk_id: number; vector: Buffer }>;
+    // Copy out — the buffers belong to SQLite
+    return new Map(rows.map((r) => [r.chunk_id, new Float32Array(new Uint8Array(r.vector).buffer)]));
+  } finally {
+    db.close();
+  }
+}
+
+function exactTopK(vectors: Map<number, Float32Array>, norms: Map<number, number>, q: Float32Array, k: number): number[] {
+  let qNorm = 0;
+  for (let i = 0; i < q.length; i++) qNorm += q[i] * q[i];
+  qNorm = Math.sqrt(qNorm);
+  const scored: Array<{ id: number; score: number }> = [];
+  for (const [id, v] of vectors) {
+    let dot = 0;
+    for (let i = 0; i < v.length; i++) dot += v[i] * q[i];
+    scored.push({ id, score: dot / (norms.get(id)! * qNorm) });
+  }
+  return scored.sort((a, b) => b.score - a.score).slice(0, k).map((s) => s.id);
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(ms < 10 ? 2 : 1)}ms`;
+}
+
+async function main() {
+  const queryCount = Number(arg("--queries") ?? 100);
+  let vectors: Map<number, Float32Array>;
+  let source: string;
+
+  if (process.argv.includes("--db")) {
+    let model = arg("--model");
+    if (!model) {
+      let settings;
+      try {
+        settings = loadConfig().settings?.memory?.embedding;
+      } catch {
+        // No config — defaults
+      }
+      model = resolveEmbeddingSettings(settings).model;
+    }
+    vectors = databaseVectors(model);
+    source = `embeddings.db, ${model}`;
+  } else {
+    const count = Number(arg("--vectors") ?? 10000);
+    const dims = Number(arg("--dims") ?? 384);
+    vectors = syntheticVectors(count, dims);
+    source = "synthetic";
+  }
+  if (vectors.size < K) throw new Error(`Need at least ${K} vectors, have ${vectors.size}`);
+  const dims = vectors.values().next().value!.length;
+  console.log(`${vectors.size} vectors × ${dims} dims (${source}), ${queryCount} queries, recall@${K}\n`);
+
+  const norms = new Map<number, number>();
+  for (const [id, v] of vectors) {
+    let sum = 0;
+    for (let i = 0; i < v.length; i++) sum += v[i] * v[i];
+    norms.set(id, Math.sqrt(sum));
+  }
+
+  const buildStart = Date.now();
+  const index = new HnswIndex(dims, { seed: 1 });
+  for (const [id, v] of vectors) index.add(id, v);
+  const buildMs = Date.now() - buildStart;
+  const fileBytes = index.toBuffer().length;
+  console.log(`Build: ${(buildMs / 1000).toFixed(1)}s (${(buildMs / vectors.size).toFixed(2)}ms/vector), ${(fileBytes / 1024 / 1024).toFixed(1)} MB on disk\n`);
+
+  // Queries: stored vectors nudged off their exact position
+  const gauss = gaussian(7);
+  const entries = [...vectors];
+  const queries = Array.from({ length: queryCount }, (_, i) => {
+    const [id, base] = entries[Math.floor((i * entries.length) / queryCount)];
+    const scale = norms.get(id)! / Math.sqrt(dims);
+    return Float32Array.from(base, (x) => x + gauss() * scale * 0.5);
+  });
+
+  const truth: number[][] = [];
+  const exactTimes: number[] = [];
+  for (const q of queries) {
+    const t = performance.now();
+    truth.push(exactTopK(vectors, norms, q, K));
+    exactTimes.push(performance.now() - t);
+  }
+
+  const rows = [
+    ["search", "recall@10", "p50", "p95"],
+    ["exact", "1.000", formatMs(percentile(exactTimes, 50)), formatMs(percentile(exactTimes, 95))],
+  ];
+  for (const ef of EF_VALUES) {
+    const times: number[] = [];
+    let found = 0;
+    queries.forEach((q, i) => {
+      const t = performance.now();
+      const hits = index.search(q, K, ef);
+      times.push(performance.now() - t);
+      const expected = new Set(truth[i]);
+      found += hits.filter((h) => expected.has(h.id)).length;
+    });
+    rows.push([
+      `hnsw ef=${ef}`,
+      (found / (queries.length * K)).toFixed(3),
+      formatMs(percentile(times, 50)),
+      formatMs(percentile(times, 95)),
+    ]);
+  }
+
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((r) => r[col].length)));
+  for (const row of rows) console.log(row.map((cell, col) => cell.padEnd(widths[col])).join("  "));
+  console.log("\nsearchMemory asks the index for 60+ hits, so it searches with ef ≥ 64.");
+}
+
+main().catch((err) => {
+  console.error(`Benchmark failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
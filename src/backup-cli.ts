@@ -0,0 +1,84 @@
+/**
+ * Backup CLI — snapshot and restore user/ from the shell.
+ *
+ *   npm run backup                          take a backup now
+ *   npm run backup -- create --label pre-upgrade
+ *   npm run backup -- list
+ *   npm run backup -- restore <name> --dry-run
+ *   npm run backup -- restore <name>
+ *
+ * Uses config.backup.dir (default backups/). Secrets are encrypted with
+ * BACKUP_PASSPHRASE, read from the environment or user/secrets.json.
+ * Restoring while vito-server runs is safe for the databases, but restart it
+ * afterwards so config, secrets and skills are reloaded.
+ */
+
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { createBackup, diffBackup, getBackupDir, listBackups, restoreBackup, type RestoreDiff } from "./backup/backup.js";
+import { loadConfig, USER_DIR } from "./config.js";
+import { loadSecrets } from "./secrets.js";
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function printDiff(diff: RestoreDiff): void {
+  const section = (title: string, paths: string[]) => {
+    if (paths.length === 0) return;
+    console.log(`\n${title} (${paths.length}):`);
+    for (const p of paths) console.log(`  ${p}`);
+  };
+  section("Added", diff.added);
+  section("Changed", diff.changed);
+  section("Not in backup — left as-is", diff.extra);
+  console.log(`\nUnchanged: ${diff.unchanged}`);
+  console.log(`Secrets: ${diff.secrets}${diff.secrets === "locked" ? " (set BACKUP_PASSPHRASE to compare)" : ""}`);
+}
+
+async function main() {
+  if (existsSync(resolve(USER_DIR, "secrets.json"))) loadSecrets();
+  const config = existsSync(resolve(USER_DIR, "vito.config.json")) ? loadConfig() : undefined;
+  const dir = getBackupDir(config?.backup);
+  const exclude = config?.backup?.exclude;
+
+  const [command = "create", ...args] = process.argv.slice(2);
+  switch (command) {
+    case "create": {
+      const backup = await createBackup({ dir, exclude, label: flag(args, "--label") });
+      console.log(`Created ${backup.name} — ${backup.files} files, secrets ${backup.secrets}`);
+      break;
+    }
+    case "list": {
+      const backups = listBackups(dir);
+      if (backups.length === 0) console.log(`No backups in ${dir}`);
+      for (const b of backups) {
+        const mb = (b.bytes / (1024 * 1024)).toFixed(1);
+        console.log(`${b.name}  ${b.files} files  ${mb} MB  secrets ${b.secrets}`);
+      }
+      break;
+    }
+    case "restore": {
+      const name = args.find((a) => !a.startsWith("--"));
+      if (!name) throw new Error("Usage: restore <name> [--dry-run]");
+      if (args.includes("--dry-run")) {
+        console.log(`Dry run — restoring ${name} would change:`);
+        printDiff(diffBackup(name, { dir, exclude }));
+        break;
+      }
+      const { diff, safetyBackup } = await restoreBackup(name, { dir, exclude });
+      printDiff(diff);
+      console.log(`\nRestored ${name}. Previous state saved as ${safetyBackup}.`);
+      console.log("Restart vito-server (npm run restart) to pick up the restored files.");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" — use create, list or restore`);
+  }
+}
+
+main().catch((err) => {
+  console.error(`Backup failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
@@ -0,0 +1,405 @@
+/**
+ * BACKUP & RESTORE
+ *
+ * Snapshots of the whole install — everything under user/ (databases,
+ * config, secrets, skills, drive, apps, harness sessions). Each backup is a
+ * directory under the backup dir (default: backups/ next to user/):
+ *
+ *   vito-backup-2026-10-18T09-30-00Z/
+ *     manifest.json        what's in it, with a sha256 per file
+ *     vito.db              SQLite online backup — consistent while the
+ *     embeddings.db        server is writing (WAL included)
+ *     secrets.json.enc     secrets, AES-256-GCM with BACKUP_PASSPHRASE
+ *     ...                  everything else, copied as-is
+ *
+ * Without a passphrase secrets are left out rather than stored in clear.
+ * Restore verifies the snapshot, takes a "pre-restore" backup of the current
+ * state, then writes files back (databases through the online backup API,
+ * so a running server's connections stay valid). Files that aren't in the
+ * snapshot are left alone, except the memory search index, which is dropped
+ * when embeddings.db is restored. diffBackup() is the dry run.
+ */
+
+import Database from "better-sqlite3";
+import { Cron } from "croner";
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "crypto";
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { dirname, isAbsolute, join, normalize, relative, resolve, sep } from "path";
+import { USER_DIR } from "../config.js";
+import { resetAnnIndexes } from "../memory/ann.js";
+import { DEFAULT_TIMEZONE } from "../system-instructions.js";
+import type { BackupConfig, VitoConfig } from "../types.js";
+
+export const DEFAULT_BACKUP_DIR = resolve(USER_DIR, "..", "backups");
+const DEFAULT_KEEP = 7;
+/** embeddings-index/ is rebuilt from embeddings.db on the next embedding run */
+const DEFAULT_EXCLUDE = ["node_modules", ".git", "logs", "embeddings-index"];
+
+const MANIFEST_FILE = "manifest.json";
+const BACKUP_PREFIX = "vito-backup-";
+const MANIFEST_VERSION = 1;
+
+/** Copied with SQLite's online backup API instead of as plain files */
+const DATABASES = ["vito.db", "embeddings.db"];
+const SECRETS_FILE = "secrets.json";
+const ENCRYPTED_SECRETS_FILE = "secrets.json.enc";
+
+export interface BackupFile {
+  /** Relative to user/ (secrets: secrets.json.enc) */
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  version: number;
+  createdAt: number;
+  label?: string;
+  files: BackupFile[];
+  /** encrypted: secrets.json.enc holds them; skipped: no passphrase; absent: there were none */
+  secrets: "encrypted" | "skipped" | "absent";
+}
+
+export interface BackupSummary {
+  name: string;
+  createdAt: number;
+  label?: string;
+  files: number;
+  bytes: number;
+  secrets: BackupManifest["secrets"];
+}
+
+export interface RestoreDiff {
+  /** In the backup, missing from user/ */
+  added: string[];
+  /** In both, different contents */
+  changed: string[];
+  unchanged: number;
+  /** In user/ but not in the backup — left in place by a restore */
+  extra: string[];
+  /** locked: encrypted in the backup and no passphrase to compare with */
+  secrets: "added" | "changed" | "unchanged" | "locked" | "none";
+}
+
+export interface BackupOptions {
+  dir?: string;
+  label?: string;
+  passphrase?: string;
+  exclude?: string[];
+}
+
+export function getBackupDir(config?: BackupConfig): string {
+  return config?.dir ? resolve(config.dir) : DEFAULT_BACKUP_DIR;
+}
+
+/** Take a snapshot of user/. */
+export async function createBackup(opts: BackupOptions = {}): Promise<BackupSummary> {
+  const backupDir = resolve(opts.dir ?? DEFAULT_BACKUP_DIR);
+  if (!relative(USER_DIR, backupDir).startsWith("..")) {
+    throw new Error("The backup dir can't be inside user/ — backups would include themselves");
+  }
+  const createdAt = Date.now();
+  const label = opts.label?.replace(/[^A-Za-z0-9_-]+/g, "-");
+  const name = `${BACKUP_PREFIX}${new Date(createdAt).toISOString().slice(0, 19).replace(/:/g, "-")}Z${label ? `-${label}` : ""}`;
+  const target = join(backupDir, name);
+  if (existsSync(target)) throw new Error(`Backup ${name} already exists`);
+  mkdirSync(target, { recursive: true });
+
+  try {
+    const files: BackupFile[] = [];
+
+    for (const dbName of DATABASES) {
+      const source = join(USER_DIR, dbName);
+      if (!existsSync(source)) continue;
+      const db = new Database(source, { fileMustExist: true });
+      try {
+        await db.backup(join(target, dbName));
+      } finally {
+        db.close();
+      }
+      files.push(describeFile(target, dbName));
+    }
+
+    const passphrase = opts.passphrase ?? process.env.BACKUP_PASSPHRASE;
+    let secrets: BackupManifest["secrets"] = "absent";
+    const secretsPath = join(USER_DIR, SECRETS_FILE);
+    if (existsSync(secretsPath)) {
+      if (passphrase) {
+        writeFileSync(join(target, ENCRYPTED_SECRETS_FILE), encrypt(readFileSync(secretsPath), passphrase));
+        files.push(describeFile(target, ENCRYPTED_SECRETS_FILE));
+        secrets = "encrypted";
+      } else {
+        console.warn("[Backup] BACKUP_PASSPHRASE not set — leaving secrets.json out of the backup");
+        secrets = "skipped";
+      }
+    }
+
+    for (const rel of listUserFiles(opts.exclude ?? DEFAULT_EXCLUDE)) {
+      const dest = join(target, rel);
+      mkdirSync(dirname(dest), { recursive: true });
+      copyFileSync(join(USER_DIR, rel), dest);
+      files.push(describeFile(target, rel));
+    }
+
+    const manifest: BackupManifest = { version: MANIFEST_VERSION, createdAt, label, files, secrets };
+    writeFileSync(join(target, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n");
+    console.log(`[Backup] Created ${name} (${files.length} files)`);
+    return summarize(name, manifest);
+  } catch (err) {
+    rmSync(target, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/** Backups in the dir, newest first. Directories without a readable manifest are skipped. */
+export function listBackups(dir = DEFAULT_BACKUP_DIR): BackupSummary[] {
+  if (!existsSync(dir)) return [];
+  const backups: BackupSummary[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !entry.name.startsWith(BACKUP_PREFIX)) continue;
+    try {
+      backups.push(summarize(entry.name, readManifest(join(dir, entry.name))));
+    } catch {
+      // incomplete or foreign directory
+    }
+  }
+  return backups.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** What restoring `name` would change in user/ (the dry run). */
+export function diffBackup(name: string, opts: { dir?: string; passphrase?: string; exclude?: string[] } = {}): RestoreDiff {
+  const source = resolveBackup(name, opts.dir);
+  const manifest = readManifest(source);
+  const diff: RestoreDiff = { added: [], changed: [], unchanged: 0, extra: [], secrets: "none" };
+  const inBackup = new Set<string>();
+
+  for (const file of manifest.files) {
+    if (file.path === ENCRYPTED_SECRETS_FILE) continue;
+    inBackup.add(file.path);
+    const current = join(USER_DIR, file.path);
+    if (!existsSync(current)) {
+      diff.added.push(file.path);
+    } else if (DATABASES.includes(file.path)) {
+      // A live database never matches its snapshot byte for byte — report it as changed
+      diff.changed.push(file.path);
+    } else if (hashFile(current) !== file.sha256) {
+      diff.changed.push(file.path);
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const rel of listUserFiles(opts.exclude ?? DEFAULT_EXCLUDE)) {
+    if (!inBackup.has(rel)) diff.extra.push(rel);
+  }
+
+  if (manifest.secrets === "encrypted") {
+    const passphrase = opts.passphrase ?? process.env.BACKUP_PASSPHRASE;
+    const currentPath = join(USER_DIR, SECRETS_FILE);
+    if (!passphrase) {
+      diff.secrets = "locked";
+    } else if (!existsSync(currentPath)) {
+      diff.secrets = "added";
+    } else {
+      const restored = decrypt(readFileSync(join(source, ENCRYPTED_SECRETS_FILE)), passphrase);
+      diff.secrets = restored.equals(readFileSync(currentPath)) ? "unchanged" : "changed";
+    }
+  }
+  return diff;
+}
+
+/**
+ * Restore user/ from a backup. Verifies every file against the manifest and
+ * snapshots the current state first (label "pre-restore"), so a restore can
+ * itself be undone. Needs the passphrase when the backup holds secrets.
+ */
+export async function restoreBackup(
+  name: string,
+  opts: { dir?: string; passphrase?: string; exclude?: string[] } = {}
+): Promise<{ diff: RestoreDiff; safetyBackup: string }> {
+  const source = resolveBackup(name, opts.dir);
+  const manifest = readManifest(source);
+
+  for (const file of manifest.files) {
+    if (hashFile(join(source, file.path)) !== file.sha256) {
+      throw new Error(`Backup ${name} is corrupt: ${file.path} doesn't match its checksum`);
+    }
+  }
+  const passphrase = opts.passphrase ?? process.env.BACKUP_PASSPHRASE;
+  let secrets: Buffer | null = null;
+  if (manifest.secrets === "encrypted") {
+    if (!passphrase) throw new Error("This backup has encrypted secrets — set BACKUP_PASSPHRASE or pass the passphrase");
+    secrets = decrypt(readFileSync(join(source, ENCRYPTED_SECRETS_FILE)), passphrase);
+  }
+
+  const diff = diffBackup(name, opts);
+  const safety = await createBackup({ dir: opts.dir, label: "pre-restore", passphrase, exclude: opts.exclude });
+
+  for (const file of manifest.files) {
+    if (file.path === ENCRYPTED_SECRETS_FILE) continue;
+    const dest = join(USER_DIR, file.path);
+    mkdirSync(dirname(dest), { recursive: true });
+    if (DATABASES.includes(file.path) && existsSync(dest)) {
+      // Copy pages into the live database so open connections see the restored data
+      const snapshot = new Database(join(source, file.path), { readonly: true, fileMustExist: true });
+      try {
+        await snapshot.backup(dest);
+      } finally {
+        snapshot.close();
+      }
+    } else {
+      copyFileSync(join(source, file.path), dest);
+    }
+  }
+  if (secrets) writeFileSync(join(USER_DIR, SECRETS_FILE), secrets);
+  // The index maps chunk ids to the old database's vectors
+  if (manifest.files.some((f) => f.path === "embeddings.db")) await resetAnnIndexes();
+
+  console.log(`[Backup] Restored ${name} (${diff.added.length} added, ${diff.changed.length} changed); previous state saved as ${safety.name}`);
+  return { diff, safetyBackup: safety.name };
+}
+
+/** Delete all but the newest `keep` scheduled backups. Labeled ones (pre-restore, manual) are kept. */
+export function pruneBackups(dir: string, keep: number): string[] {
+  const scheduled = listBackups(dir).filter((b) => !b.label);
+  const removed = scheduled.slice(Math.max(keep, 0)).map((b) => b.name);
+  for (const name of removed) {
+    rmSync(join(dir, name), { recursive: true, force: true });
+  }
+  if (removed.length > 0) console.log(`[Backup] Pruned ${removed.length} old backup(s)`);
+  return removed;
+}
+
+/** Start config.backup.schedule; null when backups are manual only. */
+export function scheduleBackups(config: VitoConfig): Cron | null {
+  const backup = config.backup;
+  if (!backup?.schedule) return null;
+  const dir = getBackupDir(backup);
+  const timezone = config.settings?.timezone || DEFAULT_TIMEZONE;
+  const job = new Cron(backup.schedule, { timezone, protect: true }, async () => {
+    try {
+      await createBackup({ dir, exclude: backup.exclude });
+      pruneBackups(dir, backup.keep ?? DEFAULT_KEEP);
+    } catch (err) {
+      console.error("[Backup] Scheduled backup failed:", err);
+    }
+  });
+  console.log(`[Backup] Scheduled "${backup.schedule}" (${timezone}) → ${dir}`);
+  return job;
+}
+
+// ── Helpers ──
+
+function resolveBackup(name: string, dir = DEFAULT_BACKUP_DIR): string {
+  if (!name.startsWith(BACKUP_PREFIX) || name.includes("/") || name.includes("\\") || name.includes("..")) {
+    throw new Error(`Not a backup name: ${name}`);
+  }
+  const path = join(dir, name);
+  if (!existsSync(join(path, MANIFEST_FILE))) throw new Error(`Backup not found: ${name}`);
+  return path;
+}
+
+function readManifest(backupPath: string): BackupManifest {
+  const manifest = JSON.parse(readFileSync(join(backupPath, MANIFEST_FILE), "utf-8")) as BackupManifest;
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new Error(`Backup format ${manifest.version} is newer than this version of Vito supports`);
+  }
+  for (const file of manifest.files) {
+    const rel = normalize(file.path);
+    if (isAbsolute(rel) || rel.startsWith("..")) throw new Error(`Backup manifest has an unsafe path: ${file.path}`);
+  }
+  return manifest;
+}
+
+function summarize(name: string, manifest: BackupManifest): BackupSummary {
+  return {
+    name,
+    createdAt: manifest.createdAt,
+    label: manifest.label,
+    files: manifest.files.length,
+    bytes: manifest.files.reduce((sum, f) => sum + f.size, 0),
+    secrets: manifest.secrets,
+  };
+}
+
+/** Plain files under user/ (relative paths), minus databases, secrets and excluded names. */
+function listUserFiles(exclude: string[]): string[] {
+  const skip = new Set([
+    SECRETS_FILE,
+    ...DATABASES.flatMap((db) => [db, `${db}-wal`, `${db}-shm`, `${db}-journal`]),
+  ]);
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (exclude.includes(entry.name)) continue;
+      const full = join(dir, entry.name);
+      const rel = relative(USER_DIR, full);
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (entry.isFile() && !skip.has(rel)) {
+        files.push(rel.split(sep).join("/"));
+      }
+    }
+  };
+  if (existsSync(USER_DIR)) walk(USER_DIR);
+  return files;
+}
+
+function describeFile(root: string, rel: string): BackupFile {
+  const full = join(root, rel);
+  return { path: rel, size: statSync(full).size, sha256: hashFile(full) };
+}
+
+/** sha256 of a file, read in chunks so large drive files don't load whole. */
+function hashFile(path: string): string {
+  const hash = createHash("sha256");
+  const buffer = Buffer.alloc(1024 * 1024);
+  const fd = openSync(path, "r");
+  try {
+    let bytes: number;
+    while ((bytes = readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytes));
+    }
+  } finally {
+    closeSync(fd);
+  }
+  return hash.digest("hex");
+}
+
+function encrypt(plaintext: Buffer, passphrase: string): string {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return JSON.stringify({
+    cipher: "aes-256-gcm",
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  }) + "\n";
+}
+
+function decrypt(file: Buffer, passphrase: string): Buffer {
+  const { salt, iv, tag, data } = JSON.parse(file.toString("utf-8"));
+  const decipher = createDecipheriv("aes-256-gcm", scryptSync(passphrase, Buffer.from(salt, "base64"), 32), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]);
+  } catch {
+    throw new Error("Wrong backup passphrase (or the encrypted secrets are damaged)");
+  }
+}
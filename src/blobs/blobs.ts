@@ -0,0 +1,76 @@
+/**
+ * BLOB STORE
+ *
+ * Content-addressed text blobs for tool results too big to keep inline.
+ * A blob lives at user/blobs/<first two hex chars>/<sha256>, so identical
+ * results (the same file read twice, or the same event seen by persistence
+ * and tracing) are stored once. Rows and trace lines keep a truncated
+ * preview plus a BlobRef; the dashboard fetches the full text on demand.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { USER_DIR } from "../config.js";
+
+export const BLOBS_DIR = resolve(USER_DIR, "blobs");
+
+/** Results larger than this (UTF-8 bytes) are offloaded */
+export const BLOB_THRESHOLD_BYTES = 16 * 1024;
+/** Characters of an offloaded result kept inline */
+export const BLOB_PREVIEW_CHARS = 2000;
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface BlobRef {
+  /** sha256 of the full text, hex */
+  hash: string;
+  /** Full size in bytes */
+  size: number;
+}
+
+export function isBlobHash(value: unknown): value is string {
+  return typeof value === "string" && HASH_PATTERN.test(value);
+}
+
+export function blobPath(hash: string): string {
+  if (!isBlobHash(hash)) throw new Error(`Invalid blob hash: ${hash}`);
+  return join(BLOBS_DIR, hash.slice(0, 2), hash);
+}
+
+/** Store text (no-op if it's already there) and return its reference. */
+export function storeBlob(text: string): BlobRef {
+  const data = Buffer.from(text, "utf-8");
+  const hash = createHash("sha256").update(data).digest("hex");
+  const path = blobPath(hash);
+  if (!existsSync(path)) {
+    mkdirSync(join(BLOBS_DIR, hash.slice(0, 2)), { recursive: true });
+    // Write-then-rename so a reader never sees a partial blob
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, data);
+    renameSync(tmp, path);
+  }
+  return { hash, size: data.length };
+}
+
+/** Full text of a blob, or null if it doesn't exist (never stored, or pruned). */
+export function readBlob(hash: string): string | null {
+  const path = blobPath(hash);
+  return existsSync(path) ? readFileSync(path, "utf-8") : null;
+}
+
+/**
+ * Offload `text` if it's over the threshold: returns the inline preview and
+ * the blob it was stored in. Small text comes back unchanged with no blob.
+ * If the blob can't be written the full text stays inline.
+ */
+export function offloadLargeText(text: string): { text: string; blob?: BlobRef } {
+  if (Buffer.byteLength(text, "utf-8") <= BLOB_THRESHOLD_BYTES) return { text };
+  try {
+    const blob = storeBlob(text);
+    return { text: text.slice(0, BLOB_PREVIEW_CHARS), blob };
+  } catch (err) {
+    console.error("[Blobs] Failed to store large text, keeping it inline:", err);
+    return { text };
+  }
+}
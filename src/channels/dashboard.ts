@@ -1,12 +1,20 @@
 import type {
+  AgentActivityEvent,
   Channel,
   InboundEvent,
+  MessageSearchHit,
+  MessageRow,
+  MsgType,
   OutputHandler,
+  QueuedMessage,
   VitoConfig,
 } from "../types.js";
+import { USAGE_DIMENSIONS, type Queries } from "../db/queries.js";
 import { getEffectiveSettings } from "../settings.js";
+import { extractMessageText } from "../memory/context.js";
 import express from "express";
 import http from "http";
+import { WebSocketServer, WebSocket } from "ws";
 const createServer = http.createServer.bind(http);
 import path from "path";
 import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, statSync, openSync, readSync, closeSync, unlinkSync } from "fs";
@@ -18,14 +26,43 @@ import Database from "better-sqlite3";
 import { getProviders, getModels } from "@earendil-works/pi-ai/compat";
 import { getOAuthProviders } from "@earendil-works/pi-ai/oauth";
 import { AuthStorage } from "@earendil-works/pi-coding-agent";
-import { searchMemory } from "../memory/search.js";
+import { searchMemoryWithTrace } from "../memory/search.js";
+import {
+  ChunkPinnedError,
+  deleteChunk,
+  getChunk,
+  getEmbeddingModelCounts,
+  getReembedStatus,
+  listChunks,
+  reembedChunk,
+  reembedChunks,
+  setChunkPinned,
+  updateChunk,
+} from "../memory/embeddings.js";
+import { forgetChunkFacts } from "../memory/facts.js";
+import { resolveEmbeddingSettings } from "../memory/providers.js";
+import { SessionManager } from "../sessions/manager.js";
+import { MessageEditError } from "../orchestrator_v2/orchestrator.js";
+import { exportSession, importSession, renderSessionHtml, renderSessionMarkdown } from "../sessions/transfer.js";
 import { mountMcp } from "../mcp-server.js";
+import { createBackup, diffBackup, getBackupDir, listBackups, restoreBackup } from "../backup/backup.js";
+import { describeRule, getLastRetentionReport, runRetention, summarizeReport } from "../retention/retention.js";
+import { isBlobHash, readBlob } from "../blobs/blobs.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ATTACHMENTS_DIR = path.join(process.cwd(), "data", "attachments");
 const DRIVE_DIR = path.join(process.cwd(), "user", "drive");
 const CONFIG_PATH = path.join(process.cwd(), "user", "vito.config.json");
 
+const MESSAGE_TYPES: MsgType[] = ["user", "thought", "assistant", "tool_start", "tool_end"];
+
+/** Parse a local calendar day (YYYY-MM-DD) as local midnight; null if absent or malformed. */
+function parseLocalDay(value: unknown): Date | null {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const d = new Date(`${value}T00:00:00`);
+  return isNaN(d.getTime()) ? null : d;
+}
+
 /** Check if a path inside DRIVE_DIR is public by walking up the directory tree.
  *  Nearest .meta.json wins. Per-file overrides in "files" map take priority.
  *  No .meta.json anywhere = private. */
@@ -106,6 +143,46 @@ function parseCookie(cookieHeader: string | undefined, name: string): string {
   return match ? decodeURIComponent(match[1]) : "";
 }
 
+/** Cookie check for requests that bypass the Express middleware (WebSocket upgrades). */
+function isRequestAuthenticated(req: http.IncomingMessage): boolean {
+  const secrets = readSecrets();
+  if (!secrets.DASHBOARD_PASSWORD_HASH) return false;
+  const session = sessions.get(parseCookie(req.headers.cookie, "session"));
+  return Boolean(session && session.expires >= Date.now());
+}
+
+// ── Live push helpers ──
+
+/** Ping interval for /ws sockets; clients that miss a pong are dropped. */
+const LIVE_HEARTBEAT_MS = 30_000;
+/** Most rows replayed on (re)subscribe — a client further behind reloads over REST */
+const LIVE_REPLAY_LIMIT = 200;
+/** Assistant/thought rows remembered per session for DashboardOutputHandler.isPersisted */
+const RECENT_REPLIES_PER_SESSION = 50;
+
+interface LiveClient {
+  ws: WebSocket;
+  /** Vito session id this socket is watching, set by a "subscribe" frame */
+  sessionId: string | null;
+  alive: boolean;
+}
+
+/** Orchestrator queue controls, wired up in index.ts. */
+interface QueueManager {
+  getQueue(sessionId: string): QueuedMessage[];
+  drop(sessionId: string, id: number): boolean;
+  move(sessionId: string, id: number, position: number): boolean;
+  onChange(listener: (sessionId: string, queue: QueuedMessage[]) => void): () => void;
+}
+
+/** What DashboardOutputHandler needs from the channel to push to the browser. */
+interface LivePush {
+  push(sessionId: string, frame: Record<string, unknown>): void;
+  setTyping(sessionId: string, active: boolean): void;
+  /** Text of the session's assistant/thought rows written at or after `since` (ms) */
+  recentReplies(sessionId: string, since: number): string[];
+}
+
 export class DashboardChannel implements Channel {
   name = "dashboard";
   capabilities = {
@@ -120,6 +197,17 @@ export class DashboardChannel implements Channel {
   private port = parseInt(process.env.PORT || "3030", 10);
   private eventHandler?: (event: InboundEvent) => void;
 
+  // Live push (WebSocket on /ws). Chat subscribes per session and gets message
+  // rows as they're written plus typing/tool/relay frames from the handler.
+  private wss = new WebSocketServer({ noServer: true });
+  private liveClients = new Set<LiveClient>();
+  /** Sessions with a turn in flight — replayed to sockets that subscribe mid-run. */
+  private typingSessions = new Set<string>();
+  private liveHeartbeat: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeMessages: (() => void) | null = null;
+  /** Latest assistant/thought rows per session, by id — kept from the message listener */
+  private replyTexts = new Map<string, Map<number, { timestamp: number; text: string }>>();
+
   private skillsGetter?: () => any[];
   private cronManager?: {
     scheduleJob: (job: any) => void;
@@ -136,6 +224,9 @@ export class DashboardChannel implements Channel {
     setMyCommands: () => Promise<{ success: boolean; count: number; error?: string }>;
     getChatInfo: (chatId: string) => Promise<{ name: string; type: string } | null>;
   };
+  private queueManager?: QueueManager;
+  private unsubscribeQueue: (() => void) | null = null;
+  private editHandler?: (sessionId: string, messageId: number, content: string, attachments?: any[]) => Promise<void>;
   private askHandler?: (options: {
     question: string;
     session?: string;
@@ -147,6 +238,7 @@ export class DashboardChannel implements Channel {
 
   constructor(private db: any, private queries: any, private config: any) {
     this.setupExpress();
+    this.setupLive();
   }
 
   /** Save current config to disk */
@@ -187,6 +279,20 @@ export class DashboardChannel implements Channel {
     this.telegramChannel = telegram;
   }
 
+  /** Inspect/drop/reorder messages queued behind a session's running turn. */
+  setQueueManager(manager: QueueManager) {
+    this.queueManager = manager;
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = manager.onChange((sessionId, queue) => {
+      this.pushLive(sessionId, { type: "queue", queue });
+    });
+  }
+
+  /** Edit a user message and rerun the session from it. */
+  setEditHandler(handler: (sessionId: string, messageId: number, content: string, attachments?: any[]) => Promise<void>) {
+    this.editHandler = handler;
+  }
+
   setAskHandler(handler: (options: {
     question: string;
     session?: string;
@@ -707,7 +813,10 @@ export class DashboardChannel implements Channel {
       const afterId = req.query.after ? parseInt(req.query.after as string) : undefined;
       const hideThoughts = req.query.hideThoughts === 'true';
       const hideTools = req.query.hideTools === 'true';
-      const messages = this.queries.getAllMessagesForSession(req.params.id, limit, beforeId, hideThoughts, hideTools, afterId);
+      const aroundId = req.query.around ? parseInt(req.query.around as string) : undefined;
+      const messages = aroundId
+        ? this.queries.getMessagesAround(req.params.id, aroundId, limit ?? 50, hideThoughts, hideTools)
+        : this.queries.getAllMessagesForSession(req.params.id, limit, beforeId, hideThoughts, hideTools, afterId);
       const total = this.queries.countMessagesForSession(req.params.id, hideThoughts, hideTools);
       res.json({ messages, total });
     });
@@ -718,6 +827,73 @@ export class DashboardChannel implements Channel {
       res.json({ ok: true, deleted });
     });
 
+    // Edit & resend — replace a user message and rerun from there.
+    // Body: { content, attachments? }
+    this.app.post("/api/sessions/:id/messages/:messageId/resend", async (req, res) => {
+      if (!this.editHandler) {
+        res.status(503).json({ error: "Edit handler not configured" });
+        return;
+      }
+      const { content, attachments } = req.body ?? {};
+      if (typeof content !== "string" || (!content.trim() && !attachments?.length)) {
+        res.status(400).json({ error: "content is required" });
+        return;
+      }
+      try {
+        await this.editHandler(req.params.id, parseInt(req.params.messageId, 10), content, attachments);
+        res.json({ ok: true });
+      } catch (err: any) {
+        if (err instanceof MessageEditError) {
+          const status = { unsupported: 400, not_found: 404, busy: 409 }[err.reason];
+          res.status(status).json({ error: err.message });
+          return;
+        }
+        console.error(`[Dashboard] Resend of message ${req.params.messageId} failed:`, err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // Message queue — messages waiting behind the session's in-flight turn.
+    this.app.get("/api/sessions/:id/queue", (req, res) => {
+      if (!this.queueManager) {
+        res.status(503).json({ error: "Queue manager not configured" });
+        return;
+      }
+      res.json({ queue: this.queueManager.getQueue(req.params.id) });
+    });
+
+    this.app.delete("/api/sessions/:id/queue/:itemId", (req, res) => {
+      if (!this.queueManager) {
+        res.status(503).json({ error: "Queue manager not configured" });
+        return;
+      }
+      const dropped = this.queueManager.drop(req.params.id, parseInt(req.params.itemId, 10));
+      if (!dropped) {
+        res.status(404).json({ error: "Not in the queue (it may have started already)" });
+        return;
+      }
+      res.json({ ok: true, queue: this.queueManager.getQueue(req.params.id) });
+    });
+
+    // Body: { position } — 0-based, 0 = runs next
+    this.app.put("/api/sessions/:id/queue/:itemId", (req, res) => {
+      if (!this.queueManager) {
+        res.status(503).json({ error: "Queue manager not configured" });
+        return;
+      }
+      const position = Number(req.body?.position);
+      if (!Number.isInteger(position) || position < 0) {
+        res.status(400).json({ error: "position must be a non-negative integer" });
+        return;
+      }
+      const moved = this.queueManager.move(req.params.id, parseInt(req.params.itemId, 10), position);
+      if (!moved) {
+        res.status(404).json({ error: "Not in the queue (it may have started already)" });
+        return;
+      }
+      res.json({ ok: true, queue: this.queueManager.getQueue(req.params.id) });
+    });
+
     this.app.get("/api/sessions/:id/config", (req, res) => {
       const sessionId = req.params.id;
       const session = this.queries.getSession(sessionId);
@@ -764,6 +940,71 @@ export class DashboardChannel implements Channel {
       res.json(updated);
     });
 
+    // Fork — branch a session at a message into a new dashboard session.
+    // Body: { messageId?: number } (default: fork after the latest message).
+    this.app.post("/api/sessions/:id/fork", (req, res) => {
+      const sessionId = req.params.id;
+      if (!this.queries.getSession(sessionId)) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+      const { messageId } = req.body ?? {};
+      if (messageId !== undefined && !Number.isInteger(messageId)) {
+        res.status(400).json({ error: "messageId must be an integer" });
+        return;
+      }
+      try {
+        const { session, copied } = new SessionManager(this.queries).forkSession(sessionId, messageId);
+        console.log(`[Dashboard] Forked ${sessionId} → ${session.id} (${copied} message(s))`);
+        res.json({ session, copied });
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    });
+
+    // Export — ?format=json (default, lossless: tools, thoughts, archived rows
+    // and attachment files), md or html (self-contained transcript).
+    this.app.get("/api/sessions/:id/export", (req, res) => {
+      const format = (req.query.format as string) || "json";
+      if (!["json", "md", "html"].includes(format)) {
+        res.status(400).json({ error: "format must be json, md or html" });
+        return;
+      }
+      let exp;
+      try {
+        exp = exportSession(this.queries, req.params.id, ATTACHMENTS_DIR);
+      } catch (err: any) {
+        res.status(404).json({ error: err.message });
+        return;
+      }
+      const filename = `${req.params.id.replace(/[^A-Za-z0-9_-]+/g, "_")}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "md") {
+        res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+        res.send(renderSessionMarkdown(exp));
+      } else if (format === "html") {
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.send(renderSessionHtml(exp));
+      } else {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.send(JSON.stringify(exp, null, 2));
+      }
+    });
+
+    // Import — body: a JSON export. ?id= imports it under another session id.
+    this.app.post("/api/sessions/import", (req, res) => {
+      try {
+        const { session, imported } = importSession(this.queries, req.body, {
+          attachmentsDir: ATTACHMENTS_DIR,
+          id: typeof req.query.id === "string" ? req.query.id : undefined,
+        });
+        console.log(`[Dashboard] Imported session ${session.id} (${imported} message(s))`);
+        res.json({ session, imported });
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    });
+
     this.app.put("/api/sessions/:id/alias", (req, res) => {
       const sessionId = req.params.id;
       const session = this.queries.getSession(sessionId);
@@ -778,6 +1019,125 @@ export class DashboardChannel implements Channel {
       res.json({ id: sessionId, alias: cleanAlias });
     });
 
+    // Usage ledger — totals, daily/monthly rollup, and per-dimension breakdowns.
+    // from/to are local dates (YYYY-MM-DD, inclusive); defaults to the last
+    // 30 days (period=day) or the last 12 months (period=month).
+    this.app.get("/api/usage", (req, res) => {
+      const period = req.query.period === "month" ? "month" : "day";
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const toDay = parseLocalDay(req.query.to) ?? today;
+      let fromDay = parseLocalDay(req.query.from);
+      if (!fromDay) {
+        fromDay = new Date(toDay);
+        if (period === "month") {
+          fromDay.setDate(1);
+          fromDay.setMonth(fromDay.getMonth() - 11);
+        } else {
+          fromDay.setDate(fromDay.getDate() - 29);
+        }
+      }
+      const until = new Date(toDay);
+      until.setDate(until.getDate() + 1);
+      const since = fromDay.getTime();
+
+      try {
+        const aliases = this.queries.getSessionAliases();
+        const breakdowns: Record<string, any[]> = {};
+        for (const dimension of USAGE_DIMENSIONS) {
+          breakdowns[dimension] = this.queries.getUsageBreakdown(dimension, since, until.getTime());
+        }
+
+        res.json({
+          period,
+          from: since,
+          to: until.getTime(),
+          totals: this.queries.getUsageTotals(since, until.getTime()),
+          buckets: this.queries.getUsageRollup(period, since, until.getTime()),
+          bySession: breakdowns.session_id.map((row) => ({ ...row, alias: aliases[row.key] || null })),
+          byCronJob: breakdowns.cron_job.filter((row) => row.key !== null),
+          byChannel: breakdowns.channel,
+          byHarness: breakdowns.harness,
+          byModel: breakdowns.model,
+        });
+      } catch (err: any) {
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // Full text of an offloaded tool result (see src/blobs/)
+    this.app.get("/api/blobs/:hash", (req, res) => {
+      const hash = String(req.params.hash);
+      if (!isBlobHash(hash)) {
+        res.status(400).json({ error: "Invalid blob hash" });
+        return;
+      }
+      try {
+        const text = readBlob(hash);
+        if (text === null) {
+          res.status(404).json({ error: "Blob not found (it may have been pruned)" });
+          return;
+        }
+        // Content-addressed, so it never changes
+        res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.send(text);
+      } catch (err: any) {
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // Full-text message search. q is required; filters: session, channel,
+    // author, type (comma-separated), from/to (local YYYY-MM-DD, inclusive),
+    // archived=include|exclude|only. Snippets mark matches with \u0002…\u0003.
+    this.app.get("/api/search/messages", (req, res) => {
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!q) {
+        res.status(400).json({ error: "q is required" });
+        return;
+      }
+      const types = typeof req.query.type === "string" ? req.query.type.split(",").filter(Boolean) : [];
+      const unknown = types.filter((t: string) => !MESSAGE_TYPES.includes(t as MsgType));
+      if (unknown.length > 0) {
+        res.status(400).json({ error: `Unknown message type: ${unknown.join(", ")}` });
+        return;
+      }
+      const archived = req.query.archived;
+      if (archived !== undefined && !["include", "exclude", "only"].includes(archived)) {
+        res.status(400).json({ error: "archived must be include, exclude or only" });
+        return;
+      }
+      const fromDay = parseLocalDay(req.query.from);
+      const toDay = parseLocalDay(req.query.to);
+      if (toDay) toDay.setDate(toDay.getDate() + 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      try {
+        const aliases = this.queries.getSessionAliases();
+        const { results, total } = this.queries.searchMessages(
+          q,
+          {
+            sessionId: req.query.session || undefined,
+            channel: req.query.channel || undefined,
+            author: req.query.author || undefined,
+            types: types as MsgType[],
+            since: fromDay?.getTime(),
+            until: toDay?.getTime(),
+            archived,
+          },
+          limit,
+          offset
+        );
+        res.json({
+          total,
+          results: results.map((hit: MessageSearchHit) => ({ ...hit, alias: aliases[hit.session_id] || null })),
+        });
+      } catch (err: any) {
+        res.status(500).json({ error: err.message });
+      }
+    });
+
     this.app.get("/api/skills", async (req, res) => {
       const skills = this.skillsGetter ? this.skillsGetter() : [];
       res.json(skills);
@@ -1211,22 +1571,150 @@ export class DashboardChannel implements Channel {
             ...s,
             alias: aliasMap.get(s.session_id) || null,
           })),
+          activeModel: resolveEmbeddingSettings(this.config.settings?.memory?.embedding),
+          models: getEmbeddingModelCounts(),
+          reembed: getReembedStatus(),
         });
       } catch (err: any) {
         res.status(500).json({ error: err.message });
       }
     });
 
+    // Re-embed chunks whose vector isn't from the configured model. Runs in
+    // the background; progress is reported by the stats route.
+    this.app.post("/api/memory/embeddings/reembed", async (req, res) => {
+      const job = reembedChunks();
+      // Still running after its synchronous setup = batches are in flight
+      if (getReembedStatus()?.running) {
+        job
+          .then((status) => console.log(`[Dashboard] Re-embed finished: ${status.done} done, ${status.failed} failed`))
+          .catch((err) => console.error("[Dashboard] Re-embed failed:", err));
+        res.json({ reembed: getReembedStatus() });
+        return;
+      }
+      try {
+        res.json({ reembed: await job });
+      } catch (err: any) {
+        // Lock held by another embedding job, or the provider isn't usable
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    // ── Chunk inspector: browse and curate individual chunks ──
+
+    this.app.get("/api/memory/chunks", (req, res) => {
+      const dbPath = path.join(process.cwd(), "user", "embeddings.db");
+      if (!existsSync(dbPath)) {
+        res.json({ total: 0, chunks: [], days: [] });
+        return;
+      }
+      try {
+        res.json(listChunks({
+          sessionId: (req.query.session as string) || undefined,
+          from: (req.query.from as string) || undefined,
+          to: (req.query.to as string) || undefined,
+          pinnedOnly: req.query.pinned === "1",
+          limit: Math.max(1, Math.min(200, parseInt(req.query.limit as string) || 50)),
+          offset: Math.max(0, parseInt(req.query.offset as string) || 0),
+        }));
+      } catch (err: any) {
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    this.app.get("/api/memory/chunks/:id", (req, res) => {
+      const chunk = getChunk(Number(req.params.id));
+      if (!chunk) {
+        res.status(404).json({ error: "Chunk not found" });
+        return;
+      }
+      res.json(chunk);
+    });
+
+    // Edit text and/or context sentence — re-embeds the chunk, and its facts
+    // are extracted again on the next run
+    this.app.put("/api/memory/chunks/:id", async (req, res) => {
+      const { text, context } = req.body ?? {};
+      if ((text !== undefined && typeof text !== "string") || (context !== undefined && context !== null && typeof context !== "string")) {
+        res.status(400).json({ error: "text and context must be strings" });
+        return;
+      }
+      try {
+        const chunk = await updateChunk(Number(req.params.id), { text, context });
+        if (!chunk) {
+          res.status(404).json({ error: "Chunk not found" });
+          return;
+        }
+        if (text !== undefined) forgetChunkFacts(chunk.id);
+        res.json(chunk);
+      } catch (err: any) {
+        console.error("[Dashboard] Chunk edit failed:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    this.app.put("/api/memory/chunks/:id/pin", (req, res) => {
+      const chunk = setChunkPinned(Number(req.params.id), req.body?.pinned !== false);
+      if (!chunk) {
+        res.status(404).json({ error: "Chunk not found" });
+        return;
+      }
+      res.json(chunk);
+    });
+
+    this.app.post("/api/memory/chunks/:id/reembed", async (req, res) => {
+      try {
+        const chunk = await reembedChunk(Number(req.params.id), {
+          regenerateContext: req.body?.regenerateContext === true,
+          contextualizerModel: this.config.settings?.memory?.chunkContextualizerModel?.name,
+        });
+        if (!chunk) {
+          res.status(404).json({ error: "Chunk not found" });
+          return;
+        }
+        res.json(chunk);
+      } catch (err: any) {
+        console.error("[Dashboard] Chunk re-embed failed:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    this.app.delete("/api/memory/chunks/:id", async (req, res) => {
+      try {
+        const id = Number(req.params.id);
+        if (!(await deleteChunk(id))) {
+          res.status(404).json({ error: "Chunk not found" });
+          return;
+        }
+        res.json({ success: true, factsRemoved: forgetChunkFacts(id) });
+      } catch (err: any) {
+        if (err instanceof ChunkPinnedError) {
+          res.status(409).json({ error: err.message });
+          return;
+        }
+        console.error("[Dashboard] Chunk delete failed:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
     // Embeddings search (hybrid) — uses shared searchMemory() with recency bias
     this.app.get("/api/memory/embeddings/search", async (req, res) => {
       const query = req.query.q as string;
       const mode = (req.query.mode as string) || "hybrid";
       const limit = parseInt(req.query.limit as string) || 10;
+      const from = (req.query.from as string) || undefined;
+      const to = (req.query.to as string) || undefined;
 
       if (!query) {
         res.status(400).json({ error: "Missing query parameter 'q'" });
         return;
       }
+      for (const bound of [from, to]) {
+        if (bound && !/^\d{4}-\d{2}-\d{2}$/.test(bound)) {
+          res.status(400).json({ error: `Invalid date "${bound}" — expected YYYY-MM-DD` });
+          return;
+        }
+      }
 
       const dbPath = path.join(process.cwd(), "user", "embeddings.db");
       if (!existsSync(dbPath)) {
@@ -1237,10 +1725,16 @@ export class DashboardChannel implements Channel {
       const start = Date.now();
 
       try {
-        // Use shared search function (includes recency bias)
-        const results = await searchMemory(query, { 
+        // Use shared search function (includes recency bias and the rerank stage)
+        const { results, trace } = await searchMemoryWithTrace(query, { 
           limit, 
-          mode: mode as "hybrid" | "embedding" | "bm25" 
+          mode: mode as "hybrid" | "embedding" | "bm25",
+          rerank: req.query.rerank !== "0",
+          rewrite: req.query.rewrite !== "0",
+          from,
+          to,
+          timeHints: req.query.timeHints !== "0",
+          recency: req.query.recency === "off" ? { curve: "off" } : undefined,
         });
 
         const duration_ms = Date.now() - start;
@@ -1250,6 +1744,20 @@ export class DashboardChannel implements Channel {
           query, 
           mode, 
           duration_ms, 
+          rewrite: {
+            query: trace.contextual_query ?? null,
+            sub_queries: trace.sub_queries ?? [],
+            duration_ms: trace.contextualizer_duration_ms ?? null,
+            skipped: trace.contextualizer_skipped ?? null,
+          },
+          rerank: {
+            model: trace.rerank_model ?? null,
+            duration_ms: trace.rerank_duration_ms ?? null,
+            skipped: trace.rerank_skipped ?? null,
+          },
+          time_filter: trace.time_filter ?? null,
+          searched_query: trace.query,
+          recency_curve: trace.recency_curve,
           results: results.map(r => ({
             id: r.id,
             session_id: r.sessionId,
@@ -1264,6 +1772,8 @@ export class DashboardChannel implements Channel {
             recencyFactor: r.recencyFactor,
             daysAgo: r.daysAgo,
             bm25Score: r.bm25Score,
+            rrfRank: r.rrfRank,
+            rerankScore: r.rerankScore,
           }))
         });
       } catch (err: any) {
@@ -1446,29 +1956,98 @@ export class DashboardChannel implements Channel {
       const msg = req.body as any; // Using any to handle extra fields like attachments
       console.log(`[Dashboard] HTTP chat received: content=${msg.content?.substring(0, 50)}`);
 
-      if (msg.type === "chat" && (msg.content || msg.attachments?.length) && this.eventHandler) {
-        const sessionId = msg.sessionId || "dashboard:default";
-        const parts = sessionId.split(":");
-        const target = parts.length > 1 ? parts.slice(1).join(":") : "default";
-
-        const event: InboundEvent = {
-          sessionKey: sessionId,
-          channel: "dashboard",
-          target: target,
-          author: "user",
-          timestamp: Date.now(),
-          content: msg.content || "",
-          attachments: msg.attachments,
-          raw: msg,
-          hasMention: true,  // Dashboard is always direct conversation
-        };
-        this.eventHandler(event);
+      if (this.dispatchChat(msg)) {
         res.json({ ok: true });
       } else {
         res.status(400).json({ error: "Invalid chat message or no handler" });
       }
     });
 
+    // ── Retention (pruning, see src/retention/retention.ts) ──
+
+    this.app.get("/api/retention", (req, res) => {
+      res.json({
+        config: this.config.retention ?? null,
+        rules: (this.config.retention?.messages ?? []).map(describeRule),
+        lastReport: getLastRetentionReport(),
+      });
+    });
+
+    // Body: { dryRun? }
+    this.app.post("/api/retention/run", async (req, res) => {
+      if (!this.config.retention) {
+        res.status(400).json({ error: 'No "retention" section in vito.config.json' });
+        return;
+      }
+      try {
+        const report = await runRetention(this.queries, this.config.retention, {
+          dryRun: req.body?.dryRun === true,
+          contextualizerModel: this.config.settings?.memory?.chunkContextualizerModel?.name,
+        });
+        if (!report.dryRun) console.log(`[Retention] Manual run: ${summarizeReport(report)}`);
+        res.json({ report, summary: summarizeReport(report) });
+      } catch (err: any) {
+        console.error("[Dashboard] Retention run failed:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // ── Backups (snapshots of user/, see src/backup/backup.ts) ──
+
+    this.app.get("/api/backups", (req, res) => {
+      const dir = getBackupDir(this.config.backup);
+      res.json({
+        dir,
+        schedule: this.config.backup?.schedule ?? null,
+        passphraseSet: !!process.env.BACKUP_PASSPHRASE,
+        backups: listBackups(dir),
+      });
+    });
+
+    // Body: { label? }
+    this.app.post("/api/backups", async (req, res) => {
+      try {
+        const backup = await createBackup({
+          dir: getBackupDir(this.config.backup),
+          exclude: this.config.backup?.exclude,
+          label: typeof req.body?.label === "string" && req.body.label.trim() ? req.body.label.trim() : "manual",
+        });
+        res.json({ backup });
+      } catch (err: any) {
+        console.error("[Dashboard] Backup failed:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // Dry run. Body: { passphrase? } — needed to compare encrypted secrets
+    this.app.post("/api/backups/:name/diff", (req, res) => {
+      try {
+        const diff = diffBackup(req.params.name, {
+          dir: getBackupDir(this.config.backup),
+          exclude: this.config.backup?.exclude,
+          passphrase: req.body?.passphrase || undefined,
+        });
+        res.json({ diff });
+      } catch (err: any) {
+        res.status(400).json({ error: err.message });
+      }
+    });
+
+    // Body: { passphrase? }. Restart the server afterwards to reload config and secrets.
+    this.app.post("/api/backups/:name/restore", async (req, res) => {
+      try {
+        const result = await restoreBackup(req.params.name, {
+          dir: getBackupDir(this.config.backup),
+          exclude: this.config.backup?.exclude,
+          passphrase: req.body?.passphrase || undefined,
+        });
+        res.json(result);
+      } catch (err: any) {
+        console.error("[Dashboard] Restore failed:", err);
+        res.status(400).json({ error: err.message });
+      }
+    });
+
     // Server restart endpoint
     this.app.post("/api/server/restart", (req, res) => {
       const clientIp = (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress;
@@ -2465,6 +3044,178 @@ export class DashboardChannel implements Channel {
     });
   }
 
+  /** Turn a dashboard chat payload (HTTP or WebSocket) into an InboundEvent. */
+  private dispatchChat(msg: any): boolean {
+    if (msg?.type !== "chat" || !(msg.content || msg.attachments?.length) || !this.eventHandler) {
+      return false;
+    }
+    const sessionId = msg.sessionId || "dashboard:default";
+    const parts = sessionId.split(":");
+    const target = parts.length > 1 ? parts.slice(1).join(":") : "default";
+
+    const event: InboundEvent = {
+      sessionKey: sessionId,
+      channel: "dashboard",
+      target: target,
+      author: "user",
+      timestamp: Date.now(),
+      content: msg.content || "",
+      attachments: msg.attachments,
+      raw: msg,
+      hasMention: true,  // Dashboard is always direct conversation
+    };
+    this.eventHandler(event);
+    return true;
+  }
+
+  // ── Live push (/ws) ──
+
+  private setupLive() {
+    this.server.on("upgrade", (req, socket, head) => {
+      const pathname = (req.url || "").split("?")[0];
+      if (pathname !== "/ws") {
+        socket.destroy();
+        return;
+      }
+      // Same cookie auth as /api — the upgrade never passes through Express.
+      if (!isRequestAuthenticated(req)) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.handleLiveConnection(ws));
+    });
+
+    // Every message row written by any channel (persistence harness, silent
+    // requireMention stores, cron) is pushed to sockets watching its session.
+    this.unsubscribeMessages = (this.queries as Queries).onMessageChange(({ kind, message }) => {
+      this.trackReply(message);
+      this.pushLive(message.session_id, {
+        type: kind === "insert" ? "message" : "message_update",
+        message,
+      });
+    });
+
+    this.liveHeartbeat = setInterval(() => {
+      for (const client of this.liveClients) {
+        if (!client.alive) {
+          client.ws.terminate();
+          this.liveClients.delete(client);
+          continue;
+        }
+        client.alive = false;
+        try { client.ws.ping(); } catch { /* socket already gone */ }
+      }
+    }, LIVE_HEARTBEAT_MS);
+  }
+
+  private handleLiveConnection(ws: WebSocket) {
+    const client: LiveClient = { ws, sessionId: null, alive: true };
+    this.liveClients.add(client);
+
+    ws.on("pong", () => {
+      client.alive = true;
+    });
+    ws.on("close", () => {
+      this.liveClients.delete(client);
+    });
+    ws.on("error", (err) => {
+      console.error("[Dashboard] WebSocket error:", err.message);
+    });
+    ws.on("message", (data) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (msg?.type === "subscribe") {
+        this.subscribeLive(client, msg.sessionId, msg.afterId);
+      } else if (msg?.type === "chat") {
+        console.log(`[Dashboard] WS chat received: content=${msg.content?.substring(0, 50)}`);
+        this.dispatchChat(msg);
+      }
+    });
+  }
+
+  /**
+   * Point a socket at a session. `afterId` is the last message id the client
+   * already has; everything newer is replayed in the ack so a reconnect never
+   * loses rows. Reads and listener registration happen in the same tick
+   * (better-sqlite3 is synchronous), so there's no gap between replay and live.
+   *
+   * afterId 0 means the client has nothing yet and loads the page over REST,
+   * so nothing is replayed. More than LIVE_REPLAY_LIMIT missed rows come back
+   * as `truncated` instead, and the client reloads.
+   */
+  private subscribeLive(client: LiveClient, sessionId: unknown, afterId: unknown) {
+    const id = typeof sessionId === "string" && sessionId ? sessionId : "dashboard:default";
+    const after = Math.max(0, Number(afterId) || 0);
+    client.sessionId = id;
+
+    const missed = after > 0
+      ? this.queries.getAllMessagesForSession(id, LIVE_REPLAY_LIMIT + 1, undefined, false, false, after)
+      : [];
+    const truncated = missed.length > LIVE_REPLAY_LIMIT;
+    this.sendLive(client, {
+      type: "subscribed",
+      sessionId: id,
+      missed: truncated ? [] : missed,
+      truncated,
+      typing: this.typingSessions.has(id),
+      queue: this.queueManager?.getQueue(id) ?? [],
+    });
+  }
+
+  private sendLive(client: LiveClient, frame: Record<string, unknown>) {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    client.ws.send(JSON.stringify(frame));
+  }
+
+  private pushLive(sessionId: string, frame: Record<string, unknown>) {
+    for (const client of this.liveClients) {
+      if (client.sessionId !== sessionId) continue;
+      this.sendLive(client, { ...frame, sessionId });
+    }
+  }
+
+  private trackReply(message: MessageRow) {
+    let replies = this.replyTexts.get(message.session_id);
+    if (message.type !== "thought" && message.type !== "assistant") {
+      replies?.delete(message.id);
+      return;
+    }
+    if (!replies) {
+      replies = new Map();
+      this.replyTexts.set(message.session_id, replies);
+    }
+    let text: string;
+    try {
+      text = extractMessageText(message.content);
+    } catch {
+      text = message.content;
+    }
+    replies.set(message.id, { timestamp: message.timestamp, text });
+    if (replies.size > RECENT_REPLIES_PER_SESSION) {
+      replies.delete(replies.keys().next().value!);
+    }
+  }
+
+  private recentReplies(sessionId: string, since: number): string[] {
+    const replies = this.replyTexts.get(sessionId);
+    if (!replies) return [];
+    return [...replies.entries()]
+      .sort(([a], [b]) => a - b)
+      .filter(([, reply]) => reply.timestamp >= since)
+      .map(([, reply]) => reply.text);
+  }
+
+  private setLiveTyping(sessionId: string, active: boolean) {
+    if (active) this.typingSessions.add(sessionId);
+    else this.typingSessions.delete(sessionId);
+    this.pushLive(sessionId, { type: "typing", active });
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve) => {
       this.server.listen(this.port, () => {
@@ -2475,6 +3226,19 @@ export class DashboardChannel implements Channel {
   }
 
   async stop(): Promise<void> {
+    if (this.liveHeartbeat) {
+      clearInterval(this.liveHeartbeat);
+      this.liveHeartbeat = null;
+    }
+    this.unsubscribeMessages?.();
+    this.unsubscribeMessages = null;
+    this.replyTexts.clear();
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = null;
+    for (const client of this.liveClients) {
+      client.ws.terminate();
+    }
+    this.liveClients.clear();
     this.server.closeAllConnections();
     return new Promise((resolve) => {
       this.server.close(() => resolve());
@@ -2491,7 +3255,11 @@ export class DashboardChannel implements Channel {
   }
 
   createHandler(event: InboundEvent): OutputHandler {
-    return new DashboardOutputHandler(event);
+    return new DashboardOutputHandler(event, {
+      push: (sessionId, frame) => this.pushLive(sessionId, frame),
+      setTyping: (sessionId, active) => this.setLiveTyping(sessionId, active),
+      recentReplies: (sessionId, since) => this.recentReplies(sessionId, since),
+    });
   }
 
   getSessionKey(payload: any): string {
@@ -2499,11 +3267,55 @@ export class DashboardChannel implements Channel {
   }
 }
 
+/**
+ * Pushes turn activity to browsers watching the session. Assistant text,
+ * tool rows and errors reach the browser as message rows (see setupLive), so
+ * relay() only forwards text that never hits the DB — command replies like
+ * /new's "Fresh start!" and other status notices.
+ */
 class DashboardOutputHandler implements OutputHandler {
-  constructor(private event: InboundEvent) {}
+  private readonly createdAt = Date.now();
+
+  constructor(
+    private event: InboundEvent,
+    private live: LivePush
+  ) {}
+
+  async relay(msg: string): Promise<void> {
+    if (!msg || this.isPersisted(msg)) return;
+    this.live.push(this.event.sessionKey, { type: "relay", content: msg, timestamp: Date.now() });
+  }
+
+  async relayDelta(delta: string): Promise<void> {
+    this.live.push(this.event.sessionKey, { type: "delta", content: delta });
+  }
+
+  async relayEvent(event: AgentActivityEvent): Promise<void> {
+    // The page only shows which tool is running; results arrive as persisted
+    // rows (previewed when large), so a huge result isn't pushed to every socket
+    const { result, ...activity } = event;
+    this.live.push(this.event.sessionKey, { type: "activity", event: activity });
+  }
+
+  async startTyping(): Promise<void> {
+    this.live.setTyping(this.event.sessionKey, true);
+  }
+
+  async stopTyping(): Promise<void> {
+    this.live.setTyping(this.event.sessionKey, false);
+  }
+
+  async endMessage(): Promise<void> {
+    this.live.push(this.event.sessionKey, { type: "message_end" });
+  }
 
-  async relay(): Promise<void> {
-    // no-op — frontend polls from DB
+  /**
+   * Whether `msg` is already stored as assistant output from this turn —
+   * either one message (stream/final modes) or all of them joined (bundled).
+   */
+  private isPersisted(msg: string): boolean {
+    const texts = this.live.recentReplies(this.event.sessionKey, this.createdAt);
+    return texts.includes(msg) || (texts.length > 1 && texts.join("\n\n") === msg);
   }
 }
 
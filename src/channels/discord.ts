@@ -1,6 +1,7 @@
 import { Client, GatewayIntentBits, Partials, Message as DiscordMessage, TextChannel, DMChannel, AttachmentBuilder, REST, Routes, SlashCommandBuilder, ChatInputCommandInteraction } from "discord.js";
 import * as fs from "fs";
 import * as path from "path";
+import { formatCommandText, MAX_COMMAND_DESCRIPTION_LENGTH, type SlashCommand } from "../commands/registry.js";
 import type {
   Channel,
   InboundEvent,
@@ -10,6 +11,8 @@ import type {
 } from "../types.js";
 
 const DISCORD_MAX_LENGTH = 2000;
+/** Minimum gap between edits of a streaming draft (keeps well under Discord's edit rate limit) */
+const STREAM_EDIT_INTERVAL_MS = 1000;
 
 export class DiscordChannel implements Channel {
   name = "discord";
@@ -17,11 +20,12 @@ export class DiscordChannel implements Channel {
     typing: true,
     reactions: true,
     attachments: true,
-    streaming: false,
+    streaming: true,
   };
 
   private client: Client | null = null;
   private config: VitoConfig;
+  private getCommands: () => SlashCommand[] = () => [];
 
   constructor(config: VitoConfig) {
     this.config = config;
@@ -138,6 +142,7 @@ export class DiscordChannel implements Channel {
         channel: "discord",
         target: target,
         author: msg.author.tag,
+        authorId: msg.author.id,
         timestamp: Date.now(),
         content,
         raw: msg,
@@ -171,94 +176,32 @@ export class DiscordChannel implements Channel {
 
       const target = interaction.guild ? interaction.channelId : interaction.user.id;
 
-      if (interaction.commandName === "new") {
-        // Defer the reply since embedding can take a while
-        await interaction.deferReply();
-
-        const event: InboundEvent = {
-          sessionKey: `discord:${target}`,
-          channel: "discord",
-          target: target,
-          author: interaction.user.tag,
-          timestamp: Date.now(),
-          content: "/new",
-          raw: interaction,
-        };
-
-        console.log(`[Discord] ⚡ Slash command /new from ${interaction.user.tag}`);
-        onEvent(event);
-      }
-
-      if (interaction.commandName === "compact") {
-        await interaction.deferReply();
-
-        const event: InboundEvent = {
-          sessionKey: `discord:${target}`,
-          channel: "discord",
-          target: target,
-          author: interaction.user.tag,
-          timestamp: Date.now(),
-          content: "/compact",
-          raw: interaction,
-        };
-
-        console.log(`[Discord] ⚡ Slash command /compact from ${interaction.user.tag}`);
-        onEvent(event);
-      }
-
-      if (interaction.commandName === "model") {
-        await interaction.deferReply();
-        const model = interaction.options.getString("model", false)?.trim() || "";
-
-        const event: InboundEvent = {
-          sessionKey: `discord:${target}`,
-          channel: "discord",
-          target: target,
-          author: interaction.user.tag,
-          timestamp: Date.now(),
-          content: model ? `/model ${model}` : "/model",
-          raw: interaction,
-        };
-
-        console.log(`[Discord] ⚡ Slash command /model from ${interaction.user.tag}`);
-        onEvent(event);
+      const command = this.getCommands().find((c) => c.name === interaction.commandName);
+      if (!command) {
+        await interaction.reply({ content: "That command is no longer available.", ephemeral: true });
+        return;
       }
 
-      if (interaction.commandName === "stop") {
-        // Defer so we can respond after orchestrator handles it
-        await interaction.deferReply();
-
-        const event: InboundEvent = {
-          sessionKey: `discord:${target}`,
-          channel: "discord",
-          target: target,
-          author: interaction.user.tag,
-          timestamp: Date.now(),
-          content: "/stop",
-          raw: interaction,
-        };
-
-        console.log(`[Discord] ⚡ Slash command /stop from ${interaction.user.tag}`);
-        onEvent(event);
-      }
+      // Defer so the orchestrator can answer after slow commands (/new, skill
+      // runs) — the handler's relay edits the deferred reply.
+      await interaction.deferReply();
 
-      if (interaction.commandName === "restart") {
-        // Defer so we can respond before server dies
-        await interaction.deferReply();
-
-        const event: InboundEvent = {
-          sessionKey: `discord:${target}`,
-          channel: "discord",
-          target: target,
-          author: interaction.user.tag,
-          timestamp: Date.now(),
-          content: "/restart",
-          raw: interaction,
-        };
+      const event: InboundEvent = {
+        sessionKey: `discord:${target}`,
+        channel: "discord",
+        target: target,
+        author: interaction.user.tag,
+        authorId: interaction.user.id,
+        timestamp: Date.now(),
+        content: formatCommandText(
+          command.name,
+          (command.args ?? []).map((arg) => interaction.options.getString(arg.name, false))
+        ),
+        raw: interaction,
+      };
 
-        console.log(`[Discord] ⚡ Slash command /restart from ${interaction.user.tag}`);
-        onEvent(event);
-      }
+      console.log(`[Discord] ⚡ Slash command /${command.name} from ${interaction.user.tag}`);
+      onEvent(event);
     });
 
     return () => {
@@ -300,6 +243,11 @@ export class DiscordChannel implements Channel {
     }
   }
 
+  /** Where commands come from (the orchestrator's registry) */
+  setCommandsGetter(getter: () => SlashCommand[]): void {
+    this.getCommands = getter;
+  }
+
   /**
    * Register slash commands with the Discord API.
    * Call once (or when commands change). Commands persist until removed.
@@ -314,29 +262,20 @@ export class DiscordChannel implements Channel {
       return { success: false, count: 0, error: "DISCORD_BOT_TOKEN not set" };
     }
 
-    const commands = [
-      new SlashCommandBuilder()
-        .setName("new")
-        .setDescription("Fresh start — new pi session, picks up system prompt changes, archives chat"),
-      new SlashCommandBuilder()
-        .setName("compact")
-        .setDescription("Summarize older turns to free context — conversation continues"),
-      new SlashCommandBuilder()
-        .setName("model")
-        .setDescription("Switch or inspect the live pi model for this session")
-        .addStringOption((option) =>
+    const commands = this.getCommands().map((command) => {
+      const builder = new SlashCommandBuilder()
+        .setName(command.name)
+        .setDescription(command.description.slice(0, MAX_COMMAND_DESCRIPTION_LENGTH));
+      for (const arg of command.args ?? []) {
+        builder.addStringOption((option) =>
           option
-            .setName("model")
-            .setDescription("provider/model-name, e.g. anthropic/claude-sonnet-4-20250514")
-            .setRequired(false)
-        ),
-      new SlashCommandBuilder()
-        .setName("stop")
-        .setDescription("Stop current request and clear any queued messages"),
-      new SlashCommandBuilder()
-        .setName("restart")
-        .setDescription("Restart the Vito server (PM2)"),
-    ];
+            .setName(arg.name)
+            .setDescription(arg.description.slice(0, MAX_COMMAND_DESCRIPTION_LENGTH))
+            .setRequired(arg.required === true)
+        );
+      }
+      return builder;
+    });
 
     const rest = new REST({ version: "10" }).setToken(token);
 
@@ -383,6 +322,14 @@ class DiscordOutputHandler implements OutputHandler {
   private channelReady: Promise<void>;
   private interaction: ChatInputCommandInteraction | null = null;
   private interactionReplied = false;
+  // Streaming draft: sent on the first delta, then edited in place (throttled).
+  // "interaction" means the draft is the slash command's reply, edited via editReply.
+  private draft = "";
+  private draftMessage: DiscordMessage | "interaction" | null = null;
+  private draftShown = "";
+  private draftTimer: ReturnType<typeof setTimeout> | null = null;
+  private draftChain: Promise<void> = Promise.resolve();
+  private lastDraftEditAt = 0;
 
   constructor(
     private client: Client,
@@ -418,9 +365,24 @@ class DiscordOutputHandler implements OutputHandler {
   }
 
   async relay(msg: OutboundMessage): Promise<void> {
+    if (this.draft) {
+      // Whole text of the message we've been streaming — it supersedes the draft
+      this.draft = msg;
+      return;
+    }
     this.buffer += msg;
   }
 
+  async relayDelta(delta: string): Promise<void> {
+    this.draft += delta;
+    if (this.draftTimer) return;
+    const wait = Math.max(0, this.lastDraftEditAt + STREAM_EDIT_INTERVAL_MS - Date.now());
+    this.draftTimer = setTimeout(() => {
+      this.draftTimer = null;
+      this.draftChain = this.draftChain.then(() => this.pushDraft());
+    }, wait);
+  }
+
   async startTyping(): Promise<void> {
     await this.channelReady;
     if (!this.channel || this.typingStopped) return;
@@ -455,13 +417,90 @@ class DiscordOutputHandler implements OutputHandler {
       clearTimeout(this.typingTimeout);
       this.typingTimeout = null;
     }
+    await this.finishDraft();
     await this.flushBuffer();
   }
 
   async endMessage(): Promise<void> {
+    await this.finishDraft();
     await this.flushBuffer();
   }
 
+  /** Send or edit the draft message with the text streamed so far. */
+  private async pushDraft(): Promise<void> {
+    await this.channelReady;
+    if (!this.channel && !this.interaction) return;
+
+    const text = this.draft.length > DISCORD_MAX_LENGTH
+      ? this.draft.slice(0, DISCORD_MAX_LENGTH - 1) + "…"
+      : this.draft;
+    if (!text.trim() || text === this.draftShown) return;
+
+    this.lastDraftEditAt = Date.now();
+    try {
+      await this.writeDraft(text);
+      this.draftShown = text;
+    } catch (err: any) {
+      console.error(`[Discord] ❌ Draft update failed: ${err.message}`);
+    }
+  }
+
+  private async writeDraft(text: string): Promise<void> {
+    if (this.draftMessage === "interaction") {
+      await this.interaction!.editReply(text);
+    } else if (this.draftMessage) {
+      await this.draftMessage.edit(text);
+    } else if (this.interaction && !this.interactionReplied) {
+      this.interactionReplied = true;
+      this.draftMessage = "interaction";
+      await this.interaction.editReply(text);
+    } else if (this.channel) {
+      this.draftMessage = await this.channel.send(text);
+    }
+  }
+
+  /**
+   * Settle the streaming draft. Plain text that fits gets a final edit in
+   * place; anything needing splitting or MEDIA handling replaces the draft
+   * with a normal send.
+   */
+  private async finishDraft(): Promise<void> {
+    if (this.draftTimer) {
+      clearTimeout(this.draftTimer);
+      this.draftTimer = null;
+    }
+    await this.draftChain;
+
+    const text = this.draft;
+    const draftMessage = this.draftMessage;
+    const shown = this.draftShown;
+    this.draft = "";
+    this.draftShown = "";
+    if (!text) {
+      this.draftMessage = null;
+      return;
+    }
+
+    if (draftMessage) {
+      if (text.length <= DISCORD_MAX_LENGTH && !/MEDIA:/.test(text)) {
+        try {
+          if (text !== shown) await this.writeDraft(text);
+          this.draftMessage = null;
+          return;
+        } catch (err: any) {
+          console.error(`[Discord] ❌ Final draft edit failed, resending: ${err.message}`);
+        }
+      }
+      if (draftMessage === "interaction") {
+        await this.interaction!.deleteReply().catch(() => {});
+      } else {
+        await draftMessage.delete().catch(() => {});
+      }
+    }
+    this.draftMessage = null;
+    this.buffer += text;
+  }
+
   private sendTyping(): void {
     if (!this.channel) return;
     (this.channel as TextChannel).sendTyping?.().catch(() => {});
@@ -1,5 +1,6 @@
 import { Bot } from "grammy";
 import * as path from "path";
+import { MAX_TELEGRAM_COMMAND_DESCRIPTION_LENGTH, type SlashCommand } from "../commands/registry.js";
 import type {
   Channel,
   InboundEvent,
@@ -8,6 +9,8 @@ import type {
 } from "../types.js";
 
 const TELEGRAM_MAX_LENGTH = 4096;
+/** Minimum gap between edits of a streaming draft (Telegram allows ~1 edit/sec per chat) */
+const STREAM_EDIT_INTERVAL_MS = 1500;
 
 export class TelegramChannel implements Channel {
   name = "telegram";
@@ -15,11 +18,12 @@ export class TelegramChannel implements Channel {
     typing: true,
     reactions: false,
     attachments: true,
-    streaming: false,
+    streaming: true,
   };
 
   private bot: Bot | null = null;
   private config: any;
+  private getCommands: () => SlashCommand[] = () => [];
 
   constructor(config: any) {
     this.config = config;
@@ -46,18 +50,21 @@ export class TelegramChannel implements Channel {
     this.bot = null;
   }
 
+  /** Where setMyCommands gets the command list (the orchestrator's registry) */
+  setCommandsGetter(getter: () => SlashCommand[]): void {
+    this.getCommands = getter;
+  }
+
   /**
    * Register bot commands with Telegram's command menu
    */
   async setMyCommands(): Promise<{ success: boolean; count: number }> {
     if (!this.bot) throw new Error("Bot not initialized");
     
-    const commands = [
-      { command: "new", description: "Fresh start — new pi session, archive chat" },
-      { command: "compact", description: "Summarize older turns to free context" },
-      { command: "stop", description: "Abort the current request" },
-      { command: "model", description: "Show or switch the live pi model" },
-    ];
+    const commands = this.getCommands().map((c) => ({
+      command: c.name,
+      description: c.description.slice(0, MAX_TELEGRAM_COMMAND_DESCRIPTION_LENGTH),
+    }));
     
     await this.bot.api.setMyCommands(commands);
     return { success: true, count: commands.length };
@@ -148,6 +155,7 @@ export class TelegramChannel implements Channel {
         channel: "telegram",
         target: String(ctx.chat.id),
         author: ctx.from?.username || ctx.from?.first_name || "user",
+        authorId: ctx.from ? String(ctx.from.id) : undefined,
         timestamp: Date.now(),
         content,
         raw: ctx,
@@ -194,6 +202,7 @@ export class TelegramChannel implements Channel {
         channel: "telegram",
         target: String(ctx.chat.id),
         author: ctx.from?.username || ctx.from?.first_name || "user",
+        authorId: ctx.from ? String(ctx.from.id) : undefined,
         timestamp: Date.now(),
         content: normalizeContent(ctx.message.caption || ""),
         hasMention,
@@ -228,6 +237,7 @@ export class TelegramChannel implements Channel {
         channel: "telegram",
         target: String(ctx.chat.id),
         author: ctx.from?.username || ctx.from?.first_name || "user",
+        authorId: ctx.from ? String(ctx.from.id) : undefined,
         timestamp: Date.now(),
         content: normalizeContent(ctx.message.caption || ""),
         hasMention,
@@ -263,6 +273,7 @@ export class TelegramChannel implements Channel {
         channel: "telegram",
         target: String(ctx.chat.id),
         author: ctx.from?.username || ctx.from?.first_name || "user",
+        authorId: ctx.from ? String(ctx.from.id) : undefined,
         timestamp: Date.now(),
         content: normalizeContent(ctx.message.caption || ""),
         hasMention,
@@ -298,6 +309,7 @@ export class TelegramChannel implements Channel {
         channel: "telegram",
         target: String(ctx.chat.id),
         author: ctx.from?.username || ctx.from?.first_name || "user",
+        authorId: ctx.from ? String(ctx.from.id) : undefined,
         timestamp: Date.now(),
         content: normalizeContent(ctx.message.caption || ""),
         hasMention,
@@ -340,6 +352,13 @@ export class TelegramChannel implements Channel {
 class TelegramOutputHandler implements OutputHandler {
   private buffer = "";
   private typingInterval: ReturnType<typeof setInterval> | null = null;
+  // Streaming draft: sent on the first delta, then edited in place (throttled)
+  private draft = "";
+  private draftMessageId: number | null = null;
+  private draftShown = "";
+  private draftTimer: ReturnType<typeof setTimeout> | null = null;
+  private draftChain: Promise<void> = Promise.resolve();
+  private lastDraftEditAt = 0;
   private chatId: string;
   private threadId?: number;
 
@@ -355,10 +374,25 @@ class TelegramOutputHandler implements OutputHandler {
 
   async relay(msg: OutboundMessage): Promise<void> {
     console.log(`[Telegram] relay() called with: ${msg.substring(0, 100)}...`);
+    if (this.draft) {
+      // Whole text of the message we've been streaming — it supersedes the draft
+      this.draft = msg;
+      return;
+    }
     this.buffer += msg;
     console.log(`[Telegram] buffer now has ${this.buffer.length} chars`);
   }
 
+  async relayDelta(delta: string): Promise<void> {
+    this.draft += delta;
+    if (this.draftTimer) return;
+    const wait = Math.max(0, this.lastDraftEditAt + STREAM_EDIT_INTERVAL_MS - Date.now());
+    this.draftTimer = setTimeout(() => {
+      this.draftTimer = null;
+      this.draftChain = this.draftChain.then(() => this.pushDraft());
+    }, wait);
+  }
+
   async startTyping(): Promise<void> {
     console.log(`[Telegram] startTyping() called for chat ${this.chatId}${this.threadId ? ` thread ${this.threadId}` : ''}`);
     // Idempotent: clear any existing interval before starting a new one so that
@@ -377,13 +411,72 @@ class TelegramOutputHandler implements OutputHandler {
       clearInterval(this.typingInterval);
       this.typingInterval = null;
     }
+    await this.finishDraft();
     await this.flushBuffer();
   }
 
   async endMessage(): Promise<void> {
+    await this.finishDraft();
     await this.flushBuffer();
   }
 
+  /** Send or edit the draft message with the text streamed so far. */
+  private async pushDraft(): Promise<void> {
+    const text = this.draft.length > TELEGRAM_MAX_LENGTH
+      ? this.draft.slice(0, TELEGRAM_MAX_LENGTH - 1) + "…"
+      : this.draft;
+    if (!text.trim() || text === this.draftShown) return;
+
+    this.lastDraftEditAt = Date.now();
+    try {
+      if (this.draftMessageId === null) {
+        const msgOptions = this.threadId ? { message_thread_id: this.threadId } : undefined;
+        const sent = await this.bot.api.sendMessage(this.chatId, text, msgOptions);
+        this.draftMessageId = sent.message_id;
+      } else {
+        await this.bot.api.editMessageText(this.chatId, this.draftMessageId, text);
+      }
+      this.draftShown = text;
+    } catch (err: any) {
+      console.log(`[Telegram] ❌ Draft update failed: ${err.message || err}`);
+    }
+  }
+
+  /**
+   * Settle the streaming draft. Plain text that fits gets a final edit in
+   * place; anything needing splitting or MEDIA handling replaces the draft
+   * with a normal send.
+   */
+  private async finishDraft(): Promise<void> {
+    if (this.draftTimer) {
+      clearTimeout(this.draftTimer);
+      this.draftTimer = null;
+    }
+    await this.draftChain;
+
+    const text = this.draft;
+    const messageId = this.draftMessageId;
+    const shown = this.draftShown;
+    this.draft = "";
+    this.draftMessageId = null;
+    this.draftShown = "";
+    if (!text) return;
+
+    if (messageId !== null) {
+      if (text.length <= TELEGRAM_MAX_LENGTH && !/MEDIA:/.test(text)) {
+        if (text === shown) return;
+        try {
+          await this.bot.api.editMessageText(this.chatId, messageId, text);
+          return;
+        } catch (err: any) {
+          console.log(`[Telegram] ❌ Final draft edit failed, resending: ${err.message || err}`);
+        }
+      }
+      await this.bot.api.deleteMessage(this.chatId, messageId).catch(() => {});
+    }
+    this.buffer += text;
+  }
+
   private sendTypingAction(): void {
     // For General topic (no threadId) or DMs, don't pass message_thread_id at all
     // This treats General topic like a DM - just send to the chat, no thread params
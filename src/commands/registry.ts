@@ -0,0 +1,179 @@
+/**
+ * SLASH COMMAND REGISTRY
+ *
+ * One place where every slash command (/new, /model, /queue, ...) declares
+ * its name, description, arguments and handler. The orchestrator routes
+ * commands through it, and channels with a native command menu (Telegram's
+ * setMyCommands, Discord's application commands) build their lists from it
+ * instead of keeping their own copies.
+ *
+ * Two sources:
+ *   - Built-ins, registered by the orchestrator at startup
+ *   - Skill commands, declared in a skill's SKILL.md frontmatter and turned
+ *     into a prompt for the agent (see skillCommands)
+ */
+
+import type { Channel, InboundEvent, SkillMeta, UserRole } from "../types.js";
+
+/** Telegram and Discord both accept lowercase letters, digits and `_`, up to 32 chars. */
+const COMMAND_NAME_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+/** Discord option names: lowercase letters, digits, `_` and `-`, up to 32 chars. */
+const ARG_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+/** Discord's limit for command and option descriptions. */
+export const MAX_COMMAND_DESCRIPTION_LENGTH = 100;
+
+/** Telegram's limit for command descriptions. */
+export const MAX_TELEGRAM_COMMAND_DESCRIPTION_LENGTH = 256;
+
+/** Discord's limit for options per command. */
+const MAX_COMMAND_ARGS = 25;
+
+export interface CommandArg {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface CommandContext {
+  event: InboundEvent;
+  channel: Channel;
+  /** Everything after the command name, trimmed */
+  args: string;
+}
+
+export interface SlashCommand {
+  /** Without the leading slash, e.g. "model" */
+  name: string;
+  description: string;
+  /** Arguments in order — channels with typed options expose one per arg */
+  args?: CommandArg[];
+  /** Handle ahead of the session queue, so it answers while a turn is running */
+  priority?: boolean;
+  /** Least role allowed to run it (see orchestrator_v2/access.ts). Default: anyone */
+  minRole?: UserRole;
+  /** Skill that contributed the command, if any */
+  skill?: string;
+  /**
+   * Reply to the command. Return a string to run it as a prompt for the
+   * agent instead (how skill commands work).
+   */
+  handler(ctx: CommandContext): Promise<string | void>;
+}
+
+export interface CommandMatch {
+  command: SlashCommand;
+  args: string;
+}
+
+export class CommandRegistry {
+  private builtins = new Map<string, SlashCommand>();
+  private skillCommands = new Map<string, SlashCommand>();
+
+  register(command: SlashCommand): void {
+    if (!COMMAND_NAME_PATTERN.test(command.name)) {
+      throw new Error(`Invalid command name "${command.name}" — use lowercase letters, digits and _`);
+    }
+    this.builtins.set(command.name, command);
+  }
+
+  /**
+   * Replace the skill-contributed commands. Skills can't shadow a built-in;
+   * those, invalid names and args Discord would reject (which would fail the
+   * whole command registration) are skipped with a warning.
+   */
+  setSkillCommands(commands: SlashCommand[]): void {
+    this.skillCommands.clear();
+    for (const command of commands) {
+      const args = normalizeArgs(command.args);
+      if (!COMMAND_NAME_PATTERN.test(command.name)) {
+        console.warn(`[Commands] Skipping /${command.name} from skill ${command.skill}: invalid name`);
+      } else if (this.builtins.has(command.name)) {
+        console.warn(`[Commands] Skipping /${command.name} from skill ${command.skill}: built-in command`);
+      } else if (typeof args === "string") {
+        console.warn(`[Commands] Skipping /${command.name} from skill ${command.skill}: ${args}`);
+      } else {
+        this.skillCommands.set(command.name, { ...command, args });
+      }
+    }
+  }
+
+  get(name: string): SlashCommand | undefined {
+    return this.builtins.get(name) ?? this.skillCommands.get(name);
+  }
+
+  /** Built-ins first, then skill commands by name */
+  list(): SlashCommand[] {
+    const skills = [...this.skillCommands.values()].sort((a, b) => a.name.localeCompare(b.name));
+    return [...this.builtins.values(), ...skills];
+  }
+
+  /** Resolve "/name args" (already normalized — no @bot suffix) to a registered command. */
+  match(text: string): CommandMatch | null {
+    const m = /^\/([A-Za-z0-9_]+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+    if (!m) return null;
+    const command = this.get(m[1].toLowerCase());
+    return command ? { command, args: (m[2] ?? "").trim() } : null;
+  }
+}
+
+/**
+ * Args as Discord accepts them — lowercase names (spaces become `_`),
+ * unique, required before optional, with a description — or why they can't
+ * be.
+ */
+function normalizeArgs(args: CommandArg[] | undefined): CommandArg[] | undefined | string {
+  if (!args) return undefined;
+  if (args.length > MAX_COMMAND_ARGS) return `more than ${MAX_COMMAND_ARGS} args`;
+
+  const seen = new Set<string>();
+  let optionalSeen = false;
+  const normalized: CommandArg[] = [];
+  for (const arg of args) {
+    const name = arg.name.trim().toLowerCase().replace(/\s+/g, "_");
+    if (!ARG_NAME_PATTERN.test(name)) return `invalid arg name "${arg.name}"`;
+    if (seen.has(name)) return `duplicate arg "${name}"`;
+    if (arg.required && optionalSeen) return `required arg "${name}" after an optional one`;
+    seen.add(name);
+    optionalSeen ||= !arg.required;
+    normalized.push({ ...arg, name, description: arg.description.trim() || name });
+  }
+  return normalized;
+}
+
+/**
+ * Commands declared by skills. In SKILL.md frontmatter:
+ *
+ *   commands:
+ *     - name: standup
+ *       description: Summarize yesterday's commits
+ *       args:
+ *         - name: repo
+ *           description: Repository to summarize
+ *       prompt: "Use the standup skill for {{args}}"
+ *
+ * Running the command sends `prompt` to the agent, with {{args}} replaced by
+ * whatever followed the command. Without a prompt, the agent is told to use
+ * the skill with the arguments as its input.
+ */
+export function skillCommands(skills: SkillMeta[]): SlashCommand[] {
+  return skills.flatMap((skill) =>
+    (skill.commands ?? []).map((spec): SlashCommand => ({
+      name: spec.name,
+      description: spec.description || `Run the ${skill.name} skill`,
+      args: spec.args,
+      skill: skill.name,
+      handler: async ({ args }) => {
+        if (spec.prompt) return spec.prompt.replace(/\{\{\s*args\s*\}\}/g, args).trim();
+        return `Use the ${skill.name} skill (${skill.path})${args ? ` with: ${args}` : "."}`;
+      },
+    }))
+  );
+}
+
+/** Text channels send commands as "/name arg1 arg2" — the form match() expects. */
+export function formatCommandText(name: string, argValues: Array<string | null | undefined>): string {
+  const args = argValues.map((v) => v?.trim()).filter(Boolean).join(" ");
+  return args ? `/${name} ${args}` : `/${name}`;
+}
@@ -0,0 +1,169 @@
+/**
+ * embeddings.db migrations — chunk store, vectors and the FTS5 keyword index
+ * used by semantic history search, and the structured facts extracted from
+ * the chunks.
+ */
+
+import type { Migration } from "./index.js";
+import { hasColumn } from "./index.js";
+
+export const EMBEDDINGS_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          text TEXT NOT NULL,
+          context TEXT,
+          embedded_text TEXT,
+          msg_id_start INTEGER,
+          msg_id_end INTEGER,
+          msg_count INTEGER,
+          created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          UNIQUE(session_id, day, chunk_index)
+        );
+
+        CREATE TABLE IF NOT EXISTS embeddings (
+          chunk_id INTEGER PRIMARY KEY,
+          vector BLOB NOT NULL,
+          FOREIGN KEY (chunk_id) REFERENCES chunks(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_chunks_session_day ON chunks(session_id, day);
+        CREATE INDEX IF NOT EXISTS idx_chunks_day ON chunks(day);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+          text,
+          content='chunks',
+          content_rowid='id'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
+          INSERT INTO chunks_fts(rowid, text) VALUES (new.id, new.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
+          INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.id, old.text);
+        END;
+        CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
+          INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.id, old.text);
+          INSERT INTO chunks_fts(rowid, text) VALUES (new.id, new.text);
+        END;
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "embeddings.model",
+    up(db) {
+      // Which model produced each vector; everything before this was text-embedding-3-small
+      if (!hasColumn(db, "embeddings", "model")) {
+        db.exec("ALTER TABLE embeddings ADD COLUMN model TEXT");
+      }
+      if (!hasColumn(db, "embeddings", "dimensions")) {
+        db.exec("ALTER TABLE embeddings ADD COLUMN dimensions INTEGER");
+      }
+      db.exec(`
+        UPDATE embeddings SET model = 'openai/text-embedding-3-small' WHERE model IS NULL;
+        UPDATE embeddings SET dimensions = length(vector) / 4 WHERE dimensions IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_embeddings_model ON embeddings(model);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "chunk curation",
+    up(db) {
+      // Pinned chunks skip the recency discount and can't be deleted;
+      // edited_at marks text or context changed by hand
+      if (!hasColumn(db, "chunks", "pinned")) {
+        db.exec("ALTER TABLE chunks ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0");
+      }
+      if (!hasColumn(db, "chunks", "edited_at")) {
+        db.exec("ALTER TABLE chunks ADD COLUMN edited_at INTEGER");
+      }
+      // Message ranges of deleted chunks, so incremental embedding doesn't
+      // chunk those messages again
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chunk_deletions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          msg_id_start INTEGER,
+          msg_id_end INTEGER,
+          deleted_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        CREATE INDEX IF NOT EXISTS idx_chunk_deletions_session ON chunk_deletions(session_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "facts",
+    up(db) {
+      // Structured facts extracted from chunks (memory/facts.ts). valid_to
+      // NULL = still true; a superseded fact points at its replacement.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS facts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          subject TEXT NOT NULL,
+          predicate TEXT NOT NULL,
+          value TEXT NOT NULL,
+          session_id TEXT NOT NULL,
+          chunk_id INTEGER,
+          source_msg_ids TEXT NOT NULL DEFAULT '[]',
+          confidence REAL NOT NULL,
+          valid_from TEXT,
+          valid_to TEXT,
+          superseded_by INTEGER REFERENCES facts(id),
+          created_at INTEGER NOT NULL DEFAULT (unixepoch())
+        );
+        CREATE INDEX IF NOT EXISTS idx_facts_subject_predicate ON facts(subject COLLATE NOCASE, predicate COLLATE NOCASE);
+        CREATE INDEX IF NOT EXISTS idx_facts_chunk ON facts(chunk_id);
+
+        CREATE TABLE IF NOT EXISTS fact_conflicts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fact_id INTEGER NOT NULL REFERENCES facts(id),
+          conflicting_fact_id INTEGER NOT NULL REFERENCES facts(id),
+          kind TEXT NOT NULL,
+          reason TEXT,
+          detected_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          resolved_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS idx_fact_conflicts_fact ON fact_conflicts(fact_id);
+        CREATE INDEX IF NOT EXISTS idx_fact_conflicts_other ON fact_conflicts(conflicting_fact_id);
+
+        -- Chunks the extractor has been through
+        CREATE TABLE IF NOT EXISTS fact_extractions (
+          chunk_id INTEGER PRIMARY KEY,
+          extracted_at INTEGER NOT NULL DEFAULT (unixepoch()),
+          fact_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        -- Stemmed, so "live" finds lives_in
+        CREATE VIRTUAL TABLE IF NOT EXISTS facts_fts USING fts5(
+          subject,
+          predicate,
+          value,
+          content='facts',
+          content_rowid='id',
+          tokenize='porter unicode61'
+        );
+        CREATE TRIGGER IF NOT EXISTS facts_ai AFTER INSERT ON facts BEGIN
+          INSERT INTO facts_fts(rowid, subject, predicate, value) VALUES (new.id, new.subject, new.predicate, new.value);
+        END;
+        CREATE TRIGGER IF NOT EXISTS facts_ad AFTER DELETE ON facts BEGIN
+          INSERT INTO facts_fts(facts_fts, rowid, subject, predicate, value) VALUES('delete', old.id, old.subject, old.predicate, old.value);
+        END;
+        CREATE TRIGGER IF NOT EXISTS facts_au AFTER UPDATE OF subject, predicate, value ON facts BEGIN
+          INSERT INTO facts_fts(facts_fts, rowid, subject, predicate, value) VALUES('delete', old.id, old.subject, old.predicate, old.value);
+          INSERT INTO facts_fts(rowid, subject, predicate, value) VALUES (new.id, new.subject, new.predicate, new.value);
+        END;
+      `);
+    },
+  },
+];
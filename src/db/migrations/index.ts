@@ -0,0 +1,106 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Each database has an ordered list of numbered migrations; the ones that
+ * ran are recorded in its `schema_migrations` table. On open, pending
+ * migrations run in order, each in its own transaction together with its
+ * bookkeeping row — a failure rolls that migration back and stops there.
+ *
+ * Databases from before this table existed have no record at all, so every
+ * migration must be safe to run against any older shape (check columns
+ * before adding them, IF NOT EXISTS for tables). Once recorded they never
+ * run again.
+ *
+ * Never edit a migration that has shipped — add a new one.
+ */
+
+import type Database from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name: string;
+  /**
+   * Run with foreign key enforcement off (SQLite can't toggle it inside a
+   * transaction). For table rebuilds; violations are checked before commit.
+   */
+  disableForeignKeys?: boolean;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationReport {
+  database: string;
+  /** Highest applied version (0 = none) */
+  current: number;
+  latest: number;
+  pending: Array<{ version: number; name: string }>;
+  applied: Array<{ version: number; name: string }>;
+}
+
+/** Apply pending migrations, or with dryRun just report them (the database isn't touched). */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[],
+  opts: { database: string; dryRun?: boolean }
+): MigrationReport {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  const done = getAppliedVersions(db);
+  const pending = sorted.filter((m) => !done.has(m.version));
+  const report: MigrationReport = {
+    database: opts.database,
+    current: Math.max(0, ...done),
+    latest: sorted[sorted.length - 1]?.version ?? 0,
+    pending: pending.map(({ version, name }) => ({ version, name })),
+    applied: [],
+  };
+  if (opts.dryRun || pending.length === 0) return report;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)");
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      if (migration.disableForeignKeys) {
+        const violations = db.pragma("foreign_key_check") as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`${violations.length} foreign key violation(s)`);
+        }
+      }
+      record.run(migration.version, migration.name, Date.now());
+    });
+
+    if (migration.disableForeignKeys) db.pragma("foreign_keys = OFF");
+    try {
+      apply();
+    } catch (err) {
+      throw new Error(`[DB Migration] ${opts.database} #${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      if (migration.disableForeignKeys) db.pragma("foreign_keys = ON");
+    }
+    report.applied.push({ version: migration.version, name: migration.name });
+    report.current = migration.version;
+  }
+
+  console.log(`[DB Migration] ${opts.database}: applied ${report.applied.map((m) => `#${m.version} ${m.name}`).join(", ")}`);
+  return report;
+}
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+function getAppliedVersions(db: Database.Database): Set<number> {
+  const table = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+    .get();
+  if (!table) return new Set();
+  const rows = db.prepare("SELECT version FROM schema_migrations").all() as Array<{ version: number }>;
+  return new Set(rows.map((r) => r.version));
+}
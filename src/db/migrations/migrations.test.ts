@@ -0,0 +1,219 @@
+/**
+ * Upgrade tests: a vito.db and embeddings.db in the shape they had before
+ * schema_migrations existed are opened the way the server opens them, and
+ * must converge on the current schema with every migration recorded.
+ *
+ *   npm test
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { mkdtempSync, mkdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createDatabase } from "../schema.js";
+import { hasColumn, runMigrations } from "./index.js";
+import { VITO_MIGRATIONS } from "./vito.js";
+import { EMBEDDINGS_MIGRATIONS } from "./embeddings.js";
+
+const SESSION = "dashboard:default";
+
+/** messages with role/message_type, no type/archived/author/model; sessions and memories before their added columns */
+function createLegacyVitoDb(path: string): void {
+  const db = new Database(path);
+  db.exec(`
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY,
+      channel TEXT,
+      channel_target TEXT,
+      created_at INTEGER NOT NULL,
+      last_active_at INTEGER NOT NULL
+    );
+    CREATE TABLE messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      channel TEXT,
+      channel_target TEXT,
+      timestamp INTEGER NOT NULL,
+      role TEXT NOT NULL,
+      message_type TEXT,
+      content JSON NOT NULL,
+      compacted INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (session_id) REFERENCES sessions(id)
+    );
+    CREATE TABLE memories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding BLOB
+    );
+  `);
+  db.prepare("INSERT INTO sessions (id, channel, channel_target, created_at, last_active_at) VALUES (?, 'dashboard', 'default', 1, 1)").run(SESSION);
+  const insert = db.prepare(
+    "INSERT INTO messages (id, session_id, channel, timestamp, role, message_type, content) VALUES (?, ?, 'dashboard', ?, ?, ?, ?)"
+  );
+  const rows: Array<[number, string, string | null, unknown]> = [
+    [1, "user", null, { text: "We moved to Denver last spring" }],
+    [2, "assistant", "final", "Denver suits you"],
+    [3, "assistant", "intermediate", "thinking about the move"],
+    [4, "assistant", null, "untyped assistant row"],
+    [5, "tool", null, { phase: "start", tool: "bash" }],
+    [6, "tool", null, { phase: "end", tool: "bash" }],
+    [7, "tool", null, { tool: "bash" }],
+    [8, "system", null, "system notice"],
+  ];
+  for (const [id, role, messageType, content] of rows) {
+    insert.run(id, SESSION, id * 1000, role, messageType, JSON.stringify(content));
+  }
+  db.prepare("INSERT INTO memories (timestamp, content) VALUES (1, 'old memory')").run();
+  db.close();
+}
+
+/** chunks without pinned/edited_at, embeddings without model/dimensions */
+function createLegacyEmbeddingsDb(path: string): void {
+  const db = new Database(path);
+  db.exec(`
+    CREATE TABLE chunks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      day TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      context TEXT,
+      embedded_text TEXT,
+      msg_id_start INTEGER,
+      msg_id_end INTEGER,
+      msg_count INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      UNIQUE(session_id, day, chunk_index)
+    );
+    CREATE TABLE embeddings (
+      chunk_id INTEGER PRIMARY KEY,
+      vector BLOB NOT NULL,
+      FOREIGN KEY (chunk_id) REFERENCES chunks(id)
+    );
+  `);
+  db.prepare(
+    "INSERT INTO chunks (id, session_id, day, chunk_index, text, msg_id_start, msg_id_end, msg_count) VALUES (1, ?, '2025-03-01', 0, 'We moved to Denver', 1, 2, 2)"
+  ).run(SESSION);
+  db.prepare("INSERT INTO embeddings (chunk_id, vector) VALUES (1, ?)").run(Buffer.from(new Float32Array(8).buffer));
+  db.close();
+}
+
+function appliedVersions(db: Database.Database): number[] {
+  return (db.prepare("SELECT version FROM schema_migrations ORDER BY version").all() as Array<{ version: number }>)
+    .map((r) => r.version);
+}
+
+function range(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => i + 1);
+}
+
+function withTempDir(fn: (dir: string) => void | Promise<void>): () => Promise<void> {
+  return async () => {
+    const dir = mkdtempSync(join(tmpdir(), "vito-migrations-"));
+    try {
+      await fn(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+test("vito.db: legacy database upgrades on createDatabase", withTempDir((dir) => {
+  const path = join(dir, "vito.db");
+  createLegacyVitoDb(path);
+
+  const db = createDatabase(path);
+  try {
+    const types = db.prepare("SELECT id, type FROM messages ORDER BY id").all() as Array<{ id: number; type: string }>;
+    assert.deepEqual(types.map((r) => r.type), [
+      "user", "assistant", "thought", "thought", "tool_start", "tool_end", "tool_end", "assistant",
+    ]);
+
+    assert.ok(!hasColumn(db, "messages", "role"));
+    assert.ok(!hasColumn(db, "messages", "message_type"));
+    for (const column of ["archived", "author", "model"]) assert.ok(hasColumn(db, "messages", column), `messages.${column}`);
+    for (const column of ["config", "alias", "parent_id", "forked_from_message_id"]) assert.ok(hasColumn(db, "sessions", column), `sessions.${column}`);
+    assert.ok(hasColumn(db, "memories", "title"));
+    assert.ok(hasColumn(db, "traces", "model"));
+    assert.ok(hasColumn(db, "usage", "cost"));
+
+    assert.deepEqual(appliedVersions(db), range(VITO_MIGRATIONS.length));
+    assert.equal(VITO_MIGRATIONS.length, 12);
+
+    // messages_fts holds the readable text: user .text, assistant strings
+    const hits = db.prepare("SELECT rowid FROM messages_fts WHERE messages_fts MATCH ? ORDER BY rowid").all("denver") as Array<{ rowid: number }>;
+    assert.deepEqual(hits.map((r) => r.rowid), [1, 2]);
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM messages_fts").get() as { count: number };
+    assert.equal(count, 8);
+
+    assert.deepEqual(db.pragma("foreign_key_check"), []);
+  } finally {
+    db.close();
+  }
+
+  // Opening again applies nothing
+  const again = createDatabase(path);
+  try {
+    const before = again.prepare("SELECT version, applied_at FROM schema_migrations ORDER BY version").all();
+    const report = runMigrations(again, VITO_MIGRATIONS, { database: "vito.db" });
+    assert.deepEqual(report.applied, []);
+    assert.deepEqual(report.pending, []);
+    assert.equal(report.current, 12);
+    assert.deepEqual(again.prepare("SELECT version, applied_at FROM schema_migrations ORDER BY version").all(), before);
+  } finally {
+    again.close();
+  }
+}));
+
+test("vito.db: dryRun reports pending migrations and changes nothing", withTempDir((dir) => {
+  const path = join(dir, "vito.db");
+  createLegacyVitoDb(path);
+
+  const db = new Database(path, { readonly: true });
+  try {
+    const report = runMigrations(db, VITO_MIGRATIONS, { database: "vito.db", dryRun: true });
+    assert.equal(report.current, 0);
+    assert.equal(report.latest, 12);
+    assert.deepEqual(report.pending.map((m) => m.version), range(12));
+    assert.deepEqual(report.applied, []);
+    assert.ok(hasColumn(db, "messages", "role"));
+    assert.equal(db.prepare("SELECT name FROM sqlite_master WHERE name = 'schema_migrations'").get(), undefined);
+  } finally {
+    db.close();
+  }
+}));
+
+test("embeddings.db: legacy database upgrades on first use", withTempDir(async (dir) => {
+  // embeddings.ts resolves user/embeddings.db against the working directory at import
+  mkdirSync(join(dir, "user"));
+  const path = join(dir, "user", "embeddings.db");
+  createLegacyEmbeddingsDb(path);
+
+  const cwd = process.cwd();
+  process.chdir(dir);
+  try {
+    const { getEmbeddingsDB } = await import("../../memory/embeddings.js");
+    const db = getEmbeddingsDB();
+
+    assert.deepEqual(appliedVersions(db), range(EMBEDDINGS_MIGRATIONS.length));
+    assert.equal(EMBEDDINGS_MIGRATIONS.length, 4);
+
+    const embedding = db.prepare("SELECT model, dimensions FROM embeddings WHERE chunk_id = 1").get();
+    assert.deepEqual(embedding, { model: "openai/text-embedding-3-small", dimensions: 8 });
+    const chunk = db.prepare("SELECT pinned, edited_at FROM chunks WHERE id = 1").get();
+    assert.deepEqual(chunk, { pinned: 0, edited_at: null });
+    for (const table of ["chunk_deletions", "facts", "fact_conflicts", "fact_extractions", "facts_fts", "chunks_fts"]) {
+      assert.ok(db.prepare("SELECT name FROM sqlite_master WHERE name = ?").get(table), table);
+    }
+
+    const report = runMigrations(db, EMBEDDINGS_MIGRATIONS, { database: "embeddings.db" });
+    assert.deepEqual(report.applied, []);
+    assert.equal(report.current, 4);
+    db.close();
+  } finally {
+    process.chdir(cwd);
+  }
+}));
@@ -0,0 +1,260 @@
+/**
+ * vito.db migrations.
+ *
+ * Versions 1–11 replace the table_info checks createDatabase used to run on
+ * every start, in the order they were added. They keep those guards so a
+ * database from before schema_migrations — any shape back to role/message_type
+ * messages — converges on first open and gets all of them recorded.
+ */
+
+import type { Migration } from "./index.js";
+import { hasColumn } from "./index.js";
+
+export const VITO_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          channel TEXT,
+          channel_target TEXT,
+          created_at INTEGER NOT NULL,
+          last_active_at INTEGER NOT NULL,
+          config JSON DEFAULT '{}'
+        );
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          channel TEXT,
+          channel_target TEXT,
+          timestamp INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('user', 'thought', 'assistant', 'tool_start', 'tool_end')),
+          content JSON NOT NULL,
+          compacted INTEGER NOT NULL DEFAULT 0,
+          archived INTEGER NOT NULL DEFAULT 0,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS memories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp INTEGER NOT NULL,
+          title TEXT NOT NULL DEFAULT '',
+          content TEXT NOT NULL,
+          embedding BLOB
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_compacted ON messages(compacted);
+        CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_sessions_last_active ON sessions(last_active_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "sessions.config",
+    up(db) {
+      if (!hasColumn(db, "sessions", "config")) {
+        db.exec("ALTER TABLE sessions ADD COLUMN config JSON DEFAULT '{}'");
+      }
+    },
+  },
+  {
+    version: 3,
+    name: "memories.title",
+    up(db) {
+      if (!hasColumn(db, "memories", "title")) {
+        db.exec("ALTER TABLE memories ADD COLUMN title TEXT NOT NULL DEFAULT ''");
+      }
+    },
+  },
+  {
+    version: 4,
+    name: "messages.archived",
+    up(db) {
+      if (!hasColumn(db, "messages", "archived")) {
+        db.exec("ALTER TABLE messages ADD COLUMN archived INTEGER NOT NULL DEFAULT 0");
+        db.exec("CREATE INDEX IF NOT EXISTS idx_messages_archived ON messages(archived)");
+      }
+    },
+  },
+  {
+    // Replace 'role' (+ optional 'message_type') with the unified 'type' column
+    version: 5,
+    name: "messages.role-to-type",
+    disableForeignKeys: true,
+    up(db) {
+      if (!hasColumn(db, "messages", "role")) return;
+
+      if (!hasColumn(db, "messages", "type")) {
+        db.exec("ALTER TABLE messages ADD COLUMN type TEXT");
+      }
+
+      db.exec("UPDATE messages SET type = 'user' WHERE role = 'user' AND type IS NULL");
+
+      if (hasColumn(db, "messages", "message_type")) {
+        db.exec("UPDATE messages SET type = 'assistant' WHERE role = 'assistant' AND message_type = 'final' AND type IS NULL");
+        db.exec("UPDATE messages SET type = 'thought' WHERE role = 'assistant' AND (message_type = 'intermediate' OR message_type IS NULL) AND type IS NULL");
+      } else {
+        db.exec("UPDATE messages SET type = 'assistant' WHERE role = 'assistant' AND type IS NULL");
+      }
+
+      db.exec(`UPDATE messages SET type = 'tool_start' WHERE role = 'tool' AND json_extract(content, '$.phase') = 'start' AND type IS NULL`);
+      db.exec(`UPDATE messages SET type = 'tool_end' WHERE role = 'tool' AND json_extract(content, '$.phase') = 'end' AND type IS NULL`);
+      db.exec("UPDATE messages SET type = 'tool_end' WHERE role = 'tool' AND type IS NULL");
+
+      // Map any remaining (system, etc.)
+      db.exec("UPDATE messages SET type = 'assistant' WHERE type IS NULL");
+
+      // Rebuild the table to drop the old columns
+      db.exec(`
+        CREATE TABLE messages_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          channel TEXT,
+          channel_target TEXT,
+          timestamp INTEGER NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('user', 'thought', 'assistant', 'tool_start', 'tool_end')),
+          content JSON NOT NULL,
+          compacted INTEGER NOT NULL DEFAULT 0,
+          archived INTEGER NOT NULL DEFAULT 0,
+          FOREIGN KEY (session_id) REFERENCES sessions(id)
+        );
+
+        INSERT INTO messages_new (id, session_id, channel, channel_target, timestamp, type, content, compacted, archived)
+        SELECT id, session_id, channel, channel_target, timestamp, type, content, compacted, archived
+        FROM messages;
+
+        DROP TABLE messages;
+        ALTER TABLE messages_new RENAME TO messages;
+
+        CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_compacted ON messages(compacted);
+        CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_messages_archived ON messages(archived);
+        CREATE INDEX IF NOT EXISTS idx_messages_type ON messages(type);
+      `);
+    },
+  },
+  {
+    // Snapshot of the system prompt per request
+    version: 6,
+    name: "traces",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS traces (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          channel TEXT,
+          timestamp INTEGER NOT NULL,
+          user_message TEXT NOT NULL,
+          system_prompt TEXT NOT NULL,
+          model TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_traces_timestamp ON traces(timestamp);
+      `);
+      if (!hasColumn(db, "traces", "model")) {
+        db.exec("ALTER TABLE traces ADD COLUMN model TEXT");
+      }
+    },
+  },
+  {
+    version: 7,
+    name: "sessions.alias",
+    up(db) {
+      if (!hasColumn(db, "sessions", "alias")) {
+        db.exec("ALTER TABLE sessions ADD COLUMN alias TEXT DEFAULT NULL");
+      }
+    },
+  },
+  {
+    // Who sent each message
+    version: 8,
+    name: "messages.author",
+    up(db) {
+      if (!hasColumn(db, "messages", "author")) {
+        db.exec("ALTER TABLE messages ADD COLUMN author TEXT DEFAULT NULL");
+      }
+    },
+  },
+  {
+    // Which model answered — differs from config after a fallback
+    version: 9,
+    name: "messages.model",
+    up(db) {
+      if (!hasColumn(db, "messages", "model")) {
+        db.exec("ALTER TABLE messages ADD COLUMN model TEXT DEFAULT NULL");
+      }
+    },
+  },
+  {
+    // Fork lineage: parent session + the message it was forked at
+    version: 10,
+    name: "sessions.fork-lineage",
+    up(db) {
+      if (!hasColumn(db, "sessions", "parent_id")) {
+        db.exec("ALTER TABLE sessions ADD COLUMN parent_id TEXT DEFAULT NULL");
+        db.exec("ALTER TABLE sessions ADD COLUMN forked_from_message_id INTEGER DEFAULT NULL");
+      }
+    },
+  },
+  {
+    // Usage ledger — one row per harness run that reported usage (onUsage)
+    version: 11,
+    name: "usage",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp INTEGER NOT NULL,
+          session_id TEXT NOT NULL,
+          channel TEXT,
+          harness TEXT,
+          model TEXT,
+          cron_job TEXT,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+          total_tokens INTEGER NOT NULL DEFAULT 0,
+          cost REAL NOT NULL DEFAULT 0
+        );
+        CREATE INDEX IF NOT EXISTS idx_usage_timestamp ON usage(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_usage_session ON usage(session_id);
+      `);
+    },
+  },
+  {
+    // Full-text index for message search. content is JSON, so it keeps its
+    // own copy of the readable text (the string, or .text of user content);
+    // tool rows are indexed as their raw JSON.
+    version: 12,
+    name: "messages_fts",
+    up(db) {
+      const text = (col: string) => `CASE
+        WHEN NOT json_valid(${col}) THEN ${col}
+        WHEN json_type(${col}) = 'text' THEN json_extract(${col}, '$')
+        WHEN json_type(${col}, '$.text') = 'text' THEN json_extract(${col}, '$.text')
+        ELSE ${col}
+      END`;
+      db.exec(`
+        CREATE VIRTUAL TABLE messages_fts USING fts5(text, tokenize = 'unicode61 remove_diacritics 2');
+
+        INSERT INTO messages_fts(rowid, text) SELECT id, ${text("content")} FROM messages;
+
+        CREATE TRIGGER messages_fts_ai AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts(rowid, text) VALUES (new.id, ${text("new.content")});
+        END;
+        CREATE TRIGGER messages_fts_ad AFTER DELETE ON messages BEGIN
+          DELETE FROM messages_fts WHERE rowid = old.id;
+        END;
+        CREATE TRIGGER messages_fts_au AFTER UPDATE OF content ON messages BEGIN
+          UPDATE messages_fts SET text = ${text("new.content")} WHERE rowid = new.id;
+        END;
+      `);
+    },
+  },
+];
@@ -1,9 +1,40 @@
 import type Database from "better-sqlite3";
-import type { MessageRow, SessionRow, TraceRow, MsgType } from "../types.js";
+import type { MessagePruneFilter, MessageRow, MessageSearchFilters, MessageSearchHit, SessionRow, TraceRow, MsgType, UsageRow, UsageSummary } from "../types.js";
+
+/** Fired after a message row is inserted or has its type changed. */
+export type MessageChangeListener = (change: { kind: "insert" | "update"; message: MessageRow }) => void;
 
 export class Queries {
+  private messageListeners = new Set<MessageChangeListener>();
+
   constructor(private db: Database.Database) {}
 
+  /**
+   * Subscribe to message row changes. Listeners run synchronously right after
+   * the write, so a subscriber that reads "everything after id N" and then
+   * starts listening in the same tick never misses a row.
+   * Returns an unsubscribe function.
+   */
+  onMessageChange(listener: MessageChangeListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  private emitMessageChange(kind: "insert" | "update", id: number): void {
+    if (this.messageListeners.size === 0) return;
+    const message = this.getMessage(id);
+    if (!message) return;
+    for (const listener of this.messageListeners) {
+      try {
+        listener({ kind, message });
+      } catch (err) {
+        console.error("[Queries] message listener failed:", err);
+      }
+    }
+  }
+
   // ── Sessions ──
 
   getSession(id: string): SessionRow | undefined {
@@ -22,6 +53,55 @@ export class Queries {
       .run(session);
   }
 
+  /**
+   * Create `fork` as a branch of `sourceId`: the session row (with the
+   * parent's config) plus a copy of the parent's live messages up to and
+   * including `upToMessageId`. Returns how many messages were copied.
+   */
+  forkSession(sourceId: string, fork: SessionRow, upToMessageId: number): number {
+    return this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO sessions (id, channel, channel_target, created_at, last_active_at, config, alias, parent_id, forked_from_message_id)
+           VALUES (@id, @channel, @channel_target, @created_at, @last_active_at, @config, @alias, @parent_id, @forked_from_message_id)`
+        )
+        .run({ parent_id: sourceId, forked_from_message_id: upToMessageId, ...fork });
+      return this.db
+        .prepare(
+          `INSERT INTO messages (session_id, channel, channel_target, timestamp, type, content, archived, author, model)
+           SELECT ?, channel, channel_target, timestamp, type, content, 0, author, model
+           FROM messages
+           WHERE session_id = ? AND archived = 0 AND id <= ?
+           ORDER BY id`
+        )
+        .run(fork.id, sourceId, upToMessageId).changes;
+    })();
+  }
+
+  /**
+   * Recreate a session from an export: the session row plus its messages
+   * (archived flags kept) in one transaction. Returns how many messages were
+   * inserted. Fails if the session id is taken.
+   */
+  importSession(session: SessionRow, messages: Array<Omit<MessageRow, "id" | "session_id">>): number {
+    return this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO sessions (id, channel, channel_target, created_at, last_active_at, config, alias, parent_id, forked_from_message_id)
+           VALUES (@id, @channel, @channel_target, @created_at, @last_active_at, @config, @alias, @parent_id, @forked_from_message_id)`
+        )
+        .run({ parent_id: null, forked_from_message_id: null, ...session });
+      const insert = this.db.prepare(
+        `INSERT INTO messages (session_id, channel, channel_target, timestamp, type, content, archived, author, model)
+         VALUES (@session_id, @channel, @channel_target, @timestamp, @type, @content, @archived, @author, @model)`
+      );
+      for (const msg of messages) {
+        insert.run({ model: null, ...msg, session_id: session.id });
+      }
+      return messages.length;
+    })();
+  }
+
   getAllSessions(): SessionRow[] {
     return this.db
       .prepare("SELECT * FROM sessions ORDER BY last_active_at DESC")
@@ -63,11 +143,19 @@ export class Queries {
   insertMessage(msg: Omit<MessageRow, "id">): number {
     const result = this.db
       .prepare(
-        `INSERT INTO messages (session_id, channel, channel_target, timestamp, type, content, archived, author)
-         VALUES (@session_id, @channel, @channel_target, @timestamp, @type, @content, @archived, @author)`
+        `INSERT INTO messages (session_id, channel, channel_target, timestamp, type, content, archived, author, model)
+         VALUES (@session_id, @channel, @channel_target, @timestamp, @type, @content, @archived, @author, @model)`
       )
-      .run(msg);
-    return result.lastInsertRowid as number;
+      .run({ model: null, ...msg });
+    const id = result.lastInsertRowid as number;
+    this.emitMessageChange("insert", id);
+    return id;
+  }
+
+  getMessage(id: number): MessageRow | undefined {
+    return this.db
+      .prepare("SELECT * FROM messages WHERE id = ?")
+      .get(id) as MessageRow | undefined;
   }
   
   /** Update message type (for marking assistant vs thought) */
@@ -75,6 +163,7 @@ export class Queries {
     this.db
       .prepare("UPDATE messages SET type = ? WHERE id = ?")
       .run(type, id);
+    this.emitMessageChange("update", id);
   }
 
   /**
@@ -86,9 +175,11 @@ export class Queries {
     limit: number,
     includeTools = true,
     includeThoughts = true,
-    includeArchived = false
+    includeArchived = false,
+    beforeId?: number
   ): MessageRow[] {
     const filters: string[] = ["session_id = ?"];
+    const params: unknown[] = [sessionId];
     
     if (!includeTools) {
       filters.push("type NOT IN ('tool_start', 'tool_end')");
@@ -99,6 +190,10 @@ export class Queries {
     if (!includeArchived) {
       filters.push("archived = 0");
     }
+    if (beforeId !== undefined) {
+      filters.push("id < ?");
+      params.push(beforeId);
+    }
     
     const whereClause = filters.join(" AND ");
     
@@ -111,7 +206,7 @@ export class Queries {
            LIMIT ?
          ) ORDER BY timestamp ASC`
       )
-      .all(sessionId, limit) as MessageRow[];
+      .all(...params, limit) as MessageRow[];
   }
 
   /**
@@ -261,14 +356,14 @@ export class Queries {
     }
     
     if (afterId) {
-      // Polling: get messages AFTER a specific ID (newest messages only)
+      // Polling: get messages AFTER a specific ID (the oldest N of them with a limit)
       return this.db
         .prepare(
           `SELECT * FROM messages
            WHERE session_id = ? AND id > ?${filterClause}
-           ORDER BY id ASC`
+           ORDER BY id ASC${limit ? " LIMIT ?" : ""}`
         )
-        .all(sessionId, afterId) as MessageRow[];
+        .all(sessionId, afterId, ...(limit ? [limit] : [])) as MessageRow[];
     } else if (limit && beforeId) {
       // Paginated: get N messages before a specific ID
       return this.db
@@ -329,6 +424,99 @@ export class Queries {
     return row.count;
   }
 
+  /**
+   * A window of a session's messages centred on one row (dashboard "jump to
+   * message"): up to ceil(limit/2) ending at it, and the rest after it.
+   */
+  getMessagesAround(sessionId: string, messageId: number, limit: number, hideThoughts?: boolean, hideTools?: boolean): MessageRow[] {
+    let filterClause = "";
+    if (hideThoughts) {
+      filterClause += " AND type != 'thought'";
+    }
+    if (hideTools) {
+      filterClause += " AND type NOT IN ('tool_start', 'tool_end')";
+    }
+
+    const before = this.db
+      .prepare(
+        `SELECT * FROM messages
+         WHERE session_id = ? AND id <= ?${filterClause}
+         ORDER BY id DESC
+         LIMIT ?`
+      )
+      .all(sessionId, messageId, Math.ceil(limit / 2)) as MessageRow[];
+    const after = this.db
+      .prepare(
+        `SELECT * FROM messages
+         WHERE session_id = ? AND id > ?${filterClause}
+         ORDER BY id ASC
+         LIMIT ?`
+      )
+      .all(sessionId, messageId, Math.floor(limit / 2)) as MessageRow[];
+    return [...before.reverse(), ...after];
+  }
+
+  // ── Search ──
+
+  /**
+   * Full-text search over message text (messages_fts), best match first.
+   * `query` is plain words, "quoted phrases" and word* prefixes — all must
+   * match; FTS5 operators aren't passed through.
+   */
+  searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit = 50,
+    offset = 0
+  ): { results: MessageSearchHit[]; total: number } {
+    const match = toFtsQuery(query);
+    if (!match) return { results: [], total: 0 };
+
+    let where = "messages_fts MATCH ?";
+    const params: unknown[] = [match];
+    if (filters.sessionId) {
+      where += " AND m.session_id = ?";
+      params.push(filters.sessionId);
+    }
+    if (filters.channel) {
+      where += " AND m.channel = ?";
+      params.push(filters.channel);
+    }
+    if (filters.author) {
+      where += " AND m.author = ?";
+      params.push(filters.author);
+    }
+    if (filters.types?.length) {
+      where += ` AND m.type IN (${filters.types.map(() => "?").join(", ")})`;
+      params.push(...filters.types);
+    }
+    if (filters.since !== undefined) {
+      where += " AND m.timestamp >= ?";
+      params.push(filters.since);
+    }
+    if (filters.until !== undefined) {
+      where += " AND m.timestamp < ?";
+      params.push(filters.until);
+    }
+    if (filters.archived === "exclude") where += " AND m.archived = 0";
+    if (filters.archived === "only") where += " AND m.archived = 1";
+
+    const from = "FROM messages_fts JOIN messages m ON m.id = messages_fts.rowid";
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total ${from} WHERE ${where}`)
+      .get(...params) as { total: number };
+    const results = this.db
+      .prepare(
+        `SELECT m.id, m.session_id, m.channel, m.channel_target, m.timestamp, m.type, m.archived, m.author, m.model,
+           snippet(messages_fts, 0, ?, ?, '…', 24) AS snippet
+         ${from} WHERE ${where}
+         ORDER BY bm25(messages_fts), m.id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(SEARCH_MATCH_START, SEARCH_MATCH_END, ...params, limit, offset) as MessageSearchHit[];
+    return { results, total };
+  }
+
   /**
    * Get recent messages from OTHER sessions for cross-session context.
    * Optionally includes archived messages (configurable).
@@ -413,6 +601,26 @@ export class Queries {
       .run(sessionId);
   }
 
+  /**
+   * Archive a message and everything after it (edit & resend). Returns how
+   * many of the archived rows were user messages, i.e. how many prompts the
+   * harness has to rewind past.
+   */
+  archiveMessagesFrom(sessionId: string, fromId: number): { archived: number; userMessages: number } {
+    return this.db.transaction(() => {
+      const { count } = this.db
+        .prepare(
+          `SELECT COUNT(*) AS count FROM messages
+           WHERE session_id = ? AND id >= ? AND archived = 0 AND type = 'user'`
+        )
+        .get(sessionId, fromId) as { count: number };
+      const result = this.db
+        .prepare("UPDATE messages SET archived = 1 WHERE session_id = ? AND id >= ? AND archived = 0")
+        .run(sessionId, fromId);
+      return { archived: result.changes, userMessages: count };
+    })();
+  }
+
   /** Get the last assistant message for a session (for profile update context) */
   getLastAssistantMessage(sessionId: string): string | null {
     const row = this.db
@@ -467,6 +675,95 @@ export class Queries {
     });
   }
 
+  // ── Retention ──
+
+  /** Sessions that have messages covered by a retention rule */
+  getPrunableMessageSessions(filter: MessagePruneFilter): string[] {
+    const { where, params } = pruneWhere(filter);
+    const rows = this.db
+      .prepare(`SELECT DISTINCT session_id FROM messages WHERE ${where}`)
+      .all(...params) as Array<{ session_id: string }>;
+    return rows.map((r) => r.session_id);
+  }
+
+  /**
+   * Count one session's messages covered by a retention rule. With
+   * `keepConversationalAfterId`, user/assistant rows after that id (not
+   * embedded yet) don't count — deletePrunableMessages keeps them.
+   */
+  countPrunableMessages(filter: MessagePruneFilter, sessionId: string, keepConversationalAfterId?: number): number {
+    const { where, params } = pruneWhere(filter, sessionId, keepConversationalAfterId);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM messages WHERE ${where}`)
+      .get(...params) as { count: number };
+    return row.count;
+  }
+
+  /** Delete one session's messages covered by a retention rule (see countPrunableMessages). */
+  deletePrunableMessages(filter: MessagePruneFilter, sessionId: string, keepConversationalAfterId?: number): number {
+    const { where, params } = pruneWhere(filter, sessionId, keepConversationalAfterId);
+    return this.db.prepare(`DELETE FROM messages WHERE ${where}`).run(...params).changes;
+  }
+
+  /**
+   * Replace args/result of tool rows covered by a retention rule with a
+   * placeholder (rows are marked, so a second pass skips them). With dryRun,
+   * only counts.
+   */
+  stripToolPayloads(filter: MessagePruneFilter, dryRun = false): number {
+    const { where, params } = pruneWhere(filter);
+    const toolWhere = `${where} AND type IN ('tool_start', 'tool_end') AND json_valid(content) AND json_extract(content, '$.pruned') IS NULL`;
+    if (dryRun) {
+      const row = this.db
+        .prepare(`SELECT COUNT(*) AS count FROM messages WHERE ${toolWhere}`)
+        .get(...params) as { count: number };
+      return row.count;
+    }
+    return this.db
+      .prepare(
+        `UPDATE messages
+         SET content = json_remove(json_set(json_replace(content, '$.args', ?, '$.result', ?), '$.pruned', 1), '$.blob')
+         WHERE ${toolWhere}`
+      )
+      .run(PRUNED_PLACEHOLDER, PRUNED_PLACEHOLDER, ...params).changes;
+  }
+
+  /** Blob hashes that tool_end rows still point at (offloaded results, see src/blobs/) */
+  getReferencedBlobHashes(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT json_extract(content, '$.blob.hash') AS hash
+         FROM messages
+         WHERE type = 'tool_end' AND json_valid(content) AND json_extract(content, '$.blob.hash') IS NOT NULL`
+      )
+      .all() as Array<{ hash: string }>;
+    return rows.map((r) => r.hash);
+  }
+
+  /**
+   * Delete traces older than `before` and beyond the newest `keep`. With
+   * dryRun, only counts.
+   */
+  pruneTraces(opts: { before?: number; keep?: number }, dryRun = false): number {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (opts.before !== undefined) {
+      conditions.push("timestamp < ?");
+      params.push(opts.before);
+    }
+    if (opts.keep !== undefined) {
+      conditions.push("id NOT IN (SELECT id FROM traces ORDER BY timestamp DESC LIMIT ?)");
+      params.push(opts.keep);
+    }
+    if (conditions.length === 0) return 0;
+    const where = conditions.join(" OR ");
+    if (dryRun) {
+      const row = this.db.prepare(`SELECT COUNT(*) AS count FROM traces WHERE ${where}`).get(...params) as { count: number };
+      return row.count;
+    }
+    return this.db.prepare(`DELETE FROM traces WHERE ${where}`).run(...params).changes;
+  }
+
   // ── Traces ──
 
   insertTrace(trace: Omit<TraceRow, "id">): void {
@@ -489,4 +786,140 @@ export class Queries {
       .prepare("SELECT * FROM traces WHERE id = ?")
       .get(id) as TraceRow | undefined;
   }
+
+  // ── Usage ──
+
+  insertUsage(usage: Omit<UsageRow, "id">): void {
+    this.db
+      .prepare(
+        `INSERT INTO usage (timestamp, session_id, channel, harness, model, cron_job,
+           input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, total_tokens, cost)
+         VALUES (@timestamp, @session_id, @channel, @harness, @model, @cron_job,
+           @input_tokens, @output_tokens, @cache_read_tokens, @cache_write_tokens, @total_tokens, @cost)`
+      )
+      .run(usage);
+  }
+
+  /**
+   * Usage totals between two timestamps (ms, `until` exclusive), optionally
+   * narrowed to one session, one channel, or cron-triggered runs only.
+   */
+  getUsageTotals(
+    since: number,
+    until: number,
+    filter: { sessionId?: string; channel?: string; cronOnly?: boolean } = {}
+  ): UsageSummary {
+    let where = "timestamp >= ? AND timestamp < ?";
+    const params: unknown[] = [since, until];
+    if (filter.sessionId) {
+      where += " AND session_id = ?";
+      params.push(filter.sessionId);
+    }
+    if (filter.channel) {
+      where += " AND channel = ?";
+      params.push(filter.channel);
+    }
+    if (filter.cronOnly) {
+      where += " AND cron_job IS NOT NULL";
+    }
+    return this.db
+      .prepare(`SELECT ${USAGE_SUMS} FROM usage WHERE ${where}`)
+      .get(...params) as UsageSummary;
+  }
+
+  /**
+   * Usage rolled up per local calendar day ("2025-06-01") or month ("2025-06"),
+   * oldest first. Empty buckets are omitted.
+   */
+  getUsageRollup(period: "day" | "month", since: number, until: number): Array<UsageSummary & { bucket: string }> {
+    const format = period === "month" ? "%Y-%m" : "%Y-%m-%d";
+    return this.db
+      .prepare(
+        `SELECT strftime('${format}', timestamp / 1000, 'unixepoch', 'localtime') AS bucket, ${USAGE_SUMS}
+         FROM usage WHERE timestamp >= ? AND timestamp < ?
+         GROUP BY bucket ORDER BY bucket ASC`
+      )
+      .all(since, until) as Array<UsageSummary & { bucket: string }>;
+  }
+
+  /** Usage grouped by one ledger column, most expensive first. */
+  getUsageBreakdown(
+    dimension: UsageDimension,
+    since: number,
+    until: number
+  ): Array<UsageSummary & { key: string | null }> {
+    if (!USAGE_DIMENSIONS.includes(dimension)) {
+      throw new Error(`Unknown usage dimension: ${dimension}`);
+    }
+    return this.db
+      .prepare(
+        `SELECT ${dimension} AS key, ${USAGE_SUMS}
+         FROM usage WHERE timestamp >= ? AND timestamp < ?
+         GROUP BY ${dimension} ORDER BY cost DESC, total_tokens DESC`
+      )
+      .all(since, until) as Array<UsageSummary & { key: string | null }>;
+  }
 }
+
+/** What stripped tool payloads are replaced with */
+export const PRUNED_PLACEHOLDER = "[pruned by retention]";
+
+function pruneWhere(
+  filter: MessagePruneFilter,
+  sessionId?: string,
+  keepConversationalAfterId?: number
+): { where: string; params: unknown[] } {
+  let where = "timestamp < ?";
+  const params: unknown[] = [filter.before];
+  if (filter.channels?.length) {
+    where += ` AND channel IN (${filter.channels.map(() => "?").join(", ")})`;
+    params.push(...filter.channels);
+  }
+  if (filter.types?.length) {
+    where += ` AND type IN (${filter.types.map(() => "?").join(", ")})`;
+    params.push(...filter.types);
+  }
+  if (sessionId !== undefined) {
+    where += " AND session_id = ?";
+    params.push(sessionId);
+  }
+  if (keepConversationalAfterId !== undefined) {
+    where += " AND (type NOT IN ('user', 'assistant') OR id <= ?)";
+    params.push(keepConversationalAfterId);
+  }
+  return { where, params };
+}
+
+/** Markers around matched terms in search snippets (control chars, never in message text). */
+export const SEARCH_MATCH_START = "\u0002";
+export const SEARCH_MATCH_END = "\u0003";
+
+/**
+ * Turn search-box input into an FTS5 query: every term quoted (so punctuation
+ * and operator words are literal), implicit AND, trailing * kept as prefix.
+ * Returns null when nothing searchable is left.
+ */
+function toFtsQuery(input: string): string | null {
+  const terms = input.match(/"[^"]*"|[^\s"]+/g) ?? [];
+  const parts: string[] = [];
+  for (const raw of terms) {
+    const prefix = !raw.startsWith('"') && raw.length > 1 && raw.endsWith("*");
+    const term = raw.replace(/^"|"$/g, "").replace(/\*+$/, "").trim();
+    if (!term) continue;
+    parts.push(`"${term.replace(/"/g, '""')}"${prefix ? "*" : ""}`);
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+/** Columns usage can be broken down by (whitelist — interpolated into SQL). */
+export const USAGE_DIMENSIONS = ["session_id", "channel", "harness", "model", "cron_job"] as const;
+export type UsageDimension = (typeof USAGE_DIMENSIONS)[number];
+
+const USAGE_SUMS = `
+  COUNT(*) AS turns,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens,
+  COALESCE(SUM(total_tokens), 0) AS total_tokens,
+  COALESCE(SUM(cost), 0) AS cost`;
@@ -0,0 +1,79 @@
+/**
+ * Facts CLI — structured fact memory (src/memory/facts.ts).
+ *
+ *   npm run facts -- --dry-run         counts, and how many chunks are unread
+ *   npm run facts                      extract facts from every unread chunk
+ *   npm run facts -- --limit 200       at most 200 chunks this run
+ *   npm run facts -- --conflicts       list contradictions waiting for review
+ *
+ * The server extracts a few chunks after each embedding run; this works
+ * through a backlog (e.g. the history embedded before facts existed) in
+ * one go. Safe to run while vito-server is up (SQLite WAL).
+ */
+
+import { loadConfig } from "./config.js";
+import { getFactStats, listOpenConflicts, maybeExtractFacts, resolveFactSettings } from "./memory/facts.js";
+import { loadSecrets } from "./secrets.js";
+
+const BATCH_SIZE = 10;
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+async function main() {
+  loadSecrets();
+  const stats = getFactStats();
+  console.log(`${stats.current} current fact(s), ${stats.superseded} superseded, ${stats.openConflicts} open conflict(s)`);
+  console.log(`${stats.pendingChunks} chunk(s) not yet read by the extractor`);
+
+  if (process.argv.includes("--conflicts")) {
+    for (const c of listOpenConflicts(Number(arg("--limit") ?? 50))) {
+      console.log(`\n⚠️  ${c.fact.subject} · ${c.fact.predicate}`);
+      console.log(`   #${c.conflicting.id} "${c.conflicting.value}" (since ${c.conflicting.valid_from ?? "?"}, ${c.conflicting.session_id})`);
+      console.log(`   #${c.fact.id} "${c.fact.value}" (since ${c.fact.valid_from ?? "?"}, ${c.fact.session_id})`);
+      if (c.reason) console.log(`   ${c.reason}`);
+    }
+    return;
+  }
+  if (process.argv.includes("--dry-run") || stats.pendingChunks === 0) return;
+
+  let settings;
+  try {
+    settings = loadConfig().settings?.memory?.facts;
+  } catch {
+    // No config — defaults
+  }
+  const { enabled, model } = resolveFactSettings(settings);
+  if (!enabled) {
+    console.log("\nFact extraction is off — set settings.memory.facts.enabled to true");
+    return;
+  }
+
+  const limit = Math.min(stats.pendingChunks, Number(arg("--limit") ?? stats.pendingChunks));
+  console.log(`\nExtracting from ${limit} chunk(s) with ${model}`);
+  const totals = { chunks: 0, added: 0, superseded: 0, conflicts: 0 };
+  while (totals.chunks < limit) {
+    const result = await maybeExtractFacts({ limit: Math.min(BATCH_SIZE, limit - totals.chunks) });
+    totals.chunks += result.chunks_processed;
+    totals.added += result.facts_added;
+    totals.superseded += result.superseded;
+    totals.conflicts += result.conflicts;
+    if (result.skipped) {
+      if (result.skipped !== "no_pending_chunks") {
+        console.error(`Stopped: ${result.skipped}`);
+        process.exitCode = 1;
+      }
+      break;
+    }
+    console.log(`  ${totals.chunks}/${limit} — +${totals.added} fact(s)`);
+  }
+
+  console.log(`\n${totals.added} fact(s) added from ${totals.chunks} chunk(s), ${totals.superseded} superseded, ${totals.conflicts} conflict(s)`);
+}
+
+main().catch((err) => {
+  console.error(`Fact extraction failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
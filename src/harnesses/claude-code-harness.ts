@@ -245,6 +245,8 @@ export class ClaudeCodeHarness implements Harness {
       "--output-format", "stream-json",
       // stream-json with -p requires --verbose in current CC versions.
       "--verbose",
+      // Token-level stream_event lines alongside the whole-message events.
+      "--include-partial-messages",
       "--permission-mode", permissionMode,
     ];
 
@@ -312,6 +314,22 @@ export class ClaudeCodeHarness implements Harness {
         return;
       }
 
+      if (type === "stream_event") {
+        // Raw Anthropic stream event; only text deltas matter — the complete
+        // block still arrives in the "assistant" event that follows.
+        const streamEvent = ev.event as Record<string, unknown> | undefined;
+        const delta = streamEvent?.delta as Record<string, unknown> | undefined;
+        if (
+          streamEvent?.type === "content_block_delta" &&
+          delta?.type === "text_delta" &&
+          typeof delta.text === "string" &&
+          delta.text.length > 0
+        ) {
+          callbacks.onNormalizedEvent({ kind: "delta", content: delta.text });
+        }
+        return;
+      }
+
       if (type === "assistant") {
         const message = ev.message as Record<string, unknown> | undefined;
         const content = Array.isArray(message?.content) ? (message!.content as unknown[]) : [];
@@ -0,0 +1,138 @@
+/**
+ * FALLBACK HARNESS
+ *
+ * Decorator that retries a failed run on the next model in a fallback chain
+ * when the provider rate-limits (429), errors (5xx) or rejects auth — the
+ * failures where another model/provider is likely to succeed.
+ *
+ * Only retries runs that failed before producing anything (no text, no tool
+ * calls), so a retry never repeats side effects or shows the user half an
+ * answer twice. Error events from attempts that get retried are held back;
+ * the layers above only see the error from the last attempt.
+ *
+ * Wraps the inner (long-lived) harness directly, since switching models is a
+ * lifecycle call: it uses the inner harness's setModel/discardFailedRun.
+ * Each switch is reported as a `model_fallback` raw event (so it lands in
+ * the trace) and through onFallback (so the orchestrator can hold the
+ * fallback for a cooldown instead of reverting on the next turn).
+ */
+
+import type { ModelRef } from "../types.js";
+import { ProxyHarness } from "./proxy.js";
+import type { Harness, HarnessCallbacks, NormalizedEvent } from "./types.js";
+
+export interface FallbackEvent {
+  from: string;
+  to: string;
+  error: string;
+}
+
+export interface FallbackOptions {
+  /** Models to try, in order, after the current one fails */
+  models: ModelRef[];
+  onFallback?: (model: ModelRef, event: FallbackEvent) => void;
+}
+
+const FALLBACK_STATUS = "(?:429|5\\d\\d|401|403)";
+const FALLBACK_STATUS_CODE = new RegExp(`^${FALLBACK_STATUS}$`);
+/**
+ * A status code only counts where the message says it's one — leading, as
+ * SDK errors put it ("429 Too Many Requests"), or after status/HTTP/error
+ * ("status=503", "HTTP 502", "API error (429)", "API Error: 529") — so a
+ * 500 in a path or byte count doesn't trigger a fallback.
+ */
+const FALLBACK_STATUS_PATTERN = new RegExp(
+  `^\\s*${FALLBACK_STATUS}\\b|\\b(?:status(?:\\s*code)?|http(?:/[\\d.]+)?|error(?:\\s*code)?)\\s*[:=(]?\\s*${FALLBACK_STATUS}\\b`,
+  "i"
+);
+const FALLBACK_ERROR_PATTERN =
+  /rate.?limit|too many requests|overloaded|server error|service unavailable|bad gateway|gateway timeout|unauthori[sz]ed|forbidden|authentication|invalid.{0,20}api.?key|no api key/i;
+
+/** Whether an error is worth retrying on a different model. */
+export function isFallbackError(err: unknown): boolean {
+  // SDK errors carry the HTTP status as a field
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === "number" && FALLBACK_STATUS_CODE.test(String(status))) return true;
+
+  const message = err instanceof Error ? err.message : String(err);
+  return FALLBACK_STATUS_PATTERN.test(message) || FALLBACK_ERROR_PATTERN.test(message);
+}
+
+export function formatModelRef(model: ModelRef): string {
+  return `${model.provider}/${model.name}${model.openRouterProvider ? `@${model.openRouterProvider}` : ""}`;
+}
+
+export class FallbackHarness extends ProxyHarness {
+  private readonly options: FallbackOptions;
+
+  constructor(delegate: Harness, options: FallbackOptions) {
+    super(delegate);
+    this.options = options;
+  }
+
+  async run(
+    systemPrompt: string,
+    userMessage: string,
+    callbacks: HarnessCallbacks,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const remaining = this.delegate.setModel ? [...this.options.models] : [];
+
+    while (true) {
+      let produced = false;
+      const heldErrors: NormalizedEvent[] = [];
+
+      const attemptCallbacks: HarnessCallbacks = {
+        onInvocation: callbacks.onInvocation,
+        onRawEvent: callbacks.onRawEvent,
+        onNormalizedEvent: (event) => {
+          if (event.kind === "error" && remaining.length > 0 && !produced) {
+            heldErrors.push(event);
+            return;
+          }
+          if (event.kind !== "error") produced = true;
+          callbacks.onNormalizedEvent(event);
+        },
+        onUsage: callbacks.onUsage,
+      };
+
+      const flushHeldErrors = () => {
+        for (const event of heldErrors) callbacks.onNormalizedEvent(event);
+      };
+
+      try {
+        await this.delegate.run(systemPrompt, userMessage, attemptCallbacks, signal);
+        flushHeldErrors();
+        return;
+      } catch (err) {
+        const next = remaining.shift();
+        if (!next || produced || signal?.aborted || !isFallbackError(err)) {
+          flushHeldErrors();
+          throw err;
+        }
+
+        const event: FallbackEvent = {
+          from: this.delegate.getModel?.() ?? "unknown",
+          to: formatModelRef(next),
+          error: err instanceof Error ? err.message : String(err),
+        };
+        console.warn(`[Fallback] ${event.from} failed (${event.error}) → retrying on ${event.to}`);
+
+        this.delegate.discardFailedRun?.();
+        try {
+          await this.delegate.setModel!(next);
+        } catch (swapErr) {
+          console.error(`[Fallback] Failed to switch to ${event.to}:`, swapErr);
+          flushHeldErrors();
+          throw err;
+        }
+        callbacks.onRawEvent({ type: "model_fallback", ...event });
+        this.options.onFallback?.(next, event);
+      }
+    }
+  }
+}
+
+export function withFallback(harness: Harness, options: FallbackOptions): FallbackHarness {
+  return new FallbackHarness(harness, options);
+}
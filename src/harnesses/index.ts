@@ -2,11 +2,12 @@
  * Harness module exports
  */
 
-export type { Harness, HarnessCallbacks, NormalizedEvent, HarnessUsage } from "./types.js";
+export type { Harness, HarnessCallbacks, NormalizedEvent, HarnessUsage, HarnessContextStatus } from "./types.js";
 export { HarnessUnsupportedError, HarnessSessionLostError } from "./types.js";
 export { ProxyHarness } from "./proxy.js";
 export { createHarness, type HarnessName, type HarnessFactoryConfig } from "./factory.js";
 export { TracingHarness, withTracing, type TracingOptions } from "./tracing.js";
-export { PersistenceHarness, withPersistence, type PersistenceOptions } from "./persistence.js";
+export { PersistenceHarness, withPersistence, type PersistenceOptions, type SteeredMessage } from "./persistence.js";
 export { RelayHarness, withRelay, type RelayOptions } from "./relay.js";
+export { FallbackHarness, withFallback, isFallbackError, formatModelRef, type FallbackOptions, type FallbackEvent } from "./fallback.js";
 export { TypingHarness, withTyping } from "./typing.js";
@@ -4,11 +4,17 @@
  * Decorator that stores all messages in the DB:
  * - User message (from options) at the start of run()
  * - Assistant messages as "thought" during the run
- * - Tool start/end rows during the run
+ * - Tool start/end rows during the run; large tool results are offloaded
+ *   to the blob store, leaving a preview and a `blob` ref in the row
  * - Promotes last thought → "assistant" on success
  * - Stores "*(interrupted)*" on abort
+ * - Records reported usage (tokens + cost) in the usage ledger
+ * - Stamps assistant rows and usage with the model that answered
+ * - Stores steered user messages when they join the run (see expectSteer),
+ *   promoting the reply to the previous message first
  */
 
+import { offloadLargeText } from "../blobs/blobs.js";
 import type { Queries } from "../db/queries.js";
 import type { MsgType } from "../types.js";
 import { ProxyHarness } from "./proxy.js";
@@ -24,6 +30,22 @@ export interface PersistenceOptions {
   userTimestamp: number;
   /** Author/sender name (username, tag, etc.) for user messages */
   author?: string;
+  /** Harness name recorded alongside usage */
+  harness?: string;
+  /**
+   * Model that's answering, read at write time — a fallback can switch
+   * models mid-run (see FallbackHarness).
+   */
+  getModel?: () => string | undefined;
+  /** Cron job name when the turn was triggered by the scheduler */
+  cronJob?: string | null;
+}
+
+/** A user message steered into the running turn, stored when it's delivered */
+export interface SteeredMessage {
+  userContent: unknown;
+  userTimestamp: number;
+  author?: string;
 }
 
 export class PersistenceHarness extends ProxyHarness {
@@ -34,7 +56,12 @@ export class PersistenceHarness extends ProxyHarness {
   private readonly userContent: unknown;
   private readonly userTimestamp: number;
   private readonly author: string | null;
+  private readonly harnessName: string | null;
+  private readonly answeringModel: () => string | null;
+  private readonly cronJob: string | null;
   private assistantMessageIds: number[] = [];
+  /** Prompt text → row to store once the harness reports it `steered` */
+  private pendingSteers = new Map<string, SteeredMessage>();
 
   constructor(delegate: Harness, opts: PersistenceOptions) {
     super(delegate);
@@ -45,9 +72,18 @@ export class PersistenceHarness extends ProxyHarness {
     this.userContent = opts.userContent;
     this.userTimestamp = opts.userTimestamp;
     this.author = opts.author ?? null;
+    this.harnessName = opts.harness ?? null;
+    this.answeringModel = () => opts.getModel?.() ?? null;
+    this.cronJob = opts.cronJob ?? null;
   }
 
-  private insertMsg(type: MsgType, content: unknown, timestamp = Date.now(), author: string | null = null): number {
+  private insertMsg(
+    type: MsgType,
+    content: unknown,
+    timestamp = Date.now(),
+    author: string | null = null,
+    model: string | null = null
+  ): number {
     return this.queries.insertMessage({
       session_id: this.sessionId,
       channel: this.channel,
@@ -57,9 +93,39 @@ export class PersistenceHarness extends ProxyHarness {
       content: JSON.stringify(content),
       archived: 0,
       author,
+      model,
     });
   }
 
+  /**
+   * Register a message about to be steered into this run under its prompt
+   * text. Its row is written when the matching `steered` event arrives, so
+   * it lands between the rows it actually came between.
+   */
+  expectSteer(prompt: string, message: SteeredMessage): void {
+    this.pendingSteers.set(prompt, message);
+  }
+
+  /** Forget a registered steer the harness didn't accept. */
+  cancelSteer(prompt: string): void {
+    this.pendingSteers.delete(prompt);
+  }
+
+  /** Steers that never reached the model (the run ended first), in order. */
+  takeUndeliveredSteers(): string[] {
+    const prompts = [...this.pendingSteers.keys()];
+    this.pendingSteers.clear();
+    return prompts;
+  }
+
+  private promoteLastThought(): void {
+    if (this.assistantMessageIds.length > 0) {
+      const lastId = this.assistantMessageIds[this.assistantMessageIds.length - 1];
+      this.queries.updateMessageType(lastId, "assistant");
+    }
+    this.assistantMessageIds = [];
+  }
+
   async run(
     systemPrompt: string,
     userMessage: string,
@@ -76,10 +142,21 @@ export class PersistenceHarness extends ProxyHarness {
       onRawEvent: callbacks.onRawEvent,
       onNormalizedEvent: (event) => {
         if (event.kind === "assistant" && event.content) {
-          const msgId = this.insertMsg("thought", event.content);
+          const msgId = this.insertMsg("thought", event.content, Date.now(), null, this.answeringModel());
           this.assistantMessageIds.push(msgId);
         } else if (event.kind === "error") {
-          this.insertMsg("assistant", `⚠️ ${event.message}`);
+          this.insertMsg("assistant", `⚠️ ${event.message}`, Date.now(), null, this.answeringModel());
+        } else if (event.kind === "steered") {
+          // The reply so far answered the previous message
+          this.promoteLastThought();
+          const steered = this.pendingSteers.get(event.content);
+          this.pendingSteers.delete(event.content);
+          this.insertMsg(
+            "user",
+            steered ? steered.userContent : event.content,
+            steered?.userTimestamp ?? Date.now(),
+            steered?.author ?? null
+          );
         }
 
         if (event.kind === "tool_start") {
@@ -89,16 +166,39 @@ export class PersistenceHarness extends ProxyHarness {
             args: event.args,
           });
         } else if (event.kind === "tool_end") {
+          const { text, blob } = offloadLargeText(event.result);
           this.insertMsg("tool_end", {
             toolName: event.tool,
             toolCallId: event.callId,
-            result: event.result,
+            result: text,
             isError: !event.success,
+            blob,
           });
         }
 
         callbacks.onNormalizedEvent(event);
       },
+      onUsage: (usage) => {
+        try {
+          this.queries.insertUsage({
+            timestamp: Date.now(),
+            session_id: this.sessionId,
+            channel: this.channel,
+            harness: this.harnessName,
+            model: this.answeringModel(),
+            cron_job: this.cronJob,
+            input_tokens: usage.input,
+            output_tokens: usage.output,
+            cache_read_tokens: usage.cacheRead,
+            cache_write_tokens: usage.cacheWrite,
+            total_tokens: usage.totalTokens,
+            cost: usage.cost.total,
+          });
+        } catch (err) {
+          console.error("[Persistence] Failed to record usage:", err);
+        }
+        callbacks.onUsage?.(usage);
+      },
     };
 
     try {
@@ -111,10 +211,7 @@ export class PersistenceHarness extends ProxyHarness {
     }
 
     // Promote the last assistant message from "thought" → "assistant"
-    if (this.assistantMessageIds.length > 0) {
-      const lastId = this.assistantMessageIds[this.assistantMessageIds.length - 1];
-      this.queries.updateMessageType(lastId, "assistant");
-    }
+    this.promoteLastThought();
   }
 }
 
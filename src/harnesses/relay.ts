@@ -2,9 +2,12 @@
  * RELAY HARNESS
  *
  * Decorator that handles all output to the channel handler:
- * - Streaming relay (each assistant message as it arrives)
+ * - Streaming relay (each assistant message as it arrives, plus token deltas
+ *   when the channel can render progressive text)
  * - Bundled relay (all messages joined after run)
  * - Final relay (last message only after run)
+ *   (bundled/final also flush when a steered message joins the run, so the
+ *   earlier message still gets its own reply)
  * - Tool event relay (tool_start/tool_end forwarded to handler)
  * - Error/interrupt relay
  */
@@ -16,17 +19,21 @@ import type { Harness, HarnessCallbacks } from "./types.js";
 export interface RelayOptions {
   handler: OutputHandler | null;
   streamMode: StreamMode;
+  /** Channel declares capabilities.streaming — forward deltas in stream mode */
+  streaming?: boolean;
 }
 
 export class RelayHarness extends ProxyHarness {
   private readonly handler: OutputHandler | null;
   private readonly streamMode: StreamMode;
+  private readonly streaming: boolean;
   private completedMessages: string[] = [];
 
   constructor(delegate: Harness, opts: RelayOptions) {
     super(delegate);
     this.handler = opts.handler;
     this.streamMode = opts.streamMode;
+    this.streaming = opts.streaming ?? false;
   }
 
   async run(
@@ -40,8 +47,15 @@ export class RelayHarness extends ProxyHarness {
     const relayCallbacks: HarnessCallbacks = {
       onInvocation: callbacks.onInvocation,
       onRawEvent: callbacks.onRawEvent,
+      onUsage: callbacks.onUsage,
       onNormalizedEvent: (event) => {
-        if (event.kind === "assistant" && event.content) {
+        if (event.kind === "delta") {
+          if (this.streamMode === "stream" && this.streaming && this.handler?.relayDelta) {
+            this.handler.relayDelta(event.content).catch((err: any) => {
+              console.error(`[Relay] relayDelta failed during stream: ${err.message}`);
+            });
+          }
+        } else if (event.kind === "assistant" && event.content) {
           this.completedMessages.push(event.content);
 
           if (this.streamMode === "stream" && this.handler) {
@@ -55,6 +69,12 @@ export class RelayHarness extends ProxyHarness {
           }
         }
 
+        if (event.kind === "steered" && this.completedMessages.length > 0) {
+          this.relayCompleted().catch((err: any) => {
+            console.error(`[Relay] relay failed before steered message: ${err.message}`);
+          });
+        }
+
         if (event.kind === "tool_start") {
           this.handler?.relayEvent?.({
             kind: "tool_start",
@@ -79,11 +99,12 @@ export class RelayHarness extends ProxyHarness {
     try {
       await this.delegate.run(systemPrompt, userMessage, relayCallbacks, signal);
     } catch (err) {
+      // Flush any in-progress stream before sending interrupt/error, so a
+      // half-streamed draft isn't replaced by the notice
+      if (this.handler && this.streamMode === "stream") {
+        await this.handler.endMessage?.();
+      }
       if (signal?.aborted && this.handler) {
-        // Flush any in-progress stream before sending interrupt
-        if (this.streamMode === "stream") {
-          await this.handler.endMessage?.();
-        }
         await this.handler.relay("*(interrupted)*");
         await this.handler.endMessage?.();
       } else if (this.handler) {
@@ -95,16 +116,23 @@ export class RelayHarness extends ProxyHarness {
     }
 
     // Post-run relay for non-stream modes
-    if (this.handler) {
-      if (this.streamMode === "bundled") {
-        const combined = this.completedMessages.join("\n\n");
-        await this.handler.relay(combined);
-        await this.handler.endMessage?.();
-      } else if (this.streamMode === "final" && this.completedMessages.length > 0) {
-        const last = this.completedMessages[this.completedMessages.length - 1];
-        await this.handler.relay(last);
-        await this.handler.endMessage?.();
-      }
+    await this.relayCompleted();
+  }
+
+  /** Bundled/final: relay what's completed so far and start over. */
+  private async relayCompleted(): Promise<void> {
+    const completed = this.completedMessages;
+    this.completedMessages = [];
+    if (!this.handler) return;
+
+    if (this.streamMode === "bundled") {
+      const combined = completed.join("\n\n");
+      await this.handler.relay(combined);
+      await this.handler.endMessage?.();
+    } else if (this.streamMode === "final" && completed.length > 0) {
+      const last = completed[completed.length - 1];
+      await this.handler.relay(last);
+      await this.handler.endMessage?.();
     }
   }
 }
@@ -2,10 +2,14 @@
  * TRACING HARNESS
  *
  * Decorator that logs all harness events to a .jsonl trace file.
+ * Large tool results in normalized events are offloaded to the blob store
+ * (the line keeps a preview and a `blob` ref).
  */
 
 import { appendFileSync, mkdirSync, statSync } from "fs";
 import { dirname, join } from "path";
+import { offloadLargeText, type BlobRef } from "../blobs/blobs.js";
+import type { MemorySearchTrace } from "../memory/search.js";
 import { ProxyHarness } from "./proxy.js";
 import type { Harness, HarnessCallbacks, HarnessUsage, NormalizedEvent } from "./types.js";
 
@@ -17,6 +21,8 @@ export interface TracingOptions {
   channel: string;
   target: string;
   model: string;
+  /** Model that answered, read when the run ends — differs from `model` after a fallback */
+  getModel?: () => string | undefined;
   traceMessageUpdates?: boolean;
   /** Optional prefix for trace file name (e.g., "profile" → trace-profile-...) */
   tracePrefix?: string;
@@ -28,13 +34,14 @@ type TraceLine =
   | { type: "prompt"; content: string; length: number }
   | { type: "user_message"; content: string }
   | { type: "raw_event"; ts: number; event: unknown }
-  | { type: "normalized_event"; ts: number; event: NormalizedEvent }
-  | { type: "memory_search"; query: string; original_query?: string; contextual_query?: string; contextualizer_duration_ms?: number; contextualizer_skipped?: string; duration_ms: number; results_found: number; results_injected: number; results: unknown[]; skipped?: string }
+  | { type: "normalized_event"; ts: number; event: NormalizedEvent; blob?: BlobRef }
+  | MemorySearchTrace
   | { type: "current_context_filter"; excludeEmbedded: boolean; lastEmbeddedMsgId: number; keepRecentEmbeddedMessages: number; rawMessagesIncluded: number; embeddedMessagesExcluded: number }
   | { type: "auto_classifier"; ran: boolean; duration_ms: number; skipped?: string; traceFile?: string; explanation?: string; currentContextLimit?: number; currentContextIncludeWorkingContext?: boolean; crossContextLimit?: number; crossContextMaxSessions?: number; crossContextIncludeWorkingContext?: boolean; recalledMemoryLimit?: number; selectedModel?: string }
   | { type: "embedding_result"; skipped?: string; chunks_created: number; chunks: unknown[]; unembedded_messages: number; unembedded_chars: number; duration_ms: number }
+  | { type: "fact_extraction"; skipped?: string; chunks_processed: number; facts_added: number; duplicates: number; superseded: number; conflicts: number; duration_ms: number }
   | { type: "profile_update"; skipped?: string; updated: boolean; duration_ms: number; traceFile?: string }
-  | { type: "footer"; duration_ms: number; message_count: number; tool_calls: number; success: boolean; error?: string; usage?: HarnessUsage };
+  | { type: "footer"; duration_ms: number; message_count: number; tool_calls: number; success: boolean; error?: string; usage?: HarnessUsage; model?: string };
 
 export class TracingHarness extends ProxyHarness {
   private traceFile: string = "";
@@ -96,7 +103,8 @@ export class TracingHarness extends ProxyHarness {
   private isMessageUpdateEvent(event: unknown): boolean {
     if (!event || typeof event !== "object") return false;
     const type = (event as { type?: unknown }).type;
-    return type === "message_update";
+    // pi's message_update and Claude Code's --include-partial-messages stream_event
+    return type === "message_update" || type === "stream_event";
   }
 
   async run(
@@ -154,7 +162,13 @@ export class TracingHarness extends ProxyHarness {
         if (event.kind === "assistant") messageCount++;
         if (event.kind === "tool_start") toolCalls++;
 
-        this.writeLine({ type: "normalized_event", ts: Date.now() - startTime, event });
+        // Deltas are the same text as the assistant event that follows
+        if (event.kind === "tool_end") {
+          const { text, blob } = offloadLargeText(event.result);
+          this.writeLine({ type: "normalized_event", ts: Date.now() - startTime, event: { ...event, result: text }, blob });
+        } else if (event.kind !== "delta" || this.traceMessageUpdates) {
+          this.writeLine({ type: "normalized_event", ts: Date.now() - startTime, event });
+        }
         callbacks.onNormalizedEvent(event);
       },
 
@@ -178,6 +192,7 @@ export class TracingHarness extends ProxyHarness {
         success: !error,
         error,
         usage,
+        model: this.options.getModel?.() ?? this.options.model,
       });
     }
   }
@@ -18,9 +18,18 @@
 
 /**
  * Business events that match what we store in the messages table.
+ *
+ * `delta` is the exception: a chunk of assistant text as it's generated, for
+ * channels that render progressively. It's never stored — the complete text
+ * still arrives as one `assistant` event when the message ends.
+ *
+ * `steered` marks a message passed to steer() entering the run's context, so
+ * it can be stored in order with the rest of the turn.
  */
 export type NormalizedEvent =
   | { kind: "assistant"; content: string }
+  | { kind: "delta"; content: string }
+  | { kind: "steered"; content: string }
   | { kind: "tool_start"; tool: string; callId: string; args: unknown }
   | { kind: "tool_end"; tool: string; callId: string; result: string; success: boolean }
   | { kind: "error"; message: string };
@@ -40,6 +49,18 @@ export interface HarnessUsage {
   };
 }
 
+/** Live context window state, for /status */
+export interface HarnessContextStatus {
+  /** Estimated tokens in context, or null when unknown (e.g. right after compaction) */
+  tokens: number | null;
+  contextWindow: number;
+  lastCompaction?: {
+    /** ms since epoch */
+    timestamp: number;
+    tokensBefore: number;
+  };
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // CALLBACKS
 // ════════════════════════════════════════════════════════════════════════════
@@ -134,6 +155,40 @@ export interface Harness {
    */
   setModel?(model: { provider: string; name: string; openRouterProvider?: string }): Promise<void>;
 
+  /**
+   * Inject a message into the run that's in flight (steering) instead of
+   * waiting for it to finish. Resolves false when nothing is running, so the
+   * caller can queue it as usual. Messages not delivered by the time run()
+   * settles are dropped — no `steered` event means it never reached the model.
+   */
+  steer?(message: string): Promise<boolean>;
+
+  /**
+   * Limit the tools the next run() may use (e.g. for a guest's turn); null
+   * restores the full set. Harnesses without it can't run restricted turns.
+   */
+  setAllowedTools?(tools: string[] | null): void;
+
+  /** Context usage of the live session; undefined when there isn't one yet. */
+  getContextStatus?(): HarnessContextStatus | undefined;
+
+  /**
+   * Drop the last run from the live session's context, for a run that failed
+   * before producing any output. Called before retrying the same prompt (e.g.
+   * on a fallback model) so the user message isn't in the context twice.
+   */
+  discardFailedRun?(): void;
+
+  /**
+   * Move the live session back to just before its Nth most recent user
+   * prompt (1 = the last one), so the next run() continues from there — used
+   * to edit and resend an earlier message. `prompt` is the text that was
+   * sent; implementations check it against the prompt they find. Resolves
+   * false when it can't rewind (no live session, prompt not found), and the
+   * caller falls back to reset().
+   */
+  rewind?(turnsBack: number, prompt: string): Promise<boolean>;
+
   /**
    * Reset session state. Equivalent to /new — the next run() call starts a
    * brand-new conversation. Implementations must persist any "fresh next
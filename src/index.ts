@@ -9,6 +9,8 @@ import { TelegramChannel } from "./channels/telegram.js";
 import { DiscordChannel } from "./channels/discord.js";
 import { loadSecrets } from "./secrets.js";
 import { DEFAULT_TIMEZONE } from "./system-instructions.js";
+import { scheduleBackups } from "./backup/backup.js";
+import { scheduleRetention } from "./retention/retention.js";
 
 const ROOT = process.cwd();
 
@@ -58,6 +60,9 @@ async function main() {
   const dashboard = new DashboardChannel(db, queries, config);
   dashboard.setSkillsGetter(() => orchestrator.getSkills());
   dashboard.setAskHandler((opts) => orchestrator.ask(opts));
+  dashboard.setEditHandler((sessionId, messageId, content, attachments) =>
+    orchestrator.editAndResend(sessionId, messageId, content, attachments)
+  );
   dashboard.setCronManager({
     scheduleJob: (job) => orchestrator.getCronScheduler().scheduleJob(job),
     removeJob: (name) => orchestrator.getCronScheduler().removeJob(name),
@@ -65,10 +70,17 @@ async function main() {
     triggerJob: (name) => orchestrator.getCronScheduler().triggerJob(name),
     checkHealth: () => orchestrator.getCronScheduler().checkHealth(),
   });
+  dashboard.setQueueManager({
+    getQueue: (sessionId) => orchestrator.getQueue(sessionId),
+    drop: (sessionId, id) => orchestrator.dropQueued(sessionId, id),
+    move: (sessionId, id, position) => orchestrator.moveQueued(sessionId, id, position),
+    onChange: (listener) => orchestrator.onQueueChange(listener),
+  });
   orchestrator.registerChannel(dashboard);
 
   // Register Telegram channel
   const telegram = new TelegramChannel(config);
+  telegram.setCommandsGetter(() => orchestrator.getCommands());
   orchestrator.registerChannel(telegram);
   dashboard.setTelegramChannel({
     setMyCommands: () => telegram.setMyCommands(),
@@ -77,6 +89,7 @@ async function main() {
 
   // Register Discord channel
   const discord = new DiscordChannel(config);
+  discord.setCommandsGetter(() => orchestrator.getCommands());
   orchestrator.registerChannel(discord);
   dashboard.setDiscordChannel({
     registerSlashCommands: () => discord.registerSlashCommands(),
@@ -86,6 +99,12 @@ async function main() {
   // Start channels
   await orchestrator.start();
 
+  // Scheduled snapshots of user/ (config.backup.schedule)
+  let backupJob = scheduleBackups(config);
+
+  // Scheduled pruning of messages, traces and logs (config.retention.schedule)
+  let retentionJob = scheduleRetention(config, queries);
+
   console.log("\nVito is ready. Dashboard at http://localhost:3030\n");
 
   // Heartbeat log every 30 minutes
@@ -122,6 +141,20 @@ async function main() {
             console.error("[Config] Failed to reload cron jobs:", err);
           }
           
+          try {
+            backupJob?.stop();
+            backupJob = scheduleBackups(newConfig);
+          } catch (err) {
+            console.error("[Config] Failed to reschedule backups:", err);
+          }
+          
+          try {
+            retentionJob?.stop();
+            retentionJob = scheduleRetention(newConfig, queries);
+          } catch (err) {
+            console.error("[Config] Failed to reschedule retention:", err);
+          }
+          
           try {
             dashboard.reloadConfig(newConfig);
           } catch (err) {
@@ -0,0 +1,223 @@
+/**
+ * MEMORY SEARCH INDEX — HNSW over embeddings.db vectors
+ *
+ * One index file per embedding model in user/embeddings-index/. The process
+ * that writes embeddings.db keeps it current: embeddings.ts calls
+ * refreshAnnIndex() after each embedding run and re-embed, which adds new
+ * vectors, drops deleted ones and saves the file (write + rename, so readers
+ * never see half of one).
+ *
+ * Searchers (the server, the semantic-history-search CLI) only read it.
+ * Vectors embedded since the last save are scored exactly and merged in, so
+ * results never lag embeddings.db. annSearch() returns null whenever the
+ * index can't answer — too few vectors, no file yet, too far behind — and
+ * search.ts does the exact scan instead.
+ *
+ * The index is derived data: delete the directory and it is rebuilt on the
+ * next embedding run. Backups skip it.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { HnswIndex, type HnswHit } from "./hnsw.js";
+
+// ── Config ─────────────────────────────────────────────────
+
+const ROOT = resolve(process.cwd());
+const INDEX_DIR = join(ROOT, "user", "embeddings-index");
+/** Below this many vectors the exact scan takes a few ms — no index is built */
+export const ANN_MIN_VECTORS = 2000;
+/** More unindexed vectors than this and the index is too stale to patch per query */
+const MAX_PENDING_VECTORS = 1000;
+/** Rebuild from scratch once removed vectors are this share of the graph */
+const REBUILD_TOMBSTONE_RATIO = 0.25;
+/** Vectors fetched from embeddings.db per query while building */
+const BUILD_BATCH_SIZE = 256;
+/** Hand the event loop back this often while inserting */
+const BUILD_YIELD_MS = 50;
+
+// ── Index files ────────────────────────────────────────────
+
+const cache = new Map<string, { index: HnswIndex; mtimeMs: number }>();
+
+function indexPath(model: string): string {
+  return join(INDEX_DIR, `${model.replace(/[^a-zA-Z0-9._-]+/g, "_")}.hnsw`);
+}
+
+/** The saved index for a model, reloaded when another process has rewritten it. */
+function readIndex(model: string): HnswIndex | null {
+  const path = indexPath(model);
+  if (!existsSync(path)) {
+    cache.delete(model);
+    return null;
+  }
+  const { mtimeMs } = statSync(path);
+  const cached = cache.get(model);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.index;
+  try {
+    const index = HnswIndex.fromBuffer(readFileSync(path));
+    cache.set(model, { index, mtimeMs });
+    return index;
+  } catch (err) {
+    console.error(`[Embeddings] Ignoring unreadable search index ${path}:`, err);
+    cache.delete(model);
+    return null;
+  }
+}
+
+function writeIndex(model: string, index: HnswIndex): void {
+  mkdirSync(INDEX_DIR, { recursive: true });
+  const path = indexPath(model);
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, index.toBuffer());
+  renameSync(tmp, path);
+  cache.set(model, { index, mtimeMs: statSync(path).mtimeMs });
+}
+
+function toVector(buf: Buffer): Float32Array {
+  return new Float32Array(buf.buffer, buf.byteOffset, buf.byteLength / 4);
+}
+
+function vectorIds(db: ReturnType<typeof Database>, model: string): number[] {
+  return db.prepare("SELECT chunk_id FROM embeddings WHERE model = ?").pluck().all(model) as number[];
+}
+
+function loadVectors(db: ReturnType<typeof Database>, model: string, ids: number[]): Array<{ chunk_id: number; vector: Buffer }> {
+  return db
+    .prepare("SELECT chunk_id, vector FROM embeddings WHERE model = ? AND chunk_id IN (SELECT value FROM json_each(?))")
+    .all(model, JSON.stringify(ids)) as Array<{ chunk_id: number; vector: Buffer }>;
+}
+
+// ── Search ─────────────────────────────────────────────────
+
+/**
+ * Top-k chunk ids by cosine similarity to `query` among `model`'s vectors,
+ * or null when the caller should scan exactly instead.
+ */
+export function annSearch(
+  db: ReturnType<typeof Database>,
+  model: string,
+  query: Float32Array,
+  k: number,
+  ef?: number
+): HnswHit[] | null {
+  const index = readIndex(model);
+  if (!index || index.dims !== query.length) return null;
+
+  const ids = vectorIds(db, model);
+  if (ids.length < ANN_MIN_VECTORS) return null;
+  const pending = ids.filter((id) => !index.has(id));
+  if (pending.length > MAX_PENDING_VECTORS) return null;
+
+  // Ask for extra hits to make up for chunks deleted since the last save
+  const current = new Set(ids);
+  const hits = index
+    .search(query, k + index.size - (ids.length - pending.length), ef)
+    .filter((hit) => current.has(hit.id));
+
+  if (pending.length > 0) {
+    const q = normalized(query);
+    for (const row of loadVectors(db, model, pending)) {
+      hits.push({ id: row.chunk_id, score: dot(q, normalized(toVector(row.vector))) });
+    }
+    hits.sort((a, b) => b.score - a.score);
+  }
+  return hits.slice(0, k);
+}
+
+function normalized(v: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm) || 1;
+  return Float32Array.from(v, (x) => x / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// ── Maintenance ────────────────────────────────────────────
+
+const refreshing = new Map<string, Promise<void>>();
+
+/**
+ * Bring `model`'s index in line with embeddings.db and save it: builds it
+ * once there are ANN_MIN_VECTORS vectors, then adds and removes the
+ * difference. Inserts yield to the event loop, so a first build over a big
+ * history doesn't stall the server. Concurrent calls for a model share one
+ * run; `changedIds` (vectors replaced in place, e.g. an edited chunk) queue
+ * a run of their own after it.
+ */
+export function refreshAnnIndex(
+  db: ReturnType<typeof Database>,
+  model: string,
+  changedIds: number[] = []
+): Promise<void> {
+  const inFlight = refreshing.get(model);
+  if (inFlight && changedIds.length === 0) return inFlight;
+
+  const run: Promise<void> = (inFlight ?? Promise.resolve())
+    .then(() => doRefresh(db, model, changedIds))
+    .catch((err) => console.error(`[Embeddings] Search index update failed for ${model}:`, err))
+    .finally(() => {
+      if (refreshing.get(model) === run) refreshing.delete(model);
+    });
+  refreshing.set(model, run);
+  return run;
+}
+
+async function doRefresh(db: ReturnType<typeof Database>, model: string, changedIds: number[]): Promise<void> {
+  const ids = vectorIds(db, model);
+  const index = readIndex(model);
+  if (!index && ids.length < ANN_MIN_VECTORS) return;
+
+  const dims = db
+    .prepare("SELECT dimensions FROM embeddings WHERE model = ? LIMIT 1")
+    .pluck()
+    .get(model) as number | undefined;
+  const current = new Set(ids);
+  const removed = index ? index.liveIds().filter((id) => !current.has(id)) : [];
+  const rebuild =
+    !index ||
+    index.dims !== dims ||
+    index.tombstones + removed.length > (index.size + index.tombstones) * REBUILD_TOMBSTONE_RATIO;
+
+  const changed = new Set(changedIds);
+  const missing = rebuild ? ids : ids.filter((id) => !index!.has(id) || changed.has(id));
+  if (!rebuild && missing.length === 0 && removed.length === 0) return;
+  if (ids.length === 0 || !dims) return;
+
+  const start = Date.now();
+  // A rebuild fills a fresh graph; searches keep using the saved one meanwhile
+  const target = rebuild ? new HnswIndex(dims) : index!;
+  for (const id of removed) target.remove(id);
+  let lastYield = Date.now();
+  for (let i = 0; i < missing.length; i += BUILD_BATCH_SIZE) {
+    for (const row of loadVectors(db, model, missing.slice(i, i + BUILD_BATCH_SIZE))) {
+      target.add(row.chunk_id, toVector(row.vector));
+      if (Date.now() - lastYield > BUILD_YIELD_MS) {
+        await new Promise((r) => setImmediate(r));
+        lastYield = Date.now();
+      }
+    }
+  }
+  writeIndex(model, target);
+
+  const action = rebuild ? `Built search index` : `Updated search index`;
+  console.log(`[Embeddings] ${action} for ${model}: ${target.size} vector(s), +${missing.length}/-${removed.length} in ${Date.now() - start}ms`);
+}
+
+/**
+ * Delete every saved index and forget the cached ones — for when
+ * embeddings.db was replaced wholesale (a backup restore) and chunk ids may
+ * now belong to other vectors. Searches scan exactly until the next
+ * embedding run rebuilds the index.
+ */
+export async function resetAnnIndexes(): Promise<void> {
+  await Promise.all(refreshing.values());
+  rmSync(INDEX_DIR, { recursive: true, force: true });
+  cache.clear();
+}
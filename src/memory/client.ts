@@ -1,13 +1,16 @@
 /**
- * Shared OpenAI-compatible client & embedding function for the memory pipeline.
+ * Shared OpenAI-compatible chat client for the memory pipeline.
  * Tries OpenRouter first, falls back to native OpenAI if no OpenRouter key.
- * Used by embeddings.ts, search.ts, profile.ts, and dashboard search.
+ * Used by embeddings.ts (chunk context sentences) and profile.ts. Embeddings
+ * go through providers.ts.
  */
 
+import Database from "better-sqlite3";
 import OpenAI from "openai";
-import { readFileSync } from "fs";
+import { getModel } from "@earendil-works/pi-ai/compat";
+import { existsSync, readFileSync } from "fs";
 import { join, resolve } from "path";
-import { EMBEDDING_MODEL } from "./models.js";
+import { Queries } from "../db/queries.js";
 
 const ROOT = resolve(process.cwd());
 
@@ -70,17 +73,59 @@ export function resolveModel(openRouterModel: string): string {
   return openRouterModel.includes("/") ? openRouterModel.split("/").slice(1).join("/") : openRouterModel;
 }
 
-// ── Embedding helper ──────────────────────────────────────
+// ── Usage ledger ──────────────────────────────────────────
+
+/** Ledger session for memory calls not made on behalf of one (e.g. a dashboard search) */
+const UNSCOPED_USAGE_SESSION = "memory";
 
 /**
- * Embed text using the shared embedding model.
- * Works with either OpenRouter or native OpenAI.
+ * Record a memory-pipeline chat call in vito.db's usage ledger, so the Usage
+ * page and budget caps count it. Priced from pi-ai's model catalog; a model
+ * it doesn't know is recorded with its tokens at $0. Never throws.
  */
-export async function createEmbedding(text: string): Promise<Float32Array> {
-  const openai = getClient();
-  const response = await openai.embeddings.create({
-    model: resolveModel(EMBEDDING_MODEL),
-    input: text,
-  });
-  return new Float32Array(response.data[0].embedding);
+export function recordMemoryUsage(opts: {
+  /** Session the call was made for; UNSCOPED_USAGE_SESSION when there is none */
+  sessionId: string | undefined;
+  /** Shown as the harness, e.g. "facts" */
+  source: string;
+  /** OpenRouter-format id, as passed to resolveModel() */
+  model: string;
+  usage: OpenAI.CompletionUsage | undefined;
+}): void {
+  const vitoDbPath = join(ROOT, "user", "vito.db");
+  if (!opts.usage || !existsSync(vitoDbPath)) return;
+  const sessionId = opts.sessionId ?? UNSCOPED_USAGE_SESSION;
+  try {
+    const { prompt_tokens: input, completion_tokens: output } = opts.usage;
+    const cachedInput = opts.usage.prompt_tokens_details?.cached_tokens ?? 0;
+    const config = getProviderConfig();
+    const provider = config.isOpenRouter ? "openrouter" : "openai";
+    const pricing = getModel(provider as any, resolveModel(opts.model) as any)?.cost;
+    const cost = pricing
+      ? ((input - cachedInput) * pricing.input + cachedInput * pricing.cacheRead + output * pricing.output) / 1_000_000
+      : 0;
+
+    const db = new Database(vitoDbPath);
+    try {
+      const channel = db.prepare("SELECT channel FROM sessions WHERE id = ?").pluck().get(sessionId) as string | undefined;
+      new Queries(db).insertUsage({
+        timestamp: Date.now(),
+        session_id: sessionId,
+        channel: channel ?? null,
+        harness: opts.source,
+        model: opts.model,
+        cron_job: null,
+        input_tokens: input - cachedInput,
+        output_tokens: output,
+        cache_read_tokens: cachedInput,
+        cache_write_tokens: 0,
+        total_tokens: opts.usage.total_tokens,
+        cost,
+      });
+    } finally {
+      db.close();
+    }
+  } catch (err) {
+    console.error(`[Memory] Failed to record ${opts.source} usage:`, err);
+  }
 }
@@ -14,11 +14,22 @@
  * - Global lock ensures only one embedding job runs at a time
  * - Fire-and-forget — never blocks the response
  * - Uses the same chunking/embedding logic as the backfill scripts
+ * - Keeps the HNSW search index (ann.ts) in step after each run
+ *
+ * Chunks can also be curated by hand (dashboard 🧠 Memory → Chunks): edit
+ * the text or context sentence, pin, delete or re-embed one. Deleted
+ * chunks leave their message range in chunk_deletions so the next run
+ * doesn't chunk those messages again. A fork's copied history goes there
+ * too — the parent session already holds those chunks.
  */
 
 import Database from "better-sqlite3";
 import { join, resolve } from "path";
-import { getClient, resolveModel, createEmbedding } from "./client.js";
+import { getClient, resolveModel } from "./client.js";
+import { getEmbeddingProvider } from "./providers.js";
+import { refreshAnnIndex } from "./ann.js";
+import { runMigrations } from "../db/migrations/index.js";
+import { EMBEDDINGS_MIGRATIONS } from "../db/migrations/embeddings.js";
 
 // ── Config ─────────────────────────────────────────────────
 
@@ -31,6 +42,14 @@ const ASSISTANT_LABEL = "assistant";
 /** Default model used to write the per-chunk context sentence. Override via
  *  settings.memory.chunkContextualizerModel.name in vito.config.json. */
 const DEFAULT_CONTEXTUAL_MODEL = "openai/gpt-5.4-nano";
+/** Where incremental embedding resumes — chunks deleted by hand and a fork's copied history count as done */
+const LAST_EMBEDDED_SQL = `
+  SELECT MAX(last_id) AS last_id FROM (
+    SELECT MAX(msg_id_end) AS last_id FROM chunks WHERE session_id = ?
+    UNION ALL
+    SELECT MAX(msg_id_end) FROM chunk_deletions WHERE session_id = ?
+  )
+`;
 
 
 // ── Global Lock ────────────────────────────────────────────
@@ -41,54 +60,13 @@ let isRunning = false;
 
 let embDB: ReturnType<typeof Database> | null = null;
 
-function getEmbeddingsDB(): ReturnType<typeof Database> {
+/** The writable embeddings.db connection, migrated on first use — shared with facts.ts */
+export function getEmbeddingsDB(): ReturnType<typeof Database> {
   if (!embDB) {
     embDB = new Database(EMBEDDINGS_DB_PATH);
     embDB.pragma("journal_mode = WAL");
     
-    // Create schema if needed (same as the standalone scripts)
-    embDB.exec(`
-      CREATE TABLE IF NOT EXISTS chunks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        day TEXT NOT NULL,
-        chunk_index INTEGER NOT NULL,
-        text TEXT NOT NULL,
-        context TEXT,
-        embedded_text TEXT,
-        msg_id_start INTEGER,
-        msg_id_end INTEGER,
-        msg_count INTEGER,
-        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-        UNIQUE(session_id, day, chunk_index)
-      );
-
-      CREATE TABLE IF NOT EXISTS embeddings (
-        chunk_id INTEGER PRIMARY KEY,
-        vector BLOB NOT NULL,
-        FOREIGN KEY (chunk_id) REFERENCES chunks(id)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_chunks_session_day ON chunks(session_id, day);
-      CREATE INDEX IF NOT EXISTS idx_chunks_day ON chunks(day);
-
-      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
-        text,
-        content='chunks',
-        content_rowid='id'
-      );
-
-      CREATE TRIGGER IF NOT EXISTS chunks_ai AFTER INSERT ON chunks BEGIN
-        INSERT INTO chunks_fts(rowid, text) VALUES (new.id, new.text);
-      END;
-      CREATE TRIGGER IF NOT EXISTS chunks_ad AFTER DELETE ON chunks BEGIN
-        INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.id, old.text);
-      END;
-      CREATE TRIGGER IF NOT EXISTS chunks_au AFTER UPDATE ON chunks BEGIN
-        INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES('delete', old.id, old.text);
-        INSERT INTO chunks_fts(rowid, text) VALUES (new.id, new.text);
-      END;
-    `);
+    runMigrations(embDB, EMBEDDINGS_MIGRATIONS, { database: "embeddings.db" });
   }
   return embDB;
 }
@@ -128,7 +106,7 @@ function extractText(contentRaw: string): string {
   }
 }
 
-interface RawMessage {
+export interface RawMessage {
   id: number;
   session_id: string;
   timestamp: number;
@@ -137,7 +115,8 @@ interface RawMessage {
   author: string | null;
 }
 
-function formatMessageLine(msg: RawMessage): string {
+/** One transcript line as chunks store it — also used for query rewriting context (query.ts) */
+export function formatMessageLine(msg: RawMessage): string {
   const time = formatTime(msg.timestamp);
   const role = msg.type === "assistant" ? ASSISTANT_LABEL : "user";
   const authorPrefix = msg.type === "user" && msg.author ? `${msg.author}: ` : "";
@@ -296,6 +275,12 @@ export interface EmbedOptions {
   contextualizerModel?: string;
 }
 
+/** Highest vito.db message id already embedded (or skipped via chunk_deletions) for a session (0 = none). */
+export function getLastEmbeddedMessageId(sessionId: string): number {
+  const row = getEmbeddingsDB().prepare(LAST_EMBEDDED_SQL).get(sessionId, sessionId) as { last_id: number | null } | undefined;
+  return row?.last_id ?? 0;
+}
+
 /**
  * Check if a session has enough unembedded messages to form a chunk,
  * and if so, embed them. Called after every assistant message.
@@ -332,9 +317,7 @@ async function _doEmbedding(
   const db = getEmbeddingsDB();
 
   // Find the highest message ID we've already embedded for this session
-  const lastEmbedded = db.prepare(
-    "SELECT MAX(msg_id_end) as last_id FROM chunks WHERE session_id = ?"
-  ).get(sessionId) as { last_id: number | null };
+  const lastEmbedded = db.prepare(LAST_EMBEDDED_SQL).get(sessionId, sessionId) as { last_id: number | null };
 
   const afterId = lastEmbedded?.last_id ?? 0;
 
@@ -394,8 +377,9 @@ async function _doEmbedding(
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   const insertEmbedding = db.prepare(`
-    INSERT OR REPLACE INTO embeddings (chunk_id, vector) VALUES (?, ?)
+    INSERT OR REPLACE INTO embeddings (chunk_id, vector, model, dimensions) VALUES (?, ?, ?, ?)
   `);
+  const provider = getEmbeddingProvider();
 
   // Get previous chunk for contextual embedding
   const getPrevChunk = db.prepare(`
@@ -418,7 +402,7 @@ async function _doEmbedding(
       const embeddedText = `${context}\n\n${chunk.text}`;
 
       // Embed
-      const vector = await createEmbedding(embeddedText);
+      const [vector] = await provider.embed([embeddedText]);
 
       // Store chunk
       const msgIdStart = chunk.messages[0].id;
@@ -438,8 +422,8 @@ async function _doEmbedding(
       const chunkId = result.lastInsertRowid;
 
       // Store embedding vector
-      const buffer = Buffer.from(vector.buffer);
-      insertEmbedding.run(chunkId, buffer);
+      const buffer = Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+      insertEmbedding.run(chunkId, buffer, provider.model, vector.length);
 
       createdChunks.push({
         day: chunk.day,
@@ -456,6 +440,8 @@ async function _doEmbedding(
     }
   }
 
+  if (createdChunks.length > 0) await refreshAnnIndex(db, provider.model);
+
   return {
     chunks_created: createdChunks.length,
     chunks: createdChunks,
@@ -464,3 +450,333 @@ async function _doEmbedding(
     duration_ms: Date.now() - start,
   };
 }
+
+// ── Re-embedding ───────────────────────────────────────────
+
+const REEMBED_BATCH_SIZE = 32;
+
+export interface EmbeddingModelCount {
+  /** null = a chunk with no vector */
+  model: string | null;
+  dimensions: number | null;
+  count: number;
+}
+
+export interface ReembedStatus {
+  running: boolean;
+  dryRun: boolean;
+  model: string;
+  /** Chunks whose vector isn't from `model` when the run started */
+  total: number;
+  done: number;
+  failed: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+let reembedStatus: ReembedStatus | null = null;
+
+/** Chunk counts per embedding model (and chunks with no vector at all). */
+export function getEmbeddingModelCounts(): EmbeddingModelCount[] {
+  return getEmbeddingsDB()
+    .prepare(`
+      SELECT e.model, e.dimensions, COUNT(*) AS count
+      FROM chunks c
+      LEFT JOIN embeddings e ON e.chunk_id = c.id
+      GROUP BY e.model, e.dimensions
+      ORDER BY count DESC
+    `)
+    .all() as EmbeddingModelCount[];
+}
+
+/** The current or most recent re-embed run since startup, if any. */
+export function getReembedStatus(): ReembedStatus | null {
+  return reembedStatus;
+}
+
+/**
+ * Re-embed every chunk whose vector isn't from the configured model, in
+ * batches — run after switching settings.memory.embedding. Holds the
+ * embedding lock, so incremental embedding waits (skips) until it's done.
+ * Interrupted runs resume where they stopped; until then, search only
+ * sees the chunks already re-embedded.
+ */
+export async function reembedChunks(
+  opts: { dryRun?: boolean; onProgress?: (status: ReembedStatus) => void } = {}
+): Promise<ReembedStatus> {
+  if (isRunning) throw new Error("An embedding job is already running — try again shortly");
+
+  const db = getEmbeddingsDB();
+  const provider = getEmbeddingProvider();
+  const stale = db.prepare(`
+    SELECT c.id, COALESCE(c.embedded_text, c.text) AS text
+    FROM chunks c
+    LEFT JOIN embeddings e ON e.chunk_id = c.id
+    WHERE e.model IS NOT ?
+    ORDER BY c.id
+  `).all(provider.model) as Array<{ id: number; text: string }>;
+
+  const status: ReembedStatus = {
+    running: true,
+    dryRun: opts.dryRun === true,
+    model: provider.model,
+    total: stale.length,
+    done: 0,
+    failed: 0,
+    startedAt: Date.now(),
+  };
+  reembedStatus = status;
+  isRunning = true;
+
+  try {
+    if (status.dryRun) return status;
+    console.log(`[Embeddings] Re-embedding ${stale.length} chunk(s) with ${provider.id}:${provider.model}`);
+
+    const upsert = db.prepare(`
+      INSERT OR REPLACE INTO embeddings (chunk_id, vector, model, dimensions) VALUES (?, ?, ?, ?)
+    `);
+    const saveBatch = db.transaction((rows: Array<{ id: number; vector: Float32Array }>) => {
+      for (const { id, vector } of rows) {
+        upsert.run(id, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), provider.model, vector.length);
+      }
+    });
+
+    for (let i = 0; i < stale.length; i += REEMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + REEMBED_BATCH_SIZE);
+      try {
+        const vectors = await provider.embed(batch.map((c) => c.text));
+        saveBatch(batch.map((c, j) => ({ id: c.id, vector: vectors[j] })));
+        status.done += batch.length;
+      } catch (err) {
+        status.failed += batch.length;
+        status.error = err instanceof Error ? err.message : String(err);
+        console.error(`[Embeddings] ❌ Re-embed batch at chunk ${batch[0].id} failed:`, err);
+      }
+      opts.onProgress?.(status);
+    }
+
+    console.log(`[Embeddings] Re-embed done: ${status.done} re-embedded, ${status.failed} failed`);
+    if (status.done > 0) await refreshAnnIndex(db, provider.model);
+    return status;
+  } finally {
+    status.running = false;
+    status.finishedAt = Date.now();
+    isRunning = false;
+  }
+}
+
+// ── Chunk Curation ─────────────────────────────────────────
+
+export interface ChunkDetail {
+  id: number;
+  session_id: string;
+  day: string;
+  chunk_index: number;
+  text: string;
+  context: string | null;
+  msg_id_start: number | null;
+  msg_id_end: number | null;
+  msg_count: number | null;
+  created_at: number;
+  /** Unix seconds of the last hand edit, null if never edited */
+  edited_at: number | null;
+  pinned: boolean;
+  /** Embedding model of the chunk's vector, null when it has none */
+  model: string | null;
+  dimensions: number | null;
+}
+
+export interface ChunkFilter {
+  sessionId?: string;
+  /** Inclusive YYYY-MM-DD bounds */
+  from?: string;
+  to?: string;
+  pinnedOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ChunkList {
+  total: number;
+  chunks: ChunkDetail[];
+  /** Chunks per day matching the filter (ignoring limit/offset), newest first */
+  days: Array<{ day: string; count: number }>;
+}
+
+const CHUNK_DETAIL_SELECT = `
+  SELECT c.id, c.session_id, c.day, c.chunk_index, c.text, c.context,
+         c.msg_id_start, c.msg_id_end, c.msg_count, c.created_at, c.edited_at,
+         c.pinned, e.model, e.dimensions
+  FROM chunks c
+  LEFT JOIN embeddings e ON e.chunk_id = c.id
+`;
+
+function toChunkDetail(row: Omit<ChunkDetail, "pinned"> & { pinned: number }): ChunkDetail {
+  return { ...row, pinned: row.pinned === 1 };
+}
+
+/** Chunks matching the filter, newest day first and in order within a day. */
+export function listChunks(filter: ChunkFilter = {}): ChunkList {
+  const db = getEmbeddingsDB();
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+  if (filter.sessionId) {
+    where.push("c.session_id = ?");
+    params.push(filter.sessionId);
+  }
+  if (filter.from) {
+    where.push("c.day >= ?");
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    where.push("c.day <= ?");
+    params.push(filter.to);
+  }
+  if (filter.pinnedOnly) where.push("c.pinned = 1");
+  const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
+
+  const days = db.prepare(`
+    SELECT c.day, COUNT(*) AS count FROM chunks c ${whereSql} GROUP BY c.day ORDER BY c.day DESC
+  `).all(...params) as Array<{ day: string; count: number }>;
+  const rows = db.prepare(`
+    ${CHUNK_DETAIL_SELECT}
+    ${whereSql}
+    ORDER BY c.day DESC, c.session_id, c.chunk_index
+    LIMIT ? OFFSET ?
+  `).all(...params, filter.limit ?? 50, filter.offset ?? 0) as Array<Parameters<typeof toChunkDetail>[0]>;
+
+  return {
+    total: days.reduce((n, d) => n + d.count, 0),
+    chunks: rows.map(toChunkDetail),
+    days,
+  };
+}
+
+export function getChunk(id: number): ChunkDetail | null {
+  const row = getEmbeddingsDB().prepare(`${CHUNK_DETAIL_SELECT} WHERE c.id = ?`).get(id) as
+    | Parameters<typeof toChunkDetail>[0]
+    | undefined;
+  return row ? toChunkDetail(row) : null;
+}
+
+/**
+ * Embed a chunk's text + context with the configured provider and store
+ * both in one transaction, then patch the search index. Nothing is saved
+ * if embedding fails.
+ */
+async function saveChunkEmbedding(
+  id: number,
+  text: string,
+  context: string | null,
+  edited: boolean
+): Promise<void> {
+  const db = getEmbeddingsDB();
+  const provider = getEmbeddingProvider();
+  const embeddedText = context ? `${context}\n\n${text}` : text;
+  const [vector] = await provider.embed([embeddedText]);
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE chunks
+      SET text = ?, context = ?, embedded_text = ?, edited_at = CASE WHEN ? THEN unixepoch() ELSE edited_at END
+      WHERE id = ?
+    `).run(text, context, embeddedText, edited ? 1 : 0, id);
+    db.prepare(`
+      INSERT OR REPLACE INTO embeddings (chunk_id, vector, model, dimensions) VALUES (?, ?, ?, ?)
+    `).run(id, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), provider.model, vector.length);
+  })();
+
+  await refreshAnnIndex(db, provider.model, [id]);
+}
+
+/** Replace a chunk's text and/or context sentence and re-embed it. Null if there's no such chunk. */
+export async function updateChunk(
+  id: number,
+  changes: { text?: string; context?: string | null }
+): Promise<ChunkDetail | null> {
+  const chunk = getChunk(id);
+  if (!chunk) return null;
+  const text = changes.text ?? chunk.text;
+  if (!text.trim()) throw new Error("Chunk text can't be empty");
+  const context = changes.context !== undefined ? changes.context?.trim() || null : chunk.context;
+
+  await saveChunkEmbedding(id, text, context, true);
+  console.log(`[Embeddings] Chunk ${id} edited (${chunk.session_id} ${chunk.day}#${chunk.chunk_index})`);
+  return getChunk(id);
+}
+
+/**
+ * Embed a chunk again with the configured provider — optionally writing a
+ * fresh context sentence first. Null if there's no such chunk.
+ */
+export async function reembedChunk(
+  id: number,
+  opts: { regenerateContext?: boolean; contextualizerModel?: string } = {}
+): Promise<ChunkDetail | null> {
+  const chunk = getChunk(id);
+  if (!chunk) return null;
+
+  let context = chunk.context;
+  if (opts.regenerateContext) {
+    const prev = getEmbeddingsDB()
+      .prepare("SELECT text FROM chunks WHERE session_id = ? AND id < ? ORDER BY id DESC LIMIT 1")
+      .pluck()
+      .get(chunk.session_id, id) as string | undefined;
+    context = await generateContext(chunk.text, prev ?? null, opts.contextualizerModel ?? DEFAULT_CONTEXTUAL_MODEL);
+  }
+
+  await saveChunkEmbedding(id, chunk.text, context, opts.regenerateContext === true);
+  console.log(`[Embeddings] Chunk ${id} re-embedded${opts.regenerateContext ? " with a new context sentence" : ""}`);
+  return getChunk(id);
+}
+
+/**
+ * Mark a session's messages msgIdStart..msgIdEnd as done without chunking
+ * them. Used for a fork's copied history, which would otherwise be embedded
+ * a second time and turn up twice in search.
+ */
+export function skipEmbedding(sessionId: string, msgIdStart: number, msgIdEnd: number, timestamp: number): void {
+  const day = new Date(timestamp).toLocaleDateString("en-CA"); // YYYY-MM-DD, as in chunking
+  getEmbeddingsDB().prepare(`
+    INSERT INTO chunk_deletions (session_id, day, msg_id_start, msg_id_end) VALUES (?, ?, ?, ?)
+  `).run(sessionId, day, msgIdStart, msgIdEnd);
+}
+
+/** Pin or unpin a chunk. Null if there's no such chunk. */
+export function setChunkPinned(id: number, pinned: boolean): ChunkDetail | null {
+  const result = getEmbeddingsDB().prepare("UPDATE chunks SET pinned = ? WHERE id = ?").run(pinned ? 1 : 0, id);
+  return result.changes > 0 ? getChunk(id) : null;
+}
+
+/** Thrown by deleteChunk() for a pinned chunk. */
+export class ChunkPinnedError extends Error {
+  constructor(public readonly chunkId: number) {
+    super("Chunk is pinned — unpin it before deleting");
+    this.name = "ChunkPinnedError";
+  }
+}
+
+/**
+ * Delete a chunk and its vector, remembering its message range so it isn't
+ * embedded again. Pinned chunks must be unpinned first (ChunkPinnedError).
+ * False if there's no such chunk.
+ */
+export async function deleteChunk(id: number): Promise<boolean> {
+  const chunk = getChunk(id);
+  if (!chunk) return false;
+  if (chunk.pinned) throw new ChunkPinnedError(id);
+
+  const db = getEmbeddingsDB();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO chunk_deletions (session_id, day, msg_id_start, msg_id_end) VALUES (?, ?, ?, ?)
+    `).run(chunk.session_id, chunk.day, chunk.msg_id_start, chunk.msg_id_end);
+    db.prepare("DELETE FROM embeddings WHERE chunk_id = ?").run(id);
+    db.prepare("DELETE FROM chunks WHERE id = ?").run(id);
+  })();
+
+  console.log(`[Embeddings] Chunk ${id} deleted (${chunk.session_id} ${chunk.day}#${chunk.chunk_index})`);
+  if (chunk.model) await refreshAnnIndex(db, chunk.model);
+  return true;
+}
@@ -0,0 +1,596 @@
+/**
+ * FACT MEMORY — structured facts extracted from conversation chunks
+ *
+ * Chunks are transcript slices and profile.md is one free-form file;
+ * neither answers "where does Mike live?" directly. After each embedding
+ * run, the extractor reads chunks it hasn't seen yet (oldest first, a few
+ * per run) and stores what they state in embeddings.db:
+ *
+ *   subject · predicate · value    "Mike" · "lives_in" · "Denver"
+ *   source_msg_ids                 the vito.db messages that say so
+ *   confidence                     0–1, from the extracting model
+ *   valid_from / valid_to          days it held; valid_to NULL = still true
+ *
+ * A new fact with the subject and predicate of a current one but another
+ * value goes back to the model, which says whether it supersedes the old
+ * one (the old fact is closed and points at its replacement), contradicts
+ * it (both stay current and the conflict is recorded for review), or is
+ * compatible (someone can like more than one food).
+ *
+ * Settings: settings.memory.facts (global only), off until enabled — every
+ * chunk costs a chat call, recorded in the usage ledger so budgets count it.
+ * The fact-memory skill searches facts first and falls back to chunks;
+ * `npm run facts` works through a backlog.
+ *
+ * Chunks edited by hand are read from their edited text, not from the
+ * vito.db messages they came from — otherwise an edit that removed a fact
+ * would bring it straight back.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { loadConfig } from "../config.js";
+import type { FactSettings } from "../types.js";
+import { getClient, recordMemoryUsage, resolveModel } from "./client.js";
+import { formatMessageLine, getEmbeddingsDB, type RawMessage } from "./embeddings.js";
+import { FACT_EXTRACTOR_MODEL } from "./models.js";
+import { isDay } from "./time.js";
+
+// ── Config ─────────────────────────────────────────────────
+
+const ROOT = resolve(process.cwd());
+const VITO_DB_PATH = join(ROOT, "user", "vito.db");
+const EMBEDDINGS_DB_PATH = join(ROOT, "user", "embeddings.db");
+const CHUNKS_PER_RUN = 5;                      // Background runs stay short; the CLI drains backlogs
+const MAX_FACTS_PER_CHUNK = 20;
+const VOCABULARY_SIZE = 40;                    // Existing subjects/predicates shown to the extractor
+const MAX_VALUE_CHARS = 300;
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+/** Question words that would match nearly every fact's predicate */
+const SEARCH_STOPWORDS = new Set([
+  "what", "whats", "where", "when", "who", "whom", "which", "how", "does", "did", "do",
+  "the", "and", "for", "about", "with", "his", "her", "their", "has", "have", "was", "are", "is",
+]);
+
+export interface Fact {
+  id: number;
+  subject: string;
+  predicate: string;
+  value: string;
+  session_id: string;
+  /** Chunk it was extracted from */
+  chunk_id: number | null;
+  source_msg_ids: number[];
+  confidence: number;
+  /** YYYY-MM-DD */
+  valid_from: string | null;
+  /** YYYY-MM-DD; null = still true */
+  valid_to: string | null;
+  superseded_by: number | null;
+  created_at: number;
+}
+
+export type FactConflictKind = "supersedes" | "contradicts";
+
+export interface FactConflict {
+  id: number;
+  /** The newer fact */
+  fact_id: number;
+  conflicting_fact_id: number;
+  kind: FactConflictKind;
+  reason: string | null;
+  detected_at: number;
+  /** Set for supersessions (settled on detection); null = open contradiction */
+  resolved_at: number | null;
+}
+
+export interface FactExtractionResult {
+  skipped?: string;
+  chunks_processed: number;
+  facts_added: number;
+  /** Extracted facts already stored with the same value */
+  duplicates: number;
+  superseded: number;
+  conflicts: number;
+  duration_ms: number;
+}
+
+type FactRow = Omit<Fact, "source_msg_ids"> & { source_msg_ids: string };
+
+interface PendingChunk {
+  id: number;
+  session_id: string;
+  day: string;
+  text: string;
+  msg_id_start: number | null;
+  msg_id_end: number | null;
+  edited_at: number | null;
+}
+
+/** A fact as the extractor proposed it, cleaned up */
+interface CandidateFact {
+  subject: string;
+  predicate: string;
+  value: string;
+  confidence: number;
+  source_msg_ids: number[];
+  valid_from: string;
+}
+
+function toFact(row: FactRow): Fact {
+  let ids: unknown;
+  try {
+    ids = JSON.parse(row.source_msg_ids);
+  } catch {
+    ids = [];
+  }
+  return { ...row, source_msg_ids: Array.isArray(ids) ? ids.filter((id) => Number.isInteger(id)) : [] };
+}
+
+/** Enabled flag, model and confidence floor the settings resolve to */
+export function resolveFactSettings(settings: FactSettings = {}): { enabled: boolean; model: string; minConfidence: number } {
+  return {
+    enabled: settings.enabled === true,
+    model: settings.model || FACT_EXTRACTOR_MODEL,
+    minConfidence: Math.max(0, Math.min(1, settings.minConfidence ?? DEFAULT_MIN_CONFIDENCE)),
+  };
+}
+
+function getFactSettings(): ReturnType<typeof resolveFactSettings> {
+  let settings: FactSettings | undefined;
+  try {
+    settings = loadConfig().settings?.memory?.facts;
+  } catch {
+    // No config (e.g. a standalone script) — defaults
+  }
+  return resolveFactSettings(settings);
+}
+
+// ── Extraction ─────────────────────────────────────────────
+
+let isExtracting = false;
+
+const PENDING_CHUNKS_SQL = `
+  FROM chunks c
+  LEFT JOIN fact_extractions fe ON fe.chunk_id = c.id
+  WHERE fe.chunk_id IS NULL
+`;
+
+/** Chunks the extractor hasn't been through yet */
+export function countPendingChunks(): number {
+  return getEmbeddingsDB().prepare(`SELECT COUNT(*) ${PENDING_CHUNKS_SQL}`).pluck().get() as number;
+}
+
+/**
+ * Extract facts from up to `limit` chunks that haven't been through the
+ * extractor, oldest first — called after every embedding run. A chunk whose
+ * extraction fails (API error) stays pending for the next run.
+ */
+export async function maybeExtractFacts(opts: { limit?: number } = {}): Promise<FactExtractionResult> {
+  const start = Date.now();
+  const result: FactExtractionResult = {
+    chunks_processed: 0,
+    facts_added: 0,
+    duplicates: 0,
+    superseded: 0,
+    conflicts: 0,
+    duration_ms: 0,
+  };
+  const settings = getFactSettings();
+  if (!settings.enabled) return { ...result, skipped: "disabled", duration_ms: Date.now() - start };
+  if (isExtracting) return { ...result, skipped: "lock_held", duration_ms: Date.now() - start };
+  isExtracting = true;
+
+  try {
+    const db = getEmbeddingsDB();
+    const chunks = db.prepare(`
+      SELECT c.id, c.session_id, c.day, c.text, c.msg_id_start, c.msg_id_end, c.edited_at
+      ${PENDING_CHUNKS_SQL}
+      ORDER BY c.day, c.id
+      LIMIT ?
+    `).all(opts.limit ?? CHUNKS_PER_RUN) as PendingChunk[];
+    if (chunks.length === 0) return { ...result, skipped: "no_pending_chunks", duration_ms: Date.now() - start };
+
+    for (const chunk of chunks) {
+      try {
+        const counts = await extractChunkFacts(db, chunk, settings.model, settings.minConfidence);
+        result.chunks_processed++;
+        result.facts_added += counts.added;
+        result.duplicates += counts.duplicates;
+        result.superseded += counts.superseded;
+        result.conflicts += counts.conflicts;
+      } catch (err) {
+        console.error(`[Facts] ❌ Extraction failed for chunk ${chunk.id} (${chunk.session_id} ${chunk.day}):`, err);
+        // Likely the API — the rest would fail the same way
+        result.skipped = `error: ${err instanceof Error ? err.message : String(err)}`;
+        break;
+      }
+    }
+
+    if (result.facts_added > 0 || result.conflicts > 0) {
+      console.log(`[Facts] ${result.chunks_processed} chunk(s): +${result.facts_added} fact(s), ${result.superseded} superseded, ${result.conflicts} conflict(s)`);
+    }
+    result.duration_ms = Date.now() - start;
+    return result;
+  } finally {
+    isExtracting = false;
+  }
+}
+
+/** The chunk's messages as `#id`-prefixed transcript lines, or [] once they've been pruned from vito.db. */
+function loadSourceMessages(chunk: PendingChunk): RawMessage[] {
+  if (chunk.msg_id_start === null || chunk.msg_id_end === null || !existsSync(VITO_DB_PATH)) return [];
+  const vitoDB = new Database(VITO_DB_PATH, { readonly: true });
+  try {
+    return vitoDB.prepare(`
+      SELECT id, session_id, timestamp, type, content, author
+      FROM messages
+      WHERE session_id = ? AND id BETWEEN ? AND ? AND type IN ('user', 'assistant')
+      ORDER BY timestamp ASC
+    `).all(chunk.session_id, chunk.msg_id_start, chunk.msg_id_end) as RawMessage[];
+  } finally {
+    vitoDB.close();
+  }
+}
+
+/** Most used values of a facts column, so the extractor reuses names ("Mike", "lives_in") */
+function vocabulary(db: ReturnType<typeof Database>, column: "subject" | "predicate"): string[] {
+  return db.prepare(`
+    SELECT ${column} FROM facts GROUP BY ${column} COLLATE NOCASE ORDER BY COUNT(*) DESC LIMIT ?
+  `).pluck().all(VOCABULARY_SIZE) as string[];
+}
+
+/** Pull a JSON value out of a model response; null when there isn't a parseable one */
+function parseJson(content: string, open: "{" | "["): unknown {
+  const match = content.match(open === "{" ? /\{[\s\S]*\}/ : /\[[\s\S]*\]/);
+  try {
+    return match ? JSON.parse(match[0]) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function proposeFacts(
+  db: ReturnType<typeof Database>,
+  chunk: PendingChunk,
+  model: string
+): Promise<CandidateFact[]> {
+  // An edited chunk's text is what the user wants remembered
+  const messages = chunk.edited_at === null ? loadSourceMessages(chunk) : [];
+  const transcript = messages.length > 0
+    ? messages.map((m) => `#${m.id} ${formatMessageLine(m)}`).join("\n")
+    : chunk.text;
+  const knownIds = new Set(messages.map((m) => m.id));
+  const subjects = vocabulary(db, "subject");
+  const predicates = vocabulary(db, "predicate");
+
+  const prompt = `<conversation day="${chunk.day}">
+${transcript}
+</conversation>
+${subjects.length ? `\n<known-subjects>${subjects.join(", ")}</known-subjects>` : ""}${predicates.length ? `\n<known-predicates>${predicates.join(", ")}</known-predicates>\n` : ""}
+Extract durable facts stated in this conversation — about the user, people, pets, places, work, health, preferences, plans and decisions — as subject · predicate · value triples. Skip small talk, things only true for the moment, and anything the assistant merely suggested.
+- subject: who or what it's about. "user" for the person talking to the assistant. Reuse a known subject when it's the same entity
+- predicate: short snake_case relation (lives_in, works_at, birthday, partner, allergic_to, prefers). Reuse a known predicate when one fits
+- value: the fact's value, short and self-contained
+- confidence: 0–1, how clearly the conversation states it
+- source_msg_ids: the #ids of the messages that state it${messages.length ? "" : " ([] — this transcript has no ids)"}
+- valid_from: YYYY-MM-DD if the conversation says when it became true, else omit
+
+Respond with ONLY JSON: {"facts": [{"subject": "...", "predicate": "...", "value": "...", "confidence": 0.9, "source_msg_ids": [1], "valid_from": "YYYY-MM-DD"}]} — {"facts": []} if there are none.`;
+
+  const response = await getClient().chat.completions.create({
+    model: resolveModel(model),
+    max_tokens: 1500,
+    messages: [{ role: "user", content: prompt }],
+  });
+  recordMemoryUsage({ sessionId: chunk.session_id, source: "facts", model, usage: response.usage });
+
+  const parsed = parseJson(response.choices[0].message.content ?? "", "{") as { facts?: unknown } | null;
+  if (!parsed || !Array.isArray(parsed.facts)) {
+    // Not worth retrying forever — the chunk is marked done with no facts
+    console.warn(`[Facts] Chunk ${chunk.id}: extractor returned no usable JSON`);
+    return [];
+  }
+
+  const facts: CandidateFact[] = [];
+  const seen = new Set<string>();
+  for (const raw of parsed.facts as Array<Record<string, unknown>>) {
+    if (typeof raw?.subject !== "string" || typeof raw.predicate !== "string" || typeof raw.value !== "string") continue;
+    const subject = raw.subject.trim().slice(0, 100);
+    const predicate = raw.predicate.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60);
+    const value = raw.value.trim().slice(0, MAX_VALUE_CHARS);
+    if (!subject || !predicate || !value) continue;
+
+    const key = `${subject}\u0000${predicate}\u0000${value}`.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    facts.push({
+      subject,
+      predicate,
+      value,
+      confidence: Math.max(0, Math.min(1, Number(raw.confidence) || 0)),
+      source_msg_ids: Array.isArray(raw.source_msg_ids)
+        ? raw.source_msg_ids.filter((id): id is number => Number.isInteger(id) && knownIds.has(id as number))
+        : [],
+      valid_from: typeof raw.valid_from === "string" && isDay(raw.valid_from) ? raw.valid_from : chunk.day,
+    });
+  }
+  return facts.slice(0, MAX_FACTS_PER_CHUNK);
+}
+
+interface ConflictPair {
+  candidate: number;
+  existing: Fact;
+}
+
+type Verdict = { verdict: FactConflictKind | "compatible"; reason: string };
+
+/** Ask the model how each new fact relates to a current one with the same subject and predicate. */
+async function judgeConflicts(
+  chunk: PendingChunk,
+  candidates: CandidateFact[],
+  pairs: ConflictPair[],
+  model: string
+): Promise<Verdict[]> {
+  const describe = (f: { subject: string; predicate: string; value: string }) => `${f.subject} · ${f.predicate} · ${f.value}`;
+  const listing = pairs
+    .map((p, i) => `<pair id="${i}">
+Existing (since ${p.existing.valid_from ?? "unknown"}): ${describe(p.existing)}
+New (since ${candidates[p.candidate].valid_from}): ${describe(candidates[p.candidate])}
+</pair>`)
+    .join("\n");
+
+  const prompt = `${listing}
+
+Each pair is a stored fact and a newly extracted one with the same subject and predicate but a different value. For each pair decide:
+- "supersedes": the new value replaces the old — it changed over time (moved, new job, changed preference), or the new one corrects it
+- "contradicts": both can't be true, and the new one isn't clearly an update (conflicting reports, a likely mistake)
+- "compatible": both can be true at once (the predicate allows several values)
+
+Respond with ONLY JSON: [{"id": 0, "verdict": "supersedes", "reason": "short reason"}] with one entry per pair.`;
+
+  const response = await getClient().chat.completions.create({
+    model: resolveModel(model),
+    max_tokens: 200 + pairs.length * 60,
+    messages: [{ role: "user", content: prompt }],
+  });
+  recordMemoryUsage({ sessionId: chunk.session_id, source: "facts", model, usage: response.usage });
+
+  const parsed = parseJson(response.choices[0].message.content ?? "", "[");
+  if (!Array.isArray(parsed)) throw new Error("Conflict check returned no verdicts");
+  const verdicts: Verdict[] = pairs.map(() => ({ verdict: "contradicts", reason: "no verdict returned" }));
+  for (const entry of parsed as Array<Record<string, unknown>>) {
+    const i = Number(entry?.id);
+    if (!Number.isInteger(i) || i < 0 || i >= pairs.length) continue;
+    if (entry.verdict === "supersedes" || entry.verdict === "contradicts" || entry.verdict === "compatible") {
+      verdicts[i] = { verdict: entry.verdict, reason: typeof entry.reason === "string" ? entry.reason : "" };
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * Extract, dedupe, check conflicts and store one chunk's facts. Model calls
+ * happen before anything is written, so a failure leaves the chunk pending.
+ */
+async function extractChunkFacts(
+  db: ReturnType<typeof Database>,
+  chunk: PendingChunk,
+  model: string,
+  minConfidence: number
+): Promise<{ added: number; duplicates: number; superseded: number; conflicts: number }> {
+  const counts = { added: 0, duplicates: 0, superseded: 0, conflicts: 0 };
+  const proposed = (await proposeFacts(db, chunk, model)).filter((f) => f.confidence >= minConfidence);
+
+  const findSame = db.prepare(`
+    SELECT id FROM facts
+    WHERE subject = ? COLLATE NOCASE AND predicate = ? COLLATE NOCASE AND value = ? COLLATE NOCASE AND valid_to IS NULL
+  `).pluck();
+  const findRivals = db.prepare(`
+    SELECT * FROM facts
+    WHERE subject = ? COLLATE NOCASE AND predicate = ? COLLATE NOCASE AND value != ? COLLATE NOCASE AND valid_to IS NULL
+  `);
+
+  const fresh: CandidateFact[] = [];
+  const duplicateOf = new Map<CandidateFact, number>();
+  for (const fact of proposed) {
+    const same = findSame.get(fact.subject, fact.predicate, fact.value) as number | undefined;
+    if (same !== undefined) duplicateOf.set(fact, same);
+    else fresh.push(fact);
+  }
+
+  const pairs: ConflictPair[] = fresh.flatMap((fact, candidate) =>
+    (findRivals.all(fact.subject, fact.predicate, fact.value) as FactRow[]).map((row) => ({ candidate, existing: toFact(row) }))
+  );
+  const verdicts = pairs.length > 0 ? await judgeConflicts(chunk, fresh, pairs, model) : [];
+
+  const insertFact = db.prepare(`
+    INSERT INTO facts (subject, predicate, value, session_id, chunk_id, source_msg_ids, confidence, valid_from)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertConflict = db.prepare(`
+    INSERT INTO fact_conflicts (fact_id, conflicting_fact_id, kind, reason, resolved_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const closeFact = db.prepare("UPDATE facts SET valid_to = ?, superseded_by = ? WHERE id = ? AND valid_to IS NULL");
+
+  db.transaction(() => {
+    for (const [fact, id] of duplicateOf) {
+      // Seen again: keep the higher confidence
+      db.prepare("UPDATE facts SET confidence = MAX(confidence, ?) WHERE id = ?").run(fact.confidence, id);
+      counts.duplicates++;
+    }
+
+    const ids = fresh.map((fact) => {
+      counts.added++;
+      return Number(insertFact.run(
+        fact.subject,
+        fact.predicate,
+        fact.value,
+        chunk.session_id,
+        chunk.id,
+        JSON.stringify(fact.source_msg_ids),
+        fact.confidence,
+        fact.valid_from
+      ).lastInsertRowid);
+    });
+
+    pairs.forEach((pair, i) => {
+      const { verdict, reason } = verdicts[i];
+      if (verdict === "compatible") return;
+      const newId = ids[pair.candidate];
+      const newFrom = fresh[pair.candidate].valid_from;
+
+      if (verdict === "supersedes") {
+        // Re-extracting an older chunk can turn up the earlier value —
+        // whichever holds from later is the current one
+        const newerIsCandidate = !pair.existing.valid_from || newFrom >= pair.existing.valid_from;
+        if (newerIsCandidate) {
+          closeFact.run(newFrom, newId, pair.existing.id);
+          insertConflict.run(newId, pair.existing.id, "supersedes", reason, Math.floor(Date.now() / 1000));
+        } else {
+          closeFact.run(pair.existing.valid_from, pair.existing.id, newId);
+          insertConflict.run(pair.existing.id, newId, "supersedes", reason, Math.floor(Date.now() / 1000));
+        }
+        counts.superseded++;
+      } else {
+        insertConflict.run(newId, pair.existing.id, "contradicts", reason, null);
+        counts.conflicts++;
+        console.log(`[Facts] ⚠️ Conflict: "${pair.existing.subject} ${pair.existing.predicate}" is "${pair.existing.value}" (fact ${pair.existing.id}) or "${fresh[pair.candidate].value}" (fact ${newId}) — ${reason}`);
+      }
+    });
+
+    db.prepare("INSERT OR REPLACE INTO fact_extractions (chunk_id, fact_count) VALUES (?, ?)").run(chunk.id, counts.added);
+  })();
+
+  return counts;
+}
+
+/**
+ * Drop the facts extracted from a chunk (it was deleted, or edited and
+ * should be read again): facts they superseded become current again and
+ * their conflicts go. An edited chunk is picked up by the next run and
+ * read from its edited text.
+ */
+export function forgetChunkFacts(chunkId: number): number {
+  const db = getEmbeddingsDB();
+  return db.transaction(() => {
+    const ids = db.prepare("SELECT id FROM facts WHERE chunk_id = ?").pluck().all(chunkId) as number[];
+    const idList = JSON.stringify(ids);
+    db.prepare(`
+      UPDATE facts SET valid_to = NULL, superseded_by = NULL
+      WHERE superseded_by IN (SELECT value FROM json_each(?))
+    `).run(idList);
+    db.prepare(`
+      DELETE FROM fact_conflicts
+      WHERE fact_id IN (SELECT value FROM json_each(?)) OR conflicting_fact_id IN (SELECT value FROM json_each(?))
+    `).run(idList, idList);
+    db.prepare("DELETE FROM facts WHERE chunk_id = ?").run(chunkId);
+    db.prepare("DELETE FROM fact_extractions WHERE chunk_id = ?").run(chunkId);
+    return ids.length;
+  })();
+}
+
+/** Contradictions the extractor couldn't settle, newest first, with both facts. */
+export function listOpenConflicts(limit = 50): Array<FactConflict & { fact: Fact; conflicting: Fact }> {
+  const db = getEmbeddingsDB();
+  const conflicts = db.prepare(`
+    SELECT * FROM fact_conflicts WHERE kind = 'contradicts' AND resolved_at IS NULL ORDER BY detected_at DESC, id DESC LIMIT ?
+  `).all(limit) as FactConflict[];
+  const getFact = db.prepare("SELECT * FROM facts WHERE id = ?");
+  return conflicts.map((c) => ({
+    ...c,
+    fact: toFact(getFact.get(c.fact_id) as FactRow),
+    conflicting: toFact(getFact.get(c.conflicting_fact_id) as FactRow),
+  }));
+}
+
+/** Fact counts for the CLI */
+export function getFactStats(): { current: number; superseded: number; openConflicts: number; pendingChunks: number } {
+  const db = getEmbeddingsDB();
+  const row = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM facts WHERE valid_to IS NULL) AS current,
+      (SELECT COUNT(*) FROM facts WHERE valid_to IS NOT NULL) AS superseded,
+      (SELECT COUNT(*) FROM fact_conflicts WHERE kind = 'contradicts' AND resolved_at IS NULL) AS openConflicts
+  `).get() as { current: number; superseded: number; openConflicts: number };
+  return { ...row, pendingChunks: countPendingChunks() };
+}
+
+// ── Search ─────────────────────────────────────────────────
+
+export interface FactSearchResult extends Fact {
+  /** BM25 relevance, higher is better */
+  score: number;
+  /** Open contradictions with other facts */
+  conflicts: Array<{ fact_id: number; value: string; valid_from: string | null; reason: string | null }>;
+}
+
+export interface FactSearchOptions {
+  limit?: number;
+  /** Only facts about this subject (case-insensitive) */
+  subject?: string;
+  /** Include facts that were superseded or stopped being true */
+  includeHistory?: boolean;
+}
+
+let readDB: ReturnType<typeof Database> | null = null;
+
+/**
+ * Facts matching the query's words (stemmed — "live" finds lives_in) in
+ * subject, predicate or value, best first. Read-only, so the skill can run
+ * beside the server; empty until embeddings.db has the facts tables.
+ */
+export function searchFacts(query: string, options: FactSearchOptions = {}): FactSearchResult[] {
+  const { limit = 10, subject, includeHistory = false } = options;
+  if (!existsSync(EMBEDDINGS_DB_PATH)) return [];
+  readDB ??= new Database(EMBEDDINGS_DB_PATH, { readonly: true });
+
+  const terms = query
+    .replace(/[^\w\s'-]/g, " ")
+    .split(/[\s_]+/)
+    .map((t) => t.replace(/'s$/i, ""))
+    .filter((t) => t.length > 1 && !SEARCH_STOPWORDS.has(t.toLowerCase()));
+  if (terms.length === 0 && !subject) return [];
+
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+  if (terms.length > 0) {
+    where.push("facts_fts MATCH ?");
+    params.push(terms.map((t) => `"${t.replace(/"/g, "")}"`).join(" OR "));
+  }
+  if (subject) {
+    where.push("f.subject = ? COLLATE NOCASE");
+    params.push(subject);
+  }
+  if (!includeHistory) where.push("f.valid_to IS NULL");
+
+  let rows: Array<FactRow & { score: number }>;
+  try {
+    rows = readDB.prepare(`
+      SELECT f.*, ${terms.length > 0 ? "-bm25(facts_fts, 3.0, 2.0, 1.0)" : "f.confidence"} AS score
+      FROM facts f
+      ${terms.length > 0 ? "JOIN facts_fts ON facts_fts.rowid = f.id" : ""}
+      WHERE ${where.join(" AND ")}
+      ORDER BY score DESC, f.confidence DESC
+      LIMIT ?
+    `).all(...params, limit) as Array<FactRow & { score: number }>;
+  } catch {
+    // No facts tables yet, or FTS5 choked on the query
+    return [];
+  }
+
+  const conflictsFor = readDB.prepare(`
+    SELECT c.reason, o.id AS fact_id, o.value, o.valid_from
+    FROM fact_conflicts c
+    JOIN facts o ON o.id = CASE WHEN c.fact_id = ? THEN c.conflicting_fact_id ELSE c.fact_id END
+    WHERE (c.fact_id = ? OR c.conflicting_fact_id = ?) AND c.kind = 'contradicts' AND c.resolved_at IS NULL
+  `);
+  return rows.map((row) => ({
+    ...toFact(row),
+    score: row.score,
+    conflicts: conflictsFor.all(row.id, row.id, row.id) as FactSearchResult["conflicts"],
+  }));
+}
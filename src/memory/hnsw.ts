@@ -0,0 +1,423 @@
+/**
+ * HNSW — hierarchical navigable small world graph for approximate
+ * nearest-neighbour search (Malkov & Yashunin, 2016) over cosine similarity.
+ *
+ * Plain TypeScript, no native module: vectors are normalized on insert so
+ * similarity is a dot product. Removing a vector leaves a tombstone that
+ * still routes searches but is never returned — ann.ts rebuilds the graph
+ * when too many pile up. toBuffer()/fromBuffer() persist the whole index.
+ */
+
+export interface HnswOptions {
+  /** Links per node on upper layers (layer 0 gets twice this). Default 16 */
+  M?: number;
+  /** Candidate list size while inserting — higher builds slower, recalls better. Default 64 */
+  efConstruction?: number;
+  /** Seed for level assignment, for reproducible builds (benchmarks) */
+  seed?: number;
+}
+
+export interface HnswHit {
+  id: number;
+  /** Cosine similarity */
+  score: number;
+}
+
+interface Candidate {
+  node: number;
+  dist: number;
+}
+
+const FORMAT_VERSION = 1;
+
+export class HnswIndex {
+  readonly dims: number;
+  private readonly M: number;
+  private readonly maxM0: number;
+  private readonly efConstruction: number;
+  private readonly levelMult: number;
+  private readonly random: () => number;
+
+  /** Node i's normalized vector is at [i * dims, (i + 1) * dims) */
+  private vectors: Float32Array;
+  private ids: number[] = [];
+  private levels: number[] = [];
+  /** links[node][level] = neighbour nodes */
+  private links: number[][][] = [];
+  private deleted: boolean[] = [];
+  private byId = new Map<number, number>();
+  private entry = -1;
+  private maxLevel = -1;
+  private visitMarks = new Uint32Array(0);
+  private visitGeneration = 0;
+
+  constructor(dims: number, opts: HnswOptions = {}) {
+    this.dims = dims;
+    this.M = opts.M ?? 16;
+    this.maxM0 = this.M * 2;
+    this.efConstruction = opts.efConstruction ?? 64;
+    this.levelMult = 1 / Math.log(this.M);
+    this.random = opts.seed !== undefined ? mulberry32(opts.seed) : Math.random;
+    this.vectors = new Float32Array(dims * 64);
+  }
+
+  /** Live (searchable) vectors */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /** Removed vectors still in the graph */
+  get tombstones(): number {
+    return this.ids.length - this.byId.size;
+  }
+
+  has(id: number): boolean {
+    return this.byId.has(id);
+  }
+
+  liveIds(): number[] {
+    return [...this.byId.keys()];
+  }
+
+  /** Add a vector, replacing any previous one for `id`. */
+  add(id: number, vector: Float32Array): void {
+    if (vector.length !== this.dims) {
+      throw new Error(`Vector has ${vector.length} dimensions, index has ${this.dims}`);
+    }
+    this.remove(id);
+
+    const node = this.ids.length;
+    this.ensureCapacity(node + 1);
+    const q = this.vectors.subarray(node * this.dims, (node + 1) * this.dims);
+    q.set(vector);
+    normalize(q);
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMult);
+    this.ids.push(id);
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.deleted.push(false);
+    this.byId.set(id, node);
+
+    if (this.entry === -1) {
+      this.entry = node;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entryPoints = [this.greedyDescend(q, this.entry, this.maxLevel, level)];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(q, entryPoints, this.efConstruction, l);
+      const maxLinks = l === 0 ? this.maxM0 : this.M;
+      const neighbours = this.selectNeighbours(found, this.M);
+      this.links[node][l] = neighbours;
+      for (const n of neighbours) {
+        const nLinks = this.links[n][l];
+        nLinks.push(node);
+        if (nLinks.length > maxLinks) {
+          // Drop the furthest link. Re-running the spread heuristic here is
+          // O(links²) distance computations per neighbour and dominated build time.
+          let furthest = 0;
+          let furthestDist = -Infinity;
+          for (let i = 0; i < nLinks.length; i++) {
+            const d = this.nodeDistance(n, nLinks[i]);
+            if (d > furthestDist) {
+              furthest = i;
+              furthestDist = d;
+            }
+          }
+          nLinks.splice(furthest, 1);
+        }
+      }
+      entryPoints = found.map((c) => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entry = node;
+      this.maxLevel = level;
+    }
+  }
+
+  /** Stop returning `id`; its node stays in the graph as a tombstone. */
+  remove(id: number): boolean {
+    const node = this.byId.get(id);
+    if (node === undefined) return false;
+    this.deleted[node] = true;
+    this.byId.delete(id);
+    return true;
+  }
+
+  /** The k most similar live vectors, best first. `ef` trades speed for recall (default max(64, k)). */
+  search(vector: Float32Array, k: number, ef = Math.max(64, k)): HnswHit[] {
+    if (this.byId.size === 0 || k <= 0) return [];
+    const q = Float32Array.from(vector);
+    normalize(q);
+    const entry = this.greedyDescend(q, this.entry, this.maxLevel, 0);
+    // Tombstones take up candidate slots, so widen the search by their share
+    const width = Math.ceil(Math.max(ef, k) * (this.ids.length / this.byId.size));
+    return this.searchLayer(q, [entry], width, 0)
+      .filter((c) => !this.deleted[c.node])
+      .slice(0, k)
+      .map((c) => ({ id: this.ids[c.node], score: 1 - c.dist }));
+  }
+
+  toBuffer(): Buffer {
+    const graph: number[] = [];
+    for (let node = 0; node < this.ids.length; node++) {
+      graph.push(this.ids[node], this.levels[node], this.deleted[node] ? 1 : 0);
+      for (const layer of this.links[node]) graph.push(layer.length, ...layer);
+    }
+    const header = Buffer.from(
+      JSON.stringify({
+        version: FORMAT_VERSION,
+        dims: this.dims,
+        M: this.M,
+        efConstruction: this.efConstruction,
+        count: this.ids.length,
+        entry: this.entry,
+        maxLevel: this.maxLevel,
+      })
+    );
+    const headerSize = Math.ceil(header.length / 4) * 4;
+    const out = Buffer.alloc(8 + headerSize + graph.length * 4 + this.ids.length * this.dims * 4);
+    out.writeUInt32LE(header.length, 0);
+    header.copy(out, 4);
+    out.writeUInt32LE(graph.length, 4 + headerSize);
+    let offset = 8 + headerSize;
+    for (const value of graph) {
+      out.writeInt32LE(value, offset);
+      offset += 4;
+    }
+    const vectors = this.vectors.subarray(0, this.ids.length * this.dims);
+    Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength).copy(out, offset);
+    return out;
+  }
+
+  static fromBuffer(buf: Buffer): HnswIndex {
+    const headerLength = buf.readUInt32LE(0);
+    const header = JSON.parse(buf.subarray(4, 4 + headerLength).toString("utf-8"));
+    if (header.version !== FORMAT_VERSION) throw new Error(`Unsupported HNSW index version ${header.version}`);
+    const headerSize = Math.ceil(headerLength / 4) * 4;
+
+    const index = new HnswIndex(header.dims, { M: header.M, efConstruction: header.efConstruction });
+    const graphLength = buf.readUInt32LE(4 + headerSize);
+    let offset = 8 + headerSize;
+    const next = () => {
+      const value = buf.readInt32LE(offset);
+      offset += 4;
+      return value;
+    };
+    const graphEnd = offset + graphLength * 4;
+    for (let node = 0; node < header.count; node++) {
+      const id = next();
+      const level = next();
+      const deleted = next() === 1;
+      const layers: number[][] = [];
+      for (let l = 0; l <= level; l++) {
+        const count = next();
+        const layer: number[] = [];
+        for (let i = 0; i < count; i++) layer.push(next());
+        layers.push(layer);
+      }
+      index.ids.push(id);
+      index.levels.push(level);
+      index.links.push(layers);
+      index.deleted.push(deleted);
+      if (!deleted) index.byId.set(id, node);
+    }
+    if (offset !== graphEnd) throw new Error("Corrupt HNSW index (graph length mismatch)");
+
+    const vectorBytes = header.count * header.dims * 4;
+    index.vectors = new Float32Array(vectorBytes / 4);
+    new Uint8Array(index.vectors.buffer).set(buf.subarray(offset, offset + vectorBytes));
+    index.entry = header.entry;
+    index.maxLevel = header.maxLevel;
+    return index;
+  }
+
+  // ── Graph search ──
+
+  /** Walk down from `fromLevel` to just above `toLevel`, always moving to the closest neighbour. */
+  private greedyDescend(q: Float32Array, start: number, fromLevel: number, toLevel: number): number {
+    let current = start;
+    let currentDist = this.distance(q, current);
+    for (let l = fromLevel; l > toLevel; l--) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (const n of this.links[current][l] ?? []) {
+          const d = this.distance(q, n);
+          if (d < currentDist) {
+            current = n;
+            currentDist = d;
+            improved = true;
+          }
+        }
+      }
+    }
+    return current;
+  }
+
+  /** Best-first search of one layer; returns up to `ef` nodes, closest first. */
+  private searchLayer(q: Float32Array, entryPoints: number[], ef: number, level: number): Candidate[] {
+    const generation = this.nextVisitGeneration();
+    const candidates = new Heap((a, b) => a.dist < b.dist); // closest on top
+    const results = new Heap((a, b) => a.dist > b.dist); // furthest on top
+
+    for (const node of entryPoints) {
+      if (this.visitMarks[node] === generation) continue;
+      this.visitMarks[node] = generation;
+      const c = { node, dist: this.distance(q, node) };
+      candidates.push(c);
+      results.push(c);
+    }
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.dist > results.peek()!.dist) break;
+      for (const n of this.links[closest.node][level] ?? []) {
+        if (this.visitMarks[n] === generation) continue;
+        this.visitMarks[n] = generation;
+        const dist = this.distance(q, n);
+        if (results.size < ef || dist < results.peek()!.dist) {
+          const c = { node: n, dist };
+          candidates.push(c);
+          results.push(c);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+    return results.drain().reverse();
+  }
+
+  /**
+   * Keep candidates (closest first) that are closer to the base than to any
+   * already kept one, so links spread in different directions; top up with
+   * the rest if that leaves fewer than m.
+   */
+  private selectNeighbours(candidates: Candidate[], m: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const c of candidates) {
+      if (selected.length >= m) break;
+      if (selected.every((s) => this.nodeDistance(c.node, s.node) > c.dist)) selected.push(c);
+      else skipped.push(c);
+    }
+    for (const c of skipped) {
+      if (selected.length >= m) break;
+      selected.push(c);
+    }
+    return selected.map((c) => c.node);
+  }
+
+  private distance(q: Float32Array, node: number): number {
+    const v = this.vectors;
+    const dims = this.dims;
+    let dot = 0;
+    for (let i = 0, j = node * dims; i < dims; i++, j++) dot += q[i] * v[j];
+    return 1 - dot;
+  }
+
+  private nodeDistance(a: number, b: number): number {
+    const v = this.vectors;
+    const dims = this.dims;
+    let dot = 0;
+    for (let i = a * dims, j = b * dims, end = i + dims; i < end; i++, j++) dot += v[i] * v[j];
+    return 1 - dot;
+  }
+
+  private ensureCapacity(nodes: number): void {
+    if (this.vectors.length < nodes * this.dims) {
+      const grown = new Float32Array(Math.max(nodes, (this.vectors.length / this.dims) * 2) * this.dims);
+      grown.set(this.vectors);
+      this.vectors = grown;
+    }
+  }
+
+  private nextVisitGeneration(): number {
+    if (this.visitMarks.length < this.ids.length) {
+      this.visitMarks = new Uint32Array(Math.max(this.ids.length, this.visitMarks.length * 2, 64));
+      this.visitGeneration = 0;
+    }
+    if (this.visitGeneration === 0xffffffff) {
+      this.visitMarks.fill(0);
+      this.visitGeneration = 0;
+    }
+    return ++this.visitGeneration;
+  }
+}
+
+/** Binary heap; `above(a, b)` = a belongs nearer the top than b. */
+class Heap {
+  private items: Candidate[] = [];
+
+  constructor(private readonly above: (a: Candidate, b: Candidate) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.above(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.above(items[left], items[best])) best = left;
+        if (right < items.length && this.above(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  /** Empty the heap, top first. */
+  drain(): Candidate[] {
+    const out: Candidate[] = [];
+    while (this.items.length > 0) out.push(this.pop()!);
+    return out;
+  }
+}
+
+function normalize(v: Float32Array): void {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return;
+  for (let i = 0; i < v.length; i++) v[i] /= norm;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
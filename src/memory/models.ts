@@ -1,2 +1,10 @@
 /** Shared model identifiers for the memory/embeddings pipeline */
 export const EMBEDDING_MODEL = "openai/text-embedding-3-small";
+/** Default for the local (transformers.js) embedding provider */
+export const LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+/** Default chat model for the "llm" memory search reranker */
+export const RERANK_LLM_MODEL = "openai/gpt-5.4-nano";
+/** Default cross-encoder for the "local" memory search reranker */
+export const LOCAL_RERANK_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+/** Default chat model for structured fact extraction and conflict checks */
+export const FACT_EXTRACTOR_MODEL = "openai/gpt-5.4-nano";
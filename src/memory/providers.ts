@@ -0,0 +1,159 @@
+/**
+ * EMBEDDING PROVIDERS
+ *
+ * Where vectors come from, chosen by settings.memory.embedding in
+ * vito.config.json (global settings only):
+ *
+ *   openai       api.openai.com, OPENAI_API_KEY
+ *   openrouter   openrouter.ai, OPENROUTER_API_KEY
+ *   local        a transformers.js ONNX model on CPU — no API key, no
+ *                network once the model is cached in data/models/
+ *
+ * With no setting, it's OpenRouter if that key exists, else OpenAI, with
+ * text-embedding-3-small — what Vito always used.
+ *
+ * Every vector in embeddings.db records the `model` that produced it;
+ * search only compares vectors from the active model.
+ */
+
+import OpenAI from "openai";
+import { resolve } from "path";
+import { loadConfig } from "../config.js";
+import { readSecrets } from "../secrets.js";
+import type { EmbeddingProviderId, EmbeddingSettings } from "../types.js";
+import { EMBEDDING_MODEL, LOCAL_EMBEDDING_MODEL } from "./models.js";
+
+export const MODELS_DIR = resolve(process.cwd(), "data", "models");
+/** Optional dependency, loaded only when the local provider is used */
+const TRANSFORMERS_PACKAGE = "@huggingface/transformers";
+
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId;
+  /** Recorded with each vector — the same model from another provider is the same vector space */
+  readonly model: string;
+  /** One vector per text, in order */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private readonly client: OpenAI;
+
+  constructor(
+    readonly id: "openai" | "openrouter",
+    readonly model: string,
+    apiKey: string
+  ) {
+    this.client = new OpenAI({
+      apiKey,
+      ...(id === "openrouter" ? { baseURL: "https://openrouter.ai/api/v1" } : {}),
+    });
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      // Native OpenAI wants "text-embedding-3-small", OpenRouter "openai/text-embedding-3-small"
+      model: this.id === "openai" ? this.model.replace(/^openai\//, "") : this.model,
+      input: texts,
+    });
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((d) => new Float32Array(d.embedding));
+  }
+}
+
+/** The slice of transformers.js' feature-extraction pipeline we call */
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean }
+) => Promise<{ data: Float32Array; dims: number[] }>;
+
+/**
+ * transformers.js, with models cached in data/models/. Shared with the local
+ * reranker (rerank.ts); `feature` names what needs it in the install hint.
+ */
+export async function loadTransformers(feature: string): Promise<any> {
+  let transformers: any;
+  try {
+    transformers = await import(TRANSFORMERS_PACKAGE);
+  } catch {
+    throw new Error(`The ${feature} needs ${TRANSFORMERS_PACKAGE} — run: npm install ${TRANSFORMERS_PACKAGE}`);
+  }
+  transformers.env.cacheDir = MODELS_DIR;
+  return transformers;
+}
+
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = "local";
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(readonly model: string) {}
+
+  private load(): Promise<FeatureExtractor> {
+    this.extractor ??= (async () => {
+      const transformers = await loadTransformers("local embedding provider");
+      console.log(`[Embeddings] Loading local model ${this.model} (first use downloads it to ${MODELS_DIR})`);
+      return (await transformers.pipeline("feature-extraction", this.model, { device: "cpu" })) as FeatureExtractor;
+    })();
+    // A failed load (missing package, bad model id) is retried next time
+    this.extractor.catch(() => {
+      this.extractor = null;
+    });
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    const extract = await this.load();
+    const output = await extract(texts, { pooling: "mean", normalize: true });
+    const dims = output.dims[output.dims.length - 1];
+    return texts.map((_, i) => output.data.slice(i * dims, (i + 1) * dims));
+  }
+}
+
+/** Provider id and model the settings resolve to (API keys decide the default provider) */
+export function resolveEmbeddingSettings(settings: EmbeddingSettings = {}): { provider: EmbeddingProviderId; model: string } {
+  const provider = settings.provider ?? (readSecrets().OPENROUTER_API_KEY ? "openrouter" : "openai");
+  const model = settings.model || (provider === "local" ? LOCAL_EMBEDDING_MODEL : EMBEDDING_MODEL);
+  return { provider, model };
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * The configured provider. Config is re-read on each call so a settings
+ * change applies without a restart; instances (and a loaded local model)
+ * are reused while it stays the same.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  let settings: EmbeddingSettings | undefined;
+  try {
+    settings = loadConfig().settings?.memory?.embedding;
+  } catch {
+    // No config (e.g. a standalone script) — defaults
+  }
+  const { provider, model } = resolveEmbeddingSettings(settings);
+  const key = `${provider}:${model}`;
+  let instance = providers.get(key);
+  if (!instance) {
+    instance = createProvider(provider, model);
+    providers.set(key, instance);
+  }
+  return instance;
+}
+
+function createProvider(provider: EmbeddingProviderId, model: string): EmbeddingProvider {
+  switch (provider) {
+    case "local":
+      return new LocalEmbeddingProvider(model);
+    case "openai":
+    case "openrouter": {
+      const keyName = provider === "openrouter" ? "OPENROUTER_API_KEY" : "OPENAI_API_KEY";
+      const apiKey = readSecrets()[keyName];
+      if (!apiKey) throw new Error(`Embedding provider "${provider}" needs ${keyName} in user/secrets.json`);
+      return new OpenAIEmbeddingProvider(provider, model, apiKey);
+    }
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * QUERY REWRITING — contextualize and expand memory search queries
+ *
+ * "what did she say about it?" finds nothing on its own. Before searching,
+ * a small chat model (settings.memory.queryContextualizerModel, off when
+ * unset) reads the query together with the last few turns of the session
+ * it was asked from, and returns:
+ *
+ *   - a standalone query — pronouns and vague references resolved
+ *   - up to MAX_SUB_QUERIES sub-queries for other facets and phrasings
+ *
+ * searchMemory() runs all of them and fuses the results with RRF.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { loadConfig } from "../config.js";
+import { getClient, recordMemoryUsage, resolveModel } from "./client.js";
+import { formatMessageLine, type RawMessage } from "./embeddings.js";
+
+// ── Config ─────────────────────────────────────────────────
+
+const ROOT = resolve(process.cwd());
+const VITO_DB_PATH = join(ROOT, "user", "vito.db");
+const RECENT_TURNS = 8;                        // Session turns shown to the rewriter
+const TURN_MAX_CHARS = 600;                    // Per turn — enough to resolve references
+export const MAX_SUB_QUERIES = 3;
+
+export interface RewrittenQuery {
+  /** The query made standalone (the original if nothing needed resolving) */
+  query: string;
+  subQueries: string[];
+}
+
+/** Model id for query rewriting, or null when it's off. Global settings only. */
+export function getQueryContextualizerModel(): string | null {
+  try {
+    return loadConfig().settings?.memory?.queryContextualizerModel?.name || null;
+  } catch {
+    return null;
+  }
+}
+
+/** The last few user/assistant turns of a session, oldest first, as transcript lines. */
+export function getRecentTurns(sessionId: string, limit = RECENT_TURNS): string[] {
+  if (!existsSync(VITO_DB_PATH)) return [];
+  const db = new Database(VITO_DB_PATH, { readonly: true });
+  try {
+    const rows = db.prepare(`
+      SELECT id, session_id, timestamp, type, content, author
+      FROM messages
+      WHERE session_id = ? AND type IN ('user', 'assistant') AND archived = 0
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(sessionId, limit) as RawMessage[];
+    return rows.reverse().map((msg) => {
+      const line = formatMessageLine(msg);
+      return line.length > TURN_MAX_CHARS ? `${line.slice(0, TURN_MAX_CHARS)}…` : line;
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Resolve `query` against the recent turns and expand it into sub-queries.
+ * The call is recorded in the usage ledger under `sessionId`.
+ */
+export async function rewriteQuery(
+  query: string,
+  recentTurns: string[],
+  model: string,
+  sessionId?: string
+): Promise<RewrittenQuery> {
+  const history = recentTurns.length > 0
+    ? `<recent-conversation>\n${recentTurns.join("\n")}\n</recent-conversation>\n\n`
+    : "";
+
+  const prompt = `${history}<search-query>${query}</search-query>
+
+This query will search an archive of past conversations (semantic + keyword search). Rewrite it for that search:
+1. "query": the query made standalone — replace pronouns and vague references ("it", "she", "that idea") with what they refer to in the recent conversation, keeping the meaning. If nothing needs resolving, repeat the query unchanged.
+2. "sub_queries": up to ${MAX_SUB_QUERIES} short alternative queries for other facets, names or phrasings likely to appear in the conversations being looked for. Use [] if the query is already narrow.
+
+Respond with ONLY JSON: {"query": "...", "sub_queries": ["..."]}`;
+
+  const response = await getClient().chat.completions.create({
+    model: resolveModel(model),
+    max_tokens: 300,
+    messages: [{ role: "user", content: prompt }],
+  });
+  recordMemoryUsage({ sessionId, source: "query-rewrite", model, usage: response.usage });
+
+  const content = response.choices[0].message.content ?? "";
+  const match = content.match(/\{[\s\S]*\}/);
+  let parsed: { query?: unknown; sub_queries?: unknown } | null;
+  try {
+    parsed = match ? JSON.parse(match[0]) : null;
+  } catch {
+    parsed = null;
+  }
+  if (typeof parsed?.query !== "string" || !parsed.query.trim()) {
+    throw new Error("Query rewriter returned no query");
+  }
+
+  const standalone = parsed.query.trim();
+  const seen = new Set([standalone.toLowerCase()]);
+  const subQueries: string[] = [];
+  for (const sub of Array.isArray(parsed.sub_queries) ? parsed.sub_queries : []) {
+    if (typeof sub !== "string" || !sub.trim() || seen.has(sub.trim().toLowerCase())) continue;
+    seen.add(sub.trim().toLowerCase());
+    subQueries.push(sub.trim());
+  }
+  return { query: standalone, subQueries: subQueries.slice(0, MAX_SUB_QUERIES) };
+}
@@ -0,0 +1,157 @@
+/**
+ * RERANKING — second-stage scoring for memory search
+ *
+ * RRF only knows where a chunk ranked in each list, not whether it answers
+ * the query. With settings.memory.rerank set (global settings only),
+ * searchMemory() hands its top fused candidates to a reranker that reads
+ * the query and each chunk together:
+ *
+ *   llm     a chat model (client.ts) rates every candidate 0–10 in one call
+ *   local   a cross-encoder (ms-marco MiniLM) on CPU via transformers.js
+ *
+ * Scores are normalized to 0–1. Search keeps the RRF order if reranking
+ * fails.
+ */
+
+import { loadConfig } from "../config.js";
+import type { RerankProviderId, RerankSettings } from "../types.js";
+import { getClient, recordMemoryUsage, resolveModel } from "./client.js";
+import { LOCAL_RERANK_MODEL, RERANK_LLM_MODEL } from "./models.js";
+import { loadTransformers, MODELS_DIR } from "./providers.js";
+
+export const DEFAULT_RERANK_CANDIDATES = 20;
+
+export interface Reranker {
+  readonly id: RerankProviderId;
+  readonly model: string;
+  /**
+   * Relevance of each document to the query, 0–1, in order. `sessionId`
+   * is who the search runs for, for the usage ledger.
+   */
+  score(query: string, documents: string[], sessionId?: string): Promise<number[]>;
+}
+
+class LlmReranker implements Reranker {
+  readonly id = "llm";
+
+  constructor(readonly model: string) {}
+
+  async score(query: string, documents: string[], sessionId?: string): Promise<number[]> {
+    if (documents.length === 0) return [];
+    const passages = documents
+      .map((doc, i) => `<passage id="${i}">\n${doc}\n</passage>`)
+      .join("\n\n");
+
+    const prompt = `<query>${query}</query>
+
+${passages}
+
+Rate how relevant each passage is to the query, from 0 (unrelated) to 10 (directly answers it). Judge what the passage is about, not shared words. Respond with ONLY a JSON array of ${documents.length} numbers, one per passage in order.`;
+
+    const response = await getClient().chat.completions.create({
+      model: resolveModel(this.model),
+      max_tokens: 200 + documents.length * 8,
+      messages: [{ role: "user", content: prompt }],
+    });
+    recordMemoryUsage({ sessionId, source: "rerank", model: this.model, usage: response.usage });
+
+    const content = response.choices[0].message.content ?? "";
+    const match = content.match(/\[[\s\S]*\]/);
+    let ratings: unknown;
+    try {
+      ratings = match ? JSON.parse(match[0]) : null;
+    } catch {
+      ratings = null;
+    }
+    if (!Array.isArray(ratings) || ratings.length !== documents.length) {
+      throw new Error(`Reranker returned ${Array.isArray(ratings) ? `${ratings.length} ratings for ${documents.length} passages` : "no ratings"}`);
+    }
+    return ratings.map((r) => Math.max(0, Math.min(10, Number(r) || 0)) / 10);
+  }
+}
+
+/** The slice of transformers.js' tokenizer + sequence-classification model we call */
+interface CrossEncoder {
+  tokenizer: (texts: string[], options: { text_pair: string[]; padding: boolean; truncation: boolean }) => unknown;
+  model: (inputs: unknown) => Promise<{ logits: { data: Float32Array } }>;
+}
+
+class LocalReranker implements Reranker {
+  readonly id = "local";
+  private encoder: Promise<CrossEncoder> | null = null;
+
+  constructor(readonly model: string) {}
+
+  private load(): Promise<CrossEncoder> {
+    this.encoder ??= (async () => {
+      const transformers = await loadTransformers("local reranker");
+      console.log(`[Rerank] Loading cross-encoder ${this.model} (first use downloads it to ${MODELS_DIR})`);
+      const [tokenizer, model] = await Promise.all([
+        transformers.AutoTokenizer.from_pretrained(this.model),
+        transformers.AutoModelForSequenceClassification.from_pretrained(this.model, { device: "cpu" }),
+      ]);
+      return { tokenizer, model } as CrossEncoder;
+    })();
+    // A failed load (missing package, bad model id) is retried next time
+    this.encoder.catch(() => {
+      this.encoder = null;
+    });
+    return this.encoder;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) return [];
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(documents.map(() => query), { text_pair: documents, padding: true, truncation: true });
+    const { logits } = await model(inputs);
+    // One relevance logit per (query, document) pair
+    return Array.from(logits.data, (x) => 1 / (1 + Math.exp(-x)));
+  }
+}
+
+/** Provider, model and candidate count the settings resolve to, or null when reranking is off */
+export function resolveRerankSettings(
+  settings: RerankSettings = {}
+): { provider: RerankProviderId; model: string; candidates: number } | null {
+  if (!settings.provider) return null;
+  return {
+    provider: settings.provider,
+    model: settings.model || (settings.provider === "local" ? LOCAL_RERANK_MODEL : RERANK_LLM_MODEL),
+    candidates: Math.max(1, settings.candidates ?? DEFAULT_RERANK_CANDIDATES),
+  };
+}
+
+const rerankers = new Map<string, Reranker>();
+
+/**
+ * The configured reranker and how many candidates to give it, or null when
+ * reranking is off. Config is re-read on each call, like the embedding
+ * provider; a loaded cross-encoder is reused while the setting stays.
+ */
+export function getReranker(): { reranker: Reranker; candidates: number } | null {
+  let settings: RerankSettings | undefined;
+  try {
+    settings = loadConfig().settings?.memory?.rerank;
+  } catch {
+    // No config (e.g. a standalone script) — off
+  }
+  const resolved = resolveRerankSettings(settings);
+  if (!resolved) return null;
+
+  const key = `${resolved.provider}:${resolved.model}`;
+  let reranker = rerankers.get(key);
+  if (!reranker) {
+    switch (resolved.provider) {
+      case "llm":
+        reranker = new LlmReranker(resolved.model);
+        break;
+      case "local":
+        reranker = new LocalReranker(resolved.model);
+        break;
+      default:
+        throw new Error(`Unknown rerank provider: ${resolved.provider}`);
+    }
+    rerankers.set(key, reranker);
+  }
+  return { reranker, candidates: resolved.candidates };
+}
@@ -7,12 +7,34 @@
  *    Returns structured results with scores and metadata.
  * 
  * Uses the same embeddings.db as the incremental embeddings pipeline.
- * Search is: embed the query → cosine similarity → FTS5 BM25 → RRF merge.
+ * Search is: optional query rewrite (query.ts) → embed the queries → cosine
+ * similarity → FTS5 BM25 → RRF merge → optional rerank of the top fused
+ * candidates (rerank.ts).
+ * Only vectors from the configured embedding model are compared (see
+ * providers.ts); chunks without one are still found by BM25.
+ *
+ * Past ANN_MIN_VECTORS vectors, cosine similarity goes through the HNSW
+ * index in ann.ts instead of scanning every vector. Session-filtered,
+ * date-ranged and `exact` searches, and anything the index can't answer,
+ * still scan.
+ *
+ * Embedding scores are discounted by age (settings.memory.recency, time.ts);
+ * chunks pinned in the dashboard are exempt.
+ * A `from`/`to` range — or a time hint in the query, like "last week" —
+ * limits the search to chunks from those days.
  */
 
 import Database from "better-sqlite3";
 import { join, resolve } from "path";
-import { createEmbedding } from "./client.js";
+import { loadConfig } from "../config.js";
+import { hasColumn } from "../db/migrations/index.js";
+import type { RecencySettings } from "../types.js";
+import { annSearch } from "./ann.js";
+import { EMBEDDING_MODEL } from "./models.js";
+import { getEmbeddingProvider } from "./providers.js";
+import { getQueryContextualizerModel, getRecentTurns, rewriteQuery } from "./query.js";
+import { getReranker } from "./rerank.js";
+import { applyRecencyBias, isDay, parseTimeHint, type DayRange } from "./time.js";
 
 // ── Config ─────────────────────────────────────────────────
 
@@ -20,6 +42,9 @@ const ROOT = resolve(process.cwd());
 const EMBEDDINGS_DB_PATH = join(ROOT, "user", "embeddings.db");
 
 const RRF_K = 60;                              // RRF constant
+const ANN_OVERFETCH = 3;                       // Raw ANN hits per candidate, for the recency re-rank
+const RERANK_MAX_CHARS = 2000;                 // Chunk text shown to the reranker
+const TRACE_PREVIEW_CHARS = 200;               // Chunk text kept per result in the trace line
 
 
 // ── Shared DB ──────────────────────────────────────────────
@@ -50,34 +75,13 @@ function cosineSimilarity(a: Float32Array, b: Float32Array): number {
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-/**
- * Apply a light recency bias to embedding scores.
- * Recent chunks get a slight boost, but relevance still dominates.
- * Decay factor of 0.01 means:
- *   - Today: 100% score
- *   - 1 week: ~93%
- *   - 1 month: ~74%
- *   - 6 months: ~45%
- *   - 1 year: ~27%
- */
-interface RecencyBiasResult {
-  biasedScore: number;
-  recencyFactor: number;
-  daysAgo: number;
-}
-
-function applyRecencyBias(score: number, dayString: string): RecencyBiasResult {
-  if (!dayString) return { biasedScore: score, recencyFactor: 1, daysAgo: 0 };
-  const chunkDate = new Date(dayString);
-  const today = new Date();
-  const daysAgo = Math.max(0, Math.floor((today.getTime() - chunkDate.getTime()) / (1000 * 60 * 60 * 24)));
-  const decayFactor = 0.01;
-  const recencyFactor = 1 / (1 + daysAgo * decayFactor);
-  return { 
-    biasedScore: score * recencyFactor, 
-    recencyFactor, 
-    daysAgo 
-  };
+/** settings.memory.recency (global only); defaults when unset or there's no config */
+function getRecencySettings(): RecencySettings {
+  try {
+    return loadConfig().settings?.memory?.recency ?? {};
+  } catch {
+    return {};
+  }
 }
 
 
@@ -91,7 +95,6 @@ interface ChunkRow {
   text: string;
   context: string | null;
   msg_count: number;
-  vector: Buffer;
 }
 
 /** Return the highest message id already covered by embedded chunks for a session. */
@@ -121,12 +124,177 @@ interface SearchResult {
   daysAgo: number;
   bm25Score: number;
   rrfScore: number;
+  /** 1-based position after RRF fusion, before reranking */
+  rrfRank: number;
+  /** 0–1 relevance from the reranker; null when it didn't run */
+  rerankScore: number | null;
 }
 
 interface SearchOptions {
   limit?: number;
   sessionFilter?: string;
   mode?: "hybrid" | "embedding" | "bm25";
+  /** Compare against every vector instead of using the HNSW index */
+  exact?: boolean;
+  /** Set false to skip the rerank stage even when settings.memory.rerank is on */
+  rerank?: boolean;
+  /**
+   * Session the query was asked from. With query rewriting on, its recent
+   * turns resolve references like "she" or "that plan" in the query. Rewrite
+   * and rerank calls are billed to it (else to sessionFilter).
+   */
+  contextSessionId?: string;
+  /** Set false to search the query as given even when settings.memory.queryContextualizerModel is set */
+  rewrite?: boolean;
+  /** Earliest chunk day to search, inclusive (YYYY-MM-DD) */
+  from?: string;
+  /** Latest chunk day to search, inclusive (YYYY-MM-DD) */
+  to?: string;
+  /**
+   * Without from/to, a time hint in the query ("last week", "in March",
+   * "3 months ago") sets the range and is taken out of the search text.
+   * Set false to search the query literally. Default true
+   */
+  timeHints?: boolean;
+  /** Overrides settings.memory.recency for this search */
+  recency?: RecencySettings;
+}
+
+/** A search as recorded in a trace file's `memory_search` line */
+export interface MemorySearchTrace {
+  type: "memory_search";
+  query: string;
+  original_query?: string;
+  contextual_query?: string;
+  contextualizer_duration_ms?: number;
+  contextualizer_skipped?: string;
+  /** Expansions of the contextual query, searched alongside it */
+  sub_queries?: string[];
+  /** Session turns the rewriter saw */
+  context_turns?: number;
+  /** Hits per searched query, before fusion */
+  queries?: { query: string; embedding_hits: number; bm25_hits: number }[];
+  /** Day range the search was limited to — from options, or a hint in the query */
+  time_filter?: { from?: string; to?: string; source: "options" | "query"; phrase?: string };
+  /** Recency curve applied to embedding scores */
+  recency_curve?: string;
+  duration_ms: number;
+  /** Fused candidates before the limit */
+  results_found: number;
+  results_injected: number;
+  results: MemorySearchTraceResult[];
+  /** "<provider>:<model>" when the rerank stage ran */
+  rerank_model?: string;
+  rerank_duration_ms?: number;
+  rerank_skipped?: string;
+  skipped?: string;
+}
+
+export interface MemorySearchTraceResult {
+  id: number;
+  session_id: string;
+  day: string;
+  context: string | null;
+  rrf_score: number;
+  rrf_rank: number;
+  embedding_score: number;
+  bm25_score: number;
+  rerank_score: number | null;
+  text_preview: string;
+}
+
+// ── Embedding Search ───────────────────────────────────────
+
+interface EmbeddingHit {
+  id: number;
+  score: number;
+  rawScore: number;
+  recencyFactor: number;
+  daysAgo: number;
+}
+
+/**
+ * Top `k` chunks by recency-biased cosine similarity to `queryVector`.
+ * The index ranks by raw similarity, so it's asked for ANN_OVERFETCH × k
+ * hits and the bias re-ranks those — a chunk far enough down the raw
+ * ranking to need more than that boost isn't considered.
+ */
+function embeddingSearch(
+  db: ReturnType<typeof Database>,
+  model: string,
+  queryVector: Float32Array,
+  k: number,
+  options: { sessionFilter?: string; exact?: boolean; days?: DayRange; recency: RecencySettings }
+): EmbeddingHit[] {
+  // A database embeddings.ts hasn't migrated yet only has the original model's vectors
+  const hasModelColumn = hasColumn(db, "embeddings", "model");
+  if (!hasModelColumn && model !== EMBEDDING_MODEL) return [];
+  const pinnedColumn = hasColumn(db, "chunks", "pinned") ? "c.pinned" : "0";
+
+  let scored: { id: number; day: string; pinned: number; rawScore: number }[] | null = null;
+  const { days = {} } = options;
+  if (hasModelColumn && !options.exact && !options.sessionFilter && !days.from && !days.to) {
+    const hits = annSearch(db, model, queryVector, k * ANN_OVERFETCH);
+    if (hits) {
+      const chunks = new Map(
+        (db
+          .prepare(`SELECT c.id, c.day, ${pinnedColumn} AS pinned FROM chunks c WHERE c.id IN (SELECT value FROM json_each(?))`)
+          .all(JSON.stringify(hits.map((h) => h.id))) as { id: number; day: string; pinned: number }[]
+        ).map((row) => [row.id, row])
+      );
+      scored = hits
+        .filter((h) => chunks.has(h.id))
+        .map((h) => ({ ...chunks.get(h.id)!, rawScore: h.score }));
+    }
+  }
+
+  if (!scored) {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (hasModelColumn) {
+      where.push("e.model = ?");
+      params.push(model);
+    }
+    if (options.sessionFilter) {
+      where.push("c.session_id = ?");
+      params.push(options.sessionFilter);
+    }
+    if (days.from) {
+      where.push("c.day >= ?");
+      params.push(days.from);
+    }
+    if (days.to) {
+      where.push("c.day <= ?");
+      params.push(days.to);
+    }
+    const rows = db.prepare(`
+      SELECT c.id, c.day, ${pinnedColumn} AS pinned, e.vector
+      FROM chunks c
+      JOIN embeddings e ON e.chunk_id = c.id
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+    `).all(...params) as { id: number; day: string; pinned: number; vector: Buffer }[];
+    scored = rows.map((row) => {
+      const vector = new Float32Array(
+        row.vector.buffer,
+        row.vector.byteOffset,
+        row.vector.byteLength / 4
+      );
+      return { id: row.id, day: row.day, pinned: row.pinned, rawScore: cosineSimilarity(queryVector, vector) };
+    });
+  }
+
+  return scored
+    .map(({ id, day, pinned, rawScore }) => {
+      // Apply light recency bias — recent stuff gets a boost; pinned chunks don't fade
+      const { biasedScore, recencyFactor, daysAgo } = applyRecencyBias(
+        rawScore,
+        day,
+        pinned ? { curve: "off" } : options.recency
+      );
+      return { id, score: biasedScore, rawScore, recencyFactor, daysAgo };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
 }
 
 // ── Core Search ────────────────────────────────────────────
@@ -138,77 +306,83 @@ export async function searchMemory(
   query: string,
   options: SearchOptions = {}
 ): Promise<SearchResult[]> {
-  const { limit = 5, sessionFilter, mode = "hybrid" } = options;
+  return (await searchMemoryWithTrace(query, options)).results;
+}
+
+/**
+ * searchMemory() plus a `memory_search` trace line with per-stage scores
+ * and rerank timing — for callers that record or tune searches.
+ */
+export async function searchMemoryWithTrace(
+  query: string,
+  options: SearchOptions = {}
+): Promise<{ results: SearchResult[]; trace: MemorySearchTrace }> {
+  const start = Date.now();
+  const { limit = 5, sessionFilter, mode = "hybrid", exact = false } = options;
+  const trace: MemorySearchTrace = {
+    type: "memory_search",
+    query,
+    duration_ms: 0,
+    results_found: 0,
+    results_injected: 0,
+    results: [],
+  };
   const db = getEmbeddingsDB();
-  if (!db) return [];
-
-  // Load all chunks with embeddings
-  let sql = `
-    SELECT c.id, c.session_id, c.day, c.chunk_index, c.text, c.context, c.msg_count,
-           e.vector
-    FROM chunks c
-    JOIN embeddings e ON e.chunk_id = c.id
-  `;
-  const params: any[] = [];
-  if (sessionFilter) {
-    sql += ` WHERE c.session_id = ?`;
-    params.push(sessionFilter);
+  if (!db || !db.prepare("SELECT 1 FROM chunks LIMIT 1").get()) {
+    return { results: [], trace: { ...trace, skipped: "no_chunks", duration_ms: Date.now() - start } };
   }
+  const candidates = Math.max(limit * 4, 20);
 
-  const rows = db.prepare(sql).all(...params) as ChunkRow[];
-  if (rows.length === 0) return [];
-
-  // ── Embedding search (with recency bias) ──
-  let embeddingResults: { id: number; score: number; rawScore: number; recencyFactor: number; daysAgo: number }[] = [];
-  if (mode === "hybrid" || mode === "embedding") {
-    const queryVector = await createEmbedding(query);
-    embeddingResults = rows.map((row) => {
-      const vector = new Float32Array(
-        row.vector.buffer,
-        row.vector.byteOffset,
-        row.vector.byteLength / 4
-      );
-      const rawScore = cosineSimilarity(queryVector, vector);
-      // Apply light recency bias — recent stuff gets a boost
-      const { biasedScore, recencyFactor, daysAgo } = applyRecencyBias(rawScore, row.day);
-      return { id: row.id, score: biasedScore, rawScore, recencyFactor, daysAgo };
-    });
-    embeddingResults.sort((a, b) => b.score - a.score);
-    embeddingResults = embeddingResults.slice(0, Math.max(limit * 4, 20));
+  // ── Time scope: explicit range, else a hint in the query ──
+  for (const bound of [options.from, options.to]) {
+    if (bound && !isDay(bound)) throw new Error(`Invalid date "${bound}" — expected YYYY-MM-DD`);
+  }
+  let days: DayRange = {};
+  let searchQuery = query;
+  if (options.from || options.to) {
+    days = { from: options.from, to: options.to };
+    trace.time_filter = { ...days, source: "options" };
+  } else if (options.timeHints !== false) {
+    const hint = parseTimeHint(query);
+    if (hint) {
+      days = { from: hint.from, to: hint.to };
+      searchQuery = hint.query;
+      trace.original_query = query;
+      trace.time_filter = { ...days, source: "query", phrase: hint.phrase };
+    }
   }
+  const recency = options.recency ?? getRecencySettings();
+  trace.recency_curve = recency.curve ?? "hyperbolic";
 
-  // ── FTS5 BM25 search ──
-  let bm25Results: { id: number; score: number }[] = [];
-  if (mode === "hybrid" || mode === "bm25") {
-    const ftsQuery = query
-      .replace(/[^\w\s'-]/g, "")
-      .split(/\s+/)
-      .filter((t) => t.length > 1)
-      .map((t) => `"${t}"`)
-      .join(" OR ");
-
-    if (ftsQuery) {
-      try {
-        let ftsSql = `
-          SELECT rowid as id, rank * -1 as score
-          FROM chunks_fts
-          WHERE chunks_fts MATCH ?
-          ORDER BY rank
-          LIMIT ?
-        `;
-        const ftsRows = db.prepare(ftsSql).all(ftsQuery, Math.max(limit * 4, 20)) as {
-          id: number;
-          score: number;
-        }[];
-        bm25Results = ftsRows;
-      } catch {
-        // FTS5 can throw on weird query syntax — graceful fallback
-        bm25Results = [];
-      }
+  // ── Query rewriting (contextualize + expand) ──
+  let subQueries: string[] = [];
+  const rewriteModel = options.rewrite === false ? null : getQueryContextualizerModel();
+  if (rewriteModel) {
+    const rewriteStart = Date.now();
+    trace.original_query = query;
+    try {
+      const turns = options.contextSessionId ? getRecentTurns(options.contextSessionId) : [];
+      trace.context_turns = turns.length;
+      const rewritten = await rewriteQuery(searchQuery, turns, rewriteModel, options.contextSessionId ?? sessionFilter);
+      searchQuery = rewritten.query;
+      subQueries = rewritten.subQueries;
+      trace.contextual_query = searchQuery;
+      trace.sub_queries = subQueries;
+    } catch (err) {
+      console.error("[Memory Search] Query rewrite failed, searching the query as given:", err);
+      trace.contextualizer_skipped = `error: ${err instanceof Error ? err.message : String(err)}`;
     }
+    trace.contextualizer_duration_ms = Date.now() - rewriteStart;
   }
+  trace.query = searchQuery;
+  const queries = [searchQuery, ...subQueries];
 
-  // ── RRF merge ──
+  // ── Embedding (with recency bias) + FTS5 BM25 per query, RRF merge ──
+  // All lists together weigh what one query's did, so scores stay
+  // comparable with unexpanded searches
+  const weight = 0.5 / queries.length;
+  const provider = mode === "bm25" ? null : getEmbeddingProvider();
+  const queryVectors = provider ? await provider.embed(queries) : [];
   const merged = new Map<number, { 
     embeddingScore: number; 
     rawEmbeddingScore: number;
@@ -217,50 +391,88 @@ export async function searchMemory(
     bm25Score: number; 
     rrfScore: number;
   }>();
+  const entry = (id: number) => {
+    let e = merged.get(id);
+    if (!e) {
+      e = { embeddingScore: 0, rawEmbeddingScore: 0, recencyFactor: 1, daysAgo: 0, bm25Score: 0, rrfScore: 0 };
+      merged.set(id, e);
+    }
+    return e;
+  };
+
+  trace.queries = [];
+  queries.forEach((q, qi) => {
+    const embeddingResults = provider
+      ? embeddingSearch(db, provider.model, queryVectors[qi], candidates, { sessionFilter, exact, days, recency })
+      : [];
+    const bm25Results = mode === "embedding" ? [] : bm25Search(db, q, candidates, days);
+    trace.queries!.push({ query: q, embedding_hits: embeddingResults.length, bm25_hits: bm25Results.length });
 
-  for (let rank = 0; rank < embeddingResults.length; rank++) {
-    const r = embeddingResults[rank];
-    merged.set(r.id, {
-      embeddingScore: r.score,
-      rawEmbeddingScore: r.rawScore,
-      recencyFactor: r.recencyFactor,
-      daysAgo: r.daysAgo,
-      bm25Score: 0,
-      rrfScore: 0.5 / (RRF_K + rank + 1),
+    embeddingResults.forEach((r, rank) => {
+      const e = entry(r.id);
+      e.rrfScore += weight / (RRF_K + rank + 1);
+      // A chunk several queries found keeps its best similarity
+      if (r.score > e.embeddingScore) {
+        e.embeddingScore = r.score;
+        e.rawEmbeddingScore = r.rawScore;
+        e.recencyFactor = r.recencyFactor;
+        e.daysAgo = r.daysAgo;
+      }
     });
-  }
+    bm25Results.forEach((r, rank) => {
+      const e = entry(r.id);
+      e.rrfScore += weight / (RRF_K + rank + 1);
+      e.bm25Score = Math.max(e.bm25Score, r.score);
+    });
+  });
 
-  for (let rank = 0; rank < bm25Results.length; rank++) {
-    const r = bm25Results[rank];
-    const rrfScore = 0.5 / (RRF_K + rank + 1);
-    if (merged.has(r.id)) {
-      const existing = merged.get(r.id)!;
-      existing.bm25Score = r.score;
-      existing.rrfScore += rrfScore;
-    } else {
-      merged.set(r.id, {
-        embeddingScore: 0,
-        rawEmbeddingScore: 0,
-        recencyFactor: 1,
-        daysAgo: 0,
-        bm25Score: r.score,
-        rrfScore,
-      });
-    }
+  // Load the merged chunks — BM25 hits outside the session filter, and ids
+  // whose chunk is gone, drop out here
+  const chunkMap = new Map<number, ChunkRow>();
+  const chunkRows = db.prepare(`
+    SELECT id, session_id, day, chunk_index, text, context, msg_count
+    FROM chunks
+    WHERE id IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify([...merged.keys()])) as ChunkRow[];
+  for (const row of chunkRows) {
+    if (sessionFilter && row.session_id !== sessionFilter) continue;
+    if ((days.from && row.day < days.from) || (days.to && row.day > days.to)) continue;
+    chunkMap.set(row.id, row);
   }
 
-  // Sort by RRF and take top results
-  const sortedIds = [...merged.entries()]
+  // Sort by RRF
+  const fused = [...merged.entries()]
+    .filter(([id]) => chunkMap.has(id))
     .sort((a, b) => b[1].rrfScore - a[1].rrfScore)
-    .slice(0, limit);
+    .map(([id, scores], i) => ({ id, ...scores, rrfRank: i + 1, rerankScore: null as number | null }));
 
-  // Build lookup for chunk data
-  const chunkMap = new Map<number, ChunkRow>();
-  for (const row of rows) {
-    chunkMap.set(row.id, row);
+  // ── Rerank the top fused candidates ──
+  let ranked = fused;
+  if (options.rerank !== false && fused.length > 1) {
+    const rerankStart = Date.now();
+    try {
+      const configured = getReranker();
+      if (configured) {
+        const { reranker, candidates: rerankCandidates } = configured;
+        const pool = fused.slice(0, Math.max(limit, rerankCandidates));
+        const scores = await reranker.score(
+          searchQuery,
+          pool.map((c) => rerankDocument(chunkMap.get(c.id)!)),
+          options.contextSessionId ?? sessionFilter
+        );
+        pool.forEach((c, i) => (c.rerankScore = scores[i]));
+        ranked = [...pool].sort((a, b) => b.rerankScore! - a.rerankScore! || a.rrfRank - b.rrfRank);
+        trace.rerank_model = `${reranker.id}:${reranker.model}`;
+        trace.rerank_duration_ms = Date.now() - rerankStart;
+      }
+    } catch (err) {
+      console.error("[Memory Search] Rerank failed, keeping RRF order:", err);
+      trace.rerank_skipped = `error: ${err instanceof Error ? err.message : String(err)}`;
+      trace.rerank_duration_ms = Date.now() - rerankStart;
+    }
   }
 
-  return sortedIds.map(([id, scores]) => {
+  const results = ranked.slice(0, limit).map(({ id, ...scores }) => {
     const chunk = chunkMap.get(id)!;
     return {
       id,
@@ -272,4 +484,68 @@ export async function searchMemory(
       ...scores,
     };
   });
+
+  trace.duration_ms = Date.now() - start;
+  trace.results_found = fused.length;
+  trace.results_injected = results.length;
+  trace.results = results.map((r) => ({
+    id: r.id,
+    session_id: r.sessionId,
+    day: r.day,
+    context: r.context,
+    rrf_score: r.rrfScore,
+    rrf_rank: r.rrfRank,
+    embedding_score: r.embeddingScore,
+    bm25_score: r.bm25Score,
+    rerank_score: r.rerankScore,
+    text_preview: r.text.slice(0, TRACE_PREVIEW_CHARS),
+  }));
+  return { results, trace };
+}
+
+/** FTS5 BM25 matches for any of the query's words, best first, within `days` when set. */
+function bm25Search(
+  db: ReturnType<typeof Database>,
+  query: string,
+  limit: number,
+  days: DayRange = {}
+): { id: number; score: number }[] {
+  const ftsQuery = query
+    .replace(/[^\w\s'-]/g, "")
+    .split(/\s+/)
+    .filter((t) => t.length > 1)
+    .map((t) => `"${t}"`)
+    .join(" OR ");
+  if (!ftsQuery) return [];
+
+  const dayWhere: string[] = [];
+  const dayParams: string[] = [];
+  if (days.from) {
+    dayWhere.push("day >= ?");
+    dayParams.push(days.from);
+  }
+  if (days.to) {
+    dayWhere.push("day <= ?");
+    dayParams.push(days.to);
+  }
+
+  try {
+    return db.prepare(`
+      SELECT rowid as id, rank * -1 as score
+      FROM chunks_fts
+      WHERE chunks_fts MATCH ?
+      ${dayWhere.length ? `AND rowid IN (SELECT id FROM chunks WHERE ${dayWhere.join(" AND ")})` : ""}
+      ORDER BY rank
+      LIMIT ?
+    `).all(ftsQuery, ...dayParams, limit) as { id: number; score: number }[];
+  } catch {
+    // FTS5 can throw on weird query syntax — graceful fallback
+    return [];
+  }
+}
+
+/** What the reranker reads for a chunk: its context sentence, then the start of the transcript */
+function rerankDocument(chunk: ChunkRow): string {
+  const text = chunk.context ? `${chunk.context}\n\n${chunk.text}` : chunk.text;
+  return text.slice(0, RERANK_MAX_CHARS);
 }
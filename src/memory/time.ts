@@ -0,0 +1,232 @@
+/**
+ * TIME SCOPING — recency decay and date ranges for memory search
+ *
+ * Chunks carry the local day they happened (YYYY-MM-DD). Two ways time
+ * enters a search:
+ *
+ *   - Recency decay (settings.memory.recency): embedding scores are scaled
+ *     down with age. Hyperbolic by default, as Vito always did; exponential
+ *     with a half-life, or off.
+ *   - A day range: `from`/`to` options, or a time hint in the query itself
+ *     ("last week", "in March", "3 months ago", "since 2025-06-01").
+ *     parseTimeHint() finds the hint and returns the range plus the query
+ *     without it.
+ */
+
+import type { RecencySettings } from "../types.js";
+
+export const DEFAULT_RECENCY_RATE = 0.01;
+export const DEFAULT_HALF_LIFE_DAYS = 90;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ── Recency decay ──────────────────────────────────────────
+
+export interface RecencyBiasResult {
+  biasedScore: number;
+  recencyFactor: number;
+  daysAgo: number;
+}
+
+/**
+ * Apply the recency curve to an embedding score.
+ * Hyperbolic with the default rate of 0.01:
+ *   - Today: 100% score
+ *   - 1 week: ~93%
+ *   - 1 month: ~77%
+ *   - 6 months: ~36%
+ *   - 1 year: ~21%
+ * Exponential halves the score every halfLifeDays.
+ */
+export function applyRecencyBias(
+  score: number,
+  dayString: string,
+  settings: RecencySettings = {},
+  now = new Date()
+): RecencyBiasResult {
+  if (!dayString) return { biasedScore: score, recencyFactor: 1, daysAgo: 0 };
+  const daysAgo = Math.max(0, Math.floor((now.getTime() - new Date(dayString).getTime()) / DAY_MS));
+
+  let recencyFactor: number;
+  switch (settings.curve ?? "hyperbolic") {
+    case "off":
+      recencyFactor = 1;
+      break;
+    case "exponential":
+      recencyFactor = Math.pow(0.5, daysAgo / Math.max(1, settings.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS));
+      break;
+    default:
+      recencyFactor = 1 / (1 + daysAgo * Math.max(0, settings.rate ?? DEFAULT_RECENCY_RATE));
+  }
+  return { biasedScore: score * recencyFactor, recencyFactor, daysAgo };
+}
+
+// ── Day ranges ─────────────────────────────────────────────
+
+export interface DayRange {
+  /** Inclusive YYYY-MM-DD */
+  from?: string;
+  /** Inclusive YYYY-MM-DD */
+  to?: string;
+}
+
+export interface TimeHint extends DayRange {
+  /** The words in the query that set the range */
+  phrase: string;
+  /** The query with the phrase taken out (the original if that would leave nothing) */
+  query: string;
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+const MONTH_PATTERN = `(${MONTHS.map((m) => `${m}|${m.slice(0, 3)}`).join("|")})`;
+const UNIT_PATTERN = "(day|week|month|year)s?";
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12,
+};
+/** "a few", "a couple of" — vague, so they widen to a window instead of one unit */
+const VAGUE_WORDS: Record<string, number> = { few: 3, couple: 2, several: 4 };
+const NUMBER_PATTERN = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const VAGUE_PATTERN = `(?:a\\s+)?(${Object.keys(VAGUE_WORDS).join("|")})(?:\\s+of)?`;
+/** Left dangling once the phrase is cut: "notes from [the past 3 months]" */
+const DANGLING_WORDS = /^(?:from|in|during|over|for|on|of|at|about|since|around)\s+|\s+(?:from|in|during|over|for|on|of|at|about|since|around)$/gi;
+
+/** Local-date YYYY-MM-DD, the format chunks store */
+export function formatDay(d: Date): string {
+  return d.toLocaleDateString("en-CA");
+}
+
+export function isDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function addDays(d: Date, days: number): Date {
+  const out = new Date(d);
+  out.setDate(out.getDate() + days);
+  return out;
+}
+
+function startOfWeek(d: Date): Date {
+  // Weeks start on Monday
+  return addDays(d, -((d.getDay() + 6) % 7));
+}
+
+function monthRange(year: number, month: number): DayRange {
+  return { from: formatDay(new Date(year, month, 1)), to: formatDay(new Date(year, month + 1, 0)) };
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex((m) => m.startsWith(name.toLowerCase().slice(0, 3)));
+}
+
+function toNumber(word: string): number {
+  return /^\d+$/.test(word) ? parseInt(word, 10) : NUMBER_WORDS[word.toLowerCase()];
+}
+
+/** The calendar unit `count` units before `now` (the whole day/week/month/year). */
+function unitRange(unit: string, count: number, now: Date): DayRange {
+  switch (unit) {
+    case "day": {
+      const day = formatDay(addDays(now, -count));
+      return { from: day, to: day };
+    }
+    case "week": {
+      const start = addDays(startOfWeek(now), -7 * count);
+      return { from: formatDay(start), to: formatDay(addDays(start, 6)) };
+    }
+    case "month":
+      return monthRange(now.getFullYear(), now.getMonth() - count);
+    default:
+      return { from: `${now.getFullYear() - count}-01-01`, to: `${now.getFullYear() - count}-12-31` };
+  }
+}
+
+/** The trailing window ending today ("past 2 weeks") */
+function windowRange(unit: string, count: number, now: Date): DayRange {
+  const start = new Date(now);
+  if (unit === "day") start.setDate(start.getDate() - count);
+  else if (unit === "week") start.setDate(start.getDate() - 7 * count);
+  else if (unit === "month") start.setMonth(start.getMonth() - count);
+  else start.setFullYear(start.getFullYear() - count);
+  return { from: formatDay(start), to: formatDay(now) };
+}
+
+/** A month name without a year means its most recent occurrence, this year or last */
+function namedMonth(name: string, year: string | undefined, now: Date): DayRange {
+  const month = monthIndex(name);
+  const y = year ? parseInt(year, 10) : month > now.getMonth() ? now.getFullYear() - 1 : now.getFullYear();
+  return monthRange(y, month);
+}
+
+/** Start of a "since"/"before" anchor: a date, a month (optionally with year) or a year */
+function anchorRange(anchor: string, now: Date): DayRange | null {
+  if (isDay(anchor)) return { from: anchor, to: anchor };
+  if (/^\d{4}$/.test(anchor)) return { from: `${anchor}-01-01`, to: `${anchor}-12-31` };
+  const m = anchor.match(new RegExp(`^${MONTH_PATTERN}(?:\\s+(\\d{4}))?$`, "i"));
+  return m ? namedMonth(m[1], m[2], now) : null;
+}
+
+type HintRule = [RegExp, (m: RegExpMatchArray, now: Date) => DayRange | null];
+
+const HINT_RULES: HintRule[] = [
+  [/\b(?:on\s+)?(\d{4}-\d{2}-\d{2})\s*(?:to|until|-|–)\s*(\d{4}-\d{2}-\d{2})\b/i,
+    (m) => (isDay(m[1]) && isDay(m[2]) ? { from: m[1], to: m[2] } : null)],
+  [/\bsince\s+(\d{4}-\d{2}-\d{2}|\d{4}|[a-z]+(?:\s+\d{4})?)\b/i,
+    (m, now) => {
+      const range = anchorRange(m[1], now);
+      return range ? { from: range.from } : null;
+    }],
+  [/\bbefore\s+(\d{4}-\d{2}-\d{2}|\d{4}|[a-z]+(?:\s+\d{4})?)\b/i,
+    (m, now) => {
+      const range = anchorRange(m[1], now);
+      return range?.from ? { to: formatDay(addDays(new Date(`${range.from}T00:00:00`), -1)) } : null;
+    }],
+  [/\b(?:on\s+)?(\d{4}-\d{2}-\d{2})\b/i, (m) => (isDay(m[1]) ? { from: m[1], to: m[1] } : null)],
+  [/\btoday\b/i, (_m, now) => unitRange("day", 0, now)],
+  [/\byesterday\b/i, (_m, now) => unitRange("day", 1, now)],
+  [new RegExp(`\\b(this|last|past)\\s+${UNIT_PATTERN}\\b`, "i"),
+    (m, now) => {
+      const unit = m[2].toLowerCase();
+      if (m[1].toLowerCase() === "this") return unit === "day" ? unitRange("day", 0, now) : { ...unitRange(unit, 0, now), to: formatDay(now) };
+      // "past week" is the trailing window; "last week" the calendar week before this one
+      return m[1].toLowerCase() === "past" ? windowRange(unit, 1, now) : unitRange(unit, 1, now);
+    }],
+  [new RegExp(`\\b(?:(?:in\\s+)?the\\s+)?(?:last|past)\\s+${NUMBER_PATTERN}\\s+${UNIT_PATTERN}\\b`, "i"),
+    (m, now) => windowRange(m[2].toLowerCase(), toNumber(m[1]), now)],
+  [new RegExp(`\\b${NUMBER_PATTERN}\\s+${UNIT_PATTERN}\\s+ago\\b`, "i"),
+    (m, now) => unitRange(m[2].toLowerCase(), toNumber(m[1]), now)],
+  // "a few weeks ago" could be two or five — search the window back to twice that
+  [new RegExp(`\\b${VAGUE_PATTERN}\\s+${UNIT_PATTERN}\\s+ago\\b`, "i"),
+    (m, now) => windowRange(m[2].toLowerCase(), VAGUE_WORDS[m[1].toLowerCase()] * 2, now)],
+  [new RegExp(`\\b(?:(?:in|during)\\s+)?${MONTH_PATTERN}(?:\\s+(\\d{4}))?\\b`, "i"),
+    (m, now) => {
+      // Bare "may"/"march" are too often ordinary words — need "in"/"during" or a year
+      if (!/^(in|during)\s/i.test(m[0].trim()) && !m[2]) return null;
+      return namedMonth(m[1], m[2], now);
+    }],
+  [/\b(?:in|during)\s+(\d{4})\b/i, (m) => ({ from: `${m[1]}-01-01`, to: `${m[1]}-12-31` })],
+];
+
+/**
+ * Find a time hint in a query. Returns the day range it means and the query
+ * without it, or null when the query has none.
+ */
+export function parseTimeHint(query: string, now = new Date()): TimeHint | null {
+  for (const [pattern, toRange] of HINT_RULES) {
+    const match = query.match(pattern);
+    if (!match) continue;
+    const range = toRange(match, now);
+    if (!range) continue;
+    const rest = query
+      .replace(match[0], " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^[\s,.;:-]+|[\s,;:-]+$/g, "")
+      .replace(DANGLING_WORDS, "")
+      .trim();
+    return { ...range, phrase: match[0].trim(), query: rest || query };
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Migration CLI — report or apply pending schema migrations.
+ *
+ *   npm run migrate -- --dry-run     list what would run, change nothing
+ *   npm run migrate                  apply pending migrations now
+ *
+ * vito-server applies migrations itself on start (and embeddings.db on first
+ * use), so this is mainly for checking an upgrade before restarting — take a
+ * backup first (npm run backup -- create --label pre-upgrade).
+ */
+
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { USER_DIR } from "./config.js";
+import { runMigrations, type Migration } from "./db/migrations/index.js";
+import { EMBEDDINGS_MIGRATIONS } from "./db/migrations/embeddings.js";
+import { VITO_MIGRATIONS } from "./db/migrations/vito.js";
+
+const DATABASES: Array<{ file: string; migrations: Migration[]; foreignKeys: boolean }> = [
+  { file: "vito.db", migrations: VITO_MIGRATIONS, foreignKeys: true },
+  { file: "embeddings.db", migrations: EMBEDDINGS_MIGRATIONS, foreignKeys: false },
+];
+
+function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  for (const { file, migrations, foreignKeys } of DATABASES) {
+    const dbPath = resolve(USER_DIR, file);
+    if (!existsSync(dbPath)) {
+      console.log(`${file}: not created yet — all ${migrations.length} migration(s) run on first open`);
+      continue;
+    }
+
+    const db = new Database(dbPath, { readonly: dryRun });
+    try {
+      if (foreignKeys && !dryRun) db.pragma("foreign_keys = ON");
+      const report = runMigrations(db, migrations, { database: file, dryRun });
+      const pending = dryRun ? report.pending : report.applied;
+      const verb = dryRun ? "would apply" : "applied";
+      if (pending.length === 0) {
+        console.log(`${file}: up to date (version ${report.current})`);
+        continue;
+      }
+      console.log(`${file}: ${verb} ${pending.length} migration(s) up to version ${report.latest}:`);
+      for (const m of pending) console.log(`  #${m.version} ${m.name}`);
+    } finally {
+      db.close();
+    }
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`Migration failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
@@ -0,0 +1,41 @@
+/**
+ * Access roles — who may drive the agent, and how far.
+ *
+ * Channel allowlists (allowedChatIds, guild/channel ids) decide where the bot
+ * listens; roles decide what each author gets once it does. Authors are
+ * matched on stable platform ids (InboundEvent.authorId) through
+ * config.access.users; anyone unlisted gets access.defaultRole.
+ *
+ * The dashboard (password-protected), cron jobs and the direct API are the
+ * operator's own surfaces and always act as owner.
+ */
+
+import type { InboundEvent, UserRole, VitoConfig } from "../types.js";
+
+const ROLE_RANK: Record<UserRole, number> = { guest: 0, member: 1, owner: 2 };
+
+/** The author's role, or null when they aren't let in at all. */
+export function resolveRole(config: VitoConfig, event: InboundEvent): UserRole | null {
+  if (event.channel === "dashboard" || event.raw?.cronJob || event.raw?.synthetic) return "owner";
+  if (event.raw?.source === "direct-channel") return "owner";
+
+  const listed = event.authorId ? config.access?.users?.[`${event.channel}:${event.authorId}`] : undefined;
+  if (listed) return listed;
+
+  const fallback = config.access?.defaultRole ?? "member";
+  return fallback === "none" ? null : fallback;
+}
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/** The least-privileged of several roles — what a turn answering all of them runs as. */
+export function lowestRole(roles: UserRole[]): UserRole {
+  return roles.reduce((low, role) => (ROLE_RANK[role] < ROLE_RANK[low] ? role : low), "owner");
+}
+
+/** Tool allowlist for a turn run as `role`; null = the harness's full set. */
+export function getAllowedTools(config: VitoConfig, role: UserRole): string[] | null {
+  return role === "guest" ? config.access?.guestTools ?? [] : null;
+}
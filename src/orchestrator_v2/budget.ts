@@ -0,0 +1,146 @@
+/**
+ * Spend caps — checked by the orchestrator before every turn.
+ *
+ * Caps live in Settings.budget and cascade Global → Channel → Session like
+ * every other setting (getEffectiveSettings). The layer that sets a cap also
+ * decides what it's measured against: a global cap against all spend, a
+ * channel cap against that channel's spend, a session cap against that
+ * session's. Cron-triggered runs are checked against budget.cron (cron spend
+ * only) when set, and fall back to the regular caps otherwise.
+ *
+ * Spend comes from the usage ledger (see PersistenceHarness), so a turn that
+ * starts under the cap can finish over it — the next turn is the one refused.
+ *
+ * Days and months run midnight to midnight in settings.timezone, whatever
+ * the host clock's zone.
+ */
+
+import type { Queries } from "../db/queries.js";
+import { getEffectiveSettings } from "../settings.js";
+import { DEFAULT_TIMEZONE } from "../system-instructions.js";
+import type { BudgetSettings, InboundEvent, VitoConfig } from "../types.js";
+
+export type BudgetWindow = "daily" | "monthly";
+export type BudgetScope = "global" | "channel" | "session";
+
+export interface BudgetCapStatus {
+  window: BudgetWindow;
+  /** Which layer set the cap, and so which spend it's measured against */
+  scope: BudgetScope;
+  /** Cap comes from budget.cron and only counts cron spend */
+  cron: boolean;
+  limit: number;
+  spent: number;
+  /** When the current window ends (ms) */
+  resetsAt: number;
+}
+
+/** How far (ms) `timeZone`'s wall clock is ahead of UTC at `ms`. */
+function zoneOffset(ms: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(ms));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wall - Math.floor(ms / 1000) * 1000;
+}
+
+/** Midnight starting year/month/day (month 0-based, overflow rolls over) in `timeZone`, as ms. */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const wall = Date.UTC(year, month, day);
+  // Offset at the guess, then again at the result in case a DST change lies between
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+/** Start/end (ms) of the current day or month in `timeZone`. */
+export function getBudgetWindow(
+  window: BudgetWindow,
+  now = new Date(),
+  timeZone = DEFAULT_TIMEZONE
+): { since: number; until: number } {
+  const local = new Date(now.getTime() + zoneOffset(now.getTime(), timeZone));
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+
+  if (window === "monthly") {
+    return { since: zonedMidnight(year, month, 1, timeZone), until: zonedMidnight(year, month + 1, 1, timeZone) };
+  }
+  const day = local.getUTCDate();
+  return { since: zonedMidnight(year, month, day, timeZone), until: zonedMidnight(year, month, day + 1, timeZone) };
+}
+
+function pickCap(budget: BudgetSettings | undefined, window: BudgetWindow, cron: boolean): number | undefined {
+  const value = cron ? budget?.cron?.[window] : budget?.[window];
+  return typeof value === "number" ? value : undefined;
+}
+
+/** Most specific settings layer that sets this cap. */
+function getCapScope(
+  config: VitoConfig,
+  event: InboundEvent,
+  window: BudgetWindow,
+  cron: boolean
+): BudgetScope {
+  if (pickCap(config.sessions?.[event.sessionKey]?.budget, window, cron) !== undefined) return "session";
+  if (pickCap(config.channels?.[event.channel]?.settings?.budget, window, cron) !== undefined) return "channel";
+  return "global";
+}
+
+/** Every cap that applies to this event, with current spend against it. */
+export function getBudgetStatus(
+  config: VitoConfig,
+  queries: Queries,
+  event: InboundEvent,
+  now = new Date()
+): BudgetCapStatus[] {
+  const budget = getEffectiveSettings(config, event.channel, event.sessionKey).budget;
+  if (!budget) return [];
+
+  const isCron = Boolean(event.raw?.cronJob);
+  const timeZone = config.settings?.timezone || DEFAULT_TIMEZONE;
+  const caps: BudgetCapStatus[] = [];
+
+  for (const window of ["daily", "monthly"] as const) {
+    const cronLimit = isCron ? pickCap(budget, window, true) : undefined;
+    const cron = cronLimit !== undefined;
+    const limit = cron ? cronLimit : pickCap(budget, window, false);
+    if (limit === undefined) continue;
+
+    const scope = getCapScope(config, event, window, cron);
+    const { since, until } = getBudgetWindow(window, now, timeZone);
+    const { cost } = queries.getUsageTotals(since, until, {
+      sessionId: scope === "session" ? event.sessionKey : undefined,
+      channel: scope === "channel" ? event.channel : undefined,
+      cronOnly: cron,
+    });
+    caps.push({ window, scope, cron, limit, spent: cost, resetsAt: until });
+  }
+
+  return caps;
+}
+
+/** The first cap this event is over, if any. */
+export function checkBudget(
+  config: VitoConfig,
+  queries: Queries,
+  event: InboundEvent,
+  now = new Date()
+): BudgetCapStatus | null {
+  return getBudgetStatus(config, queries, event, now).find((cap) => cap.spent >= cap.limit) ?? null;
+}
+
+/** One-line human description, e.g. "Daily cap (this channel): $4.12 of $5.00". */
+export function describeBudgetCap(cap: BudgetCapStatus): string {
+  const window = cap.window === "daily" ? "Daily" : "Monthly";
+  const scope = cap.scope === "global" ? "all sessions" : cap.scope === "channel" ? "this channel" : "this session";
+  const cron = cap.cron ? " cron" : "";
+  return `${window}${cron} cap (${scope}): $${cap.spent.toFixed(2)} of $${cap.limit.toFixed(2)}`;
+}
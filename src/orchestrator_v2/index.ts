@@ -1,4 +1,4 @@
-export { OrchestratorV2 } from "./orchestrator.js";
+export { OrchestratorV2, type QueueChangeListener } from "./orchestrator.js";
 export { PiSessionHarness } from "./pi-session-harness.js";
 export { buildSystemPromptV2, buildUserMessageV2 } from "./system-prompt.js";
 export { CAPABILITIES_MAP } from "./capabilities.js";
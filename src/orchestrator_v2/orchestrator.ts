@@ -19,13 +19,16 @@
  * can drop in by swapping the import in src/index.ts.
  */
 
+import { CommandRegistry, skillCommands, type CommandMatch, type SlashCommand } from "../commands/registry.js";
 import { CronScheduler } from "../cron/scheduler.js";
 import { loadConfig } from "../config.js";
 import type { Queries } from "../db/queries.js";
 import {
   createHarness,
+  formatModelRef,
   HarnessUnsupportedError,
   HarnessSessionLostError,
+  withFallback,
   withPersistence,
   withRelay,
   withTracing,
@@ -37,8 +40,10 @@ import { withNoReplyCheck } from "../harness/decorators/index.js";
 import { getDirectChannel, type DirectChannel } from "../channels/direct.js";
 
 import { maybeEmbedNewChunks } from "../memory/embeddings.js";
+import { maybeExtractFacts } from "../memory/facts.js";
 import { SessionManager } from "../sessions/manager.js";
 import { getEffectiveSettings } from "../settings.js";
+import { DEFAULT_TIMEZONE } from "../system-instructions.js";
 import { discoverSkills } from "../skills/discovery.js";
 
 import { randomBytes } from "crypto";
@@ -51,13 +56,21 @@ import type {
   Channel,
   CronJobConfig,
   InboundEvent,
+  ModelRef,
+  QueuedMessage,
   ResolvedSettings,
   SkillMeta,
+  UserRole,
   VitoConfig,
 } from "../types.js";
 
+import { getAllowedTools, hasRole, lowestRole, resolveRole } from "./access.js";
+import { checkBudget, describeBudgetCap, getBudgetStatus } from "./budget.js";
 import { buildSystemPromptV2, buildUserMessageV2 } from "./system-prompt.js";
 
+/** How long a session stays on a fallback model before trying its configured one again */
+const DEFAULT_FALLBACK_COOLDOWN_MINUTES = 15;
+
 /**
  * Vito session IDs are "channel:target" (e.g., "dashboard:default",
  * "telegram:123456:78"). Percent-encode chars that aren't safe in path
@@ -68,10 +81,56 @@ function encodeSessionDirName(sessionId: string): string {
   return encodeURIComponent(sessionId);
 }
 
+/** Structured user content as stored in the messages table. */
+function getUserContent(event: InboundEvent): unknown {
+  return event.attachments?.length
+    ? {
+        text: event.content,
+        attachments: event.attachments.map((a) => ({
+          type: a.type,
+          path: a.path,
+          filename: a.filename,
+          mimeType: a.mimeType,
+        })),
+      }
+    : event.content;
+}
+
 function normalizeSlashCommand(content?: string): string {
   return (content || "").trim().replace(/^\/([A-Za-z0-9_]+)@[^\s]+(?=\s|$)/, "/$1");
 }
 
+interface QueueItem {
+  /** Stable id for the dashboard/`/queue` to drop or move it by */
+  id: number;
+  event: InboundEvent;
+  channel: Channel | null;
+  queuedAt: number;
+}
+
+interface ActiveRequest {
+  abort: AbortController;
+  aborted: boolean;
+  /** Role the turn runs as — only messages from the same role may steer it */
+  role: UserRole;
+  /** Steer a message into this turn (queueMode "steer"); false → queue it instead */
+  steer?: (event: InboundEvent, channel: Channel | null) => Promise<boolean>;
+}
+
+export type QueueChangeListener = (sessionKey: string, queue: QueuedMessage[]) => void;
+
+/**
+ * Thrown by editAndResend() when an edit is refused: the session can't edit
+ * messages ("unsupported"), the message isn't a current user message of the
+ * session ("not_found"), or a reply is still running ("busy").
+ */
+export class MessageEditError extends Error {
+  constructor(public readonly reason: "unsupported" | "not_found" | "busy", message: string) {
+    super(message);
+    this.name = "MessageEditError";
+  }
+}
+
 export class OrchestratorV2 {
   private sessionManager: SessionManager;
   private channels = new Map<string, Channel>();
@@ -80,11 +139,13 @@ export class OrchestratorV2 {
   private skillsDir: string;
 
   /** Per-session message queues and processing locks. */
-  private sessionQueues = new Map<string, Array<{ event: InboundEvent; channel: Channel | null }>>();
+  private sessionQueues = new Map<string, QueueItem[]>();
   private sessionProcessing = new Set<string>();
+  private nextQueueId = 1;
+  private queueListeners = new Set<QueueChangeListener>();
 
   /** Track active requests so they can be aborted on /stop. */
-  private activeRequests = new Map<string, { abort: AbortController; aborted: boolean }>();
+  private activeRequests = new Map<string, ActiveRequest>();
 
   /**
    * Long-lived harnesses, keyed by Vito session id. Same harness instance
@@ -93,6 +154,9 @@ export class OrchestratorV2 {
    */
   private harnesses = new Map<string, Harness>();
 
+  /** Slash commands — built-ins registered in the constructor, plus skill commands */
+  private commands = new CommandRegistry();
+
   /**
    * Tracks which harness type (e.g., "pi-coding-agent", "claude-code") each
    * live harness instance is. Used on config reload to detect a harness-type
@@ -111,6 +175,26 @@ export class OrchestratorV2 {
    */
   private firstTurnDone = new Set<string>();
 
+  /**
+   * Vito session id → id of an edited message, for harnesses that couldn't
+   * rewind and were reset instead. The <history> seed stops before it so the
+   * abandoned turns (archived, but still history) don't come back.
+   */
+  private historyCutoffs = new Map<string, number>();
+
+  /**
+   * `/budget override` — session key → expiry (ms). While active, spend caps
+   * are not enforced for that session. In-memory; a restart clears it.
+   */
+  private budgetOverrides = new Map<string, number>();
+
+  /**
+   * Vito session id → fallback model the session switched to after a
+   * provider error, and until when (ms). getOrCreateHarness keeps the session
+   * on it until then, then swaps back to the configured model. In-memory.
+   */
+  private modelFallbacks = new Map<string, { model: ModelRef; until: number }>();
+
   /** Last observed mtime for user/vito.config.json. Used as a lazy fallback
    * in case the fs watcher debounce hasn't fired before the next message. */
   private configMtimeMs = 0;
@@ -136,6 +220,7 @@ export class OrchestratorV2 {
     );
 
     this.configMtimeMs = this.getConfigMtimeMs();
+    this.registerBuiltinCommands();
 
     const skills = this.getSkills();
     if (skills.length > 0) {
@@ -153,6 +238,91 @@ export class OrchestratorV2 {
     return discoverSkills(this.skillsDir);
   }
 
+  /**
+   * Every slash command — built-ins plus whatever skills declare right now.
+   * Channels build their native command menus from this.
+   */
+  getCommands(): SlashCommand[] {
+    this.commands.setSkillCommands(skillCommands(this.getSkills()));
+    return this.commands.list();
+  }
+
+  private matchCommand(commandText: string): CommandMatch | null {
+    if (!commandText.startsWith("/")) return null;
+    const match = this.commands.match(commandText);
+    if (match) return match;
+    // Unknown so far — pick up skill commands added since the last lookup
+    this.commands.setSkillCommands(skillCommands(this.getSkills()));
+    return this.commands.match(commandText);
+  }
+
+  private registerBuiltinCommands(): void {
+    const commands: SlashCommand[] = [
+      {
+        name: "new",
+        description: "Fresh start — new pi session, picks up system prompt changes, archives chat",
+        minRole: "member",
+        handler: ({ event, channel }) => this.handleNewCommand(event, channel),
+      },
+      {
+        name: "compact",
+        description: "Summarize older turns to free context — conversation continues",
+        minRole: "member",
+        handler: ({ event, channel }) => this.handleCompactCommand(event, channel),
+      },
+      {
+        name: "stop",
+        description: "Stop current request and clear any queued messages",
+        priority: true,
+        minRole: "member",
+        handler: ({ event, channel }) => this.handleStopCommand(event, channel),
+      },
+      {
+        name: "model",
+        description: "Switch or inspect the live pi model for this session",
+        args: [{ name: "model", description: "provider/model-name, e.g. anthropic/claude-sonnet-4-20250514" }],
+        minRole: "owner",
+        handler: ({ event, channel }) => this.handleModelCommand(event, channel),
+      },
+      {
+        name: "queue",
+        description: "Show messages waiting behind the current reply, or drop/reorder them",
+        args: [{ name: "args", description: "drop <n> | move <n> <position> | clear" }],
+        priority: true,
+        minRole: "member",
+        handler: ({ event, channel }) => this.handleQueueCommand(event, channel),
+      },
+      {
+        name: "status",
+        description: "Show harness, model, context usage, queue and cost for this session",
+        priority: true,
+        minRole: "member",
+        handler: ({ event, channel }) => this.handleStatusCommand(event, channel),
+      },
+      {
+        name: "budget",
+        description: "Show spend against this session's caps, or override them (owner)",
+        args: [{ name: "args", description: "override [hours] | clear" }],
+        handler: ({ event, channel }) => this.handleBudgetCommand(event, channel),
+      },
+      {
+        name: "fork",
+        description: "Branch this conversation into a new dashboard session",
+        args: [{ name: "message", description: "Message id to fork at (default: latest)" }],
+        minRole: "member",
+        handler: ({ event, channel, args }) => this.handleForkCommand(event, channel, args),
+      },
+      {
+        name: "restart",
+        description: "Restart the Vito server (PM2)",
+        priority: true,
+        minRole: "owner",
+        handler: ({ event, channel }) => this.handleRestartCommand(event, channel),
+      },
+    ];
+    for (const command of commands) this.commands.register(command);
+  }
+
   getCronScheduler() {
     return this.cronScheduler;
   }
@@ -310,27 +480,40 @@ export class OrchestratorV2 {
     const sessionKey = event.sessionKey;
     console.log(`[v2 handleInbound] ⚡ from ${sessionKey}: "${event.content?.slice(0, 50)}"`);
 
+    const role = resolveRole(this.config, event);
+    if (!role) {
+      console.log(`[v2] Ignoring ${event.channel} message from ${event.author} (${event.authorId ?? "no id"}): no access role`);
+      return;
+    }
+
     const commandText = normalizeSlashCommand(event.content);
     const commandEvent = commandText !== (event.content || "").trim() ? { ...event, content: commandText } : event;
 
-    if (channel && commandText === "/stop") {
-      await this.handleStopCommand(commandEvent, channel);
-      return;
-    }
-    if (channel && commandText === "/restart") {
-      await this.handleRestartCommand(commandEvent, channel);
+    // Priority commands (/stop, /queue, ...) answer right away. The rest
+    // (/new, /compact, ...) go through the queue so they don't race with an
+    // in-flight turn — routing happens in processMessage.
+    const command = channel ? this.matchCommand(commandText) : null;
+    if (channel && command?.command.priority) {
+      await this.runCommand(command, commandEvent, channel, role);
       return;
     }
-    // /new and /compact are non-priority — they go through the queue so they
-    // don't race with an in-flight turn. Routing happens in processMessage.
 
     if (!this.sessionQueues.has(sessionKey)) {
       this.sessionQueues.set(sessionKey, []);
     }
     const queue = this.sessionQueues.get(sessionKey)!;
 
-    queue.push({ event, channel });
-    if (this.sessionProcessing.has(sessionKey)) return;
+    // steer: join the running turn instead of waiting behind it. Only when
+    // nothing else is queued, so messages still reach the model in order.
+    if (this.sessionProcessing.has(sessionKey) && queue.length === 0 && await this.trySteer(event, channel)) {
+      return;
+    }
+
+    queue.push({ id: this.nextQueueId++, event, channel, queuedAt: Date.now() });
+    if (this.sessionProcessing.has(sessionKey)) {
+      this.emitQueueChange(sessionKey);
+      return;
+    }
 
     await this.processSessionQueue(sessionKey);
   }
@@ -340,9 +523,21 @@ export class OrchestratorV2 {
     const queue = this.sessionQueues.get(sessionKey);
 
     while (queue && queue.length > 0) {
-      const { event, channel } = queue.shift()!;
+      let { event, channel } = queue.shift()!;
+
+      // coalesce: fold everything queued behind this message into one turn,
+      // answered on the last one's behalf. Stops at commands and cron runs.
+      const coalesced: InboundEvent[] = [];
+      if (this.canCoalesce(event, channel)) {
+        while (queue.length > 0 && queue[0].channel === channel && this.canCoalesce(queue[0].event, queue[0].channel)) {
+          coalesced.push(event);
+          ({ event, channel } = queue.shift()!);
+        }
+      }
+      this.emitQueueChange(sessionKey);
+
       try {
-        await this.processMessage(event, channel);
+        await this.processMessage(event, channel, coalesced);
       } catch (err) {
         console.error(`[v2] Error processing message for ${sessionKey}:`, err);
         if (channel) {
@@ -358,47 +553,232 @@ export class OrchestratorV2 {
     }
   }
 
+  // ────────────────────────────────────────────────────────────────────────
+  // QUEUE INSPECTION (dashboard API + /queue)
+  // ────────────────────────────────────────────────────────────────────────
+
+  /** Messages waiting behind the session's in-flight turn, next first. */
+  getQueue(sessionKey: string): QueuedMessage[] {
+    return (this.sessionQueues.get(sessionKey) ?? []).map(({ id, event, queuedAt }) => ({
+      id,
+      author: event.author,
+      channel: event.channel,
+      content: event.content || "",
+      attachments: event.attachments?.length ?? 0,
+      timestamp: event.timestamp,
+      queuedAt,
+    }));
+  }
+
+  /** Remove a queued message before it runs. False if it's no longer queued. */
+  dropQueued(sessionKey: string, id: number): boolean {
+    const queue = this.sessionQueues.get(sessionKey);
+    const index = queue?.findIndex((item) => item.id === id) ?? -1;
+    if (!queue || index < 0) return false;
+    queue.splice(index, 1);
+    this.emitQueueChange(sessionKey);
+    return true;
+  }
+
+  /** Move a queued message to a new position (0 = runs next). */
+  moveQueued(sessionKey: string, id: number, position: number): boolean {
+    const queue = this.sessionQueues.get(sessionKey);
+    const index = queue?.findIndex((item) => item.id === id) ?? -1;
+    if (!queue || index < 0) return false;
+    const [item] = queue.splice(index, 1);
+    queue.splice(Math.max(0, Math.min(position, queue.length)), 0, item);
+    this.emitQueueChange(sessionKey);
+    return true;
+  }
+
+  private requeueFront(sessionKey: string, items: Array<{ event: InboundEvent; channel: Channel | null }>): void {
+    if (items.length === 0) return;
+    if (!this.sessionQueues.has(sessionKey)) this.sessionQueues.set(sessionKey, []);
+    this.sessionQueues.get(sessionKey)!.unshift(
+      ...items.map(({ event, channel }) => ({ id: this.nextQueueId++, event, channel, queuedAt: Date.now() }))
+    );
+    console.log(`[v2] ${sessionKey}: requeued ${items.length} undelivered steered message(s)`);
+    this.emitQueueChange(sessionKey);
+  }
+
+  /** Subscribe to queue changes. Returns an unsubscribe function. */
+  onQueueChange(listener: QueueChangeListener): () => void {
+    this.queueListeners.add(listener);
+    return () => this.queueListeners.delete(listener);
+  }
+
+  private emitQueueChange(sessionKey: string): void {
+    if (this.queueListeners.size === 0) return;
+    const queue = this.getQueue(sessionKey);
+    for (const listener of this.queueListeners) {
+      try {
+        listener(sessionKey, queue);
+      } catch (err) {
+        console.error("[v2] Queue listener failed:", err);
+      }
+    }
+  }
+
+  /**
+   * A plain addressed message from a person — not a command, cron run or
+   * direct API call. Only these are coalesced or steered; everything else
+   * keeps its own turn.
+   */
+  private isPlainMessage(event: InboundEvent, channel: Channel | null): boolean {
+    if (!channel || event.raw?.cronJob || event.raw?.synthetic || event.raw?.sendCondition) return false;
+    if (event.raw?.source === "direct-channel") return false;
+    if (normalizeSlashCommand(event.content).startsWith("/")) return false;
+    const settings = getEffectiveSettings(this.config, event.channel, event.sessionKey);
+    return settings.requireMention === false || event.hasMention !== false;
+  }
+
+  /** Whether a queued message may be folded into a neighbour's turn (queueMode coalesce). */
+  private canCoalesce(event: InboundEvent, channel: Channel | null): boolean {
+    return getEffectiveSettings(this.config, event.channel, event.sessionKey).queueMode === "coalesce"
+      && this.isPlainMessage(event, channel);
+  }
+
+  /** queueMode steer: hand the message to the running turn. False → queue it. */
+  private async trySteer(event: InboundEvent, channel: Channel | null): Promise<boolean> {
+    const active = this.activeRequests.get(event.sessionKey);
+    if (!active?.steer || active.aborted) return false;
+    if (resolveRole(this.config, event) !== active.role) return false;
+    if (getEffectiveSettings(this.config, event.channel, event.sessionKey).queueMode !== "steer") return false;
+    if (!this.isPlainMessage(event, channel)) return false;
+
+    try {
+      const steered = await active.steer(event, channel);
+      if (steered) console.log(`[v2] ${event.sessionKey}: steered message into the running turn`);
+      return steered;
+    } catch (err) {
+      console.error(`[v2] Steering failed for ${event.sessionKey}; queueing instead:`, err);
+      return false;
+    }
+  }
+
+  // ────────────────────────────────────────────────────────────────────────
+  // EDIT & RESEND (dashboard)
+  // ────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Replace an earlier user message and rerun the conversation from there.
+   * The message and everything after it are archived, the harness is rewound
+   * to just before it (pi: a new branch of its session tree; otherwise a
+   * reset that's re-seeded with the history before the message), and the new
+   * content runs as the next turn. Resolves once the turn is queued; throws
+   * if the message can't be edited or the session is busy.
+   */
+  async editAndResend(
+    sessionKey: string,
+    messageId: number,
+    content: string,
+    attachments?: InboundEvent["attachments"]
+  ): Promise<void> {
+    if (!sessionKey.startsWith("dashboard:")) {
+      throw new MessageEditError("unsupported", "Only dashboard sessions support editing messages");
+    }
+    const vitoSession = this.sessionManager.resolveSession(sessionKey);
+    const original = this.queries.getMessage(messageId);
+    if (!original || original.session_id !== vitoSession.id || original.type !== "user" || original.archived) {
+      throw new MessageEditError("not_found", "Only current user messages in this session can be edited");
+    }
+    if (this.sessionProcessing.has(sessionKey)) {
+      throw new MessageEditError("busy", "A reply is still running — wait for it (or /stop it) before editing");
+    }
+
+    const channel = this.channels.get("dashboard") ?? null;
+    const event: InboundEvent = {
+      sessionKey,
+      channel: "dashboard",
+      target: original.channel_target || sessionKey.slice("dashboard:".length),
+      author: original.author || "user",
+      timestamp: Date.now(),
+      content,
+      attachments,
+      raw: { editedMessageId: messageId },
+      hasMention: true,
+    };
+
+    // Hold the session while we rewind; anything arriving meanwhile queues
+    // behind the edited message.
+    this.sessionProcessing.add(sessionKey);
+    try {
+      const { archived, userMessages } = this.queries.archiveMessagesFrom(vitoSession.id, messageId);
+      console.log(`[v2] ${sessionKey}: editing message ${messageId} — archived ${archived} message(s), rewinding ${userMessages} prompt(s)`);
+
+      let originalText = "";
+      try { originalText = extractMessageText(original.content); } catch { /* leave empty */ }
+      const harness = this.harnesses.get(vitoSession.id);
+      const rewound = harness?.rewind
+        ? await harness.rewind(userMessages, originalText).catch((err) => {
+            console.warn(`[v2] ${sessionKey}: rewind failed, resetting instead:`, err);
+            return false;
+          })
+        : false;
+
+      if (!rewound) {
+        // Start over, seeding the next prompt with what came before the edit.
+        // Like /new, reset even without a live harness so a resumable one on
+        // disk doesn't bring the abandoned turns back.
+        const harnessForReset = harness ?? (channel
+          ? await this.getOrCreateHarness(vitoSession.id, event, getEffectiveSettings(this.config, "dashboard", sessionKey), channel)
+          : undefined);
+        await harnessForReset?.reset?.();
+        this.harnesses.delete(vitoSession.id);
+        this.harnessNames.delete(vitoSession.id);
+        this.firstTurnDone.delete(vitoSession.id);
+        this.historyCutoffs.set(vitoSession.id, messageId);
+      }
+    } finally {
+      this.sessionProcessing.delete(sessionKey);
+    }
+
+    if (!this.sessionQueues.has(sessionKey)) this.sessionQueues.set(sessionKey, []);
+    this.sessionQueues.get(sessionKey)!.unshift({ id: this.nextQueueId++, event, channel, queuedAt: Date.now() });
+    this.processSessionQueue(sessionKey).catch((err) => {
+      console.error(`[v2] Error replaying edited message for ${sessionKey}:`, err);
+    });
+  }
+
   // ────────────────────────────────────────────────────────────────────────
   // CORE: processMessage (the v2 simplification)
   // ────────────────────────────────────────────────────────────────────────
 
-  private async processMessage(event: InboundEvent, channel: Channel | null): Promise<void> {
+  /** Per-turn user message: [datetime, from author, via channel] <content> */
+  private buildTurnPrompt(event: InboundEvent): string {
+    return buildUserMessageV2({
+      content: event.content || "",
+      author: event.author,
+      channel: event.channel,
+      timezone: this.config.settings?.timezone,
+      attachmentPaths: event.attachments
+        ?.map((a) => a.path)
+        .filter((p): p is string => Boolean(p)),
+    });
+  }
+
+  private async processMessage(event: InboundEvent, channel: Channel | null, coalesced: InboundEvent[] = []): Promise<void> {
     this.reloadConfigIfChanged();
 
     const commandText = normalizeSlashCommand(event.content);
     const commandEvent = commandText !== (event.content || "").trim() ? { ...event, content: commandText } : event;
 
-    if (channel && commandText === "/stop") {
-      await this.handleStopCommand(commandEvent, channel);
-      return;
-    }
-    if (channel && commandText === "/new") {
-      await this.handleNewCommand(commandEvent, channel);
-      return;
-    }
-    if (channel && commandText === "/compact") {
-      await this.handleCompactCommand(commandEvent, channel);
-      return;
-    }
-    if (channel && /^\/model(?:\s|$)/i.test(commandText)) {
-      await this.handleModelCommand(commandEvent, channel);
-      return;
+    // Skill commands expand to a prompt: stored as typed, run as the
+    // expansion. Invoking one counts as addressing the bot.
+    let promptEvent = event;
+    const command = channel ? this.matchCommand(commandText) : null;
+    if (channel && command) {
+      const prompt = await this.runCommand(command, commandEvent, channel, resolveRole(this.config, event) ?? "guest");
+      if (typeof prompt !== "string") return;
+      event = { ...event, hasMention: true };
+      promptEvent = { ...event, content: prompt };
     }
 
     const vitoSession = this.sessionManager.resolveSession(event.sessionKey);
+    for (const earlier of coalesced) await this.downloadAttachments(earlier);
     await this.downloadAttachments(event);
 
-    const userContent = event.attachments?.length
-      ? {
-          text: event.content,
-          attachments: event.attachments.map((a) => ({
-            type: a.type,
-            path: a.path,
-            filename: a.filename,
-            mimeType: a.mimeType,
-          })),
-        }
-      : event.content;
+    const userContent = getUserContent(event);
 
     const effectiveSettings = getEffectiveSettings(this.config, event.channel, event.sessionKey);
 
@@ -406,16 +786,34 @@ export class OrchestratorV2 {
     const requireMention = effectiveSettings.requireMention !== false;
     const hasMention = event.hasMention !== false;
     if (requireMention && !hasMention) {
-      this.queries.insertMessage({
-        session_id: vitoSession.id,
-        channel: event.channel,
-        channel_target: event.target,
-        timestamp: event.timestamp,
-        type: "user",
-        content: JSON.stringify(userContent),
-        archived: 0,
-        author: event.author ?? null,
-      });
+      this.storeUserMessage(vitoSession.id, event, userContent);
+      return;
+    }
+
+    // Coalesced messages keep their own rows, ahead of the one the turn runs on.
+    for (const earlier of coalesced) {
+      this.storeUserMessage(vitoSession.id, earlier, getUserContent(earlier));
+    }
+    if (coalesced.length > 0) {
+      console.log(`[v2] ${event.sessionKey}: coalescing ${coalesced.length + 1} queued messages into one turn`);
+    }
+
+    // Spend caps — keep the message but refuse the turn.
+    const overBudget = this.hasBudgetOverride(event.sessionKey)
+      ? null
+      : checkBudget(this.config, this.queries, event);
+    if (overBudget) {
+      this.storeUserMessage(vitoSession.id, event, userContent);
+      const resetsAt = new Date(overBudget.resetsAt).toLocaleString("en-US", { timeZone: this.config.settings?.timezone || DEFAULT_TIMEZONE, dateStyle: "medium", timeStyle: "short" });
+      console.log(`[v2] ${event.sessionKey}: refusing turn — ${describeBudgetCap(overBudget)}`);
+      // Cron runs just skip; a notice on every tick would be noise.
+      if (channel && !event.raw?.cronJob) {
+        const handler = channel.createHandler(event);
+        await handler.relay(
+          `💸 Budget reached — ${describeBudgetCap(overBudget)}. Resets ${resetsAt}.\n\nThe owner can lift it with \`/budget override\`.`
+        );
+        await handler.stopTyping?.();
+      }
       return;
     }
 
@@ -445,14 +843,43 @@ export class OrchestratorV2 {
 
       // Get or create the long-lived harness for this Vito session.
       const innerHarness = await this.getOrCreateHarness(vitoSession.id, event, effectiveSettings, channel);
+
+      // A turn answering several authors runs with the least-privileged role.
+      const turnRole = lowestRole([...coalesced, event].map((e) => resolveRole(this.config, e) ?? "guest"));
+      const allowedTools = getAllowedTools(this.config, turnRole);
+      if (allowedTools && !innerHarness.setAllowedTools) {
+        console.log(`[v2] ${event.sessionKey}: refusing ${turnRole} turn — harness can't restrict tools`);
+        this.storeUserMessage(vitoSession.id, event, userContent);
+        if (baseHandler) {
+          await baseHandler.relay("🔒 Guest access isn't available on this harness.");
+          await baseHandler.stopTyping?.();
+        }
+        return;
+      }
+      innerHarness.setAllowedTools?.(allowedTools);
       const actualModelString = innerHarness.getModel?.() ?? this.getModelString(effectiveSettings);
+      const getAnsweringModel = () => innerHarness.getModel?.() ?? actualModelString;
 
       // Per-turn decorator chain wraps the long-lived inner harness.
-      const tracedHarness = withTracing(innerHarness, {
+      const fallbackModels = this.getFallbackModels(effectiveSettings, innerHarness);
+      const cooldownMinutes = effectiveSettings["pi-coding-agent"]?.fallbackCooldownMinutes
+        ?? this.config.harnesses?.["pi-coding-agent"]?.fallbackCooldownMinutes
+        ?? DEFAULT_FALLBACK_COOLDOWN_MINUTES;
+      const fallbackHarness = fallbackModels.length > 0
+        ? withFallback(innerHarness, {
+          models: fallbackModels,
+          onFallback: (model) => {
+            this.modelFallbacks.set(vitoSession.id, { model, until: Date.now() + cooldownMinutes * 60_000 });
+          },
+        })
+        : innerHarness;
+
+      const tracedHarness = withTracing(fallbackHarness, {
         session_id: vitoSession.id,
         channel: event.channel,
         target: event.target,
         model: actualModelString,
+        getModel: getAnsweringModel,
         traceMessageUpdates: effectiveSettings.traceMessageUpdates ?? false,
       });
 
@@ -464,20 +891,19 @@ export class OrchestratorV2 {
         userContent,
         userTimestamp: event.timestamp,
         author: event.author,
+        harness: innerHarness.getName(),
+        getModel: getAnsweringModel,
+        cronJob: event.raw?.cronJob ?? null,
+      });
+      const relayHarness = withRelay(persistedHarness, {
+        handler,
+        streamMode,
+        streaming: channel?.capabilities.streaming ?? false,
       });
-      const relayHarness = withRelay(persistedHarness, { handler, streamMode });
       const harness = withTyping(relayHarness, handler);
 
-      // Per-turn user message: [datetime, from author, via channel] <content>
-      let promptText = buildUserMessageV2({
-        content: event.content || "",
-        author: event.author,
-        channel: event.channel,
-        timezone: this.config.settings?.timezone,
-        attachmentPaths: event.attachments
-          ?.map((a) => a.path)
-          .filter((p): p is string => Boolean(p)),
-      });
+      // One prompt line per message when several were coalesced
+      let promptText = [...coalesced, promptEvent].map((e) => this.buildTurnPrompt(e)).join("\n\n");
 
       // If this run is going to create a BRAND-NEW pi AgentSession, seed
       // the first prompt with the tail of this Vito session's SQLite history.
@@ -493,7 +919,7 @@ export class OrchestratorV2 {
       const willCreateBrandNewSession = !this.firstTurnDone.has(vitoSession.id)
         && (innerHarness.isFresh?.() ?? false);
       if (willCreateBrandNewSession) {
-        const historyBlock = this.buildHistoryBlock(vitoSession.id, 10);
+        const historyBlock = this.buildHistoryBlock(vitoSession.id, 10, vitoSession.parent_id);
         if (historyBlock) {
           promptText = `${historyBlock}\n\n${promptText}`;
           console.log(`[v2] Seeded new harness session for ${vitoSession.id} with history (${historyBlock.length} chars)`);
@@ -518,7 +944,30 @@ export class OrchestratorV2 {
 
       // Abort wiring
       const abortController = new AbortController();
-      this.activeRequests.set(event.sessionKey, { abort: abortController, aborted: false });
+      const steered: Array<{ prompt: string; event: InboundEvent; channel: Channel | null }> = [];
+      this.activeRequests.set(event.sessionKey, {
+        abort: abortController,
+        aborted: false,
+        role: turnRole,
+        steer: innerHarness.steer && this.isPlainMessage(event, channel)
+          ? async (steerEvent, steerChannel) => {
+            await this.downloadAttachments(steerEvent);
+            const prompt = this.buildTurnPrompt(steerEvent);
+            persistedHarness.expectSteer(prompt, {
+              userContent: getUserContent(steerEvent),
+              userTimestamp: steerEvent.timestamp,
+              author: steerEvent.author,
+            });
+            const ok = await innerHarness.steer!(prompt).catch((err) => {
+              persistedHarness.cancelSteer(prompt);
+              throw err;
+            });
+            if (!ok) persistedHarness.cancelSteer(prompt);
+            else steered.push({ prompt, event: steerEvent, channel: steerChannel });
+            return ok;
+          }
+          : undefined,
+      });
 
       try {
         await harness.run(
@@ -528,6 +977,7 @@ export class OrchestratorV2 {
           abortController.signal
         );
         this.firstTurnDone.add(vitoSession.id);
+        this.historyCutoffs.delete(vitoSession.id);
       } catch (err) {
         if (err instanceof HarnessSessionLostError) {
           // Underlying session storage is gone. Drop the harness so the next
@@ -547,13 +997,19 @@ export class OrchestratorV2 {
         return;
       } finally {
         this.activeRequests.delete(event.sessionKey);
+        // Steers the run ended before delivering go back to the front of the
+        // queue (unless the turn was stopped, which clears the queue anyway).
+        const undelivered = persistedHarness.takeUndeliveredSteers();
+        if (undelivered.length > 0 && !abortController.signal.aborted) {
+          this.requeueFront(event.sessionKey, steered.filter((s) => undelivered.includes(s.prompt)));
+        }
       }
 
       if (channel) {
         this.notifyResponseComplete(channel);
       }
 
-      // Background: chunk + embed; periodic profile update.
+      // Background: chunk + embed, then extract facts from new chunks; periodic profile update.
       const contextualizerModel = effectiveSettings.memory?.chunkContextualizerModel?.name;
       maybeEmbedNewChunks(vitoSession.id, { contextualizerModel }).then((embResult) => {
         if (embResult) {
@@ -567,8 +1023,13 @@ export class OrchestratorV2 {
             duration_ms: embResult.duration_ms,
           });
         }
+        return maybeExtractFacts();
+      }).then((factResult) => {
+        if (factResult.skipped !== "no_pending_chunks" && factResult.skipped !== "disabled") {
+          tracedHarness.writePostRunLine({ type: "fact_extraction", ...factResult });
+        }
       }).catch((err) => {
-        console.error(`[v2 Embeddings] Background embedding failed:`, err);
+        console.error(`[v2 Embeddings] Background embedding or fact extraction failed:`, err);
       });
     } catch (err) {
       // Safety net: stop typing on any error before/during run setup.
@@ -579,6 +1040,20 @@ export class OrchestratorV2 {
     }
   }
 
+  /** Persist a user message that won't get a turn (not addressed, over budget). */
+  private storeUserMessage(sessionId: string, event: InboundEvent, userContent: unknown): void {
+    this.queries.insertMessage({
+      session_id: sessionId,
+      channel: event.channel,
+      channel_target: event.target,
+      timestamp: event.timestamp,
+      type: "user",
+      content: JSON.stringify(userContent),
+      archived: 0,
+      author: event.author ?? null,
+    });
+  }
+
   // ────────────────────────────────────────────────────────────────────────
   // PI SESSION LIFECYCLE
   // ────────────────────────────────────────────────────────────────────────
@@ -602,19 +1077,26 @@ export class OrchestratorV2 {
     const globalCcConfig = this.config.harnesses?.["claude-code"];
     const ccOverrides = settings["claude-code"] || {};
 
-    const model = (harnessName === "claude-code"
+    let model = (harnessName === "claude-code"
       ? ccOverrides.model || globalCcConfig?.model
       : piOverrides.model || globalPiConfig?.model)
       || { provider: "anthropic", name: "claude-sonnet-4-20250514" };
-    const openRouterProvider = harnessName === "pi-coding-agent"
+    let openRouterProvider = harnessName === "pi-coding-agent"
       ? (piOverrides.openRouterProvider || globalPiConfig?.openRouterProvider)
       : undefined;
 
+    // Stay on a fallback model until its cooldown ends
+    const fallback = harnessName === "pi-coding-agent" ? this.getActiveFallback(vitoSessionId) : null;
+    if (fallback) {
+      model = { provider: fallback.provider, name: fallback.name };
+      openRouterProvider = fallback.openRouterProvider;
+    }
+
     const existing = this.harnesses.get(vitoSessionId);
     if (existing) {
       const existingName = this.harnessNames.get(vitoSessionId);
       if (existingName === harnessName) {
-        const desiredString = `${model.provider}/${model.name}${openRouterProvider ? `@${openRouterProvider}` : ""}`;
+        const desiredString = formatModelRef({ ...model, openRouterProvider });
         if (existing.getModel?.() !== desiredString && existing.setModel) {
           try {
             await existing.setModel({ ...model, openRouterProvider });
@@ -659,6 +1141,36 @@ export class OrchestratorV2 {
     return harness;
   }
 
+  /** The session's fallback model while its cooldown lasts; clears it once expired. */
+  private getActiveFallback(vitoSessionId: string): ModelRef | null {
+    const fallback = this.modelFallbacks.get(vitoSessionId);
+    if (!fallback) return null;
+    if (Date.now() < fallback.until) return fallback.model;
+    this.modelFallbacks.delete(vitoSessionId);
+    console.log(`[v2] Fallback cooldown over for ${vitoSessionId}; returning to the configured model`);
+    return null;
+  }
+
+  /**
+   * Models to try after the current one fails: the configured chain
+   * (model, ...fallbackModels) past wherever the session is now. Pi only.
+   */
+  private getFallbackModels(settings: ResolvedSettings, harness: Harness): ModelRef[] {
+    if (this.resolveHarnessName(settings) !== "pi-coding-agent") return [];
+    const globalPiConfig = this.config.harnesses?.["pi-coding-agent"];
+    const piOverrides = settings["pi-coding-agent"] || {};
+    const fallbackModels = piOverrides.fallbackModels || globalPiConfig?.fallbackModels || [];
+    if (fallbackModels.length === 0) return [];
+
+    const primary = piOverrides.model || globalPiConfig?.model;
+    const chain: ModelRef[] = primary
+      ? [{ ...primary, openRouterProvider: piOverrides.openRouterProvider || globalPiConfig?.openRouterProvider }, ...fallbackModels]
+      : fallbackModels;
+    const current = harness.getModel?.();
+    const index = chain.findIndex((m) => formatModelRef(m) === current);
+    return index >= 0 ? chain.slice(index + 1) : fallbackModels;
+  }
+
   private resolveHarnessName(settings: ResolvedSettings): HarnessName {
     const name = settings.harness ?? "pi-coding-agent";
     if (name === "pi-coding-agent" || name === "claude-code") return name;
@@ -684,15 +1196,18 @@ export class OrchestratorV2 {
    * archived because /new archives messages immediately, so the messages
    * we want to seed with are flagged archived by the time we get here.
    * Skips thoughts and tool messages — only conversational user/assistant
-   * turns are useful as context.
+   * turns are useful as context. In a fork (`forkedFrom`), these are the
+   * messages copied from the parent, so the block says so.
    */
-  private buildHistoryBlock(vitoSessionId: string, limit: number): string | null {
+  private buildHistoryBlock(vitoSessionId: string, limit: number, forkedFrom?: string | null): string | null {
+    const cutoff = this.historyCutoffs.get(vitoSessionId);
     const recent = this.queries.getRecentMessages(
       vitoSessionId,
       limit,
       false, // includeTools
       false, // includeThoughts
       true,  // includeArchived — /new archives the messages we want to seed from
+      cutoff,
     );
     if (recent.length === 0) return null;
 
@@ -715,7 +1230,11 @@ export class OrchestratorV2 {
 
     return [
       "<history>",
-      "These are the last messages from before /new — provided as context only. Treat as background; the user's actual new message follows below.",
+      cutoff !== undefined
+        ? "These are the messages before the one the user just edited — continue from here. The edited message follows below."
+        : forkedFrom
+          ? `This session is a fork of ${forkedFrom}; these are the last messages up to the fork point. Continue from here — the user's actual new message follows below.`
+          : "These are the last messages from before /new — provided as context only. Treat as background; the user's actual new message follows below.",
       "",
       lines.join("\n\n"),
       "</history>",
@@ -757,7 +1276,10 @@ export class OrchestratorV2 {
 
     const queue = this.sessionQueues.get(sessionKey);
     const queuedCount = queue?.length || 0;
-    if (queue) queue.length = 0;
+    if (queue && queuedCount > 0) {
+      queue.length = 0;
+      this.emitQueueChange(sessionKey);
+    }
 
     const active = this.activeRequests.get(sessionKey);
     let aborted = false;
@@ -782,6 +1304,198 @@ export class OrchestratorV2 {
     await handler.stopTyping?.();
   }
 
+  /**
+   * /queue — list messages waiting behind the in-flight turn.
+   * /queue drop <n> — remove the nth queued message.
+   * /queue move <n> <position> — reorder (position 1 = runs next).
+   * /queue clear — drop everything queued (the running turn keeps going).
+   * Handled ahead of the queue so it answers mid-turn.
+   */
+  private async handleQueueCommand(event: InboundEvent, channel: Channel): Promise<void> {
+    const handler = channel.createHandler(event);
+    const sessionKey = event.sessionKey;
+    const [, action = "", ...args] = (event.content?.trim() || "").split(/\s+/);
+    const queue = this.getQueue(sessionKey);
+    const pick = (arg: string | undefined) => {
+      const n = parseInt(arg ?? "", 10);
+      return Number.isFinite(n) && n >= 1 && n <= queue.length ? queue[n - 1] : null;
+    };
+
+    let message: string;
+    switch (action.toLowerCase()) {
+      case "": {
+        if (queue.length === 0) {
+          message = "📭 Nothing queued.";
+          break;
+        }
+        const lines = queue.map((item, i) => {
+          const text = item.content.replace(/\s+/g, " ").trim();
+          const preview = text.length > 80 ? `${text.slice(0, 80)}…` : text || "(attachment)";
+          return `${i + 1}. ${item.author}: ${preview}`;
+        });
+        message = `📬 ${queue.length} queued:\n${lines.join("\n")}\n\n\`/queue drop <n>\` · \`/queue move <n> <position>\` · \`/queue clear\``;
+        break;
+      }
+      case "drop": {
+        const item = pick(args[0]);
+        message = item && this.dropQueued(sessionKey, item.id)
+          ? `🗑️ Dropped #${args[0]}.`
+          : `Couldn't find #${args[0] ?? "?"} in the queue, boss. Check \`/queue\`.`;
+        break;
+      }
+      case "move": {
+        const item = pick(args[0]);
+        const position = parseInt(args[1] ?? "", 10);
+        if (!item || !Number.isFinite(position) || position < 1) {
+          message = "Usage: `/queue move <n> <position>` — see `/queue` for numbers.";
+          break;
+        }
+        this.moveQueued(sessionKey, item.id, position - 1);
+        message = `↕️ Moved #${args[0]} to position ${Math.min(position, queue.length)}.`;
+        break;
+      }
+      case "clear": {
+        const queued = this.sessionQueues.get(sessionKey);
+        if (queued && queued.length > 0) {
+          queued.length = 0;
+          this.emitQueueChange(sessionKey);
+        }
+        message = queue.length > 0
+          ? `🗑️ Cleared ${queue.length} queued message${queue.length > 1 ? "s" : ""}.`
+          : "📭 Nothing queued.";
+        break;
+      }
+      default:
+        message = "Usage: `/queue`, `/queue drop <n>`, `/queue move <n> <position>`, `/queue clear`.";
+    }
+
+    await handler.relay(message);
+    await handler.stopTyping?.();
+  }
+
+  /**
+   * /status — what the session is doing: harness, live model, whether a turn
+   * is running, queue depth, context usage, last compaction, cost to date and
+   * the effective settings. Priority command, so it answers mid-turn.
+   */
+  private async handleStatusCommand(event: InboundEvent, channel: Channel): Promise<void> {
+    const vitoSession = this.sessionManager.resolveSession(event.sessionKey);
+    const handler = channel.createHandler(event);
+    const settings = getEffectiveSettings(this.config, event.channel, event.sessionKey);
+    const harness = this.harnesses.get(vitoSession.id);
+    const formatTime = (ms: number) =>
+      new Date(ms).toLocaleString("en-US", { timeZone: this.config.settings?.timezone, dateStyle: "medium", timeStyle: "short" });
+
+    const harnessName = this.harnessNames.get(vitoSession.id) ?? this.resolveHarnessName(settings);
+    const model = harness?.getModel?.() ?? this.getModelString(settings);
+    const fallbackUntil = this.getActiveFallback(vitoSession.id) ? this.modelFallbacks.get(vitoSession.id)?.until : undefined;
+    const active = this.activeRequests.get(event.sessionKey);
+    const queued = this.getQueue(event.sessionKey).length;
+
+    const lines = [
+      `🧭 **Status** — \`${event.sessionKey}\``,
+      `Harness: \`${harnessName}\`${harness ? "" : " (not started)"}`,
+      `Model: \`${model}\`${fallbackUntil ? ` (fallback until ${formatTime(fallbackUntil)})` : ""}`,
+      `Run: ${active ? (active.aborted ? "⏹️ stopping" : "▶️ running") : "💤 idle"}`,
+      `Queue: ${queued === 0 ? "empty" : `${queued} waiting`}`,
+    ];
+
+    const context = harness?.getContextStatus?.();
+    if (context) {
+      lines.push(context.tokens === null
+        ? `Context: unknown / ${context.contextWindow.toLocaleString()} tokens`
+        : `Context: ${context.tokens.toLocaleString()} / ${context.contextWindow.toLocaleString()} tokens (${Math.round((context.tokens / context.contextWindow) * 100)}%)`);
+      lines.push(context.lastCompaction
+        ? `Last compaction: ${formatTime(context.lastCompaction.timestamp)} (${context.lastCompaction.tokensBefore.toLocaleString()} tokens before)`
+        : "Last compaction: never");
+    } else {
+      lines.push("Context: no live session yet");
+    }
+
+    const usage = this.queries.getUsageTotals(0, Date.now() + 1, { sessionId: vitoSession.id });
+    lines.push(`Cost: $${usage.cost.toFixed(2)} over ${usage.turns} turn${usage.turns === 1 ? "" : "s"}`);
+
+    lines.push(
+      "",
+      `Settings: stream \`${settings.streamMode}\` · queue \`${settings.queueMode}\` · mention ${settings.requireMention === false ? "not required" : "required"}${settings.customInstructions ? " · custom instructions" : ""}`
+    );
+
+    await handler.relay(lines.join("\n"));
+    await handler.stopTyping?.();
+  }
+
+  /**
+   * /budget — show spend against the caps that apply to this session.
+   * /budget override [hours] — owner only; skip caps for this session (default 24h).
+   * /budget clear — owner only; drop the override.
+   */
+  private async handleBudgetCommand(event: InboundEvent, channel: Channel): Promise<void> {
+    const handler = channel.createHandler(event);
+    const [, action = "", hoursArg] = (event.content?.trim() || "").split(/\s+/);
+
+    if (action === "override" || action === "clear") {
+      if (!this.isOwner(event)) {
+        await handler.relay("🔒 Only the owner can change budget overrides.");
+        await handler.stopTyping?.();
+        return;
+      }
+      if (action === "clear") {
+        this.budgetOverrides.delete(event.sessionKey);
+        await handler.relay("✅ Budget override cleared — caps apply again.");
+        await handler.stopTyping?.();
+        return;
+      }
+      const hours = hoursArg ? Number(hoursArg) : 24;
+      if (!Number.isFinite(hours) || hours <= 0) {
+        await handler.relay("Couldn't parse that, boss. Use `/budget override [hours]`.");
+        await handler.stopTyping?.();
+        return;
+      }
+      this.budgetOverrides.set(event.sessionKey, Date.now() + hours * 3600_000);
+      await handler.relay(`✅ Spend caps lifted for this session for ${hours}h.`);
+      await handler.stopTyping?.();
+      return;
+    }
+
+    const caps = getBudgetStatus(this.config, this.queries, event);
+    const lines = caps.length === 0
+      ? ["No spend caps apply to this session."]
+      : caps.map((cap) => `${cap.spent >= cap.limit ? "🔴" : "🟢"} ${describeBudgetCap(cap)}`);
+    const overrideUntil = this.budgetOverrides.get(event.sessionKey);
+    if (overrideUntil && this.hasBudgetOverride(event.sessionKey)) {
+      lines.push(`\n⚠️ Override active until ${new Date(overrideUntil).toLocaleString("en-US", { timeZone: this.config.settings?.timezone || DEFAULT_TIMEZONE, dateStyle: "medium", timeStyle: "short" })}.`);
+    }
+    await handler.relay(lines.join("\n"));
+    await handler.stopTyping?.();
+  }
+
+  private hasBudgetOverride(sessionKey: string): boolean {
+    const until = this.budgetOverrides.get(sessionKey);
+    if (!until) return false;
+    if (until <= Date.now()) {
+      this.budgetOverrides.delete(sessionKey);
+      return false;
+    }
+    return true;
+  }
+
+  private isOwner(event: InboundEvent): boolean {
+    return resolveRole(this.config, event) === "owner";
+  }
+
+  /** Run a slash command if the author's role allows it. */
+  private async runCommand(match: CommandMatch, event: InboundEvent, channel: Channel, role: UserRole): Promise<string | void> {
+    const { command, args } = match;
+    if (command.minRole && !hasRole(role, command.minRole)) {
+      console.log(`[v2] ${event.sessionKey}: /${command.name} refused for ${event.author} (${role})`);
+      const handler = channel.createHandler(event);
+      await handler.relay(`🔒 /${command.name} is for ${command.minRole === "owner" ? "the owner" : "members"} only.`);
+      await handler.stopTyping?.();
+      return;
+    }
+    return command.handler({ event, channel, args });
+  }
+
   private async handleRestartCommand(event: InboundEvent, channel: Channel): Promise<void> {
     const { spawn } = await import("child_process");
     const handler = channel.createHandler(event);
@@ -864,6 +1578,7 @@ export class OrchestratorV2 {
           } else {
             console.log(`[v2 /new] background embed complete — ${embResult?.chunks_created ?? 0} chunk(s) for ${vitoSession.id}`);
           }
+          return maybeExtractFacts();
         })
         .catch((err) => {
           console.error(`[v2 /new] background embed failed for ${vitoSession.id}:`, err);
@@ -913,6 +1628,7 @@ export class OrchestratorV2 {
         return;
       }
       await innerHarness.setModel(model);
+      this.modelFallbacks.delete(vitoSession.id);
       await handler.relay(
         `✅ Switched live model: \`${currentModel}\` → \`${model.provider}/${model.name}\`\n\nNo /new needed. This is a runtime session change; config stays untouched.`
       );
@@ -925,6 +1641,37 @@ export class OrchestratorV2 {
     }
   }
 
+  /**
+   * /fork [message id] = branch the conversation into a new dashboard
+   * session, copying messages up to that point (default: everything so far).
+   * The original keeps going untouched; the fork's harness starts fresh and
+   * is seeded from the copied messages on its first turn.
+   */
+  private async handleForkCommand(event: InboundEvent, channel: Channel, args: string): Promise<void> {
+    const vitoSession = this.sessionManager.resolveSession(event.sessionKey);
+    const handler = channel.createHandler(event);
+
+    const messageId = args ? Number(args.replace(/^#/, "")) : undefined;
+    if (messageId !== undefined && !Number.isInteger(messageId)) {
+      await handler.relay("Couldn't parse that, boss. Use `/fork [message id]`.");
+      await handler.stopTyping?.();
+      return;
+    }
+
+    try {
+      const { session, copied } = this.sessionManager.forkSession(vitoSession.id, messageId);
+      console.log(`[v2 /fork] ${vitoSession.id} → ${session.id} (${copied} message(s) up to #${session.forked_from_message_id})`);
+      await handler.relay(
+        `🍴 Forked into \`${session.id}\` with ${copied} message${copied === 1 ? "" : "s"}.\n\nOpen it from the dashboard's Sessions view to continue there — this conversation stays as it was.`
+      );
+    } catch (err) {
+      console.error("[v2 /fork] failed:", err);
+      const message = err instanceof Error ? err.message : String(err);
+      await handler.relay(`❌ Fork failed: ${message}`);
+    }
+    await handler.stopTyping?.();
+  }
+
   /**
    * /compact = manual compaction of the live pi session. Pi summarizes older
    * turns and keeps the recent ones, so the conversation continues from
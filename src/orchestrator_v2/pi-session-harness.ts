@@ -18,6 +18,7 @@ import { getModel } from "@earendil-works/pi-ai/compat";
 import {
   createAgentSession,
   DefaultResourceLoader,
+  getLatestCompactionEntry,
   SessionManager as PiSessionManager,
   type AgentSession,
   type AgentSessionEvent,
@@ -25,7 +26,13 @@ import {
 import { existsSync, mkdirSync, readdirSync, unlinkSync, writeFileSync } from "fs";
 import { join } from "path";
 import { discoverSkills } from "../skills/discovery.js";
-import type { Harness, HarnessCallbacks, HarnessUsage, NormalizedEvent } from "../harnesses/types.js";
+import type {
+  Harness,
+  HarnessCallbacks,
+  HarnessContextStatus,
+  HarnessUsage,
+  NormalizedEvent,
+} from "../harnesses/types.js";
 
 /** Filename written into a sessionDir to request "fresh on next create". */
 const FRESH_MARKER_FILE = ".fresh";
@@ -142,11 +149,29 @@ async function waitForPiSessionSettled(piSession: AgentSession, getLastEventAt:
   console.warn("[v2 pi-session] Timed out waiting for pi session to settle after prompt; continuing to avoid a stuck relay.");
 }
 
+function getUserMessageText(message: unknown): string {
+  const content = (message as { content?: unknown })?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block) => block?.type === "text" && typeof block.text === "string")
+    .map((block) => block.text)
+    .join("");
+}
+
 export class PiSessionHarness implements Harness {
   private config: PiSessionHarnessConfig;
   private piSession: AgentSession | null = null;
   private storedSystemPrompt: string | null = null;
   private aborted = false;
+  /** Length of the agent's message list when the current/last run started */
+  private runStartMessageCount = 0;
+  /** Steered messages pi hasn't delivered into the run yet (see steer()) */
+  private pendingSteers: string[] = [];
+  /** Tool allowlist for the next run (null = the session's defaults) */
+  private allowedTools: string[] | null = null;
+  /** Tools pi enabled when the live session was created */
+  private defaultToolNames: string[] = [];
 
   constructor(config: PiSessionHarnessConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -206,6 +231,100 @@ export class PiSessionHarness implements Harness {
     await this.piSession.setModel(model);
   }
 
+  /**
+   * Queue a message into the in-flight run via pi's steering queue. Pi
+   * delivers it after the current assistant turn's tool calls, before the
+   * next LLM call, and keeps the loop going to answer it. Delivery is
+   * reported as a `steered` event from the run it joined.
+   */
+  async steer(message: string): Promise<boolean> {
+    if (!this.piSession?.isStreaming) return false;
+    this.pendingSteers.push(message);
+    try {
+      await this.piSession.steer(message);
+    } catch (err) {
+      this.pendingSteers = this.pendingSteers.filter((m) => m !== message);
+      throw err;
+    }
+    return true;
+  }
+
+  setAllowedTools(tools: string[] | null): void {
+    this.allowedTools = tools;
+  }
+
+  /**
+   * Switch the live session's active tools when the allowlist changed since
+   * the last run. Pi rebuilds the system prompt for the new set, so this
+   * costs one uncached turn — only paid when the role driving the session
+   * changes.
+   */
+  private applyAllowedTools(piSession: AgentSession): void {
+    const wanted = this.allowedTools ?? this.defaultToolNames;
+    const active = piSession.getActiveToolNames();
+    if (active.length === wanted.length && wanted.every((name) => active.includes(name))) return;
+    console.log(`[v2 pi-session] Active tools: ${wanted.join(", ") || "(none)"}`);
+    piSession.setActiveToolsByName(wanted);
+  }
+
+  /**
+   * Trim the failed run's user prompt and error reply from the in-memory
+   * agent state so a retry doesn't send them to the model. Pi's JSONL keeps
+   * them; only the live context is rewound.
+   */
+  discardFailedRun(): void {
+    if (!this.piSession) return;
+    const { state } = this.piSession.agent;
+    if (state.messages.length > this.runStartMessageCount) {
+      state.messages = state.messages.slice(0, this.runStartMessageCount);
+    }
+  }
+
+  /**
+   * Rewind through pi's session tree rather than starting over: navigating
+   * to a user message moves the leaf to its parent and rebuilds the agent
+   * context from that branch. The abandoned turns stay in the JSONL as a
+   * sibling branch, and the next prompt grows a new one.
+   */
+  async rewind(turnsBack: number, prompt: string): Promise<boolean> {
+    if (!this.piSession || this.piSession.isStreaming) return false;
+    const userEntries = this.piSession.sessionManager.getBranch().filter(
+      (entry) => entry.type === "message" && entry.message.role === "user"
+    );
+    const target = userEntries[userEntries.length - turnsBack];
+    if (!target || target.type !== "message") return false;
+
+    // Coalesced or unanswered messages don't map 1:1 onto pi prompts, so make
+    // sure we landed on the right one before cutting the branch.
+    const content = (target.message as { content?: unknown }).content;
+    const text = typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content.map((part) => (part?.type === "text" ? part.text : "")).join("\n")
+        : "";
+    if (prompt.trim() && !text.includes(prompt.trim())) {
+      console.warn("[v2 pi-session] Rewind target doesn't match the edited message — not rewinding");
+      return false;
+    }
+
+    const result = await this.piSession.navigateTree(target.id);
+    return !result.cancelled;
+  }
+
+  getContextStatus(): HarnessContextStatus | undefined {
+    if (!this.piSession) return undefined;
+    const usage = this.piSession.getContextUsage();
+    if (!usage) return undefined;
+    const compaction = getLatestCompactionEntry(this.piSession.sessionManager.getBranch());
+    return {
+      tokens: usage.tokens,
+      contextWindow: usage.contextWindow,
+      lastCompaction: compaction
+        ? { timestamp: Date.parse(compaction.timestamp), tokensBefore: compaction.tokensBefore }
+        : undefined,
+    };
+  }
+
   /**
    * Manually compact the live pi session. Pi summarizes older turns into a
    * single compaction entry while keeping recent turns intact, so the
@@ -348,6 +467,7 @@ export class PiSessionHarness implements Harness {
       }
 
       this.piSession = piSession;
+      this.defaultToolNames = piSession.getActiveToolNames();
       this.storedSystemPrompt = systemPrompt;
     }
 
@@ -391,14 +511,31 @@ export class PiSessionHarness implements Harness {
 
         case "message_update": {
           const msgEvent = event.assistantMessageEvent;
-          if (msgEvent.type === "text_delta") {
+          if (msgEvent.type === "thinking_end") {
+            currentThinkingText = msgEvent.content;
+          } else if (msgEvent.type === "text_delta") {
+            // Thinking precedes text in the message; emit it before the first
+            // delta so streamed output keeps the same order as the stored rows.
+            if (currentThinkingText && !hasEmittedThought) {
+              callbacks.onNormalizedEvent({ kind: "assistant", content: currentThinkingText });
+              currentThinkingText = "";
+              hasEmittedThought = true;
+            }
             currentMessageText += msgEvent.delta;
+            callbacks.onNormalizedEvent({ kind: "delta", content: msgEvent.delta });
           }
           break;
         }
 
         case "message_end":
-          if (event.message.role === "assistant") {
+          if (event.message.role === "user" && this.pendingSteers.length > 0) {
+            const text = getUserMessageText(event.message);
+            const index = this.pendingSteers.indexOf(text);
+            if (index >= 0) {
+              this.pendingSteers.splice(index, 1);
+              callbacks.onNormalizedEvent({ kind: "steered", content: text });
+            }
+          } else if (event.message.role === "assistant") {
             const messageAny = event.message as any;
             if (messageAny?.stopReason === "error" || messageAny?.errorMessage) {
               turnErrorMessage = messageAny?.errorMessage || "The model returned an error before producing a response.";
@@ -466,6 +603,9 @@ export class PiSessionHarness implements Harness {
 
     callbacks.onInvocation?.(this.buildCliCommand(userMessage));
 
+    this.applyAllowedTools(piSession);
+    this.runStartMessageCount = piSession.agent.state.messages.length;
+
     try {
       await piSession.prompt(userMessage);
       await waitForPiSessionSettled(piSession, () => lastPiEventAt);
@@ -502,6 +642,12 @@ export class PiSessionHarness implements Harness {
       if (usage && !hasEmittedUsage) {
         callbacks.onUsage?.(usage);
       }
+      // Steers that missed the loop (it ended or aborted first) would leak
+      // into the next prompt — drop them; the caller requeues them.
+      if (this.pendingSteers.length > 0) {
+        piSession.clearQueue();
+        this.pendingSteers = [];
+      }
       unsubscribe();
       signal?.removeEventListener("abort", abortHandler);
       // NOTE: do NOT dispose the session here — that's the whole point of v2.
@@ -0,0 +1,48 @@
+/**
+ * Re-embed CLI — rebuild embeddings.db vectors with the configured model
+ * after changing settings.memory.embedding.
+ *
+ *   npm run reembed -- --dry-run     how many chunks need it
+ *   npm run reembed                  re-embed them now
+ *
+ * Safe to run while vito-server is up (SQLite WAL); run it here or from the
+ * 🧠 Memory page, not both. Interrupted runs pick up where they stopped.
+ */
+
+import { getEmbeddingModelCounts, reembedChunks } from "./memory/embeddings.js";
+import { loadSecrets } from "./secrets.js";
+
+async function main() {
+  loadSecrets();
+  const dryRun = process.argv.includes("--dry-run");
+
+  for (const row of getEmbeddingModelCounts()) {
+    const label = row.model ? `${row.model} (${row.dimensions} dims)` : "no vector";
+    console.log(`${label}: ${row.count} chunk(s)`);
+  }
+
+  let lastLogged = 0;
+  const status = await reembedChunks({
+    dryRun,
+    onProgress: (s) => {
+      if (Date.now() - lastLogged < 2000 && s.done + s.failed < s.total) return;
+      lastLogged = Date.now();
+      console.log(`  ${s.done + s.failed}/${s.total}${s.failed ? ` (${s.failed} failed)` : ""}`);
+    },
+  });
+
+  if (dryRun) {
+    console.log(`\n[dry run] ${status.total} chunk(s) to re-embed with ${status.model}`);
+    return;
+  }
+  console.log(`\n${status.done} chunk(s) re-embedded with ${status.model}, ${status.failed} failed`);
+  if (status.failed > 0) {
+    console.error(`Last error: ${status.error}`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(`Re-embed failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
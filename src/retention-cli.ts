@@ -0,0 +1,51 @@
+/**
+ * Retention CLI — apply config.retention from the shell.
+ *
+ *   npm run retention -- --dry-run     what would be pruned
+ *   npm run retention                  prune now
+ *
+ * Safe to run while vito-server is up (SQLite WAL). Embedding before delete
+ * needs the same API keys as the server, read from user/secrets.json.
+ */
+
+import { resolve } from "path";
+import { loadConfig, USER_DIR } from "./config.js";
+import { Queries } from "./db/queries.js";
+import { createDatabase } from "./db/schema.js";
+import { runRetention, summarizeReport } from "./retention/retention.js";
+import { loadSecrets } from "./secrets.js";
+
+async function main() {
+  loadSecrets();
+  const config = loadConfig();
+  if (!config.retention) {
+    console.log('No "retention" section in vito.config.json — nothing to prune.');
+    return;
+  }
+
+  const dryRun = process.argv.includes("--dry-run");
+  const db = createDatabase(resolve(USER_DIR, "vito.db"));
+  try {
+    const report = await runRetention(new Queries(db), config.retention, {
+      dryRun,
+      contextualizerModel: config.settings?.memory?.chunkContextualizerModel?.name,
+    });
+    for (const rule of report.messages) {
+      const held = rule.heldBack > 0 ? `, ${rule.heldBack} kept (not embedded)` : "";
+      const embed = dryRun && rule.unembedded > 0 ? `, ${rule.unembedded} to embed first` : "";
+      console.log(`${rule.rule}: ${rule.deleted} deleted, ${rule.stripped} stripped${held}${embed}`);
+    }
+    if (config.retention.traces) console.log(`traces: ${report.traces} deleted`);
+    for (const f of report.files) {
+      console.log(`${f.target} (${f.dir}): ${f.deleted} file(s), ${(f.bytes / (1024 * 1024)).toFixed(1)} MB`);
+    }
+    console.log(`\n${summarizeReport(report)}`);
+  } finally {
+    db.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(`Retention failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
@@ -0,0 +1,347 @@
+/**
+ * RETENTION
+ *
+ * Prunes what otherwise grows forever, per config.retention:
+ *
+ *   messages      rules by age, channel and type — delete rows, or "strip"
+ *                 tool rows down to their name (args/result dropped)
+ *   traces        the system-prompt snapshot table, by age and/or row count
+ *   traceFiles    logs/trace-*.jsonl and request-*.log from TracingHarness
+ *   piSessions    user/pi-sessions/**.jsonl (the newest file per session stays)
+ *   logs          user/logs/ (PM2 output)
+ *   blobs         user/blobs/ offloaded tool results no message or trace
+ *                 file references
+ *
+ * Deleted user/assistant messages are embedded first (maybeEmbedNewChunks,
+ * forced) so semantic search still finds them; rows that can't be embedded
+ * right now are kept for the next run. Files written in the last few minutes
+ * are never touched. Every run returns a report; dryRun counts without
+ * changing anything.
+ */
+
+import { Cron } from "croner";
+import { existsSync, readFileSync, readdirSync, statSync, unlinkSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { blobPath, BLOBS_DIR, isBlobHash } from "../blobs/blobs.js";
+import { USER_DIR } from "../config.js";
+import type { Queries } from "../db/queries.js";
+import { getLastEmbeddedMessageId, maybeEmbedNewChunks } from "../memory/embeddings.js";
+import { DEFAULT_TIMEZONE } from "../system-instructions.js";
+import type {
+  FileRetentionRule,
+  MessagePruneFilter,
+  MessageRetentionRule,
+  MsgType,
+  RetentionConfig,
+  VitoConfig,
+} from "../types.js";
+
+const TRACE_FILES_DIR = resolve(process.cwd(), "logs");
+const PI_SESSIONS_DIR = resolve(USER_DIR, "pi-sessions");
+const USER_LOGS_DIR = resolve(USER_DIR, "logs");
+
+/** Files modified more recently than this are still being written */
+const RECENT_WRITE_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONVERSATIONAL_TYPES: MsgType[] = ["user", "assistant"];
+/** A blob ref as TracingHarness writes it into a trace line */
+const TRACE_BLOB_REF = /"blob":\{"hash":"([a-f0-9]{64})"/g;
+
+export interface MessageRuleReport {
+  rule: string;
+  /** Rows deleted (dry run: that would be) */
+  deleted: number;
+  /** Tool rows whose payloads were stripped */
+  stripped: number;
+  /** Covered user/assistant rows that weren't embedded when the run started */
+  unembedded: number;
+  /** Of those, rows kept because embedding them failed or was skipped */
+  heldBack: number;
+}
+
+export interface FileReport {
+  target: "traceFiles" | "piSessions" | "logs" | "blobs";
+  dir: string;
+  deleted: number;
+  bytes: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: number;
+  durationMs: number;
+  messages: MessageRuleReport[];
+  /** Rows deleted from the traces table */
+  traces: number;
+  files: FileReport[];
+}
+
+export interface RetentionOptions {
+  dryRun?: boolean;
+  /** Model for chunk context sentences when embedding before delete */
+  contextualizerModel?: string;
+}
+
+let running = false;
+let lastReport: RetentionReport | null = null;
+
+/** The most recent completed run (manual or scheduled), if any since startup. */
+export function getLastRetentionReport(): RetentionReport | null {
+  return lastReport;
+}
+
+export async function runRetention(
+  queries: Queries,
+  config: RetentionConfig,
+  opts: RetentionOptions = {}
+): Promise<RetentionReport> {
+  if (running) throw new Error("A retention run is already in progress");
+  running = true;
+  const startedAt = Date.now();
+  const dryRun = opts.dryRun === true;
+
+  try {
+    const report: RetentionReport = { dryRun, startedAt, durationMs: 0, messages: [], traces: 0, files: [] };
+
+    for (const rule of config.messages ?? []) {
+      report.messages.push(
+        await pruneMessages(queries, rule, {
+          dryRun,
+          embedFirst: config.embedBeforeDelete !== false,
+          contextualizerModel: opts.contextualizerModel,
+        })
+      );
+    }
+
+    if (config.traces) {
+      const { maxAgeDays, maxRows } = config.traces;
+      report.traces = queries.pruneTraces(
+        {
+          before: maxAgeDays !== undefined ? startedAt - ageMs(maxAgeDays) : undefined,
+          keep: maxRows,
+        },
+        dryRun
+      );
+    }
+
+    if (config.traceFiles) {
+      const files = listFiles(TRACE_FILES_DIR, false, isTraceFile);
+      report.files.push({ target: "traceFiles", dir: TRACE_FILES_DIR, ...pruneFiles(files, config.traceFiles, dryRun) });
+    }
+    if (config.piSessions) {
+      const files = listFiles(PI_SESSIONS_DIR, true, (name) => name.endsWith(".jsonl"));
+      // A session's newest file is the one its harness resumes from
+      const newestPerDir = new Map<string, FileEntry>();
+      for (const file of files) {
+        const current = newestPerDir.get(dirname(file.path));
+        if (!current || file.mtime > current.mtime) newestPerDir.set(dirname(file.path), file);
+      }
+      const keep = new Set([...newestPerDir.values()].map((f) => f.path));
+      report.files.push({ target: "piSessions", dir: PI_SESSIONS_DIR, ...pruneFiles(files, config.piSessions, dryRun, keep) });
+    }
+    if (config.logs) {
+      const files = listFiles(USER_LOGS_DIR, true, () => true);
+      report.files.push({ target: "logs", dir: USER_LOGS_DIR, ...pruneFiles(files, config.logs, dryRun) });
+    }
+    if (config.blobs) {
+      // After the message rules and trace files, so blobs only they pointed at are orphans now
+      const files = listFiles(BLOBS_DIR, true, isBlobHash);
+      const referenced = [...queries.getReferencedBlobHashes(), ...getTraceBlobHashes()];
+      const keep = new Set(referenced.filter(isBlobHash).map(blobPath));
+      report.files.push({ target: "blobs", dir: BLOBS_DIR, ...pruneFiles(files, config.blobs, dryRun, keep) });
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    if (!dryRun) lastReport = report;
+    return report;
+  } finally {
+    running = false;
+  }
+}
+
+/** One-line summary for logs and the CLI */
+export function summarizeReport(report: RetentionReport): string {
+  const deleted = report.messages.reduce((n, r) => n + r.deleted, 0);
+  const stripped = report.messages.reduce((n, r) => n + r.stripped, 0);
+  const heldBack = report.messages.reduce((n, r) => n + r.heldBack, 0);
+  const files = report.files.reduce((n, f) => n + f.deleted, 0);
+  const mb = report.files.reduce((n, f) => n + f.bytes, 0) / (1024 * 1024);
+  const parts = [
+    `${deleted} message(s) deleted`,
+    `${stripped} tool payload(s) stripped`,
+    `${report.traces} trace(s) deleted`,
+    `${files} file(s) deleted (${mb.toFixed(1)} MB)`,
+  ];
+  if (heldBack > 0) parts.push(`${heldBack} message(s) kept until they can be embedded`);
+  return `${report.dryRun ? "[dry run] " : ""}${parts.join(", ")}`;
+}
+
+export function describeRule(rule: MessageRetentionRule): string {
+  const action = rule.action === "strip" ? "strip" : "delete";
+  const types = rule.types?.length ? rule.types.join("/") : "all";
+  const channels = rule.channels?.length ? ` in ${rule.channels.join(", ")}` : "";
+  return `${action} ${types} older than ${rule.maxAgeDays}d${channels}`;
+}
+
+export function scheduleRetention(config: VitoConfig, queries: Queries): Cron | null {
+  const retention = config.retention;
+  if (!retention?.schedule) return null;
+  const timezone = config.settings?.timezone || DEFAULT_TIMEZONE;
+  const job = new Cron(retention.schedule, { timezone, protect: true }, async () => {
+    try {
+      const report = await runRetention(queries, retention, {
+        contextualizerModel: config.settings?.memory?.chunkContextualizerModel?.name,
+      });
+      console.log(`[Retention] ${summarizeReport(report)}`);
+    } catch (err) {
+      console.error("[Retention] Scheduled run failed:", err);
+    }
+  });
+  console.log(`[Retention] Scheduled "${retention.schedule}" (${timezone})`);
+  return job;
+}
+
+// ── Messages ──
+
+async function pruneMessages(
+  queries: Queries,
+  rule: MessageRetentionRule,
+  opts: { dryRun: boolean; embedFirst: boolean; contextualizerModel?: string }
+): Promise<MessageRuleReport> {
+  const report: MessageRuleReport = { rule: describeRule(rule), deleted: 0, stripped: 0, unembedded: 0, heldBack: 0 };
+  const filter: MessagePruneFilter = {
+    before: Date.now() - ageMs(rule.maxAgeDays),
+    channels: rule.channels,
+    types: rule.types,
+  };
+
+  if (rule.action === "strip") {
+    report.stripped = queries.stripToolPayloads(filter, opts.dryRun);
+    return report;
+  }
+
+  const coversConversation = !rule.types?.length || rule.types.some((t) => CONVERSATIONAL_TYPES.includes(t));
+  for (const sessionId of queries.getPrunableMessageSessions(filter)) {
+    if (!opts.embedFirst || !coversConversation) {
+      report.deleted += opts.dryRun
+        ? queries.countPrunableMessages(filter, sessionId)
+        : queries.deletePrunableMessages(filter, sessionId);
+      continue;
+    }
+
+    const total = queries.countPrunableMessages(filter, sessionId);
+    let embeddedThrough = getLastEmbeddedMessageId(sessionId);
+    const unembedded = total - queries.countPrunableMessages(filter, sessionId, embeddedThrough);
+    report.unembedded += unembedded;
+    if (opts.dryRun) {
+      report.deleted += total;
+      continue;
+    }
+
+    if (unembedded > 0) {
+      const result = await maybeEmbedNewChunks(sessionId, { force: true, contextualizerModel: opts.contextualizerModel });
+      if (result.skipped) console.warn(`[Retention] Embedding ${sessionId} skipped: ${result.skipped}`);
+      embeddedThrough = getLastEmbeddedMessageId(sessionId);
+    }
+    report.deleted += queries.deletePrunableMessages(filter, sessionId, embeddedThrough);
+    report.heldBack += queries.countPrunableMessages(filter, sessionId);
+  }
+  return report;
+}
+
+// ── Files ──
+
+interface FileEntry {
+  path: string;
+  size: number;
+  mtime: number;
+}
+
+function isTraceFile(name: string): boolean {
+  return (name.startsWith("trace-") && name.endsWith(".jsonl")) || (name.startsWith("request-") && name.endsWith(".log"));
+}
+
+/** Blob hashes the trace files still on disk point at — the Traces page loads them */
+function getTraceBlobHashes(): string[] {
+  const hashes = new Set<string>();
+  for (const file of listFiles(TRACE_FILES_DIR, false, (name) => name.startsWith("trace-") && name.endsWith(".jsonl"))) {
+    let text: string;
+    try {
+      text = readFileSync(file.path, "utf-8");
+    } catch {
+      continue; // Deleted since listing
+    }
+    for (const match of text.matchAll(TRACE_BLOB_REF)) hashes.add(match[1]);
+  }
+  return [...hashes];
+}
+
+function listFiles(dir: string, recursive: boolean, match: (name: string) => boolean): FileEntry[] {
+  if (!existsSync(dir)) return [];
+  const out: FileEntry[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) out.push(...listFiles(path, true, match));
+    } else if (entry.isFile() && match(entry.name)) {
+      const stats = statSync(path);
+      out.push({ path, size: stats.size, mtime: stats.mtimeMs });
+    }
+  }
+  return out;
+}
+
+/**
+ * Delete files older than maxAgeDays, then the oldest remaining ones until
+ * the total fits maxTotalMB. Recently written and `keep` files are skipped.
+ */
+function pruneFiles(
+  files: FileEntry[],
+  rule: FileRetentionRule,
+  dryRun: boolean,
+  keep = new Set<string>()
+): { deleted: number; bytes: number } {
+  const now = Date.now();
+  const eligible = files
+    .filter((f) => !keep.has(f.path) && now - f.mtime > RECENT_WRITE_MS)
+    .sort((a, b) => a.mtime - b.mtime);
+  const doomed = new Set<FileEntry>();
+
+  if (rule.maxAgeDays !== undefined) {
+    const cutoff = now - ageMs(rule.maxAgeDays);
+    for (const file of eligible) {
+      if (file.mtime < cutoff) doomed.add(file);
+    }
+  }
+  if (rule.maxTotalMB !== undefined) {
+    const limit = rule.maxTotalMB * 1024 * 1024;
+    let total = files.reduce((n, f) => n + (doomed.has(f) ? 0 : f.size), 0);
+    for (const file of eligible) {
+      if (total <= limit) break;
+      if (doomed.has(file)) continue;
+      doomed.add(file);
+      total -= file.size;
+    }
+  }
+
+  let deleted = 0;
+  let bytes = 0;
+  for (const file of doomed) {
+    if (!dryRun) {
+      try {
+        unlinkSync(file.path);
+      } catch (err) {
+        console.warn(`[Retention] Couldn't delete ${file.path}:`, err);
+        continue;
+      }
+    }
+    deleted++;
+    bytes += file.size;
+  }
+  return { deleted, bytes };
+}
+
+function ageMs(days: number): number {
+  if (!(days > 0)) throw new Error(`maxAgeDays must be a positive number (got ${days})`);
+  return days * DAY_MS;
+}
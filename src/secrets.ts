@@ -18,6 +18,8 @@ export const SYSTEM_KEYS: Record<string, string> = {
   // MCP server — required pair; if either is missing, MCP routes are not mounted
   MCP_CLIENT_ID: "MCP OAuth static client id (paired with MCP_CLIENT_SECRET — both required to mount /mcp)",
   MCP_CLIENT_SECRET: "MCP OAuth static client secret (paired with MCP_CLIENT_ID — both required to mount /mcp)",
+  // Backups
+  BACKUP_PASSPHRASE: "Passphrase that encrypts secrets.json in backups — keep a copy outside Vito, restores need it",
   // Provider API keys (auto-populated from PROVIDER_API_KEYS below)
 };
 
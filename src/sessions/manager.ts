@@ -1,4 +1,6 @@
+import { randomBytes } from "crypto";
 import type { Queries } from "../db/queries.js";
+import { skipEmbedding } from "../memory/embeddings.js";
 import type { SessionRow } from "../types.js";
 
 export class SessionManager {
@@ -36,6 +38,48 @@ export class SessionManager {
     return session;
   }
 
+  /**
+   * Branch a session at a message, leaving the original untouched. The fork
+   * is a new dashboard session holding the source's live messages up to and
+   * including `upToMessageId` (default: all of them). Its harness starts
+   * fresh, and the first turn is seeded from the copied messages (the
+   * orchestrator's <history> block). The copies are marked as embedded —
+   * the parent's chunks already cover them.
+   */
+  forkSession(sourceId: string, upToMessageId?: number): { session: SessionRow; copied: number } {
+    const source = this.queries.getSession(sourceId);
+    if (!source) throw new Error(`Session not found: ${sourceId}`);
+
+    let forkPoint = upToMessageId;
+    if (forkPoint !== undefined) {
+      const message = this.queries.getMessage(forkPoint);
+      if (!message || message.session_id !== sourceId || message.archived) {
+        throw new Error(`Message ${forkPoint} isn't part of ${sourceId}'s current conversation`);
+      }
+    } else {
+      forkPoint = this.queries.getRecentMessages(sourceId, 1)[0]?.id;
+      if (forkPoint === undefined) throw new Error(`Nothing to fork — ${sourceId} has no messages`);
+    }
+
+    const target = `fork-${randomBytes(4).toString("hex")}`;
+    const now = Date.now();
+    const session: SessionRow = {
+      id: `dashboard:${target}`,
+      channel: "dashboard",
+      channel_target: target,
+      created_at: now,
+      last_active_at: now,
+      config: source.config,
+      alias: `${source.alias || source.id} (fork)`,
+      parent_id: sourceId,
+      forked_from_message_id: forkPoint,
+    };
+    const copied = this.queries.forkSession(sourceId, session, forkPoint);
+    const [last] = this.queries.getRecentMessages(session.id, 1);
+    if (last) skipEmbedding(session.id, last.id - copied + 1, last.id, last.timestamp);
+    return { session, copied };
+  }
+
   /** Get a session by ID */
   getSession(id: string): SessionRow | undefined {
     return this.queries.getSession(id);
@@ -0,0 +1,369 @@
+/**
+ * SESSION EXPORT / IMPORT
+ *
+ * Gets a conversation out of vito.db without raw SQL — to archive it, read
+ * it, or move it to another instance. Three formats:
+ *   - json: lossless. The session row, every message (thoughts, tool_start/
+ *     tool_end and archived rows included), the attachment files inlined
+ *     as base64 and offloaded tool results in full. importSession()
+ *     recreates a session from it.
+ *   - md: a readable transcript
+ *   - html: a self-contained transcript page (inline styles, embedded images)
+ */
+
+import { randomUUID } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, join, resolve, sep } from "path";
+import { isBlobHash, readBlob, storeBlob } from "../blobs/blobs.js";
+import type { Queries } from "../db/queries.js";
+import type { MessageRow, MsgType, SessionRow } from "../types.js";
+
+export const SESSION_EXPORT_FORMAT = "vito-session";
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportFormat = "json" | "md" | "html";
+
+const MESSAGE_TYPES: MsgType[] = ["user", "thought", "assistant", "tool_start", "tool_end"];
+/** Attachment types allowed into an HTML export's data: URLs */
+const SAFE_MIME_TYPE = /^[\w.+-]+\/[\w.+-]+$/;
+
+export interface ExportedMessage {
+  type: MsgType;
+  timestamp: number;
+  /** Parsed from the stored JSON — a string, or { text, attachments } for user messages with files */
+  content: unknown;
+  archived: boolean;
+  author: string | null;
+  model: string | null;
+  channel: string | null;
+  channel_target: string | null;
+}
+
+export interface ExportedAttachment {
+  filename: string;
+  mimeType?: string;
+  /** File contents, base64 */
+  data: string;
+}
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: SessionRow;
+  messages: ExportedMessage[];
+  /** Attachment files keyed by the path the messages reference */
+  attachments: Record<string, ExportedAttachment>;
+  /** Full text of offloaded tool results, keyed by blob hash */
+  blobs?: Record<string, string>;
+}
+
+/**
+ * Everything about a session, in the JSON export format. Only attachment
+ * files under `attachmentsDir` are inlined.
+ */
+export function exportSession(queries: Queries, sessionId: string, attachmentsDir: string): SessionExport {
+  const session = queries.getSession(sessionId);
+  if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+  const messages = queries.getAllMessagesForSession(sessionId).map(toExportedMessage);
+  const attachments: Record<string, ExportedAttachment> = {};
+  const blobs: Record<string, string> = {};
+  for (const msg of messages) {
+    const hash = messageBlobHash(msg);
+    if (hash && !(hash in blobs)) {
+      const text = readBlob(hash);
+      if (text !== null) blobs[hash] = text;
+      else console.warn(`[Sessions] Export of ${sessionId}: tool result blob missing: ${hash}`);
+    }
+    for (const att of messageAttachments(msg)) {
+      if (!att.path || attachments[att.path]) continue;
+      if (!isInside(attachmentsDir, att.path)) {
+        console.warn(`[Sessions] Export of ${sessionId}: attachment outside ${attachmentsDir} skipped: ${att.path}`);
+        continue;
+      }
+      if (!existsSync(att.path)) {
+        console.warn(`[Sessions] Export of ${sessionId}: attachment missing on disk: ${att.path}`);
+        continue;
+      }
+      attachments[att.path] = {
+        filename: att.filename || basename(att.path),
+        mimeType: att.mimeType,
+        data: readFileSync(att.path).toString("base64"),
+      };
+    }
+  }
+
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    session,
+    messages,
+    attachments,
+    blobs,
+  };
+}
+
+/**
+ * Recreate a session from a JSON export, under its original id or `id`.
+ * Attachment files are written to `attachmentsDir` and the messages pointed
+ * at the new copies; a path the export doesn't include a file for is
+ * dropped, so a message can't point at a file elsewhere on disk. Fork lineage is kept only if the parent session exists
+ * here.
+ */
+export function importSession(
+  queries: Queries,
+  data: unknown,
+  opts: { attachmentsDir: string; id?: string }
+): { session: SessionRow; imported: number } {
+  const exp = data as Partial<SessionExport> | null;
+  if (exp?.format !== SESSION_EXPORT_FORMAT || typeof exp.version !== "number") {
+    throw new Error(`Not a ${SESSION_EXPORT_FORMAT} export`);
+  }
+  if (exp.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Export version ${exp.version} is newer than this instance supports (${SESSION_EXPORT_VERSION})`);
+  }
+  if (!exp.session?.id || !Array.isArray(exp.messages)) {
+    throw new Error("Export is missing its session or messages");
+  }
+  for (const msg of exp.messages) {
+    if (!MESSAGE_TYPES.includes(msg?.type) || typeof msg.timestamp !== "number") {
+      throw new Error("Export contains an invalid message");
+    }
+  }
+
+  const id = opts.id?.trim() || exp.session.id;
+  if (queries.getSession(id)) {
+    throw new Error(`Session ${id} already exists — import it under another id`);
+  }
+
+  // Same "channel:target" split as SessionManager.resolveSession
+  const colonIdx = id.indexOf(":");
+  const renamed = id !== exp.session.id;
+  const parentExists = !!exp.session.parent_id && !!queries.getSession(exp.session.parent_id);
+  const session: SessionRow = {
+    id,
+    channel: renamed ? (colonIdx > 0 ? id.slice(0, colonIdx) : id) : exp.session.channel,
+    channel_target: renamed ? (colonIdx > 0 ? id.slice(colonIdx + 1) : "") : exp.session.channel_target,
+    created_at: exp.session.created_at ?? Date.now(),
+    last_active_at: exp.session.last_active_at ?? Date.now(),
+    config: typeof exp.session.config === "string" ? exp.session.config : "{}",
+    alias: exp.session.alias ?? null,
+    parent_id: parentExists ? exp.session.parent_id : null,
+    forked_from_message_id: parentExists ? exp.session.forked_from_message_id ?? null : null,
+  };
+
+  // Write attachment files first so the rows can point at the new paths
+  const newPaths = new Map<string, string>();
+  for (const [oldPath, att] of Object.entries(exp.attachments ?? {})) {
+    if (typeof att?.data !== "string") continue;
+    if (!existsSync(opts.attachmentsDir)) mkdirSync(opts.attachmentsDir, { recursive: true });
+    const filePath = join(opts.attachmentsDir, `${randomUUID()}-${basename(att.filename || oldPath)}`);
+    writeFileSync(filePath, Buffer.from(att.data, "base64"));
+    newPaths.set(oldPath, filePath);
+  }
+
+  for (const text of Object.values(exp.blobs ?? {})) {
+    if (typeof text === "string") storeBlob(text);
+  }
+
+  // Rows addressed to the old session's target follow it to the new id
+  const retarget = (msg: ExportedMessage) =>
+    renamed && msg.channel === exp.session!.channel && msg.channel_target === exp.session!.channel_target;
+  const rows = exp.messages.map((msg): Omit<MessageRow, "id" | "session_id"> => ({
+    channel: retarget(msg) ? session.channel : msg.channel ?? null,
+    channel_target: retarget(msg) ? session.channel_target : msg.channel_target ?? null,
+    timestamp: msg.timestamp,
+    type: msg.type,
+    content: JSON.stringify(relinkAttachments(msg.content, newPaths)),
+    archived: msg.archived ? 1 : 0,
+    author: msg.author ?? null,
+    model: msg.model ?? null,
+  }));
+
+  const imported = queries.importSession(session, rows);
+  return { session, imported };
+}
+
+// ── Transcripts ──
+
+export function renderSessionMarkdown(exp: SessionExport): string {
+  const lines: string[] = [
+    `# ${exp.session.alias || exp.session.id}`,
+    "",
+    `- Session: \`${exp.session.id}\``,
+    `- Exported: ${formatTime(exp.exportedAt)}`,
+    `- Messages: ${exp.messages.length}`,
+  ];
+  if (exp.session.parent_id) lines.push(`- Forked from: \`${exp.session.parent_id}\``);
+
+  for (const msg of exp.messages) {
+    lines.push("", "---", "", `### ${messageHeading(msg)}`, "");
+    if (msg.type === "tool_start" || msg.type === "tool_end") {
+      const payload = msg.type === "tool_start" ? toolField(msg, "args") : toolField(msg, "result", exp.blobs);
+      lines.push(codeFence(typeof payload === "string" ? payload : JSON.stringify(payload, null, 2) ?? ""));
+      continue;
+    }
+    lines.push(messageText(msg) || "_(empty)_");
+    for (const att of messageAttachments(msg)) {
+      lines.push("", `📎 ${att.filename || (att.path ? basename(att.path) : "attachment")}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderSessionHtml(exp: SessionExport): string {
+  const title = escapeHtml(exp.session.alias || exp.session.id);
+  const body = exp.messages.map((msg) => {
+    const heading = `<div class="meta">${escapeHtml(messageHeading(msg))}</div>`;
+    if (msg.type === "tool_start" || msg.type === "tool_end") {
+      const payload = msg.type === "tool_start" ? toolField(msg, "args") : toolField(msg, "result", exp.blobs);
+      const text = typeof payload === "string" ? payload : JSON.stringify(payload, null, 2);
+      return `<details class="msg tool${msg.archived ? " archived" : ""}"><summary>${escapeHtml(messageHeading(msg))}</summary><pre>${escapeHtml(text ?? "")}</pre></details>`;
+    }
+    const files = messageAttachments(msg).map((att) => {
+      const file = att.path ? exp.attachments[att.path] : undefined;
+      const name = escapeHtml(att.filename || file?.filename || "attachment");
+      if (!file) return `<div class="file">📎 ${name} (not included)</div>`;
+      // mimeType comes from the uploader or an imported export — only a plain type/subtype goes in the URL
+      const mimeType = file.mimeType && SAFE_MIME_TYPE.test(file.mimeType) ? file.mimeType : "application/octet-stream";
+      const src = escapeHtml(`data:${mimeType};base64,${file.data}`);
+      return mimeType.startsWith("image/")
+        ? `<img src="${src}" alt="${name}">`
+        : `<a class="file" download="${name}" href="${src}">📎 ${name}</a>`;
+    }).join("");
+    return `<div class="msg ${msg.type}${msg.archived ? " archived" : ""}">${heading}<div class="text">${escapeHtml(messageText(msg))}</div>${files}</div>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { background: #0a0a0a; color: #e5e5e5; font: 15px/1.5 system-ui, sans-serif; max-width: 900px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 20px; } .sub { color: #737373; font-size: 13px; margin-bottom: 24px; }
+.msg { border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; background: #262626; }
+.msg.user { background: #172554; margin-left: 10%; } .msg.thought { opacity: .7; }
+.msg.tool { background: #171717; font-size: 13px; } .msg.archived { opacity: .5; }
+.meta, summary { color: #a3a3a3; font-size: 12px; margin-bottom: 6px; cursor: default; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+pre { white-space: pre-wrap; word-wrap: break-word; background: #0a0a0a; padding: 8px; border-radius: 6px; }
+img { max-width: 100%; border-radius: 6px; margin-top: 8px; display: block; } .file { display: block; margin-top: 8px; color: #60a5fa; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="sub">${escapeHtml(exp.session.id)} · exported ${escapeHtml(formatTime(exp.exportedAt))} · ${exp.messages.length} messages</div>
+${body}
+</body>
+</html>
+`;
+}
+
+// ── Helpers ──
+
+interface StoredAttachment {
+  type?: string;
+  path?: string;
+  filename?: string;
+  mimeType?: string;
+}
+
+function toExportedMessage(row: MessageRow): ExportedMessage {
+  let content: unknown;
+  try {
+    content = JSON.parse(row.content);
+  } catch {
+    content = row.content;
+  }
+  return {
+    type: row.type,
+    timestamp: row.timestamp,
+    content,
+    archived: !!row.archived,
+    author: row.author,
+    model: row.model ?? null,
+    channel: row.channel,
+    channel_target: row.channel_target,
+  };
+}
+
+function messageAttachments(msg: ExportedMessage): StoredAttachment[] {
+  const atts = (msg.content as { attachments?: unknown } | null)?.attachments;
+  return msg.type === "user" && Array.isArray(atts) ? atts : [];
+}
+
+/** Point attachments at their imported copies; any other path is removed. */
+function relinkAttachments(content: unknown, newPaths: Map<string, string>): unknown {
+  const atts = (content as { attachments?: unknown } | null)?.attachments;
+  if (!Array.isArray(atts)) return content;
+  return {
+    ...(content as object),
+    attachments: atts.map((att: StoredAttachment) =>
+      att?.path ? { ...att, path: newPaths.get(att.path) } : att
+    ),
+  };
+}
+
+function isInside(dir: string, path: string): boolean {
+  return resolve(path).startsWith(resolve(dir) + sep);
+}
+
+function messageText(msg: ExportedMessage): string {
+  if (typeof msg.content === "string") return msg.content;
+  const text = (msg.content as { text?: unknown } | null)?.text;
+  return typeof text === "string" ? text : "";
+}
+
+function toolField(msg: ExportedMessage, field: "args" | "result", blobs?: Record<string, string>): unknown {
+  const hash = messageBlobHash(msg);
+  if (field === "result" && hash && blobs?.[hash] !== undefined) return blobs[hash];
+  return (msg.content as Record<string, unknown> | null)?.[field];
+}
+
+function messageBlobHash(msg: ExportedMessage): string | null {
+  if (msg.type !== "tool_end") return null;
+  const hash = (msg.content as { blob?: { hash?: unknown } } | null)?.blob?.hash;
+  return isBlobHash(hash) ? hash : null;
+}
+
+function messageHeading(msg: ExportedMessage): string {
+  const when = formatTime(msg.timestamp);
+  const archived = msg.archived ? " (archived)" : "";
+  const toolName = String((msg.content as { toolName?: unknown } | null)?.toolName ?? "tool");
+  switch (msg.type) {
+    case "user":
+      return `👤 ${msg.author || "user"} · ${when}${archived}`;
+    case "assistant":
+      return `🤖 assistant${msg.model ? ` (${msg.model})` : ""} · ${when}${archived}`;
+    case "thought":
+      return `💭 thought · ${when}${archived}`;
+    case "tool_start":
+      return `🔧 ${toolName} · ${when}${archived}`;
+    case "tool_end":
+      return `${(msg.content as { isError?: boolean } | null)?.isError ? "❌" : "✅"} ${toolName} result · ${when}${archived}`;
+  }
+}
+
+/** "2026-10-18 09:30:00 UTC" */
+function formatTime(ts: number): string {
+  return `${new Date(ts).toISOString().slice(0, 19).replace("T", " ")} UTC`;
+}
+
+/** A fence longer than any backtick run inside, so the block can't end early. */
+function codeFence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}\n${text}\n${fence}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
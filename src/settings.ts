@@ -11,6 +11,7 @@ import type { ResolvedSettings, Settings, VitoConfig } from "./types.js";
 const DEFAULTS: ResolvedSettings = {
   harness: "pi-coding-agent",
   streamMode: "stream",
+  queueMode: "sequential",
 };
 
 /**
@@ -26,6 +27,9 @@ function mergeSettings(base: Settings, override: Settings): Settings {
   if (override.streamMode !== undefined) {
     result.streamMode = override.streamMode;
   }
+  if (override.queueMode !== undefined) {
+    result.queueMode = override.queueMode;
+  }
   if (override.customInstructions !== undefined) {
     result.customInstructions = override.customInstructions;
   }
@@ -38,6 +42,13 @@ function mergeSettings(base: Settings, override: Settings): Settings {
   if (override.traceMessageUpdates !== undefined) {
     result.traceMessageUpdates = override.traceMessageUpdates;
   }
+  if (override.budget !== undefined) {
+    result.budget = {
+      ...base.budget,
+      ...override.budget,
+      cron: { ...base.budget?.cron, ...override.budget.cron },
+    };
+  }
 
   return result;
 }
@@ -83,7 +94,9 @@ export function getEffectiveSettings(
     customInstructions: settings.customInstructions,
     requireMention: settings.requireMention,
     traceMessageUpdates: settings.traceMessageUpdates ?? false,
+    queueMode: settings.queueMode || DEFAULTS.queueMode,
     "pi-coding-agent": settings["pi-coding-agent"],
+    budget: settings.budget,
   };
 }
 
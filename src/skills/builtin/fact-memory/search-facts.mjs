@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for looking up structured facts (subject · predicate · value)
+ * extracted from past conversations, falling back to chunk search.
+ *
+ * Usage:
+ *   node src/skills/builtin/fact-memory/search-facts.mjs "where does Mike live"
+ *   node src/skills/builtin/fact-memory/search-facts.mjs "allergies" --subject user
+ *   node src/skills/builtin/fact-memory/search-facts.mjs "Mike job" --history
+ *
+ * Facts come first. When none match, the same query runs through the
+ * hybrid chunk search (semantic-history-search) instead; --no-fallback
+ * turns that off. --history includes facts that are no longer true.
+ *
+ * This is a thin CLI wrapper around searchFacts() and searchMemory().
+ */
+
+import { searchFacts } from "../../../../dist/memory/facts.js";
+import { searchMemory } from "../../../../dist/memory/search.js";
+
+// ── Args ───────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const VALUE_FLAGS = ["--limit", "--subject"];
+const query = args.find((a, i) => !a.startsWith("--") && !VALUE_FLAGS.includes(args[i - 1]));
+const limit = args.includes("--limit") ? parseInt(args[args.indexOf("--limit") + 1]) : 10;
+const subject = args.includes("--subject") ? args[args.indexOf("--subject") + 1] : null;
+const includeHistory = args.includes("--history");
+const fallback = !args.includes("--no-fallback");
+
+if (!query && !subject) {
+  console.log('Usage: node src/skills/builtin/fact-memory/search-facts.mjs "your question" [--subject name] [--limit N] [--history] [--no-fallback]');
+  process.exit(1);
+}
+
+// ── Main ───────────────────────────────────────────────────
+
+function validity(fact) {
+  if (fact.valid_to) return `${fact.valid_from ?? "?"} → ${fact.valid_to}`;
+  return `since ${fact.valid_from ?? "?"}`;
+}
+
+async function main() {
+  console.log(`🔎 Facts: "${query ?? ""}"${subject ? ` (subject: ${subject})` : ""}\n`);
+
+  const facts = searchFacts(query ?? "", { limit, subject: subject || undefined, includeHistory });
+  if (facts.length > 0) {
+    for (const f of facts) {
+      const status = f.valid_to ? (f.superseded_by ? ` [superseded by #${f.superseded_by}]` : " [no longer true]") : "";
+      console.log(`#${f.id}  ${f.subject} · ${f.predicate} · ${f.value}${status}`);
+      console.log(`     ${validity(f)} | confidence ${f.confidence.toFixed(2)} | ${f.session_id} msgs ${f.source_msg_ids.length ? f.source_msg_ids.join(", ") : "—"}`);
+      for (const c of f.conflicts) {
+        console.log(`     ⚠️  conflicts with #${c.fact_id} "${c.value}" (since ${c.valid_from ?? "?"})${c.reason ? ` — ${c.reason}` : ""}`);
+      }
+    }
+    console.log(`\n📊 ${facts.length} fact(s). For the conversation behind one, search its session and day with semantic-history-search.`);
+    return;
+  }
+
+  console.log("No matching facts.");
+  if (!fallback || !query) return;
+
+  console.log("Falling back to conversation search...\n");
+  const results = await searchMemory(query, { limit: 5 });
+  if (results.length === 0) {
+    console.log("No results found.");
+    return;
+  }
+  for (let i = 0; i < results.length; i++) {
+    const r = results[i];
+    console.log(`━━━ #${i + 1} — RRF: ${r.rrfScore.toFixed(6)} ━━━`);
+    console.log(`📍 Session: ${r.sessionId} | Day: ${r.day} | Msgs: ${r.msgCount}`);
+    if (r.context) console.log(`🧠 ${r.context}`);
+    console.log(`\n${r.text.slice(0, 500)}${r.text.length > 500 ? "\n... (truncated)" : ""}\n`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
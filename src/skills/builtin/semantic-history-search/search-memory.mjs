@@ -8,24 +8,41 @@
  *   node src/skills/builtin/semantic-history-search/search-memory.mjs "DCA strategy" --limit 3
  *   node src/skills/builtin/semantic-history-search/search-memory.mjs "shoulder rehab" --session telegram:5473044160
  *   node src/skills/builtin/semantic-history-search/search-memory.mjs "Norma" --mode bm25
+ *   node src/skills/builtin/semantic-history-search/search-memory.mjs "gym plan last month"
+ *   node src/skills/builtin/semantic-history-search/search-memory.mjs "gym plan" --from 2026-03-01 --to 2026-03-31
  *
  * Modes: hybrid (default), embedding, bm25
+ * --no-rerank skips the rerank stage (settings.memory.rerank) for this search.
+ * --current-session id lets query rewriting (settings.memory.queryContextualizerModel)
+ * resolve "she", "that plan" etc. against that session's recent turns;
+ * --no-rewrite searches the query exactly as given.
+ * --from/--to YYYY-MM-DD limit the search to those days. Without them, a time
+ * phrase in the query ("last week", "in March", "3 months ago") does the same;
+ * --no-time-hints turns that off. --no-recency stops favouring recent chunks.
  *
- * This is a thin CLI wrapper around the shared searchMemory() function.
+ * This is a thin CLI wrapper around the shared searchMemoryWithTrace() function.
  */
 
-import { searchMemory } from "../../../../dist/memory/search.js";
+import { searchMemoryWithTrace } from "../../../../dist/memory/search.js";
 
 // ── Args ───────────────────────────────────────────────────
 
 const args = process.argv.slice(2);
-const query = args.find((a) => !a.startsWith("--"));
+const VALUE_FLAGS = ["--limit", "--session", "--mode", "--current-session", "--from", "--to"];
+const query = args.find((a, i) => !a.startsWith("--") && !VALUE_FLAGS.includes(args[i - 1]));
 const limit = args.includes("--limit") ? parseInt(args[args.indexOf("--limit") + 1]) : 5;
 const sessionFilter = args.includes("--session") ? args[args.indexOf("--session") + 1] : null;
 const mode = args.includes("--mode") ? args[args.indexOf("--mode") + 1] : "hybrid";
+const rerank = !args.includes("--no-rerank");
+const rewrite = !args.includes("--no-rewrite");
+const contextSessionId = args.includes("--current-session") ? args[args.indexOf("--current-session") + 1] : null;
+const from = args.includes("--from") ? args[args.indexOf("--from") + 1] : null;
+const to = args.includes("--to") ? args[args.indexOf("--to") + 1] : null;
+const timeHints = !args.includes("--no-time-hints");
+const recency = args.includes("--no-recency") ? { curve: "off" } : undefined;
 
 if (!query) {
-  console.log('Usage: node src/skills/builtin/semantic-history-search/search-memory.mjs "your search query" [--limit N] [--session id] [--mode hybrid|embedding|bm25]');
+  console.log('Usage: node src/skills/builtin/semantic-history-search/search-memory.mjs "your search query" [--limit N] [--session id] [--mode hybrid|embedding|bm25] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--no-time-hints] [--no-recency] [--current-session id] [--no-rewrite] [--no-rerank]');
   process.exit(1);
 }
 
@@ -36,12 +53,31 @@ async function main() {
   if (sessionFilter) console.log(`   Session filter: ${sessionFilter}`);
   console.log("");
 
-  const results = await searchMemory(query, {
+  const { results, trace } = await searchMemoryWithTrace(query, {
     limit,
     sessionFilter: sessionFilter || undefined,
     mode,
+    rerank,
+    rewrite,
+    contextSessionId: contextSessionId || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    timeHints,
+    recency,
   });
 
+  if (trace.time_filter) {
+    const { from: f, to: t, phrase } = trace.time_filter;
+    console.log(`📅 Days: ${f ?? "…"} → ${t ?? "now"}${phrase ? ` (from "${phrase}")` : ""}`);
+    console.log("");
+  }
+
+  if (trace.contextual_query) {
+    console.log(`✏️  Searched as: "${trace.contextual_query}"`);
+    for (const sub of trace.sub_queries ?? []) console.log(`   + "${sub}"`);
+    console.log("");
+  }
+
   if (results.length === 0) {
     console.log("No results found.");
     return;
@@ -58,7 +94,9 @@ async function main() {
         ? `Similarity: ${r.embeddingScore.toFixed(4)} (recency-adjusted)`
         : `BM25: ${r.bm25Score.toFixed(4)}`;
 
-    console.log(`━━━ #${i + 1} — ${scoreDetail} ━━━`);
+    const rerankDetail = r.rerankScore !== null ? `Rerank: ${r.rerankScore.toFixed(3)} (RRF #${r.rrfRank}) | ` : "";
+
+    console.log(`━━━ #${i + 1} — ${rerankDetail}${scoreDetail} ━━━`);
     console.log(`📍 Session: ${r.sessionId} | Day: ${r.day} | Msgs: ${r.msgCount}`);
     if (r.context) console.log(`🧠 ${r.context}`);
     console.log(`\n${r.text.slice(0, 500)}${r.text.length > 500 ? "\n... (truncated)" : ""}\n`);
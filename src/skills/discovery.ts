@@ -1,7 +1,31 @@
 import { readFileSync, existsSync, readdirSync } from "fs";
 import { resolve } from "path";
 import matter from "gray-matter";
-import type { SkillMeta } from "../types.js";
+import type { SkillCommandMeta, SkillMeta } from "../types.js";
+
+/** Parse the `commands` frontmatter list, dropping entries without a name. */
+function parseSkillCommands(raw: unknown): SkillCommandMeta[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const commands: SkillCommandMeta[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry.name !== "string") continue;
+    commands.push({
+      name: entry.name.replace(/^\//, "").toLowerCase(),
+      description: typeof entry.description === "string" ? entry.description : undefined,
+      args: Array.isArray(entry.args)
+        ? entry.args
+          .filter((arg: any) => arg && typeof arg.name === "string")
+          .map((arg: any) => ({
+            name: arg.name.toLowerCase(),
+            description: typeof arg.description === "string" ? arg.description : arg.name,
+            required: arg.required === true,
+          }))
+        : undefined,
+      prompt: typeof entry.prompt === "string" ? entry.prompt : undefined,
+    });
+  }
+  return commands.length > 0 ? commands : undefined;
+}
 
 /**
  * Scan a single skills directory for SKILL.md files and parse their metadata.
@@ -40,6 +64,7 @@ function scanSkillsDirectory(skillsDir: string, isBuiltin: boolean = false): Ski
         description,
         path: skillPath,
         isBuiltin,
+        commands: parseSkillCommands(data.commands),
       });
     } catch {
       // Skip malformed skill files
@@ -26,6 +26,8 @@ export interface InboundEvent {
   channel: string;
   target: string;
   author: string;
+  /** Stable platform user id (Telegram user id, Discord snowflake) — what access roles key on */
+  authorId?: string;
   timestamp: number;
   content: string;
   attachments?: Attachment[];
@@ -79,6 +81,12 @@ export function buildPromptText(
 
 export interface OutputHandler {
   relay(msg: OutboundMessage): Promise<void>;
+  /**
+   * Append streamed text to the in-progress message (stream mode, channels
+   * with capabilities.streaming). The whole message follows via relay() —
+   * treat that as the final version of the draft.
+   */
+  relayDelta?(delta: string): Promise<void>;
   /** Send a structured agent event (tool calls, thinking, etc.) to the UI */
   relayEvent?(event: AgentActivityEvent): Promise<void>;
   startTyping?(): Promise<void>;
@@ -106,6 +114,28 @@ export type OutboundMessage = string;
 
 export type StreamMode = "stream" | "bundled" | "final";
 
+// ── Queue types ──
+
+/**
+ * What happens to messages that arrive while a turn is running:
+ * - sequential: each runs as its own turn, in order
+ * - coalesce: everything queued by the time the turn ends runs as one turn
+ * - steer: injected into the running turn (pi steering) — the model sees it
+ *   before its next step. Falls back to sequential on harnesses that can't steer.
+ */
+export type QueueMode = "sequential" | "coalesce" | "steer";
+
+/** A message waiting behind the session's in-flight turn */
+export interface QueuedMessage {
+  id: number;
+  author: string;
+  channel: string;
+  content: string;
+  attachments: number;
+  timestamp: number;
+  queuedAt: number;
+}
+
 // ── Config types ──
 
 // ── Harness config types ──
@@ -118,6 +148,20 @@ export interface PiHarnessConfig {
   /** OpenRouter provider route override, e.g. "deepinfra". Omit/empty = auto. */
   openRouterProvider?: string;
   thinkingLevel?: "off" | "low" | "medium" | "high";
+  /**
+   * Models to try, in order, when a turn fails with a rate limit (429),
+   * provider error (5xx) or auth error before producing any output.
+   */
+  fallbackModels?: ModelRef[];
+  /** Minutes to stay on a fallback before going back to `model`. Default 15 */
+  fallbackCooldownMinutes?: number;
+}
+
+export interface ModelRef {
+  provider: string;
+  name: string;
+  /** OpenRouter provider route, as in PiHarnessConfig.openRouterProvider */
+  openRouterProvider?: string;
 }
 
 export interface ClaudeCodeHarnessConfig {
@@ -132,6 +176,41 @@ export interface ClaudeCodeHarnessConfig {
   binaryPath?: string;
 }
 
+// ── Access types ──
+
+/**
+ * - owner: everything, including owner-only commands (/restart, /model, ...)
+ * - member: full agent (all tools), everyday commands
+ * - guest: chat with a restricted tool set (access.guestTools)
+ */
+export type UserRole = "owner" | "member" | "guest";
+
+export interface AccessConfig {
+  /**
+   * Roles by "<channel>:<authorId>", e.g. "telegram:123456789" or
+   * "discord:677139888222502922" (InboundEvent.authorId).
+   */
+  users?: Record<string, UserRole>;
+  /** Role for authors not in `users`; "none" ignores them. Default "member" */
+  defaultRole?: UserRole | "none";
+  /** Tools guests' turns may use (pi tool names, e.g. "read"). Default none */
+  guestTools?: string[];
+}
+
+// ── Budget types ──
+
+export interface BudgetCaps {
+  /** Max spend (USD) per calendar day in settings.timezone */
+  daily?: number;
+  /** Max spend (USD) per calendar month in settings.timezone */
+  monthly?: number;
+}
+
+export interface BudgetSettings extends BudgetCaps {
+  /** Caps for cron-triggered runs, measured over cron spend only. Cron runs use the regular caps when unset. */
+  cron?: BudgetCaps;
+}
+
 // ── Unified Settings Type ──
 // This is the cascading settings type: Global → Channel → Session
 // Each level can override any setting. More specific wins.
@@ -141,6 +220,8 @@ export interface Settings {
   harness?: string;
   /** How to deliver responses: stream (real-time), bundled (chunks), final (single message) */
   streamMode?: StreamMode;
+  /** What to do with messages that arrive mid-turn. Default sequential */
+  queueMode?: QueueMode;
   /** Custom instructions injected into the system prompt — cascades Global → Channel → Session (most specific wins) */
   customInstructions?: string;
   /** Require @mention to respond (Discord/Telegram) — still logs all messages */
@@ -153,6 +234,12 @@ export interface Settings {
   "pi-coding-agent"?: Partial<PiHarnessConfig>;
   /** Claude Code harness overrides */
   "claude-code"?: Partial<ClaudeCodeHarnessConfig>;
+  /**
+   * Spend caps. Each cap is measured against spend in the scope of the layer
+   * that sets it: global → all spend, channel → that channel, session → that
+   * session. Omit a cap for no limit.
+   */
+  budget?: BudgetSettings;
   /** Memory pipeline settings */
   memory?: {
     /**
@@ -161,17 +248,87 @@ export interface Settings {
      * the OpenRouter-format identifier (e.g. "openai/gpt-5.5-nano").
      */
     chunkContextualizerModel?: { provider: string; name: string };
+    /**
+     * Model that rewrites memory search queries before they run: resolves
+     * references against the asking session's recent turns and adds
+     * sub-queries. Same format as chunkContextualizerModel. Global settings
+     * only; unset = queries are searched as given.
+     */
+    queryContextualizerModel?: { provider: string; name: string };
+    /**
+     * Embedding provider and model for chunks and search queries. Read from
+     * global settings only: vectors from different models can't be compared,
+     * so switching models means re-embedding (npm run reembed).
+     */
+    embedding?: EmbeddingSettings;
+    /** Second-stage scoring of fused search candidates. Global settings only; unset = off */
+    rerank?: RerankSettings;
+    /** How much older chunks' embedding scores are discounted. Global settings only */
+    recency?: RecencySettings;
+    /** Structured fact extraction from new chunks. Global settings only; on by default */
+    facts?: FactSettings;
   };
 }
 
+export type EmbeddingProviderId = "openai" | "openrouter" | "local";
+
+export interface EmbeddingSettings {
+  /** Default: openrouter if OPENROUTER_API_KEY is set, else openai */
+  provider?: EmbeddingProviderId;
+  /**
+   * openai/openrouter: OpenRouter-format id, default "openai/text-embedding-3-small".
+   * local: a Hugging Face ONNX model, default "Xenova/all-MiniLM-L6-v2" (runs on CPU,
+   * downloaded once to data/models/, no network after that).
+   */
+  model?: string;
+}
+
+export type RerankProviderId = "llm" | "local";
+
+export interface RerankSettings {
+  /** "llm": a chat model rates each candidate. "local": a cross-encoder on CPU (transformers.js) */
+  provider?: RerankProviderId;
+  /**
+   * llm: OpenRouter-format id, default "openai/gpt-5.4-nano".
+   * local: a Hugging Face ONNX cross-encoder, default "Xenova/ms-marco-MiniLM-L-6-v2".
+   */
+  model?: string;
+  /** Top fused (RRF) candidates to rerank — at least the search limit. Default 20 */
+  candidates?: number;
+}
+
+export interface FactSettings {
+  /**
+   * Default false — every chunk costs a chat call (recorded in the usage
+   * ledger). Turning it off stops extraction; stored facts stay searchable
+   */
+  enabled?: boolean;
+  /** OpenRouter-format id of the extracting chat model. Default "openai/gpt-5.4-nano" */
+  model?: string;
+  /** Facts the model is less sure of (0–1) aren't stored. Default 0.6 */
+  minConfidence?: number;
+}
+
+export type RecencyCurve = "hyperbolic" | "exponential" | "off";
+
+export interface RecencySettings {
+  /** Default "hyperbolic": score × 1 / (1 + days × rate). "exponential" halves it every halfLifeDays */
+  curve?: RecencyCurve;
+  /** Hyperbolic decay per day. Default 0.01 (a year-old chunk keeps ~21%) */
+  rate?: number;
+  /** Exponential half-life in days. Default 90 */
+  halfLifeDays?: number;
+}
+
 /** Deep merge helper type for settings resolution */
-export type ResolvedSettings = Required<Pick<Settings, "harness" | "streamMode">> & {
+export type ResolvedSettings = Required<Pick<Settings, "harness" | "streamMode" | "queueMode">> & {
   customInstructions?: string;
   requireMention?: boolean;
   traceMessageUpdates?: boolean;
   "pi-coding-agent"?: Partial<PiHarnessConfig>;
   "claude-code"?: Partial<ClaudeCodeHarnessConfig>;
   memory?: Settings["memory"];
+  budget?: BudgetSettings;
 };
 
 export interface VitoConfig {
@@ -179,6 +336,8 @@ export interface VitoConfig {
   bot?: {
     name: string;  // @mentions get normalized to @{name}
   };
+  /** Who may talk to the bot, and with what role */
+  access?: AccessConfig;
   /** Global default settings — baseline for all channels and sessions */
   settings: Settings;
   /** Global harness configurations (full configs, not overrides) */
@@ -194,6 +353,75 @@ export interface VitoConfig {
   cron: {
     jobs: CronJobConfig[];
   };
+  /** Snapshots of user/ (see src/backup/) */
+  backup?: BackupConfig;
+  /** Pruning of old messages, traces and log files (see src/retention/) */
+  retention?: RetentionConfig;
+}
+
+export interface BackupConfig {
+  /** Cron expression for scheduled backups (config timezone); unset = manual only */
+  schedule?: string;
+  /** Where snapshots go. Default: backups/ next to user/ */
+  dir?: string;
+  /** Scheduled backups to keep; older ones are pruned. Default: 7 */
+  keep?: number;
+  /** File or directory names to leave out. Default: ["node_modules", ".git", "logs", "embeddings-index"] */
+  exclude?: string[];
+}
+
+export interface RetentionConfig {
+  /** Cron expression for scheduled pruning (config timezone); unset = manual only */
+  schedule?: string;
+  /**
+   * Embed user/assistant messages into embeddings.db before deleting them,
+   * so they stay searchable. Messages that can't be embedded are kept. Default: true
+   */
+  embedBeforeDelete?: boolean;
+  /** Message rules, applied in order */
+  messages?: MessageRetentionRule[];
+  /** The traces table (system prompt snapshots) */
+  traces?: { maxAgeDays?: number; maxRows?: number };
+  /** Harness trace files in logs/ (trace-*.jsonl, request-*.log) */
+  traceFiles?: FileRetentionRule;
+  /** pi session JSONL files in user/pi-sessions/ — the newest file per session is always kept */
+  piSessions?: FileRetentionRule;
+  /** Process logs in user/logs/ */
+  logs?: FileRetentionRule;
+  /**
+   * Offloaded tool results in user/blobs/ that no message references any
+   * more (trace files may still point at them)
+   */
+  blobs?: FileRetentionRule;
+}
+
+export interface MessageRetentionRule {
+  /** Messages older than this are pruned */
+  maxAgeDays: number;
+  /** Only these channels (default: all) */
+  channels?: string[];
+  /** Only these message types (default: all) */
+  types?: MsgType[];
+  /**
+   * "delete" removes the rows (default). "strip" keeps tool_start/tool_end
+   * rows but drops their args/result payloads; other types are left alone.
+   */
+  action?: "delete" | "strip";
+}
+
+export interface FileRetentionRule {
+  /** Delete files not modified for this many days */
+  maxAgeDays?: number;
+  /** Then delete the oldest files until the total is under this size */
+  maxTotalMB?: number;
+}
+
+/** Which messages a retention rule covers (see Queries.countPrunableMessages) */
+export interface MessagePruneFilter {
+  /** Timestamp (ms) — only older messages */
+  before: number;
+  channels?: string[];
+  types?: MsgType[];
 }
 
 export interface ChannelConfig {
@@ -238,6 +466,26 @@ export interface MessageRow {
   content: string; // JSON string
   archived: number; // 0 or 1
   author: string | null; // username/tag of the sender (for user messages)
+  model?: string | null; // model that produced it (for thought/assistant messages)
+}
+
+/** Narrowing for full-text message search (see Queries.searchMessages) */
+export interface MessageSearchFilters {
+  sessionId?: string;
+  channel?: string;
+  author?: string;
+  types?: MsgType[];
+  /** Timestamp range in ms, `until` exclusive */
+  since?: number;
+  until?: number;
+  /** Archived rows are included by default */
+  archived?: "include" | "exclude" | "only";
+}
+
+/** A search match — the row without its content, plus a highlighted excerpt */
+export interface MessageSearchHit extends Omit<MessageRow, "content"> {
+  /** Excerpt with matched terms wrapped in SEARCH_MATCH_START / SEARCH_MATCH_END */
+  snippet: string;
 }
 
 export interface SessionRow {
@@ -248,6 +496,8 @@ export interface SessionRow {
   last_active_at: number;
   config: string; // JSON string of Settings
   alias: string | null;
+  parent_id?: string | null; // session this one was forked from
+  forked_from_message_id?: number | null; // last message copied from the parent
 }
 
 // ── Trace types ──
@@ -262,6 +512,35 @@ export interface TraceRow {
   model: string | null;
 }
 
+export interface UsageRow {
+  id: number;
+  timestamp: number;
+  session_id: string;
+  channel: string | null;
+  harness: string | null;
+  model: string | null;
+  /** Cron job name when the run was triggered by the scheduler */
+  cron_job: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  total_tokens: number;
+  /** Total cost in USD as reported by the harness */
+  cost: number;
+}
+
+/** Aggregated usage for one bucket/group in a rollup */
+export interface UsageSummary {
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
 // ── Skill types ──
 
 export interface SkillMeta {
@@ -269,4 +548,14 @@ export interface SkillMeta {
   description: string;
   path: string; // path to SKILL.md
   isBuiltin?: boolean; // true if skill is in src/skills/builtin/
+  commands?: SkillCommandMeta[]; // slash commands from the `commands` frontmatter
+}
+
+/** A slash command a skill contributes (see src/commands/registry.ts) */
+export interface SkillCommandMeta {
+  name: string;
+  description?: string;
+  args?: Array<{ name: string; description: string; required?: boolean }>;
+  /** Prompt sent to the agent; {{args}} is replaced with the command's arguments */
+  prompt?: string;
 }
@@ -174,6 +174,17 @@ declare module 'better-sqlite3' {
       defaultSafeIntegers(toggle?: boolean): this;
       unsafeMode(unsafe?: boolean): this;
       serialize(name?: string): Buffer;
+      backup(destinationFile: string, options?: BackupOptions): Promise<BackupMetadata>;
+    }
+
+    interface BackupMetadata {
+      totalPages: number;
+      remainingPages: number;
+    }
+
+    interface BackupOptions {
+      attached?: string;
+      progress?: (info: BackupMetadata) => number;
     }
 
     interface DatabaseConstructor {